@@ -1,25 +1,33 @@
 #!/usr/bin/env node
 
-// Load environment variables from .env file
+// Load environment variables from .env file; quietly, as stdout carries
+// MCP messages and analytics reports
 import dotenv from 'dotenv';
-dotenv.config();
+dotenv.config({ quiet: true });
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
 // Fixed chalk import for ESM
 import chalk from 'chalk';
-import { GanAuditor } from './src/auditor/gan-auditor.js';
+import { GanAuditor, DEFAULT_GAN_AUDITOR_CONFIG } from './src/auditor/gan-auditor.js';
 import { SynchronousAuditEngine } from './src/auditor/synchronous-audit-engine.js';
 import { SynchronousSessionManager } from './src/session/synchronous-session-manager.js';
+import { SessionSarifWriter } from './src/session/session-sarif-writer.js';
 import { CompletionEvaluator, type CompletionResult, type TerminationResult } from './src/auditor/completion-evaluator.js';
 import { LoopDetector, type DetailedStagnationAnalysis } from './src/auditor/loop-detector.js';
 import { EnhancedResponseBuilder } from './src/types/enhanced-response-builder.js';
 import { 
+  buildSynchronousConfigFromEnv,
   createRuntimeConfig, 
   getEnvironmentConfigSummary, 
   isSynchronousModeReady
@@ -43,9 +51,38 @@ import {
   formatAsToolResponse,
 } from './src/types/response-builder.js';
 import type { SerializationOptions } from './src/types/response-types.js';
+import { AuditTools, AUDIT_TOOLS, type AuditToolCallOptions } from './src/server/audit-tools.js';
+import { ANALYTICS_COMMAND, runAnalyticsCommand } from './src/server/analytics-command.js';
+import { SessionResources, SESSION_RESOURCE_TEMPLATES, type ResourceNotifier } from './src/server/session-resources.js';
+import { createProgressNotifier } from './src/server/progress-notifications.js';
+import type { AuditAndWaitOptions } from './src/auditor/synchronous-audit-engine.js';
+import { AuditCancelledError } from './src/types/error-types.js';
+import {
+  HttpTransportServer,
+  buildHttpTransportConfigFromEnv,
+  createMonitorHealthCheck,
+  resolveTransportMode,
+} from './src/server/http-transport.js';
+import { CodexJudge } from './src/codex/codex-judge.js';
+import { AuditCache } from './src/auditor/audit-cache.js';
+import { DEFAULT_DENIED_PATHS } from './src/auditor/outbound-redactor.js';
+import { clearBenchmarkBaselines } from './src/auditor/benchmark-runner.js';
+import { healthChecker } from './src/monitoring/health-checker.js';
+import { codexHealthMonitor } from './src/monitoring/codex-health-monitor.js';
+import { join } from 'path';
 
 // GansAuditorCodexThoughtData interface is now imported from types
 
+/**
+ * Components shared by the servers of several HTTP clients
+ */
+interface GansAuditorCodexServerOptions {
+  /** Keeps the client's sessions in their own state directory */
+  clientId?: string;
+  codexJudge?: CodexJudge;
+  auditCache?: AuditCache;
+}
+
 class GansAuditorCodexServer {
   private thoughtHistory: GansAuditorCodexThoughtData[] = [];
   private branches: Record<string, GansAuditorCodexThoughtData[]> = {};
@@ -56,8 +93,10 @@ class GansAuditorCodexServer {
   private completionEvaluator: CompletionEvaluator;
   private loopDetector: LoopDetector;
   private enhancedResponseBuilder: EnhancedResponseBuilder;
+  private auditTools: AuditTools;
+  private sarifWriter: SessionSarifWriter;
 
-  constructor() {
+  constructor(options: GansAuditorCodexServerOptions = {}) {
     // Initialize runtime configuration from environment variables
     const { config, validation } = createRuntimeConfig();
     this.runtimeConfig = config;
@@ -85,25 +124,48 @@ class GansAuditorCodexServer {
       readinessCheck.recommendations.forEach(rec => console.error(chalk.blue(`   - ${rec}`)));
     }
     
-    // Initialize GAN auditor with logging disabled by default to maintain existing console output format
+    // Initialize synchronous workflow components with configuration
+    const stateDirectory = this.runtimeConfig.synchronous.stateDirectory;
+    this.sessionManager = new SynchronousSessionManager({
+      stateDirectory: options.clientId ? join(stateDirectory, 'clients', options.clientId) : stateDirectory,
+      maxSessionAge: this.runtimeConfig.concurrency.maxSessionAge,
+      cleanupInterval: this.runtimeConfig.concurrency.sessionCleanupInterval,
+      storage: this.runtimeConfig.synchronous.sessionStorage,
+    });
+
+    // Keep a SARIF log of each session's latest audit next to its session file
+    this.sarifWriter = new SessionSarifWriter(this.sessionManager);
+
+    // Benchmark baselines are kept per session in memory and go with the session
+    this.sessionManager.on('sessionDeleted', clearBenchmarkBaselines);
+
+    // Initialize GAN auditor with logging disabled by default to maintain existing console output format.
+    // It shares the session manager so the session tools see its audits.
+    // It redacts requests before they reach Codex and logs what it withheld next to the sessions.
+    const { redactionDeniedPaths = [], redactionLogFile } = this.runtimeConfig.synchronous;
     this.ganAuditor = new GanAuditor({
       logging: {
         enabled: false,
         level: 'error',
       },
-    });
+      outboundRedaction: {
+        deniedPaths: [...DEFAULT_DENIED_PATHS, ...redactionDeniedPaths],
+        auditLogFile: redactionLogFile ?? join(this.sessionManager.getStateDirectory(), 'outbound-redactions.jsonl'),
+      },
+    }, this.sessionManager, undefined, options.codexJudge);
 
-    // Initialize synchronous workflow components with configuration
-    this.sessionManager = new SynchronousSessionManager({
-      stateDirectory: this.runtimeConfig.synchronous.stateDirectory,
-      maxSessionAge: this.runtimeConfig.concurrency.maxSessionAge,
-      cleanupInterval: this.runtimeConfig.concurrency.sessionCleanupInterval,
+    this.auditTools = new AuditTools({
+      auditor: this.ganAuditor,
+      sessionManager: this.sessionManager,
     });
 
     this.synchronousAuditEngine = new SynchronousAuditEngine({
       auditTimeout: this.runtimeConfig.auditTimeout.auditTimeoutSeconds * 1000,
       enabled: this.runtimeConfig.synchronous.enabled,
-    }, this.ganAuditor);
+      performance: {
+        cacheConfig: { directory: this.runtimeConfig.synchronous.auditCacheDirectory },
+      },
+    }, this.ganAuditor, options.auditCache);
 
     this.completionEvaluator = new CompletionEvaluator(this.runtimeConfig.completionCriteria);
     this.loopDetector = new LoopDetector({
@@ -309,13 +371,37 @@ class GansAuditorCodexServer {
     }
   }
 
+  /**
+   * Whether a tool other than gansauditor_codex is served
+   */
+  public handlesAuditTool(name: string): boolean {
+    return this.auditTools.handles(name);
+  }
+
+  /**
+   * Run one of the first-class audit and session tools
+   */
+  public async callAuditTool(name: string, args: unknown, options: AuditToolCallOptions = {}): Promise<GansAuditorCodexToolResponse> {
+    return this.auditTools.call(name, args, options);
+  }
+
+  /**
+   * Publish audit sessions as MCP resources, notifying through the given server
+   */
+  public createSessionResources(notifier: ResourceNotifier): SessionResources {
+    return new SessionResources(this.sessionManager, notifier);
+  }
+
   /**
    * Process a thought with optional GAN auditing
    * Requirement 6.1: Maintain existing gansauditor_codex tool name and input schema
    * Requirement 6.2: Support all existing parameters and preserve functionality
    * Requirement 6.4: Preserve all existing functionality and maintain backward compatibility
    */
-  public async processThought(input: unknown): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
+  public async processThought(
+    input: unknown,
+    auditOptions: AuditAndWaitOptions = {}
+  ): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
     try {
       const validatedInput = this.validateThoughtData(input);
 
@@ -349,7 +435,7 @@ class GansAuditorCodexServer {
 
       // Handle synchronous vs asynchronous audit workflow
       if (this.runtimeConfig.synchronous.enabled && this.shouldAuditThought(validatedInput)) {
-        return await this.processSynchronousWorkflow(validatedInput, standardResponse);
+        return await this.processSynchronousWorkflow(validatedInput, standardResponse, auditOptions);
       } else {
         return await this.processAsynchronousWorkflow(validatedInput, standardResponse);
       }
@@ -377,7 +463,8 @@ class GansAuditorCodexServer {
    */
   private async processSynchronousWorkflow(
     thought: GansAuditorCodexThoughtData,
-    standardResponse: GansAuditorCodexStandardResponse
+    standardResponse: GansAuditorCodexStandardResponse,
+    auditOptions: AuditAndWaitOptions
   ): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
     try {
       const sessionId = thought.branchId || `session-${Date.now()}`;
@@ -428,7 +515,7 @@ class GansAuditorCodexServer {
         console.error(chalk.cyan(`🔍 GAN Audit: STARTING (synchronous mode)`));
       }
 
-      const auditResult = await this.synchronousAuditEngine.auditAndWait(thought, sessionId);
+      const auditResult = await this.synchronousAuditEngine.auditAndWait(thought, sessionId, auditOptions);
 
       const envConfig2 = getEnvironmentConfigSummary();
       if (!envConfig2.disableThoughtLogging) {
@@ -465,6 +552,8 @@ class GansAuditorCodexServer {
 
       // Update session completion status
       if (completionResult.isComplete || terminationResult.shouldTerminate) {
+        // The audit and iteration writes above superseded the copy read at the start
+        Object.assign(sessionState, await this.sessionManager.getSession(sessionId));
         sessionState.isComplete = true;
         sessionState.completionReason = completionResult.reason;
         await this.sessionManager.updateSession(sessionState);
@@ -522,7 +611,8 @@ class GansAuditorCodexServer {
       const sessionId = thought.branchId || `session-${Date.now()}`;
       const loopId = (thought as any).loopId;
       
-      if (loopId) {
+      // A cancelled audit is not a session failure; its outcome is already recorded
+      if (loopId && !(error instanceof AuditCancelledError)) {
         try {
           await this.sessionManager.handleSessionFailure(sessionId, error instanceof Error ? error : new Error(String(error)));
         } catch (cleanupError) {
@@ -748,61 +838,103 @@ You should:
   }
 };
 
-const server = new Server(
-  {
-    name: "gansauditor-codex-server",
-    version: "0.2.0",
-  },
-  {
-    capabilities: {
-      tools: {},
+/**
+ * Create an MCP server answering from one GansAuditorCodexServer. The returned
+ * dispose stops its session resource notifications.
+ */
+function createMcpServer(gansAuditorCodexServer: GansAuditorCodexServer): { server: Server; dispose(): void } {
+  const server = new Server(
+    {
+      name: "gansauditor-codex-server",
+      version: "0.2.0",
     },
-  }
-);
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+      },
+    }
+  );
 
-const gansAuditorCodexServer = new GansAuditorCodexServer();
+  const sessionResources = gansAuditorCodexServer.createSessionResources(server);
 
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools: [GANSAUDITOR_CODEX_TOOL],
-}));
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    if (request.params.name === "gansauditor_codex") {
-      const result = await gansAuditorCodexServer.processThought(request.params.arguments);
-      return result;
-    }
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await sessionResources.listResources(),
+  }));
 
-    // Import error response utilities
-    const { createValidationError, toMcpToolResponse } = await import('./src/types/mcp-error-response.js');
-    
-    const errorResponse = createValidationError(
-      `Unknown tool: ${request.params.name}`,
-      `The requested tool '${request.params.name}' is not supported by this server`,
-      { 
-        requestedTool: request.params.name,
-        availableTools: ['gansauditor_codex'],
-        requestId: `req-${Date.now()}`
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: SESSION_RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: [await sessionResources.readResource(request.params.uri)],
+  }));
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    sessionResources.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    sessionResources.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [GANSAUDITOR_CODEX_TOOL, ...AUDIT_TOOLS],
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    try {
+      const progressToken = request.params._meta?.progressToken;
+      const callOptions = {
+        onProgress: progressToken !== undefined ? createProgressNotifier(server, progressToken) : undefined,
+        signal: extra?.signal,
+      };
+
+      if (request.params.name === "gansauditor_codex") {
+        const result = await gansAuditorCodexServer.processThought(request.params.arguments, callOptions);
+        return result;
       }
-    );
+
+      if (gansAuditorCodexServer.handlesAuditTool(request.params.name)) {
+        return await gansAuditorCodexServer.callAuditTool(request.params.name, request.params.arguments, callOptions);
+      }
+
+      // Import error response utilities
+      const { createValidationError, toMcpToolResponse } = await import('./src/types/mcp-error-response.js');
     
-    return toMcpToolResponse(errorResponse);
-  } catch (error) {
-    // Import error response utilities for catch block
-    const { createErrorResponseFromError, toMcpToolResponse } = await import('./src/types/mcp-error-response.js');
+      const errorResponse = createValidationError(
+        `Unknown tool: ${request.params.name}`,
+        `The requested tool '${request.params.name}' is not supported by this server`,
+        { 
+          requestedTool: request.params.name,
+          availableTools: ['gansauditor_codex', ...AUDIT_TOOLS.map(tool => tool.name)],
+          requestId: `req-${Date.now()}`
+        }
+      );
     
-    const errorResponse = createErrorResponseFromError(error, {
-      toolName: request.params.name,
-      requestId: `req-${Date.now()}`,
-      timestamp: new Date().toISOString()
-    });
+      return toMcpToolResponse(errorResponse);
+    } catch (error) {
+      // Import error response utilities for catch block
+      const { createErrorResponseFromError, toMcpToolResponse } = await import('./src/types/mcp-error-response.js');
     
-    // Log the error for server-side debugging
-    console.error(chalk.red(`⚠️  MCP request handler error: ${error instanceof Error ? error.message : String(error)}`));
+      const errorResponse = createErrorResponseFromError(error, {
+        toolName: request.params.name,
+        requestId: `req-${Date.now()}`,
+        timestamp: new Date().toISOString()
+      });
     
-    return toMcpToolResponse(errorResponse);
-  }
-});
+      // Log the error for server-side debugging
+      console.error(chalk.red(`⚠️  MCP request handler error: ${error instanceof Error ? error.message : String(error)}`));
+    
+      return toMcpToolResponse(errorResponse);
+    }
+  });
+
+  return { server, dispose: () => sessionResources.dispose() };
+}
 
 async function runServer() {
   // Validate Codex CLI availability before starting server
@@ -884,12 +1016,57 @@ async function runServer() {
     console.error(chalk.yellow('⚠️  GAN auditing disabled - Codex CLI validation skipped'));
   }
 
+  if (resolveTransportMode(process.env.GAN_AUDITOR_TRANSPORT) === 'http') {
+    await runHttpServer();
+    return;
+  }
+
+  const { server } = createMcpServer(new GansAuditorCodexServer());
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("GansAuditor_Codex MCP Server running on stdio");
 }
 
-runServer().catch((error) => {
-  console.error("Fatal error running server:", error);
-  process.exit(1);
-});
+/**
+ * Serve several clients over HTTP. Each client has its own thoughts and
+ * sessions; the Codex judge and the audit cache are shared.
+ */
+async function runHttpServer() {
+  const config = buildHttpTransportConfigFromEnv();
+  const codexJudge = new CodexJudge(DEFAULT_GAN_AUDITOR_CONFIG.codexJudge);
+  const auditCache = new AuditCache({ directory: buildSynchronousConfigFromEnv().auditCacheDirectory });
+  const clientServers = new Map<string, GansAuditorCodexServer>();
+
+  const httpServer = new HttpTransportServer(
+    config,
+    clientId => {
+      let clientServer = clientServers.get(clientId);
+      if (!clientServer) {
+        clientServer = new GansAuditorCodexServer({ clientId, codexJudge, auditCache });
+        clientServers.set(clientId, clientServer);
+      }
+      return createMcpServer(clientServer);
+    },
+    createMonitorHealthCheck(healthChecker, codexHealthMonitor)
+  );
+
+  healthChecker.start();
+  codexHealthMonitor.start();
+  const address = await httpServer.start();
+  console.error(`GansAuditor_Codex MCP Server running on http://${address.address}:${address.port} for ${config.clients.length} client(s)`);
+}
+
+if (process.argv[2] === ANALYTICS_COMMAND) {
+  // Exit once the report is written; the monitors imported above keep the process alive
+  runAnalyticsCommand(process.argv.slice(3)).then((output) => {
+    process.stdout.write(output.endsWith('\n') ? output : `${output}\n`, () => process.exit(0));
+  }).catch((error) => {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  });
+} else {
+  runServer().catch((error) => {
+    console.error("Fatal error running server:", error);
+    process.exit(1);
+  });
+}
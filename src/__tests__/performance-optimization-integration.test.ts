@@ -7,6 +7,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SynchronousAuditEngine, type SynchronousAuditEngineConfig } from '../auditor/synchronous-audit-engine.js';
+import type { AuditRunOptions } from '../types/integration-types.js';
 import { MemoryEfficientSessionManager } from '../session/memory-efficient-session-manager.js';
 import type { 
   GansAuditorCodexThoughtData, 
@@ -18,6 +19,7 @@ describe('Performance Optimization Integration', () => {
   let auditEngine: SynchronousAuditEngine;
   let sessionManager: MemoryEfficientSessionManager;
   let mockAuditor: IGansAuditorCodexAuditor;
+  let runJudges: ReturnType<typeof vi.fn>;
   let mockReview: GansAuditorCodexReview;
 
   beforeEach(() => {
@@ -45,8 +47,18 @@ describe('Performance Optimization Integration', () => {
       }],
     };
 
+    // Judges run only on cache misses of the cache the engine passes in
+    runJudges = vi.fn().mockResolvedValue(mockReview);
     mockAuditor = {
-      auditThought: vi.fn().mockResolvedValue(mockReview),
+      auditThought: vi.fn(async (thought: GansAuditorCodexThoughtData, _sessionId?: string, options?: AuditRunOptions) => {
+        const cached = await options?.cache?.get(thought.thought);
+        if (cached) {
+          return cached;
+        }
+        const review = await runJudges(thought);
+        await options?.cache?.set(thought.thought, review);
+        return review;
+      }),
     } as any;
 
     sessionManager = new MemoryEfficientSessionManager({
@@ -121,7 +133,7 @@ describe('Performance Optimization Integration', () => {
 
       expect(result1.success).toBe(true);
       expect(result1.review).toEqual(mockReview);
-      expect(mockAuditor.auditThought).toHaveBeenCalledTimes(1);
+      expect(runJudges).toHaveBeenCalledTimes(1);
 
       // Add iteration to session
       await sessionManager.addIteration(sessionId, {
@@ -138,8 +150,8 @@ describe('Performance Optimization Integration', () => {
 
       expect(result2.success).toBe(true);
       expect(result2.review).toEqual(mockReview);
-      // Should not call auditor again due to caching
-      expect(mockAuditor.auditThought).toHaveBeenCalledTimes(1);
+      // Should not run the judges again due to caching
+      expect(runJudges).toHaveBeenCalledTimes(1);
       
       // Cached result should be significantly faster
       expect(cachedAuditTime).toBeLessThan(firstAuditTime);
@@ -377,7 +389,7 @@ describe('Performance Optimization Integration', () => {
       expect(perfStats.cache?.hitRate).toBeGreaterThan(0);
 
       // Should have called auditor only for unique thoughts
-      expect(mockAuditor.auditThought).toHaveBeenCalledTimes(2);
+      expect(runJudges).toHaveBeenCalledTimes(2);
 
       // Add iterations to session
       for (const [index, thought] of [baseThought, modifiedThought].entries()) {
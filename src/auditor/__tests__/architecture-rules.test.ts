@@ -0,0 +1,126 @@
+/**
+ * Unit tests for declarative architecture rules
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, mkdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadArchitectureRules, checkArchitectureRules, parseYamlSubset } from '../architecture-rules.js';
+import { executeConformStep } from '../workflow-steps/conform-step.js';
+import type { EvidenceItem } from '../workflow-types.js';
+
+const STEERING_MARKDOWN = [
+  '# Structure',
+  '',
+  '```yaml architecture',
+  'layers:',
+  '  - name: types',
+  '    paths: [src/types/**]',
+  '    mayImport: []',
+  '  - name: utils',
+  '    paths:',
+  '      - src/utils/**',
+  '    mayImport: [types]',
+  '  - name: auditor',
+  '    paths: [src/auditor/**]',
+  'forbidden:',
+  '  - module: child_process',
+  '    from: [src/types/**]',
+  '    reason: "types must stay pure"',
+  'noCycles: true  # runtime cycles only',
+  '```'
+].join('\n');
+
+describe('Architecture Rules', () => {
+  let workspace: string;
+
+  const write = async (file: string, content: string) => {
+    await mkdir(join(workspace, file, '..'), { recursive: true });
+    await writeFile(join(workspace, file), content);
+  };
+
+  beforeEach(async () => {
+    workspace = await mkdtemp(join(tmpdir(), 'architecture-rules-test-'));
+    await write('.kiro/steering/structure.md', STEERING_MARKDOWN);
+    await write('src/auditor/engine.ts', "export const engine = 'engine';\n");
+    await write('src/types/model.ts', [
+      "import type { Helper } from '../utils/helper.js';",
+      "import { spawn } from 'node:child_process';",
+      'export interface Model { helper: Helper; spawn: typeof spawn; }'
+    ].join('\n'));
+    await write('src/utils/helper.ts', [
+      "import { engine } from '../auditor/engine.js';",
+      "import { format } from './format.js';",
+      "export type { Model } from '../types/model.js';",
+      'export interface Helper { name: string; }',
+      'export const helper = () => format(engine);'
+    ].join('\n'));
+    await write('src/utils/format.ts', [
+      "import { helper } from './helper.js';",
+      'export const format = (value: string) => value + typeof helper;'
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    await rm(workspace, { recursive: true, force: true });
+  });
+
+  it('should parse the YAML rules block from steering markdown', async () => {
+    const rules = await loadArchitectureRules(workspace, '.kiro/steering');
+
+    expect(rules?.layers.map(layer => [layer.name, layer.mayImport])).toEqual([
+      ['types', []],
+      ['utils', ['types']],
+      ['auditor', undefined]
+    ]);
+    expect(rules?.forbidden).toEqual([{ module: 'child_process', from: ['src/types/**'], reason: 'types must stay pure' }]);
+    expect(rules?.noCycles).toBe(true);
+    expect(parseYamlSubset('list:\n- a\n- "b"\nflag: false')).toEqual({ list: ['a', 'b'], flag: false });
+  });
+
+  it('should report layering, forbidden module and cycle violations citing the import', async () => {
+    const rules = (await loadArchitectureRules(workspace, '.kiro/steering'))!;
+    const violations = await checkArchitectureRules(workspace, ['src/types/model.ts', 'src/utils/helper.ts'], rules);
+
+    expect(violations.map(v => [v.file, v.line, v.importStatement])).toEqual([
+      ['src/types/model.ts', 1, "import type { Helper } from '../utils/helper.js';"],
+      ['src/types/model.ts', 2, "import { spawn } from 'node:child_process';"],
+      ['src/utils/helper.ts', 1, "import { engine } from '../auditor/engine.js';"],
+      ['src/utils/helper.ts', 2, "import { format } from './format.js';"]
+    ]);
+    expect(violations[0].violation).toContain('Layer types must not import layer utils');
+    expect(violations[1].violation).toContain('types must stay pure');
+    expect(violations[3].violation).toBe('Import cycle src/utils/helper.ts -> src/utils/format.ts -> src/utils/helper.ts');
+  });
+
+  it('should prefer architecture.json and reject invalid rules', async () => {
+    await write('.kiro/steering/architecture.json', JSON.stringify({ layers: [{ name: 'core', paths: ['src/**'], mayImport: ['ui'] }] }));
+
+    await expect(loadArchitectureRules(workspace, '.kiro/steering')).rejects.toThrow('layer core may import unknown layer ui');
+    expect(await loadArchitectureRules(workspace, 'missing-steering')).toBeNull();
+  });
+
+  it('should add CONFORM evidence for violations', async () => {
+    const outputs: Record<string, any> = {};
+    const evidence: EvidenceItem[] = [];
+    await executeConformStep({ workspacePath: workspace, touchedFiles: ['src/utils/helper.ts'] }, outputs, evidence);
+
+    expect(outputs.architectureViolations).toHaveLength(2);
+    const architecture = evidence.find(item => item.location === 'Architecture patterns');
+    expect(architecture?.proof).toContain("Layer utils at src/utils/helper.ts:1 `import { engine } from '../auditor/engine.js';`");
+  });
+
+  it('should report invalid rules as CONFORM evidence without failing the step', async () => {
+    await write('.kiro/steering/architecture.json', '{ "layers": ');
+    const outputs: Record<string, any> = {};
+    const evidence: EvidenceItem[] = [];
+
+    await executeConformStep({ workspacePath: workspace, touchedFiles: ['src/utils/helper.ts'] }, outputs, evidence);
+
+    expect(outputs.architectureViolations).toEqual([]);
+    expect(evidence.filter(item => item.location === 'Architecture rules')).toEqual([
+      expect.objectContaining({ severity: 'Minor', proof: expect.stringContaining('Invalid architecture rules in') })
+    ]);
+  });
+});
@@ -6,9 +6,35 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { AuditCache, type AuditCacheConfig } from '../audit-cache.js';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditCache, computeAuditCacheKey, type AuditCacheConfig, type AuditCacheKeyInput } from '../audit-cache.js';
 import type { GansAuditorCodexThoughtData, GansAuditorCodexReview } from '../../types/gan-types.js';
 
+function createKeyInput(candidate: string, overrides: Partial<AuditCacheKeyInput> = {}): AuditCacheKeyInput {
+  return {
+    request: {
+      task: 'Audit the function',
+      candidate,
+      contextPack: '# Context',
+      rubric: { dimensions: [{ name: 'accuracy', weight: 1, description: 'Correctness' }] },
+      budget: { maxCycles: 1, candidates: 1, threshold: 85 },
+    },
+    config: { task: 'Audit the function', scope: 'diff', threshold: 85, maxCycles: 1, candidates: 1, judges: ['internal'], applyFixes: false },
+    judges: ['codex-cli:default:default'],
+    promptConfigHash: 'prompt-1',
+    ...overrides,
+  };
+}
+
+/**
+ * Cache key of a thought's code, audited with otherwise fixed inputs
+ */
+function keyFor(thought: GansAuditorCodexThoughtData): string {
+  return computeAuditCacheKey(createKeyInput(thought.thought));
+}
+
 describe('AuditCache', () => {
   let cache: AuditCache;
   let mockThought: GansAuditorCodexThoughtData;
@@ -68,30 +94,30 @@ describe('AuditCache', () => {
   describe('Basic Cache Operations', () => {
     it('should store and retrieve audit results', async () => {
       // Initially should not have the result
-      expect(await cache.get(mockThought)).toBeNull();
-      expect(cache.has(mockThought)).toBe(false);
+      expect(await cache.get(keyFor(mockThought))).toBeNull();
+      expect(await cache.has(keyFor(mockThought))).toBe(false);
 
       // Store the result
-      await cache.set(mockThought, mockReview);
+      await cache.set(keyFor(mockThought), mockReview);
 
       // Should now have the result
-      expect(cache.has(mockThought)).toBe(true);
-      const cachedResult = await cache.get(mockThought);
+      expect(await cache.has(keyFor(mockThought))).toBe(true);
+      const cachedResult = await cache.get(keyFor(mockThought));
       expect(cachedResult).toEqual(mockReview);
     });
 
     it('should return null for non-existent entries', async () => {
-      const result = await cache.get(mockThought);
+      const result = await cache.get(keyFor(mockThought));
       expect(result).toBeNull();
     });
 
     it('should clear all cache entries', async () => {
-      await cache.set(mockThought, mockReview);
-      expect(cache.has(mockThought)).toBe(true);
+      await cache.set(keyFor(mockThought), mockReview);
+      expect(await cache.has(keyFor(mockThought))).toBe(true);
 
       cache.clear();
-      expect(cache.has(mockThought)).toBe(false);
-      expect(await cache.get(mockThought)).toBeNull();
+      expect(await cache.has(keyFor(mockThought))).toBe(false);
+      expect(await cache.get(keyFor(mockThought))).toBeNull();
     });
   });
 
@@ -104,14 +130,14 @@ describe('AuditCache', () => {
       expect(stats.hitRate).toBe(0);
 
       // Cache miss
-      await cache.get(mockThought);
+      await cache.get(keyFor(mockThought));
       stats = cache.getStats();
       expect(stats.misses).toBe(1);
       expect(stats.hitRate).toBe(0);
 
       // Store and hit
-      await cache.set(mockThought, mockReview);
-      await cache.get(mockThought);
+      await cache.set(keyFor(mockThought), mockReview);
+      await cache.get(keyFor(mockThought));
       stats = cache.getStats();
       expect(stats.hits).toBe(1);
       expect(stats.misses).toBe(1);
@@ -123,7 +149,7 @@ describe('AuditCache', () => {
       expect(initialStats.memoryUsage).toBe(0);
       expect(initialStats.entries).toBe(0);
 
-      await cache.set(mockThought, mockReview);
+      await cache.set(keyFor(mockThought), mockReview);
       
       const afterStats = cache.getStats();
       expect(afterStats.memoryUsage).toBeGreaterThan(0);
@@ -136,8 +162,8 @@ describe('AuditCache', () => {
       const thought1 = { ...mockThought };
       const thought2 = { ...mockThought };
 
-      await cache.set(thought1, mockReview);
-      expect(cache.has(thought2)).toBe(true);
+      await cache.set(keyFor(thought1), mockReview);
+      expect(await cache.has(keyFor(thought2))).toBe(true);
     });
 
     it('should generate different hashes for different code', async () => {
@@ -153,8 +179,8 @@ describe('AuditCache', () => {
         `,
       };
 
-      await cache.set(thought1, mockReview);
-      expect(cache.has(thought2)).toBe(false);
+      await cache.set(keyFor(thought1), mockReview);
+      expect(await cache.has(keyFor(thought2))).toBe(false);
     });
 
     it('should normalize whitespace and comments', async () => {
@@ -181,9 +207,9 @@ describe('AuditCache', () => {
         `,
       };
 
-      await cache.set(thought1, mockReview);
+      await cache.set(keyFor(thought1), mockReview);
       // Should find cached result despite formatting differences
-      expect(cache.has(thought2)).toBe(true);
+      expect(await cache.has(keyFor(thought2))).toBe(true);
     });
   });
 
@@ -202,7 +228,7 @@ describe('AuditCache', () => {
             thoughtNumber: i,
             thought: `\`\`\`typescript\nfunction test${i}() { return ${i}; }\n\`\`\``,
           };
-          await smallCache.set(thought, mockReview);
+          await smallCache.set(keyFor(thought), mockReview);
         }
 
         const stats = smallCache.getStats();
@@ -226,7 +252,7 @@ describe('AuditCache', () => {
             thoughtNumber: i,
             thought: `\`\`\`typescript\nfunction test${i}() { return ${i}; }\n\`\`\``,
           };
-          await limitedCache.set(thought, mockReview);
+          await limitedCache.set(keyFor(thought), mockReview);
         }
 
         const stats = limitedCache.getStats();
@@ -245,14 +271,14 @@ describe('AuditCache', () => {
       });
 
       try {
-        await shortLivedCache.set(mockThought, mockReview);
-        expect(shortLivedCache.has(mockThought)).toBe(true);
+        await shortLivedCache.set(keyFor(mockThought), mockReview);
+        expect(await shortLivedCache.has(keyFor(mockThought))).toBe(true);
 
         // Wait for expiration
         await new Promise(resolve => setTimeout(resolve, 150));
 
-        expect(await shortLivedCache.get(mockThought)).toBeNull();
-        expect(shortLivedCache.has(mockThought)).toBe(false);
+        expect(await shortLivedCache.get(keyFor(mockThought))).toBeNull();
+        expect(await shortLivedCache.has(keyFor(mockThought))).toBe(false);
       } finally {
         shortLivedCache.destroy();
       }
@@ -267,7 +293,7 @@ describe('AuditCache', () => {
           thoughtNumber: i,
           thought: `\`\`\`typescript\nfunction test${i}() { return ${i}; }\n\`\`\``,
         };
-        await cache.set(thought, mockReview);
+        await cache.set(keyFor(thought), mockReview);
       }
 
       const beforeStats = cache.getStats();
@@ -287,7 +313,7 @@ describe('AuditCache', () => {
       });
 
       try {
-        await shortLivedCache.set(mockThought, mockReview);
+        await shortLivedCache.set(keyFor(mockThought), mockReview);
         expect(shortLivedCache.getStats().entries).toBe(1);
 
         // Wait for expiration
@@ -309,8 +335,8 @@ describe('AuditCache', () => {
       };
 
       // Should not throw
-      await expect(cache.set(invalidThought, mockReview)).resolves.not.toThrow();
-      expect(await cache.get(invalidThought)).toEqual(mockReview);
+      await expect(cache.set(keyFor(invalidThought), mockReview)).resolves.not.toThrow();
+      expect(await cache.get(keyFor(invalidThought))).toEqual(mockReview);
     });
 
     it('should handle malformed review data', async () => {
@@ -320,7 +346,99 @@ describe('AuditCache', () => {
       };
 
       // Should not throw
-      await expect(cache.set(mockThought, malformedReview)).resolves.not.toThrow();
+      await expect(cache.set(keyFor(mockThought), malformedReview)).resolves.not.toThrow();
+    });
+  });
+
+  describe('Cache Keys', () => {
+    it('should change the key with every input that affects the verdict', () => {
+      const base = createKeyInput('```ts\nreturn 1;\n```');
+      const key = computeAuditCacheKey(base);
+
+      const variants: AuditCacheKeyInput[] = [
+        { ...base, request: { ...base.request, task: 'Audit the tests' } },
+        { ...base, request: { ...base.request, contextPack: '# Other context' } },
+        { ...base, request: { ...base.request, budget: { ...base.request.budget, threshold: 90 } } },
+        { ...base, config: { ...base.config, scope: 'workspace' } },
+        { ...base, judges: ['codex-cli:o3:default'] },
+        { ...base, promptConfigHash: 'prompt-2' },
+      ];
+
+      for (const variant of variants) {
+        expect(computeAuditCacheKey(variant)).not.toBe(key);
+      }
+    });
+
+    it('should not depend on object key order or thought metadata', () => {
+      const base = createKeyInput('```ts\nreturn 1;\n```');
+      const reordered = createKeyInput('```ts\nreturn 1;\n```', {
+        config: { applyFixes: false, judges: ['internal'], candidates: 1, maxCycles: 1, threshold: 85, scope: 'diff', task: 'Audit the function' },
+      });
+
+      expect(computeAuditCacheKey(reordered)).toBe(computeAuditCacheKey(base));
+      expect(keyFor({ ...mockThought, thoughtNumber: 7 })).toBe(keyFor(mockThought));
+    });
+  });
+
+  describe('Disk Persistence', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(join(tmpdir(), 'audit-cache-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should serve entries written by another cache instance', async () => {
+      const writer = new AuditCache({ directory, cleanupInterval: 0 });
+      const reader = new AuditCache({ directory, cleanupInterval: 0 });
+
+      try {
+        await writer.set(keyFor(mockThought), mockReview);
+
+        expect(await reader.has(keyFor(mockThought))).toBe(true);
+        expect(await reader.get(keyFor(mockThought))).toEqual(mockReview);
+        expect(reader.getStats().entries).toBe(1);
+      } finally {
+        writer.destroy();
+        reader.destroy();
+      }
+    });
+
+    it('should treat corrupt entries as misses and remove them', async () => {
+      const cache = new AuditCache({ directory, cleanupInterval: 0 });
+      const key = keyFor(mockThought);
+      const entryPath = join(directory, key.slice(0, 2), `${key}.json`);
+
+      try {
+        await fs.mkdir(join(directory, key.slice(0, 2)), { recursive: true });
+        await fs.writeFile(entryPath, '{"createdAt": 1700000000000, "review": {"ove');
+
+        expect(await cache.get(key)).toBeNull();
+        await expect(fs.access(entryPath)).rejects.toThrow();
+        expect(cache.getStats().misses).toBe(1);
+      } finally {
+        cache.destroy();
+      }
+    });
+
+    it('should remove expired entries from disk', async () => {
+      const writer = new AuditCache({ directory, maxAge: 50, cleanupInterval: 0 });
+      const reader = new AuditCache({ directory, maxAge: 50, cleanupInterval: 0 });
+      const key = keyFor(mockThought);
+
+      try {
+        await writer.set(key, mockReview);
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(await reader.get(key)).toBeNull();
+        await expect(fs.access(join(directory, key.slice(0, 2), `${key}.json`))).rejects.toThrow();
+      } finally {
+        writer.destroy();
+        reader.destroy();
+      }
     });
   });
-});
\ No newline at end of file
+});
@@ -74,7 +74,7 @@ describe('AuditQueue', () => {
       const result = await queue.enqueue(mockThought);
       
       expect(result).toEqual(mockReview);
-      expect(mockAuditFunction).toHaveBeenCalledWith(mockThought, undefined);
+      expect(mockAuditFunction).toHaveBeenCalledWith(mockThought, undefined, undefined);
     });
 
     it('should handle session ID parameter', async () => {
@@ -82,7 +82,7 @@ describe('AuditQueue', () => {
       const result = await queue.enqueue(mockThought, sessionId);
       
       expect(result).toEqual(mockReview);
-      expect(mockAuditFunction).toHaveBeenCalledWith(mockThought, sessionId);
+      expect(mockAuditFunction).toHaveBeenCalledWith(mockThought, sessionId, undefined);
     });
 
     it('should process multiple jobs sequentially when under concurrency limit', async () => {
@@ -272,6 +272,42 @@ describe('AuditQueue', () => {
       }
     });
 
+    it('should release the slots of cancelled jobs without retrying them', async () => {
+      const slowAuditFunction = vi.fn().mockImplementation(() =>
+        new Promise(resolve => setTimeout(() => resolve(mockReview), 200))
+      );
+      const cancelQueue = new AuditQueue(slowAuditFunction, {
+        maxConcurrent: 1,
+        processingInterval: 10,
+        defaultMaxRetries: 2,
+      });
+
+      try {
+        const running = new AbortController();
+        const pending = new AbortController();
+        const first = cancelQueue.enqueue({ ...mockThought, thoughtNumber: 1 }, undefined, { runOptions: { signal: running.signal } });
+        const second = cancelQueue.enqueue({ ...mockThought, thoughtNumber: 2 }, undefined, { runOptions: { signal: pending.signal } });
+        const third = cancelQueue.enqueue({ ...mockThought, thoughtNumber: 3 });
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        pending.abort();
+        await expect(second).rejects.toThrow('Audit cancelled');
+        expect(cancelQueue.getStatus()).toMatchObject({ runningJobs: 1, pendingJobs: 1 });
+
+        running.abort();
+        await expect(first).rejects.toThrow('Audit cancelled');
+        await new Promise(resolve => setTimeout(resolve, 20));
+        expect(cancelQueue.getStatus()).toMatchObject({ runningJobs: 1, pendingJobs: 0 });
+
+        await expect(third).resolves.toEqual(mockReview);
+        expect(slowAuditFunction).toHaveBeenCalledTimes(2);
+        await expect(cancelQueue.enqueue(mockThought, undefined, { runOptions: { signal: running.signal } }))
+          .rejects.toThrow('Audit cancelled');
+      } finally {
+        cancelQueue.destroy();
+      }
+    });
+
     it('should pause and resume processing', async () => {
       const pauseQueue = new AuditQueue(mockAuditFunction, {
         maxConcurrent: 1,
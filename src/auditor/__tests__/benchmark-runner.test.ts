@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the micro-benchmark runner
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile, access } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  runBenchmarks,
+  findRegressions,
+  mannWhitneyPValue,
+  clearBenchmarkBaselines,
+  type BenchmarkComparison
+} from '../benchmark-runner.js';
+import { PerformanceAssessor } from '../quality-assessors/performance-assessor.js';
+import {
+  getQualityDimensionById,
+  getQualityCriterionById,
+  DEFAULT_QUALITY_DIMENSIONS
+} from '../quality-assessment.js';
+
+const OPTIONS = { warmupIterations: 5, samples: 12, targetSampleMs: 2 };
+
+const writeWorkload = (workspace: string, loops: number) => writeFile(join(workspace, 'work.ts'), [
+  `export function work(): number { let total = 0; for (let i = 0; i < ${loops}; i++) total += Math.sqrt(i); return total; }`,
+  'export function scale(value: number): number { return value * 2; }'
+].join('\n'));
+
+describe('Benchmark Runner', () => {
+  let workspace: string;
+
+  beforeAll(async () => {
+    workspace = await mkdtemp(join(tmpdir(), 'benchmark-runner-test-'));
+    await writeFile(join(workspace, 'package.json'), JSON.stringify({ type: 'module' }));
+  });
+
+  afterAll(async () => {
+    clearBenchmarkBaselines();
+    await rm(workspace, { recursive: true, force: true });
+  });
+
+  it('should only report significant slowdowns', () => {
+    const fast = [1.0, 1.1, 0.9, 1.05, 0.95, 1.0, 1.02, 0.98, 1.01, 0.99];
+    const slow = fast.map(value => value * 1.5);
+
+    expect(mannWhitneyPValue(fast, slow)).toBeLessThan(0.001);
+    expect(mannWhitneyPValue(fast, [...fast].reverse())).toBeGreaterThan(0.9);
+
+    const comparison: BenchmarkComparison = {
+      baselineSource: 'session',
+      baselineMedianMs: 1,
+      currentMedianMs: 1.5,
+      changePercent: 50,
+      pValue: 0.0001,
+      heapGrowthChangeBytes: 2 * 1024 * 1024,
+      eventLoopDelayChangeMs: 0
+    };
+    expect(findRegressions('work.ts#work', comparison).map(r => r.kind)).toEqual(['wall_time', 'heap_growth']);
+    expect(findRegressions('work.ts#work', { ...comparison, pValue: 0.4, heapGrowthChangeBytes: 0 })).toEqual([]);
+  });
+
+  it('should measure touched functions and compare with the previous iteration', async () => {
+    await writeWorkload(workspace, 200);
+    const first = await runBenchmarks({ workspacePath: workspace, touchedFiles: ['work.ts'], sessionId: 'bench', options: OPTIONS });
+
+    expect(first.map(r => r.id)).toEqual(['work.ts#work']);
+    expect(first[0].measurement?.samples).toHaveLength(12);
+    expect(first[0].comparison).toBeUndefined();
+
+    await writeWorkload(workspace, 20000);
+    const second = await runBenchmarks({ workspacePath: workspace, touchedFiles: ['work.ts'], sessionId: 'bench', options: OPTIONS });
+
+    expect(second[0].comparison?.baselineSource).toBe('session');
+    expect(second[0].comparison?.changePercent).toBeGreaterThan(100);
+    expect(second[0].regressions.map(r => r.kind)).toContain('wall_time');
+  }, 60000);
+
+  it('should benchmark declared entry points with arguments and report failures', async () => {
+    await writeWorkload(workspace, 200);
+    const results = await runBenchmarks({
+      workspacePath: workspace,
+      entryPoints: [
+        { file: 'work.ts', function: 'scale', args: [21] },
+        { file: 'work.ts', function: 'missing' }
+      ],
+      options: OPTIONS
+    });
+
+    expect(results[0].measurement?.meanMs).toBeGreaterThan(0);
+    expect(results[1].error).toContain('missing is not an exported function');
+  }, 60000);
+
+  it('should run entry points without write access', async () => {
+    const target = join(workspace, 'written.txt');
+    await writeFile(join(workspace, 'writer.ts'), [
+      "import { writeFileSync } from 'node:fs';",
+      `export function save(): void { writeFileSync(${JSON.stringify(target)}, 'x'); }`
+    ].join('\n'));
+
+    const [result] = await runBenchmarks({
+      workspacePath: workspace,
+      entryPoints: [{ file: 'writer.ts', function: 'save' }],
+      options: OPTIONS
+    });
+
+    expect(result.measurement).toBeUndefined();
+    expect(result.error).toContain('Access to this API has been restricted');
+    await expect(access(target)).rejects.toThrow();
+  }, 60000);
+
+  it('should report performance as not measured outside benchmark mode', async () => {
+    const dimension = getQualityDimensionById(DEFAULT_QUALITY_DIMENSIONS, 'performance_assessment')!;
+    const criterion = getQualityCriterionById(dimension, 'performance_bottleneck_detection')!;
+
+    const evaluation = await new PerformanceAssessor().evaluatePerformanceBottleneckDetection(
+      criterion, '', { filePaths: ['work.ts'], repositoryPath: workspace }
+    );
+
+    expect(evaluation.feedback).toBe('Performance Bottlenecks: not measured (benchmark mode off)');
+    expect(evaluation.evidence).toEqual([expect.objectContaining({ type: 'performance_profile_unavailable' })]);
+  });
+
+  it('should score bottlenecks from the DYNAMIC step benchmark results', async () => {
+    const dimension = getQualityDimensionById(DEFAULT_QUALITY_DIMENSIONS, 'performance_assessment')!;
+    const criterion = getQualityCriterionById(dimension, 'performance_bottleneck_detection')!;
+    const regression = { id: 'gone.ts#work', kind: 'wall_time' as const, description: 'work is 60% slower', change: 60 };
+
+    // The entry point no longer exists, so the results can only come from the context
+    const evaluation = await new PerformanceAssessor().evaluatePerformanceBottleneckDetection(criterion, '', {
+      filePaths: ['gone.ts'],
+      repositoryPath: workspace,
+      benchmarkResults: [{ id: 'gone.ts#work', regressions: [regression] }]
+    });
+
+    expect(evaluation.score).toBe(85);
+    expect(evaluation.evidence[0].proof).toBe('1 bottlenecks detected, 0 hotspots identified');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for multi-candidate generation and ranking
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { rankCandidates, applyCandidateRanking } from '../candidate-ranking.js';
+import { GanAuditor } from '../gan-auditor.js';
+import type { ISessionManager, IContextPacker, ICodexJudge } from '../../types/integration-types.js';
+import type { AuditRequest, GanReview, GeneratedCandidate } from '../../types/gan-types.js';
+import { DEFAULT_AUDIT_RUBRIC, DEFAULT_GANSAUDITOR_CODEX_SESSION_CONFIG } from '../../types/gan-types.js';
+
+const createReview = (overall: number, overrides: Partial<GanReview> = {}): GanReview => ({
+  overall,
+  dimensions: [{ name: 'accuracy', score: overall }],
+  verdict: overall >= 85 ? 'pass' : 'revise',
+  review: { summary: `Scored ${overall}`, inline: [], citations: [] },
+  proposed_diff: null,
+  iterations: 1,
+  judge_cards: [{ model: 'codex-cli', score: overall }],
+  ...overrides
+});
+
+const request: AuditRequest = {
+  task: 'Audit',
+  candidate: 'const x = 1',
+  contextPack: '',
+  rubric: DEFAULT_AUDIT_RUBRIC,
+  budget: { maxCycles: 1, candidates: 3, threshold: 85 }
+};
+
+const generated: GeneratedCandidate[] = [
+  { id: 'candidate-1', summary: 'Rename', code: 'score:70', proposed_diff: '--- a\n+++ b\n-1\n+2' },
+  { id: 'candidate-2', summary: 'Validate input', code: 'score:92', proposed_diff: '--- a\n+++ b\n-1\n+3' },
+  { id: 'candidate-3', summary: 'Diff only', code: '', proposed_diff: 'score:70' }
+];
+
+/** Judge that reads the score from the candidate text */
+const scoreFromCandidate = async (r: AuditRequest) => createReview(Number(r.candidate.split(':')[1]));
+
+describe('Candidate Ranking', () => {
+  it('should rank candidates by judged score with stable tie-breaks', async () => {
+    const ranked = await rankCandidates(request, generated, scoreFromCandidate);
+
+    expect(ranked.map(c => [c.id, c.rank, c.overall])).toEqual([
+      ['candidate-2', 1, 92],
+      ['candidate-1', 2, 70],
+      ['candidate-3', 3, 70]
+    ]);
+    expect(ranked[0].verdict).toBe('pass');
+  });
+
+  it('should use the best diff and list runners-up in the review', async () => {
+    const ranked = await rankCandidates(request, generated, scoreFromCandidate);
+    const review = applyCandidateRanking(createReview(60), ranked);
+
+    expect(review.proposed_diff).toBe(generated[1].proposed_diff);
+    expect(review.candidates).toHaveLength(3);
+    expect(review.review.summary).toContain('Best of 3 candidates: candidate-2 scored 92 (pass) - Validate input');
+    expect(review.review.summary).toContain('Runners-up: candidate-1 70 (revise), candidate-3 70 (revise)');
+  });
+
+  const auditWithCandidates = (codexJudge: ICodexJudge) => {
+    const sessionManager = {
+      getSession: vi.fn().mockResolvedValue(null),
+      createSession: vi.fn().mockResolvedValue({
+        id: 'session',
+        config: { ...DEFAULT_GANSAUDITOR_CODEX_SESSION_CONFIG, candidates: 3 },
+        history: [],
+        createdAt: Date.now(),
+        updatedAt: Date.now()
+      }),
+      updateSession: vi.fn(),
+      generateSessionId: vi.fn().mockReturnValue('session'),
+      cleanupSessions: vi.fn(),
+      addAuditToHistory: vi.fn()
+    } as unknown as ISessionManager;
+    const contextPacker = { buildContextPack: vi.fn().mockResolvedValue('') } as unknown as IContextPacker;
+
+    const auditor = new GanAuditor({}, sessionManager, contextPacker, codexJudge);
+    return auditor.auditThought({
+      thought: 'const x = 1',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false
+    }, 'session');
+  };
+
+  it('should generate and judge candidates in the auditor when the budget allows', async () => {
+    const executeAudit = vi.fn(async (r: AuditRequest) =>
+      r.candidate.startsWith('score:') ? scoreFromCandidate(r) : createReview(60));
+    const generateCandidates = vi.fn().mockResolvedValue(generated);
+    const codexJudge = { executeAudit, generateCandidates, isAvailable: vi.fn(), getVersion: vi.fn() } as unknown as ICodexJudge;
+
+    const review = await auditWithCandidates(codexJudge);
+
+    expect(generateCandidates).toHaveBeenCalledWith(expect.objectContaining({ candidate: 'const x = 1' }), expect.objectContaining({ overall: 60 }), 3, undefined);
+    expect(executeAudit).toHaveBeenCalledTimes(4);
+    expect(review.overall).toBe(60);
+    expect(review.candidates?.[0]).toMatchObject({ id: 'candidate-2', rank: 1, overall: 92 });
+  });
+
+  it('should return the primary review when candidate generation fails', async () => {
+    const executeAudit = vi.fn().mockResolvedValue(createReview(60));
+    const generateCandidates = vi.fn().mockRejectedValue(new Error('Codex returned no candidates'));
+    const codexJudge = { executeAudit, generateCandidates, isAvailable: vi.fn(), getVersion: vi.fn() } as unknown as ICodexJudge;
+
+    const review = await auditWithCandidates(codexJudge);
+
+    expect(review.overall).toBe(60);
+    expect(review.candidates).toBeUndefined();
+    expect(executeAudit).toHaveBeenCalledTimes(1);
+  });
+});
@@ -359,6 +359,74 @@ describe('ComplexityAnalyzer', () => {
     });
   });
 
+  describe('per-function analysis', () => {
+    const classifySource = [
+      '// if (a) { for (;;) {} }',
+      'const text = "if (x) while (y) case z:";',
+      'export function classify(value: number): string {',
+      '  if (value > 10 && value < 20) {',
+      '    for (const item of [1, 2]) {',
+      '      if (item) {',
+      '        return "nested";',
+      '      }',
+      '    }',
+      '  } else if (value < 0) {',
+      '    return "negative";',
+      '  } else {',
+      '    return value ? "truthy" : "zero";',
+      '  }',
+      '  return "other";',
+      '}',
+      'class Widget {',
+      '  items: string[] = [];',
+      '  render = () => <div>{this.items.map(item => item ? <b>{item}</b> : null)}</div>;',
+      '}'
+    ].join('\n');
+
+    it('should report per-function metrics from the syntax tree', async () => {
+      const metrics = await analyzer.analyzeComplexity({
+        filePath: 'src/widget.tsx',
+        language: 'typescript',
+        content: classifySource
+      });
+
+      expect(metrics.analysisMethod).toBe('ast');
+      expect(metrics.functions?.map(fn => [fn.name, fn.kind, fn.startLine, fn.endLine, fn.cyclomaticComplexity, fn.cognitiveComplexity])).toEqual([
+        ['classify', 'function', 3, 16, 7, 11],
+        ['Widget.render', 'arrow', 19, 19, 1, 0],
+        ['<anonymous>', 'arrow', 19, 19, 2, 1]
+      ]);
+      expect(metrics.functions?.[0].nestingDepth).toBe(3);
+      // Keywords inside comments and strings are not counted
+      expect(metrics.cyclomaticComplexity).toBe(8);
+      expect(metrics.classCount).toBe(1);
+      expect(metrics.linesOfCode).toBe(19);
+    });
+
+    it('should pick audit depth from the worst function touched by the diff', async () => {
+      const content = `${classifySource}\nexport function identity<T>(value: T): T {\n  return value;\n}\n`;
+      const context: CodeAnalysisContext = { filePath: 'src/widget.tsx', language: 'typescript', content };
+      const metrics = await analyzer.analyzeComplexity(context);
+      const diffTouching = (line: number) => [
+        'diff --git a/src/widget.tsx b/src/widget.tsx',
+        '--- a/src/widget.tsx',
+        '+++ b/src/widget.tsx',
+        `@@ -${line},1 +${line},1 @@`,
+        '+changed'
+      ].join('\n');
+
+      const trivial = analyzer.adjustAuditDepth(metrics, { ...context, gitDiff: diffTouching(22) });
+      const complex = analyzer.adjustAuditDepth(metrics, { ...context, gitDiff: diffTouching(5) });
+
+      expect(trivial.auditDepth).toBe('shallow');
+      expect(trivial.criticalFunctions?.map(fn => fn.name)).toEqual(['identity']);
+      expect(complex.auditDepth).toBe('standard');
+      expect(complex.criticalFunctions?.[0].name).toBe('classify');
+      expect(complex.justification).toContain('classify (lines 3-16');
+      expect(complex.timeoutSeconds).toBeGreaterThan(trivial.timeoutSeconds);
+    });
+  });
+
   describe('factory functions', () => {
     it('should create analyzer with createComplexityAnalyzer', () => {
       const analyzer = createComplexityAnalyzer();
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for coverage report analysis
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import {
+  parseIstanbulCoverage,
+  parseLcovCoverage,
+  analyzeChangedLinesCoverage,
+  summarizeCoverage
+} from '../coverage-report.js';
+
+const workspace = join(process.cwd(), 'coverage-workspace');
+
+/**
+ * Istanbul report for src/calc.ts: lines 1-2 run, line 4 never runs,
+ * the `if` on line 3 only ever takes its first outcome.
+ */
+const ISTANBUL_REPORT = JSON.stringify({
+  [join(workspace, 'src/calc.ts')]: {
+    path: join(workspace, 'src/calc.ts'),
+    statementMap: {
+      '0': { start: { line: 1, column: 0 }, end: { line: 1, column: 20 } },
+      '1': { start: { line: 2, column: 2 }, end: { line: 2, column: 20 } },
+      '2': { start: { line: 3, column: 2 }, end: { line: 3, column: 20 } },
+      '3': { start: { line: 4, column: 4 }, end: { line: 4, column: 20 } }
+    },
+    s: { '0': 1, '1': 3, '2': 3, '3': 0 },
+    fnMap: {
+      '0': { name: 'divide', decl: { start: { line: 1, column: 9 } }, loc: { start: { line: 1, column: 0 } } },
+      '1': { name: 'unused', decl: { start: { line: 6, column: 9 } }, loc: { start: { line: 6, column: 0 } } }
+    },
+    f: { '0': 3, '1': 0 },
+    branchMap: {
+      '0': {
+        line: 3,
+        type: 'if',
+        locations: [{ start: { line: 3, column: 2 } }, { start: { line: 3, column: 2 } }]
+      }
+    },
+    b: { '0': [3, 0] }
+  }
+});
+
+const LCOV_REPORT = [
+  'TN:',
+  'SF:src/calc.ts',
+  'FN:1,divide',
+  'FNDA:3,divide',
+  'FN:6,unused',
+  'FNDA:0,unused',
+  'DA:1,1',
+  'DA:2,3',
+  'DA:3,3',
+  'DA:4,0',
+  'BRDA:3,0,0,3',
+  'BRDA:3,0,1,-',
+  'end_of_record'
+].join('\n');
+
+describe('Coverage Report', () => {
+  describe('parsers', () => {
+    it('should normalize istanbul and lcov reports to the same coverage', () => {
+      const fromIstanbul = parseIstanbulCoverage(ISTANBUL_REPORT, workspace).get(join(workspace, 'src/calc.ts'));
+      const fromLcov = parseLcovCoverage(LCOV_REPORT, workspace).get(join(workspace, 'src/calc.ts'));
+
+      for (const coverage of [fromIstanbul, fromLcov]) {
+        expect(coverage).toBeDefined();
+        expect([...coverage!.lines.entries()]).toEqual([[1, 1], [2, 3], [3, 3], [4, 0]]);
+        expect(coverage!.branches).toEqual([
+          { line: 3, index: 0, covered: true },
+          { line: 3, index: 1, covered: false }
+        ]);
+        expect(coverage!.functions).toEqual([
+          { name: 'divide', line: 1, covered: true },
+          { name: 'unused', line: 6, covered: false }
+        ]);
+      }
+    });
+  });
+
+  describe('analyzeChangedLinesCoverage', () => {
+    const coverage = parseIstanbulCoverage(ISTANBUL_REPORT, workspace);
+
+    it('should only report gaps inside the changed lines', () => {
+      const analysis = analyzeChangedLinesCoverage(workspace, 'src/calc.ts', coverage, [3, 4]);
+
+      expect(analysis.instrumentedLines).toBe(2);
+      expect(analysis.coveredLines).toBe(1);
+      expect(analysis.uncoveredLines).toEqual([4]);
+      expect(analysis.uncoveredBranches).toEqual([{ line: 3, index: 1, covered: false }]);
+      expect(analysis.uncoveredFunctions).toEqual([]);
+    });
+
+    it('should report no gaps when changed lines are covered', () => {
+      const analysis = analyzeChangedLinesCoverage(workspace, 'src/calc.ts', coverage, [1, 2]);
+
+      expect(analysis.uncoveredLines).toEqual([]);
+      expect(analysis.uncoveredBranches).toEqual([]);
+      expect(analysis.coveredLines).toBe(2);
+    });
+
+    it('should treat files missing from the report as unexecuted', () => {
+      const analysis = analyzeChangedLinesCoverage(workspace, 'src/other.ts', coverage, [5, 6]);
+
+      expect(analysis.inReport).toBe(false);
+      expect(analysis.uncoveredLines).toEqual([5, 6]);
+    });
+  });
+
+  describe('summarizeCoverage', () => {
+    it('should compute whole-file percentages', () => {
+      const coverage = parseLcovCoverage(LCOV_REPORT, workspace);
+
+      expect(summarizeCoverage(workspace, ['src/calc.ts'], coverage)).toEqual({
+        lineCoverage: 75,
+        branchCoverage: 50,
+        functionCoverage: 50
+      });
+    });
+  });
+});
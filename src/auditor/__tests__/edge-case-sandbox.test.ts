@@ -0,0 +1,76 @@
+/**
+ * Unit tests for sandboxed edge-case execution
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile, mkdir, access } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runEdgeCasesInSandbox, generatePropertyInputs } from '../edge-case-sandbox.js';
+
+const INPUTS = [
+  { scenario: 'null input handling', input: null, expected: 'error or default value' },
+  { scenario: 'special characters input', input: '!@#', expected: 'sanitized or validated' }
+];
+
+const OPTIONS = { propertyCases: 2, caseTimeout: 500 };
+
+describe('Edge Case Sandbox', () => {
+  let workspace: string;
+
+  beforeAll(async () => {
+    workspace = await mkdtemp(join(tmpdir(), 'edge-case-sandbox-test-'));
+    await mkdir(join(workspace, 'src'));
+    await writeFile(join(workspace, 'package.json'), JSON.stringify({ type: 'module' }));
+    await writeFile(join(workspace, 'src', 'helpers.ts'), 'export const twice = (n: number): number => n * 2;\n');
+    await writeFile(join(workspace, 'src', 'math.ts'), [
+      "import { twice } from './helpers.js';",
+      'export function size(value: string): number { return value.length; }',
+      'export function double(value: number): number { return twice(value); }',
+      "export function parse(value: unknown): string { if (typeof value !== 'string') throw new Error('Expected a string'); return value; }",
+      'export const spin = (value: number): number => { while (value !== 1) {} return value; };'
+    ].join('\n'));
+    await writeFile(join(workspace, 'src', 'danger.ts'), [
+      "import { writeFileSync } from 'fs';",
+      "export function writeMarker(value: unknown): void { writeFileSync(new URL('../marker.txt', import.meta.url), String(value)); }"
+    ].join('\n'));
+  });
+
+  afterAll(async () => {
+    await rm(workspace, { recursive: true, force: true });
+  });
+
+  it('should generate the same property inputs for the same seed', () => {
+    expect(generatePropertyInputs(5, 7)).toEqual(generatePropertyInputs(5, 7));
+    expect(generatePropertyInputs(5, 7)).not.toEqual(generatePropertyInputs(5, 8));
+  });
+
+  it('should record real outcomes of calling exported functions', async () => {
+    const results = await runEdgeCasesInSandbox(workspace, ['src/math.ts'], INPUTS, OPTIONS);
+    const find = (name: string, scenario: string) =>
+      results.find(r => r.functionName === name && r.scenario === scenario);
+
+    expect(find('size', 'null input handling')).toMatchObject({
+      status: 'error',
+      outcome: 'threw',
+      reproduction: 'size(null)'
+    });
+    expect(find('size', 'special characters input')).toMatchObject({ status: 'passed', actual: 'returned number 3' });
+    expect(find('double', 'special characters input')).toMatchObject({ status: 'failed', outcome: 'unexpected_type' });
+    expect(find('parse', 'null input handling')).toMatchObject({ status: 'passed', outcome: 'rejected_input' });
+    expect(find('spin', 'null input handling')).toMatchObject({ status: 'failed', outcome: 'hang' });
+    expect(find('spin', 'special characters input')).toMatchObject({ outcome: 'hang' });
+    expect(results.filter(r => r.functionName === 'spin')).toHaveLength(4);
+  }, 30000);
+
+  it('should deny the sandboxed code file writes', async () => {
+    const results = await runEdgeCasesInSandbox(workspace, ['src/danger.ts'], INPUTS, OPTIONS);
+
+    expect(results.find(r => r.scenario === 'null input handling')?.actual).toContain('Access to this API has been restricted');
+    await expect(access(join(workspace, 'marker.txt'))).rejects.toThrow();
+  }, 30000);
+
+  it('should skip files that are not executable modules', async () => {
+    expect(await runEdgeCasesInSandbox(workspace, ['README.md', 'src/math.test.ts'], INPUTS, OPTIONS)).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for applying proposed fixes in a temporary worktree
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { execFileSync } from 'child_process';
+
+vi.mock('../workflow-steps/static-step.js', () => ({
+  executeStaticStep: vi.fn()
+}));
+vi.mock('../workflow-steps/tests-step.js', () => ({
+  DEFAULT_TESTS_INPUTS: {},
+  executeTestsStep: vi.fn()
+}));
+
+import { applyFixInWorktree, parseDiffFiles, scoreVerification } from '../fix-applier.js';
+import { executeStaticStep } from '../workflow-steps/static-step.js';
+import { executeTestsStep } from '../workflow-steps/tests-step.js';
+import { AuditCancelledError } from '../../types/error-types.js';
+
+const FIX = [
+  '--- a/math.ts',
+  '+++ b/math.ts',
+  '@@ -1 +1 @@',
+  '-export const add = (a: number, b: number) => a - b;',
+  '+export const add = (a: number, b: number) => a + b;',
+  ''
+].join('\n');
+
+/** Lint errors reported while the bug is present in the worktree */
+const mockVerificationFromSource = () => {
+  vi.mocked(executeStaticStep).mockImplementation(async (inputs, outputs) => {
+    const source = await readFile(join(inputs.workspacePath, 'math.ts'), 'utf-8');
+    outputs.lintResults = source.includes('a - b')
+      ? [{ file: 'math.ts', line: 1, column: 1, rule: 'bug', severity: 'error', message: 'Subtraction' }]
+      : [];
+    outputs.typeCheckResults = [];
+  });
+  vi.mocked(executeTestsStep).mockImplementation(async (_inputs, outputs) => {
+    outputs.testResults = [{ file: 'math.test.ts', name: 'adds', status: 'passed', duration: 1, type: 'unit' }];
+  });
+};
+
+describe('Fix Applier', () => {
+  let repo: string;
+
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8' });
+
+  beforeEach(async () => {
+    repo = await mkdtemp(join(tmpdir(), 'fix-applier-test-'));
+    git('init', '-q');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    await writeFile(join(repo, 'math.ts'), 'export const add = (a: number, b: number) => a - b;\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'initial');
+    vi.clearAllMocks();
+    mockVerificationFromSource();
+  });
+
+  afterEach(async () => {
+    await rm(repo, { recursive: true, force: true });
+  });
+
+  it('should parse changed files from a unified diff', () => {
+    expect(parseDiffFiles(FIX)).toEqual(['math.ts']);
+    expect(parseDiffFiles('--- a/old.ts\n+++ /dev/null\n')).toEqual(['old.ts']);
+    expect(parseDiffFiles('--- a/a.md\n+++ b/a.md\n@@ -1 +1 @@\n--- a/b.ts\n+++ b/b.ts\n')).toEqual(['a.md']);
+    expect(scoreVerification({ lintErrors: 1, typeErrors: 2, testsPassed: 3, testsFailed: 1 })).toBe(75);
+  });
+
+  it('should verify the fix without touching the working tree', async () => {
+    const result = await applyFixInWorktree(FIX, { workspacePath: repo });
+
+    expect(result).toMatchObject({
+      status: 'applied',
+      appliedCleanly: true,
+      filesChanged: ['math.ts'],
+      improved: true,
+      writtenBack: false
+    });
+    expect(result.before?.score).toBe(95);
+    expect(result.after?.score).toBe(100);
+    expect(await readFile(join(repo, 'math.ts'), 'utf-8')).toContain('a - b');
+    expect(git('worktree', 'list').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('should write back a verified fix when requested', async () => {
+    const result = await applyFixInWorktree(FIX, { workspacePath: repo, writeBack: true });
+
+    expect(result.writtenBack).toBe(true);
+    expect(await readFile(join(repo, 'math.ts'), 'utf-8')).toContain('a + b');
+  });
+
+  it('should stop without writing back when cancelled during verification', async () => {
+    const controller = new AbortController();
+    vi.mocked(executeTestsStep).mockImplementation(async (inputs, outputs) => {
+      expect(inputs.signal).toBe(controller.signal);
+      controller.abort();
+      outputs.testResults = [];
+    });
+
+    await expect(applyFixInWorktree(FIX, { workspacePath: repo, writeBack: true, signal: controller.signal }))
+      .rejects.toThrow(AuditCancelledError);
+    expect(executeTestsStep).toHaveBeenCalledTimes(1);
+    expect(await readFile(join(repo, 'math.ts'), 'utf-8')).toContain('a - b');
+    expect(git('worktree', 'list').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('should report conflicts against uncommitted changes', async () => {
+    await writeFile(join(repo, 'math.ts'), 'export const add = (x: number, y: number) => x - y;\n');
+
+    const result = await applyFixInWorktree(FIX, { workspacePath: repo, writeBack: true });
+
+    expect(result.status).toBe('conflict');
+    expect(result.writtenBack).toBe(false);
+    expect(executeStaticStep).not.toHaveBeenCalled();
+  });
+
+  it('should report directories outside git', async () => {
+    const outside = await mkdtemp(join(tmpdir(), 'fix-applier-plain-'));
+    try {
+      const result = await applyFixInWorktree(FIX, { workspacePath: outside });
+      expect(result.status).toBe('not_git_repo');
+    } finally {
+      await rm(outside, { recursive: true, force: true });
+    }
+    expect((await applyFixInWorktree('', { workspacePath: repo })).status).toBe('no_diff');
+  });
+});
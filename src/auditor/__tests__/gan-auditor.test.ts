@@ -7,6 +7,7 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { GanAuditor, type GanAuditorConfig } from '../gan-auditor.js';
+import { AuditCache } from '../audit-cache.js';
 import type {
   ISessionManager,
   IContextPacker,
@@ -290,6 +291,58 @@ Some text after.
       expect(mockSessionManager.addAuditToHistory).toHaveBeenCalled();
     });
 
+    it('should apply the session secret scanner config to the local judge', async () => {
+      const thought = createTestThought({ thought: `const gh = '${'ghp_' + 'a1B2c3D4'.repeat(5)}';` });
+      const localConfig = { ...DEFAULT_GANSAUDITOR_CODEX_SESSION_CONFIG, judges: ['local'] };
+
+      vi.mocked(mockSessionManager.getSession).mockResolvedValue(createMockSession({ config: localConfig }));
+      const flagged = await auditor.auditThought(thought);
+
+      vi.mocked(mockSessionManager.getSession).mockResolvedValue(createMockSession({
+        config: { ...localConfig, secretScan: { disabledRules: ['github-token'] } },
+      }));
+      const allowed = await auditor.auditThought(thought);
+
+      expect(flagged.review.inline.map(c => c.comment)).toContainEqual(expect.stringContaining('(secret:github-token)'));
+      expect(allowed.review.inline.map(c => c.comment)).not.toContainEqual(expect.stringContaining('secret:'));
+      expect(mockCodexJudge.executeAudit).not.toHaveBeenCalled();
+    });
+
+    it('should serve repeated audits of the same request from the audit cache', async () => {
+      const cache = new AuditCache({ cleanupInterval: 0 });
+      mockCodexJudge.getCacheIdentity = vi.fn().mockReturnValue({ judge: 'codex-cli:default:default', promptConfigHash: 'prompt-1' });
+      vi.mocked(mockSessionManager.getSession).mockResolvedValue(createMockSession());
+
+      try {
+        const first = await auditor.auditThought(createTestThought(), undefined, { cache });
+        const second = await auditor.auditThought(createTestThought({ thoughtNumber: 2 }), undefined, { cache });
+        expect(second).toEqual(first);
+        expect(mockCodexJudge.executeAudit).toHaveBeenCalledTimes(1);
+
+        // A different context pack changes the key
+        vi.mocked(mockContextPacker.buildContextPack).mockResolvedValue('# Other Context');
+        await auditor.auditThought(createTestThought(), undefined, { cache });
+        expect(mockCodexJudge.executeAudit).toHaveBeenCalledTimes(2);
+      } finally {
+        cache.destroy();
+      }
+    });
+
+    it('should run the audit when the audit cache cannot be read', async () => {
+      const cache = new AuditCache({ cleanupInterval: 0 });
+      vi.spyOn(cache, 'get').mockRejectedValue(new Error('EIO: i/o error'));
+      mockCodexJudge.getCacheIdentity = vi.fn().mockReturnValue({ judge: 'codex-cli:default:default', promptConfigHash: 'prompt-1' });
+      vi.mocked(mockSessionManager.getSession).mockResolvedValue(createMockSession());
+
+      try {
+        const review = await auditor.auditThought(createTestThought(), undefined, { cache });
+        expect(review.verdict).toBeDefined();
+        expect(mockCodexJudge.executeAudit).toHaveBeenCalledTimes(1);
+      } finally {
+        cache.destroy();
+      }
+    });
+
     it('should reuse existing session when available', async () => {
       const sessionId = 'existing-session';
       const thought = createTestThought({ branchId: sessionId });
@@ -337,7 +390,8 @@ Test code here.
           budget: expect.objectContaining({
             threshold: 95,
           }),
-        })
+        }),
+        undefined
       );
     });
 
@@ -495,7 +549,7 @@ Test code here.
           candidates: 3,
           threshold: 90,
         },
-      });
+      }, undefined);
     });
   });
 
@@ -98,11 +98,40 @@ This feature implements a comprehensive test system for validating code quality.
 
       expect(outputs.acceptanceCriteria).toBeDefined();
       expect(outputs.acceptanceCriteria.length).toBe(3);
-      expect(outputs.acceptanceCriteria[0].id).toBe('AC-001');
+      expect(outputs.acceptanceCriteria[0].id).toBe('REQ-1.1');
       expect(outputs.acceptanceCriteria[0].description).toContain('WHEN the user submits valid data');
       expect(outputs.acceptanceCriteria[1].description).toContain('IF invalid data is provided');
     });
 
+    it('should keep acceptance criteria ids stable when the spec is edited', async () => {
+      const requirementsContent = `
+# Test Requirements
+
+### Requirement 1
+
+1. WHEN a request arrives THEN the system SHALL log it
+
+### Requirement 3.2
+
+#### Acceptance Criteria
+
+4. WHEN the cache is full THEN the system SHALL evict the oldest entry
+5. IF eviction fails THEN the system SHALL report an error
+
+## Notes
+
+1. WHEN in doubt THEN the reviewer SHALL ask
+      `;
+
+      await writeFile(join(testWorkspace, specPath, 'requirements.md'), requirementsContent);
+
+      const outputs: Record<string, any> = {};
+      await executeInitStep({ ...DEFAULT_INIT_INPUTS, workspacePath: testWorkspace }, outputs, []);
+
+      expect(outputs.acceptanceCriteria.map((ac: { id: string }) => ac.id))
+        .toEqual(['REQ-1.1', 'REQ-3.2.4', 'REQ-3.2.5', 'AC-004']);
+    });
+
     it('should identify constraints from steering documents', async () => {
       const steeringContent = `
 # Code Standards
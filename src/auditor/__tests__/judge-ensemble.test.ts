@@ -0,0 +1,150 @@
+/**
+ * Unit tests for the multi-judge ensemble
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  JudgeEnsemble,
+  aggregateScores,
+  createDefaultJudgeRegistry,
+  parseJudgeSpec
+} from '../judge-ensemble.js';
+import { LocalRuleJudge } from '../local-rule-judge.js';
+import type { ICodexJudge } from '../../types/integration-types.js';
+import type { AuditRequest, GanReview } from '../../types/gan-types.js';
+import { DEFAULT_AUDIT_RUBRIC } from '../../types/gan-types.js';
+
+const createRequest = (candidate = 'export const add = (a: number, b: number) => a + b;'): AuditRequest => ({
+  task: 'Audit',
+  candidate,
+  contextPack: '',
+  rubric: DEFAULT_AUDIT_RUBRIC,
+  budget: { maxCycles: 1, candidates: 1, threshold: 85 }
+});
+
+const createPrimaryJudge = (review: Partial<GanReview> = {}): ICodexJudge => ({
+  executeAudit: vi.fn().mockResolvedValue({
+    overall: 90,
+    dimensions: [{ name: 'accuracy', score: 95 }, { name: 'clarity', score: 85 }],
+    verdict: 'pass',
+    review: { summary: 'Looks good', inline: [{ path: 'code', line: 1, comment: 'Nice' }], citations: [] },
+    proposed_diff: null,
+    iterations: 1,
+    judge_cards: [{ model: 'codex-cli', score: 90, notes: 'codex notes' }],
+    ...review
+  } as GanReview),
+  isAvailable: vi.fn().mockResolvedValue(true),
+  getVersion: vi.fn().mockResolvedValue('1.0.0')
+} as unknown as ICodexJudge);
+
+describe('Judge Ensemble', () => {
+  describe('aggregateScores', () => {
+    it('should combine scores with each aggregation method', () => {
+      const scores = [90, 40, 70, 80, 75];
+
+      expect(aggregateScores(scores, 'weighted-average')).toBe(71);
+      expect(aggregateScores([90, 60], 'weighted-average', [3, 1])).toBe(82.5);
+      expect(aggregateScores(scores, 'minimum')).toBe(40);
+      expect(aggregateScores(scores, 'median')).toBe(75);
+      expect(aggregateScores([90, 40, 70, 80], 'median')).toBe(75);
+      expect(aggregateScores(scores, 'trimmed-mean')).toBe(75);
+      expect(aggregateScores([64, 100], 'geometric-mean')).toBeCloseTo(80);
+      expect(aggregateScores([0, 100], 'geometric-mean')).toBe(0);
+    });
+  });
+
+  describe('judge registry', () => {
+    it('should parse judge ids and reject unknown kinds', () => {
+      expect(parseJudgeSpec('codex:gpt-5-codex')).toEqual({ id: 'codex:gpt-5-codex', kind: 'codex', argument: 'gpt-5-codex' });
+      expect(parseJudgeSpec(' local ')).toEqual({ id: 'local', kind: 'local' });
+
+      const registry = createDefaultJudgeRegistry();
+      const context = { primaryJudge: createPrimaryJudge(), codexJudgeConfig: {} };
+      expect(registry.create({ ...context, id: 'codex-profile:strict' }).name).toBe('codex-profile:strict');
+      expect(() => registry.create({ ...context, id: 'security' })).toThrow('Unknown judge "security"');
+      expect(() => registry.create({ ...context, id: 'stub:120' })).toThrow('between 0 and 100');
+    });
+  });
+
+  describe('JudgeEnsemble', () => {
+    it('should return a single judge review unchanged', async () => {
+      const primary = createPrimaryJudge();
+      const ensemble = new JudgeEnsemble(primary);
+
+      const review = await ensemble.executeAudit(createRequest(), ['internal']);
+
+      expect(review.judge_cards).toEqual([{ model: 'codex-cli', score: 90, notes: 'codex notes' }]);
+      expect(review.judge_disagreement).toBeUndefined();
+    });
+
+    it('should aggregate judges and report disagreement', async () => {
+      const primary = createPrimaryJudge();
+      const ensemble = new JudgeEnsemble(primary, { aggregationMethod: 'median' });
+
+      const review = await ensemble.executeAudit(createRequest(), ['internal', 'stub:60', 'stub:30']);
+
+      expect(primary.executeAudit).toHaveBeenCalledTimes(1);
+      expect(review.overall).toBe(60);
+      expect(review.verdict).toBe('revise');
+      expect(review.judge_cards.map(c => [c.model, c.score])).toEqual([['internal', 90], ['stub:60', 60], ['stub:30', 30]]);
+      expect(review.dimensions.find(d => d.name === 'accuracy')?.score).toBe(60);
+      expect(review.dimensions.find(d => d.name === 'completeness')?.score).toBe(45);
+      expect(review.review.inline).toHaveLength(1);
+      expect(review.judge_disagreement).toMatchObject({
+        aggregationMethod: 'median',
+        overallSpread: 60,
+        significant: true,
+        verdicts: { internal: 'pass', 'stub:60': 'revise', 'stub:30': 'revise' }
+      });
+      expect(review.judge_disagreement?.dimensions.find(d => d.name === 'accuracy')).toEqual({
+        name: 'accuracy',
+        spread: 65,
+        scores: { internal: 95, 'stub:60': 60, 'stub:30': 30 }
+      });
+      expect(review.review.summary).toContain('Judges disagree: overall spread 60 points');
+    });
+
+    it('should fail the audit when any judge fails', async () => {
+      const primary = createPrimaryJudge();
+      vi.mocked(primary.executeAudit).mockRejectedValueOnce(new Error('Codex unavailable'));
+      const ensemble = new JudgeEnsemble(primary);
+
+      await expect(ensemble.executeAudit(createRequest(), ['internal', 'local'])).rejects.toThrow('Codex unavailable');
+    });
+  });
+
+  describe('LocalRuleJudge', () => {
+    it('should score candidates deterministically from local rules', async () => {
+      const judge = new LocalRuleJudge();
+      const candidate = [
+        'export function load(input: any) {',
+        '  // TODO: validate input',
+        '  console.log(input);',
+        '  try { return eval(input); } catch (e) {}',
+        '}'
+      ].join('\n');
+
+      const first = await judge.executeAudit(createRequest(candidate));
+      const second = await judge.executeAudit(createRequest(candidate));
+
+      expect(second).toEqual(first);
+      expect(first.dimensions).toEqual([
+        { name: 'accuracy', score: 75 },
+        { name: 'completeness', score: 92 },
+        { name: 'clarity', score: 100 },
+        { name: 'human_likeness', score: 92 }
+      ]);
+      expect(first.overall).toBe(89);
+      expect(first.verdict).toBe('pass');
+      expect(first.review.inline.map(c => c.line)).toEqual([1, 2, 3, 4, 4]);
+    });
+
+    it('should pass clean code', async () => {
+      const review = await new LocalRuleJudge().executeAudit(createRequest());
+
+      expect(review.overall).toBe(100);
+      expect(review.verdict).toBe('pass');
+      expect(review.review.inline).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for the outbound redaction of audit requests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OutboundRedactor, isDeniedPath, withheldPlaceholder, DEFAULT_DENIED_PATHS } from '../outbound-redactor.js';
+import { ContextPacker } from '../../context/context-packer.js';
+import { DEFAULT_AUDIT_RUBRIC } from '../../types/gan-types.js';
+
+// Secret-shaped fixtures are assembled at runtime so the source never contains a literal secret
+const API_KEY = 'A1b2C3d4'.repeat(4);
+const PASSWORD = 'hunter2' + 'hunter2';
+
+describe('Outbound Redactor', () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await mkdtemp(join(tmpdir(), 'outbound-redactor-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(workspace, { recursive: true, force: true });
+  });
+
+  it('should match deny-list globs against file names and paths', () => {
+    expect(isDeniedPath('.env', DEFAULT_DENIED_PATHS)).toBe(true);
+    expect(isDeniedPath('config/.env.production', DEFAULT_DENIED_PATHS)).toBe(true);
+    expect(isDeniedPath('./certs/server.pem', DEFAULT_DENIED_PATHS)).toBe(true);
+    expect(isDeniedPath('home/.ssh/id_rsa', DEFAULT_DENIED_PATHS)).toBe(true);
+    expect(isDeniedPath('src/env.ts', DEFAULT_DENIED_PATHS)).toBe(false);
+    expect(isDeniedPath('secrets/app.json', ['secrets/**'])).toBe(true);
+    expect(isDeniedPath('src/secrets/app.json', ['secrets/**'])).toBe(false);
+  });
+
+  it('should drop diffs of denied files and mask secrets and PII', () => {
+    const text = [
+      '```diff',
+      'diff --git a/.env b/.env',
+      '--- a/.env',
+      '+++ b/.env',
+      `+STRIPE_KEY=${API_KEY}`,
+      'diff --git a/src/db.ts b/src/db.ts',
+      '+++ b/src/db.ts',
+      `+const password = "${PASSWORD}";`,
+      '+// owner: jane.doe@example.com',
+      '```',
+    ].join('\n');
+
+    const result = new OutboundRedactor().redactText(text);
+
+    expect(result.text).not.toContain(API_KEY);
+    expect(result.text).not.toContain(PASSWORD);
+    expect(result.text).not.toContain('jane.doe@example.com');
+    expect(result.text.split('\n')).toEqual([
+      '```diff',
+      withheldPlaceholder('.env'),
+      'diff --git a/src/db.ts b/src/db.ts',
+      '+++ b/src/db.ts',
+      '+const [PASSWORD]";',
+      '+// owner: [email]',
+      '```',
+    ]);
+    expect(result.withheldPaths).toEqual(['.env']);
+    expect(result.matches).toEqual([
+      { kind: 'pii', pattern: 'email', line: 6 },
+      { kind: 'secret', pattern: 'password', line: 5 },
+    ]);
+  });
+
+  it('should redact every outbound field and append a summary without the values to the audit log', async () => {
+    const auditLogFile = join(workspace, 'logs', 'redactions.jsonl');
+    const redactor = new OutboundRedactor({ auditLogFile });
+
+    const request = await redactor.redactRequest({
+      task: 'Audit the client',
+      candidate: `const client = new Client({ apiKey: "${API_KEY}" });`,
+      contextPack: `## .env\n\n${withheldPlaceholder('.env')}\n`,
+      rubric: DEFAULT_AUDIT_RUBRIC,
+      budget: { maxCycles: 1, candidates: 1, threshold: 85 },
+    }, 'session-1');
+
+    expect(request.candidate).toBe('const client = new Client({ [API_KEY]" });');
+    expect(request.task).toBe('Audit the client');
+
+    const log = await readFile(auditLogFile, 'utf-8');
+    expect(log).not.toContain(API_KEY);
+    expect(JSON.parse(log.trim())).toMatchObject({
+      sessionId: 'session-1',
+      withheldPaths: ['.env'],
+      redactions: [{ field: 'candidate', kind: 'secret', pattern: 'api_key', line: 1 }],
+    });
+
+    // Requests without anything to withhold are not logged
+    await redactor.redactRequest({ ...request, candidate: 'const x = 1;', contextPack: '' });
+    expect((await readFile(auditLogFile, 'utf-8')).trim().split('\n')).toHaveLength(1);
+  });
+
+  it('should withhold denied files from the paths context', async () => {
+    await writeFile(join(workspace, '.env'), `API_KEY=${API_KEY}\n`);
+    await writeFile(join(workspace, 'index.ts'), 'export const answer = 42;\n');
+
+    const context = await new ContextPacker().buildPathsContext(['.env', 'index.ts'], workspace);
+
+    expect(context).toContain(withheldPlaceholder('.env'));
+    expect(context).not.toContain(API_KEY);
+    expect(context).toContain('export const answer = 42;');
+  });
+});
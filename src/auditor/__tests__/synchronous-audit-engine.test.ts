@@ -236,7 +236,32 @@ describe('SynchronousAuditEngine', () => {
       expect(result.timedOut).toBe(false);
       expect(result.review).toEqual(sampleReview);
       expect(result.sessionId).toBe('test-session');
-      expect(mockAuditor.auditThought).toHaveBeenCalledWith(sampleThought, 'test-session');
+      expect(mockAuditor.auditThought).toHaveBeenCalledWith(
+        sampleThought,
+        'test-session',
+        expect.objectContaining({ onStep: expect.any(Function) })
+      );
+    });
+
+    it('should report progress with the running pipeline step', async () => {
+      vi.mocked(mockAuditor.auditThought).mockImplementation(async (_thought, _sessionId, options) => {
+        options?.onStep?.('building-context');
+        options?.onStep?.('judging');
+        return sampleReview;
+      });
+      const { withTimeout } = await import('../../utils/error-handler.js');
+      vi.mocked(withTimeout).mockImplementation(async (operation) => {
+        return await operation();
+      });
+      const updates: Array<{ stage: string; step?: string; percentage: number }> = [];
+
+      await engine.auditAndWait(sampleThought, 'test-session', { onProgress: update => updates.push(update) });
+
+      expect(updates.map(update => update.step)).toEqual([undefined, undefined, 'building-context', 'judging', 'judging']);
+      expect(updates.map(update => update.stage)).toEqual([
+        'initializing', 'initializing', 'analyzing_structure', 'running_checks', 'completed'
+      ]);
+      expect(updates[updates.length - 1].percentage).toBe(100);
     });
 
     it('should handle audit timeout', async () => {
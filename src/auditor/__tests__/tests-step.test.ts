@@ -0,0 +1,198 @@
+/**
+ * Unit tests for TESTS Step Implementation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, writeFile, rm, chmod } from 'fs/promises';
+import { join } from 'path';
+import {
+  executeTestsStep,
+  TestsStepInputs,
+  TestsStepOutputs,
+  DEFAULT_TESTS_INPUTS
+} from '../workflow-steps/tests-step.js';
+import { EvidenceItem } from '../workflow-types.js';
+
+/**
+ * Fake Vitest binary that writes a Jest-compatible JSON report
+ */
+const FAKE_VITEST = `#!/usr/bin/env node
+const outputArg = process.argv.find(arg => arg.startsWith('--outputFile='));
+const files = process.argv.slice(2).filter(arg => !arg.startsWith('--') && arg !== 'run');
+const report = {
+  testResults: files.map(file => ({
+    name: process.cwd() + '/' + file,
+    status: 'failed',
+    assertionResults: [
+      { fullName: 'parser handles input', status: 'passed', duration: 12.4, failureMessages: [] },
+      { fullName: 'parser rejects null', status: 'failed', duration: 3, failureMessages: ['AssertionError: expected null to throw'] },
+      { fullName: 'parser todo', status: 'todo', duration: 0, failureMessages: [] }
+    ]
+  }))
+};
+require('fs').writeFileSync(outputArg.split('=')[1], JSON.stringify(report));
+process.exit(1);
+`;
+
+describe('TESTS Step', () => {
+  const testWorkspace = join(process.cwd(), 'test-tests-workspace');
+
+  beforeEach(async () => {
+    await mkdir(join(testWorkspace, 'src'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testWorkspace, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  const runStep = async (inputs: Partial<TestsStepInputs>) => {
+    const outputs: Record<string, any> = {};
+    const evidence: EvidenceItem[] = [];
+    await executeTestsStep(
+      { ...DEFAULT_TESTS_INPUTS, workspacePath: testWorkspace, ...inputs } as TestsStepInputs,
+      outputs,
+      evidence
+    );
+    return { outputs: outputs as TestsStepOutputs, evidence };
+  };
+
+  describe('executeTestsStep', () => {
+    it('should run related node:test files and report real outcomes', async () => {
+      await writeFile(join(testWorkspace, 'package.json'), JSON.stringify({
+        type: 'module',
+        scripts: { test: 'node --test' }
+      }));
+      await writeFile(join(testWorkspace, 'src', 'math.js'), 'export const add = (a, b) => a + b;\n');
+      await writeFile(join(testWorkspace, 'src', 'math.test.js'), [
+        "import test from 'node:test';",
+        "import assert from 'node:assert';",
+        "import { add } from './math.js';",
+        "test('adds numbers', () => { assert.equal(add(1, 1), 2); });",
+        "test('adds negatives', () => { assert.equal(add(-1, -1), 0, 'negative sum is wrong'); });",
+        "test.skip('adds strings', () => {});"
+      ].join('\n'));
+      await writeFile(join(testWorkspace, 'src', 'other.test.js'), "import test from 'node:test';\ntest('unrelated', () => {});\n");
+
+      const { outputs, evidence } = await runStep({ touchedFiles: ['src/math.js'] });
+
+      expect(outputs.testRun).toMatchObject({ framework: 'node-test', status: 'completed' });
+      expect(outputs.testRun?.testFiles).toEqual([join('src', 'math.test.js')]);
+      expect(outputs.testResults.map(t => [t.name, t.status])).toEqual([
+        ['adds numbers', 'passed'],
+        ['adds negatives', 'failed'],
+        ['adds strings', 'skipped']
+      ]);
+      expect(outputs.testResults[1].error).toContain('negative sum is wrong');
+      expect(outputs.testQualityMetrics).toMatchObject({ totalTests: 3, passingTests: 1, failingTests: 1, skippedTests: 1 });
+
+      const failure = evidence.find(e => e.type === 'test_failure' && e.severity === 'Critical');
+      expect(failure?.proof).toContain('negative sum is wrong');
+    });
+
+    it('should parse JSON reports from the workspace vitest binary', async () => {
+      await writeFile(join(testWorkspace, 'package.json'), JSON.stringify({ devDependencies: { vitest: '^3.0.0' } }));
+      await writeFile(join(testWorkspace, 'src', 'parser.ts'), 'export const parse = () => null;\n');
+      await writeFile(join(testWorkspace, 'src', 'parser.test.ts'), "import { parse } from './parser';\n");
+      const binDir = join(testWorkspace, 'node_modules', '.bin');
+      await mkdir(binDir, { recursive: true });
+      await writeFile(join(binDir, 'vitest'), FAKE_VITEST);
+      await chmod(join(binDir, 'vitest'), 0o755);
+
+      const { outputs } = await runStep({ touchedFiles: ['src/parser.ts'] });
+
+      expect(outputs.testRun).toMatchObject({ framework: 'vitest', status: 'completed', exitCode: 1 });
+      expect(outputs.testResults).toEqual([
+        expect.objectContaining({ name: 'parser handles input', status: 'passed', duration: 12, file: join('src', 'parser.test.ts') }),
+        expect.objectContaining({ name: 'parser rejects null', status: 'failed', error: 'AssertionError: expected null to throw' }),
+        expect.objectContaining({ name: 'parser todo', status: 'skipped' })
+      ]);
+    });
+
+    it('should report the configured timeout when the test run exceeds it', async () => {
+      await writeFile(join(testWorkspace, 'package.json'), JSON.stringify({ devDependencies: { vitest: '^3.0.0' } }));
+      await writeFile(join(testWorkspace, 'src', 'parser.test.ts'), "test('x', () => {});\n");
+      const binDir = join(testWorkspace, 'node_modules', '.bin');
+      await mkdir(binDir, { recursive: true });
+      await writeFile(join(binDir, 'vitest'), '#!/usr/bin/env node\nsetTimeout(() => {}, 10000);\n');
+      await chmod(join(binDir, 'vitest'), 0o755);
+
+      const { outputs } = await runStep({ touchedFiles: ['src/parser.test.ts'], timeout: 500 });
+
+      expect(outputs.testRun).toMatchObject({ status: 'timed_out', detail: 'Test run exceeded the 500ms timeout' });
+    });
+
+    it('should not invent results when no tests relate to the touched files', async () => {
+      await writeFile(join(testWorkspace, 'package.json'), JSON.stringify({ scripts: { test: 'node --test' } }));
+      await writeFile(join(testWorkspace, 'src', 'untested.js'), 'export const value = 1;\n');
+
+      const { outputs, evidence } = await runStep({ touchedFiles: ['src/untested.js'] });
+
+      expect(outputs.testResults).toEqual([]);
+      expect(outputs.testRun?.status).toBe('no_related_tests');
+      expect(evidence.some(e => e.description === 'No tests reference the touched files')).toBe(true);
+    });
+
+    it('should report a missing framework binary explicitly', async () => {
+      await writeFile(join(testWorkspace, 'package.json'), JSON.stringify({ devDependencies: { jest: '^29.0.0' } }));
+      await writeFile(join(testWorkspace, 'src', 'thing.test.ts'), "test('x', () => {});\n");
+
+      const { outputs, evidence } = await runStep({ touchedFiles: ['src/thing.test.ts'] });
+
+      expect(outputs.testResults).toEqual([]);
+      expect(outputs.testRun?.status).toBe('not_installed');
+      expect(evidence.some(e => e.description.includes('could not be executed'))).toBe(true);
+    });
+
+    it('should report uncovered changed lines from an existing coverage report', async () => {
+      await writeFile(join(testWorkspace, 'package.json'), JSON.stringify({ scripts: { test: 'node --test' } }));
+      await writeFile(join(testWorkspace, 'src', 'calc.js'), 'export const x = 1;\n');
+      await mkdir(join(testWorkspace, 'coverage'), { recursive: true });
+      await writeFile(join(testWorkspace, 'coverage', 'lcov.info'), [
+        'SF:src/calc.js',
+        'DA:1,1', 'DA:2,1', 'DA:3,0', 'DA:9,0',
+        'BRDA:2,0,0,1', 'BRDA:2,0,1,0',
+        'end_of_record'
+      ].join('\n'));
+      const gitDiff = [
+        'diff --git a/src/calc.js b/src/calc.js',
+        '--- a/src/calc.js',
+        '+++ b/src/calc.js',
+        '@@ -1,2 +1,4 @@',
+        ' export const x = 1;',
+        '+if (x) {',
+        '+  run();',
+        '+}'
+      ].join('\n');
+
+      const { outputs, evidence } = await runStep({ touchedFiles: ['src/calc.js'], gitDiff });
+
+      expect(outputs.coverageSource).toBe('lcov');
+      expect(outputs.coverageGaps).toEqual([{
+        file: join('src', 'calc.js'),
+        uncoveredLines: [3],
+        coverage: 50,
+        uncoveredFunctions: [],
+        uncoveredBranches: [{ line: 2, index: 1 }]
+      }]);
+      expect(outputs.testQualityMetrics.changedLinesCoverage).toBe(50);
+      const gapEvidence = evidence.find(e => e.description.startsWith('Changed-lines coverage'));
+      expect(gapEvidence?.severity).toBe('Critical');
+      expect(gapEvidence?.proof).toContain('uncovered lines 3');
+    });
+
+    it('should not invent coverage when no report exists', async () => {
+      await writeFile(join(testWorkspace, 'package.json'), JSON.stringify({ scripts: { test: 'node --test' } }));
+      await writeFile(join(testWorkspace, 'src', 'calc.js'), 'export const x = 1;\n');
+
+      const { outputs } = await runStep({ touchedFiles: ['src/calc.js'] });
+
+      expect(outputs.coverageSource).toBe('unavailable');
+      expect(outputs.coverageGaps).toEqual([]);
+      expect(outputs.testQualityMetrics.lineCoverage).toBe(0);
+    });
+  });
+});
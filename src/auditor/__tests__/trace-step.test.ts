@@ -0,0 +1,119 @@
+/**
+ * Unit tests for TRACE Step Implementation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { executeTraceStep, findACReferences, TraceStepInputs } from '../workflow-steps/trace-step.js';
+import type { TestResult } from '../workflow-steps/tests-step.js';
+import { AcceptanceCriterion, EvidenceItem } from '../workflow-types.js';
+
+function criterion(id: string, description: string): AcceptanceCriterion {
+  return { id, description, isMet: false, relatedTests: [] };
+}
+
+function testResult(file: string, name: string, status: TestResult['status']): TestResult {
+  return { file, name, status, duration: 1, type: 'unit' };
+}
+
+describe('TRACE Step', () => {
+  const testWorkspace = join(process.cwd(), 'test-trace-workspace');
+
+  beforeEach(async () => {
+    await mkdir(join(testWorkspace, 'src', '__tests__'), { recursive: true });
+
+    await writeFile(join(testWorkspace, 'src', 'cache.ts'), [
+      '// @ac REQ-3.2.4',
+      'export function evict() {}',
+      '',
+      '// @ac REQ-3.2.5, REQ-9.9.9',
+      'export function reportEvictionFailure() {}',
+    ].join('\n'));
+    await writeFile(join(testWorkspace, 'src', '__tests__', 'cache.test.ts'), [
+      "describe('cache', () => {",
+      "  it('[REQ-3.2.4] evicts the oldest entry', () => {});",
+      "  it('[REQ-3.2.5] reports eviction failures', () => {});",
+      '});',
+    ].join('\n'));
+    await writeFile(join(testWorkspace, 'src', 'logger.ts'), 'export function logRequest(request: unknown) {}\n');
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testWorkspace, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should find @ac annotations anywhere and tags only in test titles', () => {
+    expect(findACReferences('src/a.ts', "// @ac REQ-1.2, AC-003\nconst ids = ['[REQ-1.3]'];")).toEqual([
+      { acId: 'REQ-1.2', file: 'src/a.ts', line: 1 },
+      { acId: 'AC-003', file: 'src/a.ts', line: 1 },
+    ]);
+    expect(findACReferences('src/a.test.ts', "it.skip('[REQ-1.3] works', () => {});")).toEqual([
+      { acId: 'REQ-1.3', file: 'src/a.test.ts', line: 1, test: '[REQ-1.3] works' },
+    ]);
+  });
+
+  it('should prefer explicit links and only meet ACs whose linked tests pass', async () => {
+    const inputs: TraceStepInputs = {
+      workspacePath: testWorkspace,
+      acceptanceCriteria: [
+        criterion('REQ-3.2.4', 'WHEN the cache is full THEN the system SHALL evict the oldest entry'),
+        criterion('REQ-3.2.5', 'IF eviction fails THEN the system SHALL report an error'),
+        criterion('REQ-1.1', 'WHEN a request arrives THEN the logger SHALL log the request'),
+      ],
+      touchedFiles: ['src/cache.ts', 'src/logger.ts', 'src/__tests__/cache.test.ts'],
+      testResults: [
+        testResult('src/__tests__/cache.test.ts', 'cache [REQ-3.2.4] evicts the oldest entry', 'passed'),
+        testResult('src/__tests__/cache.test.ts', 'cache [REQ-3.2.5] reports eviction failures', 'failed'),
+      ],
+    };
+    const outputs: Record<string, any> = {};
+    const evidence: EvidenceItem[] = [];
+
+    await executeTraceStep(inputs, outputs, evidence);
+
+    const matrix = outputs.traceabilityMatrix;
+    expect(matrix['REQ-3.2.4']).toMatchObject({
+      linkSource: 'explicit',
+      confidence: 100,
+      implementationFiles: ['src/cache.ts'],
+      testFiles: ['src/__tests__/cache.test.ts'],
+      testOutcomes: { passed: 1, failed: 0, skipped: 0 },
+      met: true,
+    });
+    expect(matrix['REQ-3.2.4'].codeReferences[0]).toEqual(
+      { file: 'src/cache.ts', line: 1, snippet: '// @ac REQ-3.2.4', type: 'comment' }
+    );
+
+    expect(matrix['REQ-3.2.5']).toMatchObject({
+      covered: true,
+      testOutcomes: { passed: 0, failed: 1, failedTests: ['cache [REQ-3.2.5] reports eviction failures'] },
+      met: false,
+    });
+    expect(outputs.acImplementationMapping['REQ-3.2.5'].status).toBe('partial');
+
+    // Inferred links carry their keyword confidence
+    expect(matrix['REQ-1.1'].linkSource).toBe('inferred');
+    expect(matrix['REQ-1.1'].links[0]).toMatchObject({ file: 'src/logger.ts', kind: 'implementation', source: 'inferred' });
+    expect(matrix['REQ-1.1'].links[0].confidence).toBeLessThan(100);
+    expect(matrix['REQ-1.1'].met).toBe(false);
+
+    expect(outputs.unmetACs).toEqual(['REQ-3.2.5', 'REQ-1.1']);
+    expect(outputs.coverageReport).toMatchObject({ totalACs: 3, metACs: 1, explicitlyLinkedACs: 2 });
+    expect(outputs.unresolvedReferences).toEqual([{ acId: 'REQ-9.9.9', file: 'src/cache.ts', line: 4 }]);
+
+    expect(evidence).toContainEqual(expect.objectContaining({
+      type: 'test_failure',
+      description: '1 acceptance criteria have failing linked tests',
+      proof: 'REQ-3.2.5: cache [REQ-3.2.5] reports eviction failures',
+    }));
+    expect(evidence).toContainEqual(expect.objectContaining({
+      type: 'documentation_gap',
+      proof: 'src/cache.ts:4 REQ-9.9.9',
+    }));
+  });
+});
@@ -0,0 +1,481 @@
+/**
+ * Architecture Rules
+ *
+ * Declarative layering rules for the CONFORM step. Rules are read from
+ * `architecture.json` in the steering directory or from a fenced
+ * `architecture` block (YAML or JSON) inside a steering markdown document,
+ * and are checked against the resolved import graph of the touched files.
+ */
+
+import { readFile, readdir, stat } from 'fs/promises';
+import { join, dirname, relative, resolve, sep } from 'path';
+import type * as ts from 'typescript';
+import { loadTypeScript, type TypeScriptModule } from '../utils/tool-runner.js';
+import { globToRegExp, pathExists } from '../utils/file-utils.js';
+import type { ArchitectureViolation } from './workflow-steps/conform-step.js';
+
+/**
+ * Layer of the codebase and the layers it may depend on
+ */
+export interface ArchitectureLayer {
+  name: string;
+  /** Workspace-relative globs of files belonging to the layer */
+  paths: string[];
+  /** Layers this layer may import; omitted means unrestricted */
+  mayImport?: string[];
+}
+
+/**
+ * Module that must not be imported, optionally only from some files
+ */
+export interface ForbiddenModuleRule {
+  /** Package specifier or workspace-relative glob of the forbidden module */
+  module: string;
+  /** Workspace-relative globs of importing files; omitted means everywhere */
+  from?: string[];
+  reason?: string;
+}
+
+/**
+ * Parsed architecture rules
+ */
+export interface ArchitectureRules {
+  layers: ArchitectureLayer[];
+  forbidden: ForbiddenModuleRule[];
+  /** Reject runtime import cycles through touched files */
+  noCycles: boolean;
+  /** File the rules were read from */
+  source: string;
+}
+
+/**
+ * Import statement found in a source file
+ */
+export interface ImportStatement {
+  /** Workspace-relative importing file */
+  file: string;
+  line: number;
+  specifier: string;
+  /** Exact statement text as written in the file */
+  statement: string;
+  /** Workspace-relative target for relative imports that resolve to a file */
+  resolved?: string;
+  /** `import type` / `export type`: erased at runtime */
+  typeOnly: boolean;
+}
+
+const RULES_FILE = 'architecture.json';
+const RULES_BLOCK = /```[ \t]*(?:(yaml|yml|json)[ \t]+)?architecture[ \t]*\r?\n([\s\S]*?)```/;
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+const MAX_CYCLE_SEARCH_FILES = 2000;
+
+// ============================================================================
+// Rule Loading
+// ============================================================================
+
+/**
+ * Load architecture rules from the steering directory, or null if none are declared
+ */
+export async function loadArchitectureRules(
+  workspacePath: string,
+  steeringPath: string
+): Promise<ArchitectureRules | null> {
+  const steeringDirectory = resolve(workspacePath, steeringPath);
+  const rulesFile = join(steeringDirectory, RULES_FILE);
+
+  if (await pathExists(rulesFile)) {
+    const content = await readFile(rulesFile, 'utf-8');
+    let value: unknown;
+    try {
+      value = JSON.parse(content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid architecture rules in ${rulesFile}: ${message}`);
+    }
+    return parseArchitectureRules(value, rulesFile);
+  }
+
+  if (!(await pathExists(steeringDirectory))) {
+    return null;
+  }
+
+  const documents = (await readdir(steeringDirectory)).filter(name => name.endsWith('.md')).sort();
+  for (const document of documents) {
+    const documentPath = join(steeringDirectory, document);
+    const match = RULES_BLOCK.exec(await readFile(documentPath, 'utf-8'));
+    if (match) {
+      const [, language, body] = match;
+      const isJson = language === 'json' || (!language && body.trim().startsWith('{'));
+      let value: unknown;
+      try {
+        value = isJson ? JSON.parse(body) : parseYamlSubset(body);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid architecture rules in ${documentPath}: ${message}`);
+      }
+      return parseArchitectureRules(value, documentPath);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate a parsed rules document
+ */
+export function parseArchitectureRules(value: unknown, source: string): ArchitectureRules {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid architecture rules in ${source}: ${message}`);
+  };
+  const isStringArray = (candidate: unknown): candidate is string[] =>
+    Array.isArray(candidate) && candidate.every(item => typeof item === 'string');
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    fail('rules must be an object');
+  }
+  const { layers = [], forbidden = [], noCycles = false } = value as Record<string, unknown>;
+
+  if (!Array.isArray(layers)) fail('layers must be an array');
+  if (!Array.isArray(forbidden)) fail('forbidden must be an array');
+  if (typeof noCycles !== 'boolean') fail('noCycles must be a boolean');
+
+  const parsedLayers = (layers as unknown[]).map((layer, index): ArchitectureLayer => {
+    const { name, paths, mayImport } = (layer || {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || !name) fail(`layer ${index} requires a name`);
+    if (!isStringArray(paths) || paths.length === 0) fail(`layer ${name} requires an array of path globs`);
+    if (mayImport !== undefined && !isStringArray(mayImport)) fail(`layer ${name} mayImport must be an array of layer names`);
+    return { name: name as string, paths: paths as string[], mayImport: mayImport as string[] | undefined };
+  });
+
+  const layerNames = new Set(parsedLayers.map(layer => layer.name));
+  for (const layer of parsedLayers) {
+    for (const allowed of layer.mayImport || []) {
+      if (!layerNames.has(allowed)) fail(`layer ${layer.name} may import unknown layer ${allowed}`);
+    }
+  }
+
+  const parsedForbidden = (forbidden as unknown[]).map((rule, index): ForbiddenModuleRule => {
+    const { module, from, reason } = (rule || {}) as Record<string, unknown>;
+    if (typeof module !== 'string' || !module) fail(`forbidden rule ${index} requires a module`);
+    if (from !== undefined && !isStringArray(from)) fail(`forbidden rule ${module} from must be an array of path globs`);
+    if (reason !== undefined && typeof reason !== 'string') fail(`forbidden rule ${module} reason must be a string`);
+    return { module: module as string, from: from as string[] | undefined, reason: reason as string | undefined };
+  });
+
+  return { layers: parsedLayers, forbidden: parsedForbidden, noCycles: noCycles as boolean, source };
+}
+
+/**
+ * Parse the YAML subset used by rule blocks: nested mappings, block and
+ * flow (`[a, b]`) sequences, and plain, quoted or boolean scalars
+ */
+export function parseYamlSubset(text: string): unknown {
+  const entries = text.split('\n')
+    .map((raw, index) => ({ raw: raw.replace(/(^|\s)#.*$/, '').trimEnd(), line: index + 1 }))
+    .filter(entry => entry.raw.trim() !== '')
+    .map(entry => ({ indent: entry.raw.length - entry.raw.trimStart().length, text: entry.raw.trim(), line: entry.line }));
+  let position = 0;
+
+  const isSequenceItem = (entryText: string) => entryText === '-' || entryText.startsWith('- ');
+
+  const parseNode = (indent: number): unknown =>
+    isSequenceItem(entries[position].text) ? parseSequence(indent) : parseMapping(indent);
+
+  const parseSequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    while (position < entries.length && entries[position].indent === indent && isSequenceItem(entries[position].text)) {
+      const entry = entries[position];
+      const rest = entry.text.slice(1).trim();
+      if (!rest) {
+        position++;
+        items.push(position < entries.length && entries[position].indent > indent ? parseNode(entries[position].indent) : null);
+      } else if (/^[\w.-]+:(\s|$)/.test(rest)) {
+        const itemIndent = indent + entry.text.length - rest.length;
+        entries[position] = { indent: itemIndent, text: rest, line: entry.line };
+        items.push(parseMapping(itemIndent));
+      } else {
+        position++;
+        items.push(parseScalar(rest));
+      }
+    }
+    return items;
+  };
+
+  const parseMapping = (indent: number): Record<string, unknown> => {
+    const mapping: Record<string, unknown> = {};
+    while (position < entries.length && entries[position].indent === indent && !isSequenceItem(entries[position].text)) {
+      const entry = entries[position];
+      const match = /^([\w.-]+):(?:\s+(.*))?$/.exec(entry.text);
+      if (!match) {
+        throw new Error(`line ${entry.line}: expected "key: value" but found "${entry.text}"`);
+      }
+      position++;
+      const next = entries[position];
+      if (match[2] !== undefined) {
+        mapping[match[1]] = parseScalar(match[2]);
+      } else if (next && (next.indent > indent || (next.indent === indent && isSequenceItem(next.text)))) {
+        mapping[match[1]] = parseNode(next.indent);
+      } else {
+        mapping[match[1]] = null;
+      }
+    }
+    return mapping;
+  };
+
+  if (entries.length === 0) {
+    return {};
+  }
+  const result = parseNode(entries[0].indent);
+  if (position < entries.length) {
+    throw new Error(`line ${entries[position].line}: unexpected indentation`);
+  }
+  return result;
+}
+
+function parseScalar(text: string): unknown {
+  if (text.startsWith('[') && text.endsWith(']')) {
+    const inner = text.slice(1, -1).trim();
+    return inner ? inner.split(',').map(item => parseScalar(item.trim())) : [];
+  }
+  if (/^(['"]).*\1$/.test(text)) return text.slice(1, -1);
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text === 'null' || text === '~') return null;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+// ============================================================================
+// Import Graph
+// ============================================================================
+
+/**
+ * Collect the import statements of a source file, resolving relative imports
+ * to workspace files
+ */
+export async function collectImports(
+  typescript: TypeScriptModule,
+  workspacePath: string,
+  file: string
+): Promise<ImportStatement[]> {
+  const absolutePath = resolve(workspacePath, file);
+  const content = await readFile(absolutePath, 'utf-8');
+  const sourceFile = typescript.createSourceFile(absolutePath, content, typescript.ScriptTarget.Latest, true);
+  const relativeFile = toWorkspacePath(workspacePath, absolutePath);
+  const found: Array<{ node: ts.Node; specifier: string; statement: string; typeOnly: boolean }> = [];
+
+  const visit = (node: ts.Node): void => {
+    if ((typescript.isImportDeclaration(node) || typescript.isExportDeclaration(node))
+      && node.moduleSpecifier && typescript.isStringLiteral(node.moduleSpecifier)) {
+      const typeOnly = typescript.isImportDeclaration(node) ? Boolean(node.importClause?.isTypeOnly) : node.isTypeOnly;
+      found.push({ node, specifier: node.moduleSpecifier.text, statement: node.getText(sourceFile), typeOnly });
+    } else if (typescript.isImportEqualsDeclaration(node)
+      && typescript.isExternalModuleReference(node.moduleReference)
+      && typescript.isStringLiteral(node.moduleReference.expression)) {
+      found.push({ node, specifier: node.moduleReference.expression.text, statement: node.getText(sourceFile), typeOnly: node.isTypeOnly });
+    } else if (typescript.isCallExpression(node) && node.arguments.length === 1 && typescript.isStringLiteral(node.arguments[0])
+      && (node.expression.kind === typescript.SyntaxKind.ImportKeyword
+        || (typescript.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+      const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      const statement = content.split('\n')[line].trim();
+      found.push({ node, specifier: node.arguments[0].text, statement, typeOnly: false });
+    }
+    typescript.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  const imports: ImportStatement[] = [];
+  for (const { node, specifier, statement, typeOnly } of found) {
+    const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    const resolvedPath = specifier.startsWith('.') ? await resolveSourceImport(dirname(absolutePath), specifier) : null;
+    imports.push({
+      file: relativeFile,
+      line: line + 1,
+      specifier,
+      statement,
+      resolved: resolvedPath ? toWorkspacePath(workspacePath, resolvedPath) : undefined,
+      typeOnly
+    });
+  }
+  return imports;
+}
+
+/**
+ * Resolve `./x.js`, `./x` or `./x/index` to a source file
+ */
+async function resolveSourceImport(fromDirectory: string, specifier: string): Promise<string | null> {
+  const base = resolve(fromDirectory, specifier);
+  const withoutExtension = base.replace(/\.(m|c)?jsx?$/, '');
+  const candidates = [
+    base,
+    ...SOURCE_EXTENSIONS.map(extension => `${withoutExtension}${extension}`),
+    ...SOURCE_EXTENSIONS.map(extension => join(base, `index${extension}`))
+  ];
+  for (const candidate of candidates) {
+    try {
+      if ((await stat(candidate)).isFile()) {
+        return candidate;
+      }
+    } catch {
+      // Candidate does not exist, try the next one
+    }
+  }
+  return null;
+}
+
+function toWorkspacePath(workspacePath: string, absolutePath: string): string {
+  return relative(resolve(workspacePath), absolutePath).split(sep).join('/');
+}
+
+// ============================================================================
+// Rule Checking
+// ============================================================================
+
+/**
+ * Check the imports of touched files against the architecture rules
+ */
+export async function checkArchitectureRules(
+  workspacePath: string,
+  touchedFiles: string[],
+  rules: ArchitectureRules
+): Promise<ArchitectureViolation[]> {
+  const typescript = loadTypeScript(workspacePath);
+  if (!typescript) {
+    throw new Error('TypeScript is required to resolve the import graph for architecture rules');
+  }
+
+  const importCache = new Map<string, ImportStatement[]>();
+  const importsOf = async (file: string): Promise<ImportStatement[]> => {
+    if (!importCache.has(file)) {
+      importCache.set(file, await collectImports(typescript, workspacePath, file));
+    }
+    return importCache.get(file)!;
+  };
+
+  const violations: ArchitectureViolation[] = [];
+  for (const touchedFile of touchedFiles) {
+    const absolutePath = resolve(workspacePath, touchedFile);
+    if (!(await pathExists(absolutePath))) continue;
+
+    const file = toWorkspacePath(workspacePath, absolutePath);
+    const imports = await importsOf(file);
+    for (const statement of imports) {
+      violations.push(...checkLayering(statement, rules), ...checkForbiddenModules(statement, rules));
+    }
+
+    if (rules.noCycles) {
+      const cycle = await findImportCycle(file, importsOf);
+      if (cycle) {
+        const [first] = cycle;
+        const path = [first.file, ...cycle.map(step => step.resolved!)].join(' -> ');
+        violations.push({
+          file: first.file,
+          line: first.line,
+          pattern: 'No Import Cycles',
+          violation: `Import cycle ${path}`,
+          suggestedFix: 'Break the cycle by moving the shared code into a module both sides can import',
+          severity: 'Major',
+          importStatement: first.statement
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * First layer whose globs match the workspace-relative file
+ */
+function findLayer(file: string, rules: ArchitectureRules): ArchitectureLayer | undefined {
+  return rules.layers.find(layer => layer.paths.some(glob => globToRegExp(glob).test(file)));
+}
+
+function checkLayering(statement: ImportStatement, rules: ArchitectureRules): ArchitectureViolation[] {
+  if (!statement.resolved) return [];
+
+  const sourceLayer = findLayer(statement.file, rules);
+  const targetLayer = findLayer(statement.resolved, rules);
+  if (!sourceLayer?.mayImport || !targetLayer || sourceLayer === targetLayer
+    || sourceLayer.mayImport.includes(targetLayer.name)) {
+    return [];
+  }
+
+  const allowed = sourceLayer.mayImport.length > 0 ? sourceLayer.mayImport.join(', ') : 'no other layers';
+  return [{
+    file: statement.file,
+    line: statement.line,
+    pattern: `Layer ${sourceLayer.name}`,
+    violation: `Layer ${sourceLayer.name} must not import layer ${targetLayer.name} (${statement.resolved}); it may import ${allowed}`,
+    suggestedFix: `Depend on ${targetLayer.name} through a layer ${sourceLayer.name} may import, or move the code into ${sourceLayer.name}`,
+    severity: 'Major',
+    importStatement: statement.statement
+  }];
+}
+
+function checkForbiddenModules(statement: ImportStatement, rules: ArchitectureRules): ArchitectureViolation[] {
+  const violations: ArchitectureViolation[] = [];
+  for (const rule of rules.forbidden) {
+    const appliesToFile = !rule.from || rule.from.some(glob => globToRegExp(glob).test(statement.file));
+    if (!appliesToFile || !matchesModule(rule.module, statement)) continue;
+
+    violations.push({
+      file: statement.file,
+      line: statement.line,
+      pattern: `Forbidden module ${rule.module}`,
+      violation: `${statement.file} must not import ${statement.specifier}${rule.reason ? `: ${rule.reason}` : ''}`,
+      suggestedFix: `Remove the import of ${statement.specifier}`,
+      severity: 'Major',
+      importStatement: statement.statement
+    });
+  }
+  return violations;
+}
+
+/**
+ * Match a package specifier (`fs` also matches `node:fs` and `fs/promises`)
+ * or a workspace path glob
+ */
+function matchesModule(module: string, statement: ImportStatement): boolean {
+  const specifier = statement.specifier.replace(/^node:/, '');
+  const name = module.replace(/^node:/, '');
+  if (specifier === name || specifier.startsWith(`${name}/`)) return true;
+  if (!statement.specifier.startsWith('.') && globToRegExp(name).test(specifier)) return true;
+  return Boolean(statement.resolved && globToRegExp(module).test(statement.resolved));
+}
+
+/**
+ * Depth-first search for a runtime import path leading back to the file;
+ * returns the chain of import statements starting in the file
+ */
+async function findImportCycle(
+  file: string,
+  importsOf: (file: string) => Promise<ImportStatement[]>
+): Promise<ImportStatement[] | null> {
+  const visited = new Set<string>([file]);
+  const stack: Array<{ path: ImportStatement[]; imports: ImportStatement[] }> = [
+    { path: [], imports: (await importsOf(file)).filter(isRuntimeWorkspaceImport) }
+  ];
+
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    const next = frame.imports.shift();
+    if (!next) {
+      stack.pop();
+      continue;
+    }
+    const path = [...frame.path, next];
+    if (next.resolved === file) {
+      return path;
+    }
+    if (visited.has(next.resolved!) || visited.size >= MAX_CYCLE_SEARCH_FILES) continue;
+    visited.add(next.resolved!);
+    stack.push({ path, imports: (await importsOf(next.resolved!)).filter(isRuntimeWorkspaceImport) });
+  }
+
+  return null;
+}
+
+function isRuntimeWorkspaceImport(statement: ImportStatement): boolean {
+  return Boolean(statement.resolved) && !statement.typeOnly;
+}
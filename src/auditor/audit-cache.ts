@@ -2,21 +2,29 @@
  * Audit Result Cache
  * 
  * Implements caching for identical code submissions to improve performance
- * and reduce redundant audit operations.
+ * and reduce redundant audit operations. Entries are content-addressed: the
+ * key covers everything that affects the verdict, so an entry never goes
+ * stale and can be shared between sessions, servers and team members.
  * 
  * Requirements: 9.1 - Add audit result caching for identical code submissions
  */
 
 import crypto from 'crypto';
-import type { GansAuditorCodexReview, GansAuditorCodexThoughtData } from '../types/gan-types.js';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type {
+  GansAuditorCodexReview,
+  GansAuditorCodexAuditRequest,
+  GansAuditorCodexSessionConfig,
+} from '../types/gan-types.js';
 import { logger, createComponentLogger } from '../utils/logger.js';
 
 /**
  * Cache entry for audit results
  */
 export interface AuditCacheEntry {
-  /** Hash of the code content */
-  codeHash: string;
+  /** Content-addressed key of the audit */
+  key: string;
   /** The audit review result */
   review: GansAuditorCodexReview;
   /** Timestamp when the entry was created */
@@ -43,6 +51,25 @@ export interface AuditCacheConfig {
   cleanupInterval: number;
   /** Whether to enable cache statistics */
   enableStats: boolean;
+  /**
+   * Directory of the on-disk backend. When set, entries are also written
+   * there and survive restarts; several servers may share the directory.
+   */
+  directory?: string;
+}
+
+/**
+ * Everything that affects the verdict of an audit
+ */
+export interface AuditCacheKeyInput {
+  /** Audit request sent to the judges; its context pack is hashed */
+  request: GansAuditorCodexAuditRequest;
+  /** Session configuration the audit runs with */
+  config: GansAuditorCodexSessionConfig;
+  /** Identities of the judges, such as the Codex model and profile */
+  judges: string[];
+  /** Hash of the prompt configuration the judges are given */
+  promptConfigHash: string;
 }
 
 /**
@@ -74,11 +101,33 @@ export const DEFAULT_AUDIT_CACHE_CONFIG: AuditCacheConfig = {
   enableStats: true,
 };
 
+/** Bump when the key derivation changes, so old entries are never matched */
+const CACHE_KEY_VERSION = 1;
+
+/**
+ * Compute the content-addressed cache key of an audit
+ */
+export function computeAuditCacheKey(input: AuditCacheKeyInput): string {
+  const { request, config, judges, promptConfigHash } = input;
+  return sha256(stableStringify({
+    version: CACHE_KEY_VERSION,
+    code: normalizeCandidate(request.candidate),
+    task: request.task,
+    rubric: request.rubric,
+    budget: request.budget,
+    contextPack: sha256(request.contextPack),
+    config,
+    judges,
+    promptConfigHash,
+  }));
+}
+
 /**
  * Audit Result Cache Implementation
  * 
- * Provides efficient caching of audit results based on code content hash
- * with automatic cleanup and memory management.
+ * Provides efficient caching of audit results by content-addressed key
+ * with automatic cleanup and memory management. With a directory, entries
+ * are also persisted; the memory layer then holds the warm subset.
  */
 export class AuditCache {
   private readonly cache = new Map<string, AuditCacheEntry>();
@@ -108,13 +157,11 @@ export class AuditCache {
   }
 
   /**
-   * Get cached audit result for code content
+   * Get the cached audit result of a key
    */
-  async get(thought: GansAuditorCodexThoughtData): Promise<GansAuditorCodexReview | null> {
+  async get(key: string): Promise<GansAuditorCodexReview | null> {
     const startTime = Date.now();
-    const codeHash = this.generateCodeHash(thought);
-    
-    const entry = this.cache.get(codeHash);
+    const entry = this.cache.get(key) ?? await this.readEntry(key);
     if (!entry) {
       this.recordMiss();
       return null;
@@ -122,32 +169,39 @@ export class AuditCache {
 
     // Check if entry has expired
     if (this.isExpired(entry)) {
-      this.cache.delete(codeHash);
+      this.cache.delete(key);
       this.updateMemoryUsage();
+      await this.removeEntryFile(key);
       this.recordMiss();
       return null;
     }
 
+    if (!this.cache.has(key)) {
+      await this.ensureCapacity(entry.size);
+      this.cache.set(key, entry);
+      this.updateMemoryUsage();
+    }
+
     // Update access statistics
     entry.lastAccessedAt = Date.now();
     entry.accessCount++;
     
     this.recordHit(Date.now() - startTime);
     
-    this.componentLogger.debug('Cache hit for code hash', {
-      codeHash: codeHash.substring(0, 8),
+    this.componentLogger.debug('Cache hit for key', {
+      key: key.substring(0, 8),
       accessCount: entry.accessCount,
       age: Date.now() - entry.createdAt,
     });
 
-    return entry.review;
+    // Callers may annotate the review; the cached copy stays as judged
+    return structuredClone(entry.review);
   }
 
   /**
-   * Store audit result in cache
+   * Store an audit result under its key
    */
-  async set(thought: GansAuditorCodexThoughtData, review: GansAuditorCodexReview): Promise<void> {
-    const codeHash = this.generateCodeHash(thought);
+  async set(key: string, review: GansAuditorCodexReview): Promise<void> {
     const now = Date.now();
     const size = this.calculateEntrySize(review);
 
@@ -155,19 +209,20 @@ export class AuditCache {
     await this.ensureCapacity(size);
 
     const entry: AuditCacheEntry = {
-      codeHash,
-      review,
+      key,
+      review: structuredClone(review),
       createdAt: now,
       lastAccessedAt: now,
       accessCount: 1,
       size,
     };
 
-    this.cache.set(codeHash, entry);
+    this.cache.set(key, entry);
     this.updateMemoryUsage();
+    await this.writeEntry(entry);
 
     this.componentLogger.debug('Cached audit result', {
-      codeHash: codeHash.substring(0, 8),
+      key: key.substring(0, 8),
       size,
       verdict: review.verdict,
       score: review.overall,
@@ -175,16 +230,16 @@ export class AuditCache {
   }
 
   /**
-   * Check if audit result exists in cache
+   * Check if an unexpired audit result exists for a key
    */
-  has(thought: GansAuditorCodexThoughtData): boolean {
-    const codeHash = this.generateCodeHash(thought);
-    const entry = this.cache.get(codeHash);
-    return entry !== undefined && !this.isExpired(entry);
+  async has(key: string): Promise<boolean> {
+    const entry = this.cache.get(key) ?? await this.readEntry(key);
+    return entry !== null && !this.isExpired(entry);
   }
 
   /**
-   * Clear all cache entries
+   * Clear all cache entries in memory; the on-disk backend is left as is,
+   * since other servers may share it
    */
   clear(): void {
     this.cache.clear();
@@ -251,55 +306,71 @@ export class AuditCache {
   // ============================================================================
 
   /**
-   * Generate hash for code content
+   * Path of a key's entry in the on-disk backend
    */
-  private generateCodeHash(thought: GansAuditorCodexThoughtData): string {
-    // Extract code content from thought
-    const codeContent = this.extractCodeContent(thought.thought);
-    
-    // Create hash including relevant metadata
-    const hashInput = JSON.stringify({
-      code: codeContent,
-      thoughtNumber: thought.thoughtNumber,
-      // Include any other factors that should affect caching
-    });
+  private getEntryPath(key: string): string {
+    // Spread entries over subdirectories, as git does for objects
+    return join(this.config.directory!, key.slice(0, 2), `${key}.json`);
+  }
+
+  /**
+   * Read an entry from the on-disk backend; null when absent or disabled.
+   * Unreadable or corrupt entries, such as a file truncated on a shared
+   * mount, are removed and count as absent.
+   */
+  private async readEntry(key: string): Promise<AuditCacheEntry | null> {
+    if (!this.config.directory) {
+      return null;
+    }
+    let stored: { createdAt: number; review: GansAuditorCodexReview };
+    try {
+      stored = JSON.parse(await fs.readFile(this.getEntryPath(key), 'utf-8'));
+      if (typeof stored?.createdAt !== 'number' || typeof stored.review !== 'object' || stored.review === null) {
+        throw new Error('Entry has no createdAt or review');
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      this.componentLogger.warn('Removing unreadable audit cache entry', {
+        key: key.substring(0, 8),
+        error: (error as Error).message,
+      });
+      await this.removeEntryFile(key).catch(() => undefined);
+      return null;
+    }
+    return {
+      key,
+      review: stored.review,
+      createdAt: stored.createdAt,
+      lastAccessedAt: stored.createdAt,
+      accessCount: 0,
+      size: this.calculateEntrySize(stored.review),
+    };
+  }
 
-    return crypto.createHash('sha256').update(hashInput).digest('hex');
+  /**
+   * Write an entry to the on-disk backend
+   */
+  private async writeEntry(entry: AuditCacheEntry): Promise<void> {
+    if (!this.config.directory) {
+      return;
+    }
+    const path = this.getEntryPath(entry.key);
+    await fs.mkdir(join(this.config.directory, entry.key.slice(0, 2)), { recursive: true });
+    // Write then rename, so concurrent readers never see a partial entry
+    const tempPath = `${path}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify({ createdAt: entry.createdAt, review: entry.review }), 'utf-8');
+    await fs.rename(tempPath, path);
   }
 
   /**
-   * Extract code content from thought text
+   * Remove an expired entry from the on-disk backend
    */
-  private extractCodeContent(thoughtText: string): string {
-    // Remove markdown formatting and extract just the code
-    const codeBlocks = thoughtText.match(/```[\s\S]*?```/g) || [];
-    const inlineCode = thoughtText.match(/`[^`]+`/g) || [];
-    
-    // Normalize whitespace and remove comments for better cache hits
-    const allCode = [...codeBlocks, ...inlineCode]
-      .map(code => {
-        // Remove markdown code block markers
-        let cleanCode = code.replace(/```\w*\n?/g, '').replace(/`/g, '');
-        
-        // Remove comments
-        cleanCode = cleanCode
-          .replace(/\/\*[\s\S]*?\*\//g, '') // Remove block comments
-          .replace(/\/\/.*$/gm, '') // Remove line comments
-          .replace(/#.*$/gm, '') // Remove Python/shell comments
-          .replace(/<!--[\s\S]*?-->/g, ''); // Remove HTML comments
-        
-        // Normalize whitespace - collapse all whitespace to single spaces
-        cleanCode = cleanCode
-          .replace(/\s+/g, ' ') // Replace multiple whitespace with single space
-          .replace(/\s*([{}();,])\s*/g, '$1') // Remove spaces around punctuation
-          .trim();
-        
-        return cleanCode;
-      })
-      .join('\n')
-      .trim();
-
-    return allCode;
+  private async removeEntryFile(key: string): Promise<void> {
+    if (this.config.directory) {
+      await fs.rm(this.getEntryPath(key), { force: true });
+    }
   }
 
   /**
@@ -436,4 +507,59 @@ export class AuditCache {
  */
 export function createAuditCache(config: Partial<AuditCacheConfig> = {}): AuditCache {
   return new AuditCache(config);
-}
\ No newline at end of file
+}
+
+// ============================================================================
+// Key Derivation Helpers
+// ============================================================================
+
+function sha256(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * JSON with object keys sorted, so equal values always hash equally
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested
+  );
+}
+
+/**
+ * Normalize the audited code so formatting and comments do not affect the key.
+ * Candidates without code are compared as whitespace-normalized text.
+ */
+function normalizeCandidate(candidate: string): string {
+  // Remove markdown formatting and extract just the code
+  const codeBlocks = candidate.match(/```[\s\S]*?```/g) || [];
+  const inlineCode = candidate.match(/`[^`]+`/g) || [];
+  
+  // Normalize whitespace and remove comments for better cache hits
+  const allCode = [...codeBlocks, ...inlineCode]
+    .map(code => {
+      // Remove markdown code block markers
+      let cleanCode = code.replace(/```\w*\n?/g, '').replace(/`/g, '');
+      
+      // Remove comments
+      cleanCode = cleanCode
+        .replace(/\/\*[\s\S]*?\*\//g, '') // Remove block comments
+        .replace(/\/\/.*$/gm, '') // Remove line comments
+        .replace(/#.*$/gm, '') // Remove Python/shell comments
+        .replace(/<!--[\s\S]*?-->/g, ''); // Remove HTML comments
+      
+      // Normalize whitespace - collapse all whitespace to single spaces
+      cleanCode = cleanCode
+        .replace(/\s+/g, ' ') // Replace multiple whitespace with single space
+        .replace(/\s*([{}();,])\s*/g, '$1') // Remove spaces around punctuation
+        .trim();
+      
+      return cleanCode;
+    })
+    .join('\n')
+    .trim();
+
+  return allCode || candidate.replace(/\s+/g, ' ').trim();
+}
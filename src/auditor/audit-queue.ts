@@ -12,6 +12,8 @@ import type {
   GansAuditorCodexThoughtData, 
   GansAuditorCodexReview 
 } from '../types/gan-types.js';
+import type { AuditRunOptions } from '../types/integration-types.js';
+import { AuditCancelledError } from '../types/error-types.js';
 import { logger, createComponentLogger } from '../utils/logger.js';
 
 /**
@@ -24,6 +26,8 @@ export interface AuditJob {
   thought: GansAuditorCodexThoughtData;
   /** Session ID for context */
   sessionId?: string;
+  /** Per-call options passed to the audit function */
+  runOptions?: AuditRunOptions;
   /** Job priority (higher = more important) */
   priority: number;
   /** Timestamp when job was created */
@@ -132,7 +136,8 @@ export class AuditQueue extends EventEmitter {
   constructor(
     private readonly auditFunction: (
       thought: GansAuditorCodexThoughtData, 
-      sessionId?: string
+      sessionId?: string,
+      options?: AuditRunOptions
     ) => Promise<GansAuditorCodexReview>,
     config: Partial<AuditQueueConfig> = {}
   ) {
@@ -167,6 +172,7 @@ export class AuditQueue extends EventEmitter {
       priority?: 'high' | 'normal' | 'low';
       timeout?: number;
       maxRetries?: number;
+      runOptions?: AuditRunOptions;
     } = {}
   ): Promise<GansAuditorCodexReview> {
     // Check queue capacity
@@ -180,18 +186,33 @@ export class AuditQueue extends EventEmitter {
     const maxRetries = options.maxRetries || this.config.defaultMaxRetries;
 
     return new Promise<GansAuditorCodexReview>((resolve, reject) => {
+      const signal = options.runOptions?.signal;
+      if (signal?.aborted) {
+        reject(new AuditCancelledError());
+        return;
+      }
+
+      const onAbort = () => this.cancelJob(job);
       const job: AuditJob = {
         id: jobId,
         thought,
         sessionId,
+        runOptions: options.runOptions,
         priority,
         createdAt: Date.now(),
         timeout,
         retryCount: 0,
         maxRetries,
-        resolve,
-        reject,
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
       };
+      signal?.addEventListener('abort', onAbort, { once: true });
 
       // Insert job in priority order
       this.insertJobByPriority(job);
@@ -375,10 +396,41 @@ export class AuditQueue extends EventEmitter {
     try {
       // Execute audit with timeout
       const result = await this.executeWithTimeout(job);
-      await this.handleJobSuccess(job, result);
+      // Cancelled or destroyed jobs have already been settled
+      if (this.runningJobs.get(job.id) === job) {
+        await this.handleJobSuccess(job, result);
+      }
     } catch (error) {
-      await this.handleJobError(job, error as Error);
+      if (this.runningJobs.get(job.id) === job) {
+        await this.handleJobError(job, error as Error);
+      }
+    }
+  }
+
+  /**
+   * Release the slot of a cancelled job and reject it; a running audit stops
+   * through its own abort signal
+   */
+  private cancelJob(job: AuditJob): void {
+    const pendingIndex = this.pendingJobs.indexOf(job);
+    if (pendingIndex !== -1) {
+      this.pendingJobs.splice(pendingIndex, 1);
+    } else if (this.runningJobs.get(job.id) === job) {
+      this.runningJobs.delete(job.id);
+    } else {
+      return;
     }
+
+    job.reject(new AuditCancelledError());
+
+    this.componentLogger.debug('Job cancelled', {
+      jobId: job.id,
+      wasRunning: pendingIndex === -1,
+    });
+
+    this.emit('jobCancelled', job);
+    this.updateStats();
+    this.processQueue();
   }
 
   /**
@@ -390,7 +442,7 @@ export class AuditQueue extends EventEmitter {
         reject(new Error(`Job timed out after ${job.timeout}ms`));
       }, job.timeout);
 
-      this.auditFunction(job.thought, job.sessionId)
+      this.auditFunction(job.thought, job.sessionId, job.runOptions)
         .then(result => {
           clearTimeout(timeoutId);
           resolve(result);
@@ -208,6 +208,7 @@ export class AuditWorkflowEngine {
       steeringPath: inputs?.steeringPath || '.kiro/steering',
       workspacePath: inputs?.workspacePath || process.cwd(),
       gitDiff: inputs?.gitDiff,
+      diffRange: inputs?.diffRange,
       sessionId: inputs?.sessionId,
       branchId: inputs?.branchId,
       previousResults: inputs?.previousResults,
@@ -256,7 +257,8 @@ export class AuditWorkflowEngine {
       touchedFiles: inputs?.touchedFiles,
       lintCommand: inputs?.lintCommand,
       formatCommand: inputs?.formatCommand,
-      typeCheckCommand: inputs?.typeCheckCommand
+      typeCheckCommand: inputs?.typeCheckCommand,
+      sessionId: inputs?.sessionId
     };
     
     await executeStaticStep(staticInputs, outputs, evidence);
@@ -278,7 +280,11 @@ export class AuditWorkflowEngine {
       testCommand: inputs?.testCommand,
       coverageCommand: inputs?.coverageCommand,
       testFramework: inputs?.testFramework,
-      testDirectories: inputs?.testDirectories
+      testDirectories: inputs?.testDirectories,
+      timeout: inputs?.testTimeout,
+      gitDiff: inputs?.gitDiff,
+      coverageReportPath: inputs?.coverageReportPath,
+      collectCoverage: inputs?.collectCoverage
     };
     
     await executeTestsStep(testsInputs, outputs, evidence);
@@ -300,7 +306,15 @@ export class AuditWorkflowEngine {
       performanceCommand: inputs?.performanceCommand,
       securityCommand: inputs?.securityCommand,
       runtime: inputs?.runtime,
-      testData: inputs?.testData
+      testData: inputs?.testData,
+      edgeCaseExecution: inputs?.edgeCaseExecution,
+      edgeCaseSandbox: inputs?.edgeCaseSandbox,
+      benchmarkMode: inputs?.benchmarkMode,
+      benchmarks: inputs?.benchmarks,
+      benchmarkOptions: inputs?.benchmarkOptions,
+      benchmarkBaseline: inputs?.benchmarkBaseline,
+      baseRef: inputs?.baseRef,
+      sessionId: inputs?.sessionId
     };
     
     await executeDynamicStep(dynamicInputs, outputs, evidence);
@@ -0,0 +1,629 @@
+/**
+ * Benchmark Runner
+ *
+ * Micro-benchmark mode for the DYNAMIC step. Entry points declared in
+ * gan-config, and on request touched functions that take no arguments, are
+ * called repeatedly in an isolated child process that may only read the
+ * sandbox and the workspace. It records per-call wall time, heap growth,
+ * event-loop delay and CPU usage. Results are compared with a baseline from
+ * the previous iteration of the session or from the base commit, and only
+ * statistically significant slowdowns are reported as regressions.
+ */
+
+import { fork } from 'child_process';
+import { readFile, writeFile, rm } from 'fs/promises';
+import { join, isAbsolute } from 'path';
+import type { BenchmarkEntryPoint } from '../types/gan-types.js';
+import { loadTypeScript } from '../utils/tool-runner.js';
+import { findRepositoryRoot, addTemporaryWorktree, removeTemporaryWorktree } from '../utils/git-utils.js';
+import { logger } from '../utils/logger.js';
+import {
+  createSandboxDirectory,
+  prepareModule,
+  findExportedFunctions,
+  isExecutableModule,
+  assertPermissionModel,
+  permissionFlags,
+} from './sandbox-modules.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Benchmark mode settings
+ */
+export interface BenchmarkOptions {
+  /** Untimed calls before measuring */
+  warmupIterations: number;
+  /** Number of timed samples; each sample averages several calls */
+  samples: number;
+  /** Target duration of one sample in milliseconds */
+  targetSampleMs: number;
+  /** Time allowed for one entry point, including module load, in milliseconds */
+  timeout: number;
+  /** Heap limit of the benchmark process in megabytes */
+  memoryLimitMb: number;
+  /** Two-sided p-value below which a timing change is significant */
+  significanceLevel: number;
+  /** Minimum slowdown, in percent, reported as a regression */
+  minRegressionPercent: number;
+  /** Minimum extra retained heap, in bytes, reported as a regression */
+  heapRegressionBytes: number;
+  /** Minimum increase of p99 event-loop delay, in milliseconds, reported as a regression */
+  eventLoopDelayRegressionMs: number;
+  /** Maximum number of entry points per run */
+  maxEntryPoints: number;
+}
+
+export const DEFAULT_BENCHMARK_OPTIONS: BenchmarkOptions = {
+  warmupIterations: 20,
+  samples: 30,
+  targetSampleMs: 5,
+  timeout: 30000,
+  memoryLimitMb: 256,
+  significanceLevel: 0.01,
+  minRegressionPercent: 10,
+  heapRegressionBytes: 1024 * 1024,
+  eventLoopDelayRegressionMs: 20,
+  maxEntryPoints: 20,
+};
+
+/**
+ * Measurements of one entry point
+ */
+export interface BenchmarkMeasurement {
+  /** `file#function` */
+  id: string;
+  /** Mean time per call of each sample, in milliseconds */
+  samples: number[];
+  meanMs: number;
+  medianMs: number;
+  p95Ms: number;
+  /** Calls per sample */
+  iterations: number;
+  /** Heap retained after the run (after garbage collection), in bytes */
+  heapGrowthBytes: number;
+  /** Highest heap usage during the run, in bytes */
+  peakHeapBytes: number;
+  /** Event-loop delay while the benchmark ran, in milliseconds */
+  eventLoopDelayMs: { mean: number; p99: number; max: number };
+  /** CPU time as a percentage of wall time */
+  cpuPercent: number;
+}
+
+/**
+ * Where a baseline came from
+ */
+export type BenchmarkBaselineSource = 'session' | 'base-commit' | 'provided';
+
+/**
+ * Difference between a measurement and its baseline
+ */
+export interface BenchmarkComparison {
+  baselineSource: BenchmarkBaselineSource;
+  baselineMedianMs: number;
+  currentMedianMs: number;
+  /** Change of the median time per call, in percent (positive is slower) */
+  changePercent: number;
+  /** Two-sided Mann-Whitney U p-value for the timing samples */
+  pValue: number;
+  heapGrowthChangeBytes: number;
+  eventLoopDelayChangeMs: number;
+}
+
+/**
+ * A significant slowdown against the baseline
+ */
+export interface BenchmarkRegression {
+  id: string;
+  kind: 'wall_time' | 'heap_growth' | 'event_loop_delay';
+  description: string;
+  /** Percent slower for wall time; absolute increase otherwise */
+  change: number;
+}
+
+/**
+ * Outcome of benchmarking one entry point
+ */
+export interface BenchmarkResult {
+  id: string;
+  measurement?: BenchmarkMeasurement;
+  comparison?: BenchmarkComparison;
+  regressions: BenchmarkRegression[];
+  /** Why the entry point could not be measured */
+  error?: string;
+}
+
+/**
+ * Inputs for a benchmark run
+ */
+export interface BenchmarkRunInputs {
+  workspacePath: string;
+  /**
+   * Touched files whose zero-argument exports are benchmarked. Leave unset
+   * unless the user asked for it: every such export is called thousands of times.
+   */
+  touchedFiles?: string[];
+  /** Declared entry points from gan-config */
+  entryPoints?: BenchmarkEntryPoint[];
+  /** Session whose previous measurements serve as the baseline */
+  sessionId?: string;
+  /** Explicit baseline measurements keyed by entry point id */
+  baseline?: Record<string, BenchmarkMeasurement>;
+  /** Commit measured for a baseline when the session has none */
+  baseRef?: string;
+  options?: Partial<BenchmarkOptions>;
+}
+
+/**
+ * Messages sent by the benchmark process
+ */
+type BenchmarkMessage =
+  | { type: 'result'; measurement: Omit<BenchmarkMeasurement, 'id' | 'meanMs' | 'medianMs' | 'p95Ms'> }
+  | { type: 'error'; error: string };
+
+// ============================================================================
+// Session Baselines
+// ============================================================================
+
+/**
+ * Measurements from the previous iteration of each session
+ */
+const sessionBaselines = new Map<string, Map<string, BenchmarkMeasurement>>();
+
+/**
+ * Drop stored baselines for a session, or for all sessions
+ */
+export function clearBenchmarkBaselines(sessionId?: string): void {
+  if (sessionId) {
+    sessionBaselines.delete(sessionId);
+  } else {
+    sessionBaselines.clear();
+  }
+}
+
+// ============================================================================
+// Benchmark Execution
+// ============================================================================
+
+/**
+ * Benchmark the entry points, compare with the baseline and record the
+ * measurements as the session's next baseline
+ */
+export async function runBenchmarks(inputs: BenchmarkRunInputs): Promise<BenchmarkResult[]> {
+  const config = { ...DEFAULT_BENCHMARK_OPTIONS, ...inputs.options };
+  const entryPoints = await resolveEntryPoints(inputs.workspacePath, inputs.touchedFiles ?? [], inputs.entryPoints ?? []);
+  const selected = entryPoints.slice(0, config.maxEntryPoints);
+  if (selected.length === 0) {
+    return [];
+  }
+  assertPermissionModel('Benchmark mode');
+
+  const current = await measureEntryPoints(inputs.workspacePath, selected, config);
+  const { baseline, source } = await resolveBaseline(inputs, selected, config);
+
+  const results = selected.map(entry => {
+    const id = entryPointId(entry);
+    const outcome = current.get(id)!;
+    if ('error' in outcome) {
+      return { id, regressions: [], error: outcome.error };
+    }
+
+    const previous = baseline.get(id);
+    if (!previous) {
+      return { id, measurement: outcome, regressions: [] };
+    }
+
+    const comparison = compareMeasurements(previous, outcome, source);
+    return { id, measurement: outcome, comparison, regressions: findRegressions(id, comparison, config) };
+  });
+
+  if (inputs.sessionId) {
+    const stored = sessionBaselines.get(inputs.sessionId) ?? new Map();
+    for (const result of results) {
+      if (result.measurement) {
+        stored.set(result.id, result.measurement);
+      }
+    }
+    sessionBaselines.set(inputs.sessionId, stored);
+  }
+
+  logger.debug('Benchmarks finished', {
+    entryPoints: results.length,
+    baseline: source,
+    regressions: results.reduce((sum, r) => sum + r.regressions.length, 0),
+  }, 'benchmark-runner');
+
+  return results;
+}
+
+/**
+ * Declared entry points plus zero-argument exports of the touched modules
+ */
+async function resolveEntryPoints(
+  workspacePath: string,
+  touchedFiles: string[],
+  declared: BenchmarkEntryPoint[]
+): Promise<BenchmarkEntryPoint[]> {
+  const entryPoints = [...declared];
+  const typescript = loadTypeScript(workspacePath);
+  if (!typescript) {
+    return entryPoints;
+  }
+
+  for (const file of touchedFiles.filter(isExecutableModule)) {
+    const absolutePath = isAbsolute(file) ? file : join(workspacePath, file);
+    let source: string;
+    try {
+      source = await readFile(absolutePath, 'utf-8');
+    } catch {
+      continue; // Deleted in this change
+    }
+    for (const fn of findExportedFunctions(typescript, absolutePath, source)) {
+      if (fn.parameterCount === 0 && !entryPoints.some(e => e.file === file && e.function === fn.name)) {
+        entryPoints.push({ file, function: fn.name });
+      }
+    }
+  }
+
+  return entryPoints;
+}
+
+/**
+ * Baseline from explicit measurements, the session's previous iteration, or the base commit
+ */
+async function resolveBaseline(
+  inputs: BenchmarkRunInputs,
+  entryPoints: BenchmarkEntryPoint[],
+  config: BenchmarkOptions
+): Promise<{ baseline: Map<string, BenchmarkMeasurement>; source: BenchmarkBaselineSource }> {
+  if (inputs.baseline) {
+    return { baseline: new Map(Object.entries(inputs.baseline)), source: 'provided' };
+  }
+
+  const previous = inputs.sessionId ? sessionBaselines.get(inputs.sessionId) : undefined;
+  if (previous && previous.size > 0) {
+    return { baseline: new Map(previous), source: 'session' };
+  }
+
+  const baseline = new Map<string, BenchmarkMeasurement>();
+  if (!inputs.baseRef) {
+    return { baseline, source: 'base-commit' };
+  }
+
+  const repositoryRoot = await findRepositoryRoot(inputs.workspacePath);
+  if (!repositoryRoot) {
+    return { baseline, source: 'base-commit' };
+  }
+
+  const worktree = await addTemporaryWorktree(repositoryRoot, inputs.baseRef, 'gan-bench-');
+  try {
+    const measured = await measureEntryPoints(worktree.path, entryPoints, config, inputs.workspacePath);
+    for (const [id, outcome] of measured) {
+      if (!('error' in outcome)) {
+        baseline.set(id, outcome);
+      }
+    }
+  } finally {
+    await removeTemporaryWorktree(worktree);
+  }
+
+  return { baseline, source: 'base-commit' };
+}
+
+/**
+ * Measure each entry point in its own benchmark process
+ */
+async function measureEntryPoints(
+  workspacePath: string,
+  entryPoints: BenchmarkEntryPoint[],
+  config: BenchmarkOptions,
+  dependencyPath: string = workspacePath
+): Promise<Map<string, BenchmarkMeasurement | { error: string }>> {
+  const measurements = new Map<string, BenchmarkMeasurement | { error: string }>();
+  const sandboxDirectory = await createSandboxDirectory(dependencyPath, 'gan-bench-run-');
+  const typescript = loadTypeScript(dependencyPath);
+
+  try {
+    const harnessPath = join(sandboxDirectory, 'benchmark-harness.mjs');
+    await writeFile(harnessPath, HARNESS_SOURCE);
+    const permissions = await permissionFlags([...new Set([sandboxDirectory, workspacePath, dependencyPath])]);
+
+    for (const entry of entryPoints) {
+      const id = entryPointId(entry);
+      try {
+        const absolutePath = isAbsolute(entry.file) ? entry.file : join(workspacePath, entry.file);
+        const modulePath = await prepareModule(typescript, workspacePath, sandboxDirectory, absolutePath);
+        const message = await runHarness(harnessPath, sandboxDirectory, modulePath, entry, config, permissions);
+        measurements.set(id, message.type === 'result'
+          ? summarizeMeasurement(id, message.measurement)
+          : { error: message.error });
+      } catch (error) {
+        measurements.set(id, { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  } finally {
+    await rm(sandboxDirectory, { recursive: true, force: true });
+  }
+
+  return measurements;
+}
+
+/**
+ * Run one entry point in a fresh benchmark process that may only read files
+ */
+function runHarness(
+  harnessPath: string,
+  sandboxDirectory: string,
+  modulePath: string,
+  entry: BenchmarkEntryPoint,
+  config: BenchmarkOptions,
+  permissions: string[]
+): Promise<BenchmarkMessage> {
+  return new Promise(resolvePromise => {
+    let result: BenchmarkMessage | undefined;
+    let stderr = '';
+
+    const child = fork(harnessPath, [], {
+      cwd: sandboxDirectory,
+      env: { PATH: process.env.PATH ?? '', NODE_ENV: 'production' },
+      execArgv: [...permissions, '--expose-gc', `--max-old-space-size=${config.memoryLimitMb}`],
+      stdio: ['ignore', 'ignore', 'pipe', 'ipc'],
+      serialization: 'advanced',
+    });
+
+    const timer = setTimeout(() => {
+      result = { type: 'error', error: `Benchmark did not finish within ${config.timeout}ms` };
+      child.kill('SIGKILL');
+    }, config.timeout);
+
+    child.stderr?.on('data', chunk => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+    child.on('message', (message: BenchmarkMessage) => {
+      result = message;
+    });
+    child.on('exit', (code, signal) => {
+      clearTimeout(timer);
+      resolvePromise(result ?? {
+        type: 'error',
+        error: `Benchmark process exited with ${signal ?? `code ${code}`}${stderr.trim() ? `: ${stderr.trim().split('\n').slice(-3).join(' ')}` : ''}`,
+      });
+    });
+
+    child.send({
+      modulePath,
+      functionName: entry.function,
+      args: entry.args ?? [],
+      warmup: config.warmupIterations,
+      samples: config.samples,
+      targetSampleMs: config.targetSampleMs,
+    });
+  });
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/**
+ * Compare timing samples and resource usage with a baseline
+ */
+export function compareMeasurements(
+  baseline: BenchmarkMeasurement,
+  current: BenchmarkMeasurement,
+  baselineSource: BenchmarkBaselineSource
+): BenchmarkComparison {
+  return {
+    baselineSource,
+    baselineMedianMs: baseline.medianMs,
+    currentMedianMs: current.medianMs,
+    changePercent: baseline.medianMs > 0
+      ? round(((current.medianMs - baseline.medianMs) / baseline.medianMs) * 100)
+      : 0,
+    pValue: mannWhitneyPValue(baseline.samples, current.samples),
+    heapGrowthChangeBytes: current.heapGrowthBytes - baseline.heapGrowthBytes,
+    eventLoopDelayChangeMs: round(current.eventLoopDelayMs.p99 - baseline.eventLoopDelayMs.p99),
+  };
+}
+
+/**
+ * Regressions implied by a comparison
+ */
+export function findRegressions(
+  id: string,
+  comparison: BenchmarkComparison,
+  options: Partial<BenchmarkOptions> = {}
+): BenchmarkRegression[] {
+  const config = { ...DEFAULT_BENCHMARK_OPTIONS, ...options };
+  const regressions: BenchmarkRegression[] = [];
+
+  if (comparison.pValue < config.significanceLevel && comparison.changePercent >= config.minRegressionPercent) {
+    regressions.push({
+      id,
+      kind: 'wall_time',
+      change: comparison.changePercent,
+      description: `${id} is ${comparison.changePercent}% slower than the ${comparison.baselineSource} baseline ` +
+        `(median ${formatMs(comparison.baselineMedianMs)} -> ${formatMs(comparison.currentMedianMs)}, p=${comparison.pValue.toPrecision(2)})`,
+    });
+  }
+
+  if (comparison.heapGrowthChangeBytes >= config.heapRegressionBytes) {
+    regressions.push({
+      id,
+      kind: 'heap_growth',
+      change: comparison.heapGrowthChangeBytes,
+      description: `${id} retains ${(comparison.heapGrowthChangeBytes / (1024 * 1024)).toFixed(1)}MB more heap than the ${comparison.baselineSource} baseline`,
+    });
+  }
+
+  if (comparison.eventLoopDelayChangeMs >= config.eventLoopDelayRegressionMs) {
+    regressions.push({
+      id,
+      kind: 'event_loop_delay',
+      change: comparison.eventLoopDelayChangeMs,
+      description: `${id} raises p99 event-loop delay by ${comparison.eventLoopDelayChangeMs}ms over the ${comparison.baselineSource} baseline`,
+    });
+  }
+
+  return regressions;
+}
+
+/**
+ * Two-sided p-value of the Mann-Whitney U test (normal approximation with tie correction)
+ */
+export function mannWhitneyPValue(a: number[], b: number[]): number {
+  const n1 = a.length;
+  const n2 = b.length;
+  if (n1 === 0 || n2 === 0) {
+    return 1;
+  }
+
+  const combined = [...a.map(value => ({ value, group: 0 })), ...b.map(value => ({ value, group: 1 }))]
+    .sort((x, y) => x.value - y.value);
+
+  let rankSumA = 0;
+  let tieTerm = 0;
+  for (let i = 0; i < combined.length;) {
+    let j = i;
+    while (j + 1 < combined.length && combined[j + 1].value === combined[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    const ties = j - i + 1;
+    tieTerm += ties ** 3 - ties;
+    for (let k = i; k <= j; k++) {
+      if (combined[k].group === 0) rankSumA += rank;
+    }
+    i = j + 1;
+  }
+
+  const n = n1 + n2;
+  const u = rankSumA - (n1 * (n1 + 1)) / 2;
+  const mean = (n1 * n2) / 2;
+  const variance = ((n1 * n2) / 12) * ((n + 1) - tieTerm / (n * (n - 1)));
+  if (variance <= 0) {
+    return 1;
+  }
+
+  const z = (Math.abs(u - mean) - 0.5) / Math.sqrt(variance);
+  return Math.min(1, 2 * (1 - normalCdf(Math.max(0, z))));
+}
+
+/**
+ * Standard normal CDF (Abramowitz and Stegun 26.2.17)
+ */
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp(-(z * z) / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
+
+function summarizeMeasurement(
+  id: string,
+  raw: Omit<BenchmarkMeasurement, 'id' | 'meanMs' | 'medianMs' | 'p95Ms'>
+): BenchmarkMeasurement {
+  const sorted = [...raw.samples].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  const middle = Math.floor(sorted.length / 2);
+
+  return {
+    id,
+    ...raw,
+    meanMs: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    medianMs: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    p95Ms: percentile(0.95),
+  };
+}
+
+function entryPointId(entry: BenchmarkEntryPoint): string {
+  return `${entry.file}#${entry.function}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatMs(value: number): string {
+  return value >= 1 ? `${value.toFixed(2)}ms` : `${(value * 1000).toFixed(2)}µs`;
+}
+
+// ============================================================================
+// Harness
+// ============================================================================
+
+/**
+ * Script run in the benchmark process; sync functions are timed in a plain
+ * loop so promise overhead only applies to functions that return promises
+ */
+const HARNESS_SOURCE = `import { pathToFileURL } from 'node:url';
+import { performance, monitorEventLoopDelay } from 'node:perf_hooks';
+
+const send = message => new Promise(resolve => process.send(message, () => resolve()));
+const collect = () => { if (globalThis.gc) globalThis.gc(); };
+
+process.once('message', async ({ modulePath, functionName, args, warmup, samples, targetSampleMs }) => {
+  try {
+    const loaded = await import(pathToFileURL(modulePath).href);
+    const fn = functionName === 'default' ? loaded.default : loaded[functionName];
+    if (typeof fn !== 'function') throw new Error(functionName + ' is not an exported function');
+
+    const first = fn(...args);
+    const isAsync = Boolean(first && typeof first.then === 'function');
+    if (isAsync) await first;
+
+    const runBatch = async iterations => {
+      const start = performance.now();
+      if (isAsync) {
+        for (let i = 0; i < iterations; i++) await fn(...args);
+      } else {
+        for (let i = 0; i < iterations; i++) fn(...args);
+      }
+      return performance.now() - start;
+    };
+
+    await runBatch(warmup);
+    const probe = Math.max(await runBatch(10) / 10, 0.0001);
+    const iterations = Math.min(100000, Math.max(1, Math.ceil(targetSampleMs / probe)));
+
+    collect();
+    const heapBefore = process.memoryUsage().heapUsed;
+    let peakHeap = heapBefore;
+    const histogram = monitorEventLoopDelay({ resolution: 1 });
+    histogram.enable();
+    const cpuBefore = process.cpuUsage();
+    const wallStart = performance.now();
+
+    const sampleTimes = [];
+    for (let s = 0; s < samples; s++) {
+      sampleTimes.push(await runBatch(iterations) / iterations);
+      peakHeap = Math.max(peakHeap, process.memoryUsage().heapUsed);
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    const wall = performance.now() - wallStart;
+    const cpu = process.cpuUsage(cpuBefore);
+    histogram.disable();
+    collect();
+
+    await send({
+      type: 'result',
+      measurement: {
+        samples: sampleTimes,
+        iterations,
+        heapGrowthBytes: process.memoryUsage().heapUsed - heapBefore,
+        peakHeapBytes: peakHeap,
+        eventLoopDelayMs: {
+          mean: histogram.count > 0 ? histogram.mean / 1e6 : 0,
+          p99: histogram.count > 0 ? histogram.percentile(99) / 1e6 : 0,
+          max: histogram.count > 0 ? histogram.max / 1e6 : 0
+        },
+        cpuPercent: wall > 0 ? ((cpu.user + cpu.system) / 1000 / wall) * 100 : 0
+      }
+    });
+  } catch (error) {
+    await send({ type: 'error', error: String(error && error.message ? error.message : error) });
+  }
+  process.exit(0);
+});
+`;
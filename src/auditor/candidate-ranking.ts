@@ -0,0 +1,89 @@
+/**
+ * Candidate Ranking
+ *
+ * Generator half of the GAN loop: when the session budget allows more than one
+ * candidate, alternative fixes are generated for a failing audit, each one is
+ * scored by the judge pipeline, and the best-ranked fix becomes the review's
+ * proposed diff with the runners-up listed alongside it.
+ */
+
+import type {
+  AuditRequest,
+  GanReview,
+  GanVerdict,
+  GeneratedCandidate,
+  RankedCandidate,
+} from '../types/gan-types.js';
+
+/**
+ * Scores an audit request with the judge pipeline
+ */
+export type CandidateJudge = (request: AuditRequest) => Promise<GanReview>;
+
+/**
+ * Tie-break order when candidates score the same
+ */
+const VERDICT_ORDER: Record<GanVerdict, number> = { pass: 0, revise: 1, reject: 2 };
+
+/**
+ * Score every generated candidate and sort them best first
+ */
+export async function rankCandidates(
+  request: AuditRequest,
+  candidates: GeneratedCandidate[],
+  judge: CandidateJudge
+): Promise<RankedCandidate[]> {
+  const scored: Array<Omit<RankedCandidate, 'rank'> & { index: number }> = [];
+
+  // Sequential so N candidates never multiply the number of concurrent judge processes
+  for (const [index, candidate] of candidates.entries()) {
+    const review = await judge({
+      ...request,
+      candidate: candidate.code.trim() ? candidate.code : candidate.proposed_diff ?? '',
+    });
+    scored.push({
+      id: candidate.id,
+      summary: candidate.summary,
+      overall: review.overall,
+      verdict: review.verdict,
+      dimensions: review.dimensions,
+      proposed_diff: candidate.proposed_diff,
+      index,
+    });
+  }
+
+  return scored
+    .sort((a, b) =>
+      b.overall - a.overall
+      || VERDICT_ORDER[a.verdict] - VERDICT_ORDER[b.verdict]
+      || a.index - b.index)
+    .map(({ index, ...candidate }, i) => ({ ...candidate, rank: i + 1 }));
+}
+
+/**
+ * Attach a ranking to the review: the best candidate's diff becomes the
+ * proposed diff and the summary lists the runners-up with their scores
+ */
+export function applyCandidateRanking(review: GanReview, ranked: RankedCandidate[]): GanReview {
+  if (ranked.length === 0) {
+    return review;
+  }
+
+  const [best, ...runnersUp] = ranked;
+  const lines = [
+    `Best of ${ranked.length} candidates: ${best.id} scored ${best.overall} (${best.verdict})${best.summary ? ` - ${best.summary}` : ''}`,
+  ];
+  if (runnersUp.length > 0) {
+    lines.push(`Runners-up: ${runnersUp.map(c => `${c.id} ${c.overall} (${c.verdict})`).join(', ')}`);
+  }
+
+  return {
+    ...review,
+    proposed_diff: best.proposed_diff ?? review.proposed_diff ?? null,
+    review: {
+      ...review.review,
+      summary: [review.review.summary, ...lines].join('\n'),
+    },
+    candidates: ranked,
+  };
+}
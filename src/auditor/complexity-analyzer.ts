@@ -6,12 +6,17 @@
  * 
  * Features:
  * - Code complexity metrics calculation
+ * - Per-function metrics from the TypeScript syntax tree (TS/JS)
  * - Audit depth adjustment based on complexity
  * - Focus area prioritization logic
  * - Complexity-based timeout adjustment
  */
 
+import { extname } from 'path';
+import type * as ts from 'typescript';
 import { logger } from '../utils/logger.js';
+import { loadTypeScript, type TypeScriptModule } from '../utils/tool-runner.js';
+import { parseChangedLines } from '../utils/git-utils.js';
 
 // ============================================================================
 // Complexity Analysis Types and Interfaces
@@ -39,6 +44,32 @@ export interface ComplexityMetrics {
   halsteadComplexity: HalsteadMetrics;
   /** Overall complexity score (0-100) */
   overallComplexity: number;
+  /** Per-function metrics (parser-backed analysis only) */
+  functions?: FunctionComplexity[];
+  /** How the metrics were computed */
+  analysisMethod?: 'ast' | 'pattern';
+}
+
+/**
+ * Complexity metrics for a single function, method or arrow function
+ */
+export interface FunctionComplexity {
+  /** Function name, prefixed with the class name for members */
+  name: string;
+  /** Kind of function */
+  kind: 'function' | 'method' | 'constructor' | 'accessor' | 'arrow' | 'expression';
+  /** First line (1-based) */
+  startLine: number;
+  /** Last line (1-based) */
+  endLine: number;
+  /** Cyclomatic complexity (McCabe) */
+  cyclomaticComplexity: number;
+  /** Cognitive complexity (SonarSource) */
+  cognitiveComplexity: number;
+  /** Maximum nesting of control structures */
+  nestingDepth: number;
+  /** Complexity score (0-100) */
+  complexityScore: number;
 }
 
 /**
@@ -127,6 +158,8 @@ export interface AuditDepthAdjustment {
   recommendations: string[];
   /** Justification for adjustments */
   justification: string;
+  /** Most complex functions that drove the adjustment */
+  criticalFunctions?: FunctionComplexity[];
 }
 
 /**
@@ -187,6 +220,11 @@ export const DEFAULT_COMPLEXITY_AUDIT_CONFIG: ComplexityAuditConfig = {
   }
 };
 
+/**
+ * Number of functions reported as driving an audit depth adjustment
+ */
+const MAX_CRITICAL_FUNCTIONS = 3;
+
 // ============================================================================
 // Complexity Analyzer Implementation
 // ============================================================================
@@ -233,26 +271,76 @@ export class ComplexityAnalyzer {
    * Adjust audit depth based on complexity metrics
    */
   adjustAuditDepth(metrics: ComplexityMetrics, context: CodeAnalysisContext): AuditDepthAdjustment {
-    const complexity = metrics.overallComplexity;
+    // With per-function metrics the worst functions touched by the diff
+    // decide the depth, not the size of the surrounding file
+    const criticalFunctions = this.selectCriticalFunctions(metrics, context);
+    const complexity = criticalFunctions.length > 0
+      ? criticalFunctions[0].complexityScore
+      : metrics.overallComplexity;
     const auditDepth = this.determineAuditDepth(complexity);
     const timeoutSeconds = this.calculateTimeout(complexity);
     const focusAreas = this.prioritizeFocusAreas(metrics, context);
-    const recommendations = this.generateComplexityRecommendations(metrics, auditDepth);
-    const justification = this.generateJustification(metrics, auditDepth);
+    const recommendations = this.generateComplexityRecommendations(metrics, auditDepth, criticalFunctions);
+    const justification = this.generateJustification(metrics, auditDepth, criticalFunctions);
 
     return {
       auditDepth,
       timeoutSeconds,
       focusAreas,
       recommendations,
-      justification
+      justification,
+      ...(criticalFunctions.length > 0 && { criticalFunctions })
     };
   }
 
+  /**
+   * Select the most complex functions overlapping the diff, worst first
+   *
+   * Without a diff every function counts as changed.
+   */
+  private selectCriticalFunctions(metrics: ComplexityMetrics, context: CodeAnalysisContext): FunctionComplexity[] {
+    if (!metrics.functions || metrics.functions.length === 0) {
+      return [];
+    }
+
+    let candidates = metrics.functions;
+    if (context.gitDiff) {
+      const changedLines = this.findChangedLines(context.gitDiff, context.filePath);
+      candidates = changedLines
+        ? metrics.functions.filter(fn => changedLines.some(line => line >= fn.startLine && line <= fn.endLine))
+        : [];
+    }
+
+    return [...candidates]
+      .sort((a, b) => b.complexityScore - a.complexityScore)
+      .slice(0, MAX_CRITICAL_FUNCTIONS);
+  }
+
+  /**
+   * Find the changed lines of the analyzed file in a diff
+   */
+  private findChangedLines(gitDiff: string, filePath: string): number[] | null {
+    const normalizedPath = filePath.replace(/\\/g, '/');
+    for (const [file, lines] of parseChangedLines(gitDiff)) {
+      if (normalizedPath === file || normalizedPath.endsWith(`/${file}`)) {
+        return lines;
+      }
+    }
+    return null;
+  }
+
   /**
    * Calculate comprehensive complexity metrics
    */
   private async calculateComplexityMetrics(context: CodeAnalysisContext): Promise<ComplexityMetrics> {
+    if (isScriptLanguage(context)) {
+      const typescript = loadTypeScript(process.cwd());
+      if (typescript) {
+        return this.calculateAstMetrics(typescript, context);
+      }
+      logger.debug('TypeScript unavailable, falling back to pattern-based complexity', { filePath: context.filePath });
+    }
+
     const content = context.content;
     
     // Calculate basic metrics
@@ -287,7 +375,42 @@ export class ComplexityAnalyzer {
       nestingDepth,
       dependencyCount,
       halsteadComplexity,
-      overallComplexity
+      overallComplexity,
+      analysisMethod: 'pattern'
+    };
+  }
+
+  /**
+   * Calculate metrics from the TypeScript syntax tree
+   */
+  private calculateAstMetrics(typescript: TypeScriptModule, context: CodeAnalysisContext): ComplexityMetrics {
+    const sourceFile = typescript.createSourceFile(
+      context.filePath,
+      context.content,
+      typescript.ScriptTarget.Latest,
+      true,
+      getScriptKind(typescript, context)
+    );
+
+    const structure = analyzeSyntaxTree(typescript, sourceFile);
+    const { halsteadComplexity, codeLines } = analyzeTokens(typescript, sourceFile);
+
+    const metrics = {
+      cyclomaticComplexity: structure.cyclomaticComplexity,
+      cognitiveComplexity: structure.cognitiveComplexity,
+      linesOfCode: codeLines,
+      functionCount: structure.functions.length,
+      classCount: structure.classCount,
+      nestingDepth: structure.nestingDepth,
+      dependencyCount: structure.dependencyCount
+    };
+
+    return {
+      ...metrics,
+      halsteadComplexity,
+      overallComplexity: this.calculateOverallComplexity(metrics),
+      functions: structure.functions,
+      analysisMethod: 'ast'
     };
   }
 
@@ -551,8 +674,21 @@ export class ComplexityAnalyzer {
   /**
    * Generate complexity-based recommendations
    */
-  private generateComplexityRecommendations(metrics: ComplexityMetrics, auditDepth: AuditDepthLevel): string[] {
+  private generateComplexityRecommendations(
+    metrics: ComplexityMetrics,
+    auditDepth: AuditDepthLevel,
+    criticalFunctions: FunctionComplexity[] = []
+  ): string[] {
     const recommendations: string[] = [];
+
+    for (const fn of criticalFunctions) {
+      if (fn.cyclomaticComplexity > 10 || fn.cognitiveComplexity > 15) {
+        recommendations.push(
+          `Simplify ${fn.name} (lines ${fn.startLine}-${fn.endLine}): ` +
+          `cyclomatic ${fn.cyclomaticComplexity}, cognitive ${fn.cognitiveComplexity}`
+        );
+      }
+    }
     
     if (metrics.cyclomaticComplexity > 10) {
       recommendations.push('Consider breaking down complex functions to reduce cyclomatic complexity');
@@ -584,7 +720,20 @@ export class ComplexityAnalyzer {
   /**
    * Generate justification for audit adjustments
    */
-  private generateJustification(metrics: ComplexityMetrics, auditDepth: AuditDepthLevel): string {
+  private generateJustification(
+    metrics: ComplexityMetrics,
+    auditDepth: AuditDepthLevel,
+    criticalFunctions: FunctionComplexity[] = []
+  ): string {
+    if (criticalFunctions.length > 0) {
+      const worst = criticalFunctions[0];
+      return `Audit depth set to '${auditDepth}' based on the most complex changed function ` +
+             `${worst.name} (lines ${worst.startLine}-${worst.endLine}, score ${worst.complexityScore}). ` +
+             `Key factors: cyclomatic complexity (${worst.cyclomaticComplexity}), ` +
+             `cognitive complexity (${worst.cognitiveComplexity}), ` +
+             `nesting depth (${worst.nestingDepth}).`;
+    }
+
     const complexity = metrics.overallComplexity;
     
     return `Audit depth set to '${auditDepth}' based on overall complexity score of ${complexity}. ` +
@@ -693,6 +842,343 @@ export class ComplexityAnalyzer {
   }
 }
 
+// ============================================================================
+// Syntax Tree Analysis
+// ============================================================================
+
+/**
+ * Languages and extensions analyzed with the TypeScript parser
+ */
+const SCRIPT_LANGUAGES = ['typescript', 'javascript', 'tsx', 'jsx'];
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Logical operators that add a decision point
+ */
+const LOGICAL_OPERATOR_KINDS = new Set<string>([
+  'AmpersandAmpersandToken', 'BarBarToken', 'QuestionQuestionToken',
+  'AmpersandAmpersandEqualsToken', 'BarBarEqualsToken', 'QuestionQuestionEqualsToken'
+]);
+
+/**
+ * Token kinds counted as Halstead operands
+ */
+const OPERAND_TOKEN_KINDS = new Set<string>([
+  'Identifier', 'PrivateIdentifier', 'StringLiteral', 'NumericLiteral', 'BigIntLiteral',
+  'NoSubstitutionTemplateLiteral', 'TemplateHead', 'TemplateMiddle', 'TemplateTail',
+  'RegularExpressionLiteral', 'JsxText', 'TrueKeyword', 'FalseKeyword', 'NullKeyword', 'ThisKeyword'
+]);
+
+/**
+ * Complexity accumulated for one function (or the module's top-level code)
+ */
+interface FunctionFrame {
+  cyclomatic: number;
+  cognitive: number;
+  nesting: number;
+}
+
+/**
+ * Structural metrics derived from the syntax tree
+ */
+interface SyntaxTreeMetrics {
+  functions: FunctionComplexity[];
+  cyclomaticComplexity: number;
+  cognitiveComplexity: number;
+  nestingDepth: number;
+  classCount: number;
+  dependencyCount: number;
+}
+
+/**
+ * Check whether the context can be parsed as TypeScript/JavaScript
+ */
+function isScriptLanguage(context: CodeAnalysisContext): boolean {
+  return SCRIPT_LANGUAGES.includes(context.language.toLowerCase()) ||
+    SCRIPT_EXTENSIONS.includes(extname(context.filePath).toLowerCase());
+}
+
+/**
+ * Pick the script kind from the file extension, defaulting by language
+ */
+function getScriptKind(typescript: TypeScriptModule, context: CodeAnalysisContext): ts.ScriptKind {
+  const extension = extname(context.filePath).toLowerCase();
+  if (extension === '.tsx') return typescript.ScriptKind.TSX;
+  if (extension === '.jsx') return typescript.ScriptKind.JSX;
+  if (['.js', '.mjs', '.cjs'].includes(extension)) return typescript.ScriptKind.JS;
+  if (SCRIPT_EXTENSIONS.includes(extension)) return typescript.ScriptKind.TS;
+
+  const language = context.language.toLowerCase();
+  if (language === 'tsx') return typescript.ScriptKind.TSX;
+  if (language === 'jsx') return typescript.ScriptKind.JSX;
+  // Plain JS is parsed as JSX so markup in untyped files is understood
+  return language === 'javascript' ? typescript.ScriptKind.JSX : typescript.ScriptKind.TS;
+}
+
+/**
+ * Walk the syntax tree computing per-function cyclomatic and cognitive complexity
+ *
+ * Each function is measured on its own: nested functions and callbacks are
+ * reported separately instead of inflating their enclosing function.
+ */
+function analyzeSyntaxTree(typescript: TypeScriptModule, sourceFile: ts.SourceFile): SyntaxTreeMetrics {
+  const SyntaxKind = typescript.SyntaxKind;
+  const functions: FunctionComplexity[] = [];
+  const moduleFrame: FunctionFrame = { cyclomatic: 1, cognitive: 0, nesting: 0 };
+  let classCount = 0;
+  let dependencyCount = 0;
+
+  const isLogicalOperator = (node: ts.Node): node is ts.BinaryExpression =>
+    typescript.isBinaryExpression(node) && LOGICAL_OPERATOR_KINDS.has(SyntaxKind[node.operatorToken.kind]);
+
+  const visitFunction = (node: ts.SignatureDeclaration & { body: ts.Node }) => {
+    const frame: FunctionFrame = { cyclomatic: 1, cognitive: 0, nesting: 0 };
+    // Keep source order: outer functions before the functions nested in them
+    const index = functions.length;
+    visit(node.body, frame, 0);
+
+    const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+    const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1;
+    functions.splice(index, 0, {
+      name: getFunctionName(typescript, node, sourceFile),
+      kind: getFunctionKind(typescript, node),
+      startLine: start,
+      endLine: end,
+      cyclomaticComplexity: frame.cyclomatic,
+      cognitiveComplexity: frame.cognitive,
+      nestingDepth: frame.nesting,
+      complexityScore: calculateFunctionScore(frame)
+    });
+  };
+
+  const visitNested = (node: ts.Node | undefined, frame: FunctionFrame, nesting: number) => {
+    if (node) {
+      frame.nesting = Math.max(frame.nesting, nesting);
+      visit(node, frame, nesting);
+    }
+  };
+
+  const visit = (node: ts.Node, frame: FunctionFrame, nesting: number): void => {
+    // Overloads, signatures and function types have no body to measure
+    if (typescript.isFunctionLike(node) && (node as { body?: ts.Node }).body) {
+      visitFunction(node as ts.SignatureDeclaration & { body: ts.Node });
+      return;
+    }
+
+    if (typescript.isClassLike(node) || typescript.isInterfaceDeclaration(node)) {
+      classCount++;
+    } else if (typescript.isImportDeclaration(node) || typescript.isImportEqualsDeclaration(node)) {
+      dependencyCount++;
+    } else if (typescript.isCallExpression(node) &&
+      (node.expression.kind === SyntaxKind.ImportKeyword ||
+        (typescript.isIdentifier(node.expression) && node.expression.text === 'require'))) {
+      dependencyCount++;
+    }
+
+    if (typescript.isIfStatement(node)) {
+      const isElseIf = typescript.isIfStatement(node.parent) && node.parent.elseStatement === node;
+      frame.cyclomatic++;
+      // `else if` continues the chain: no nesting penalty
+      frame.cognitive += isElseIf ? 1 : 1 + nesting;
+      visit(node.expression, frame, nesting);
+      visitNested(node.thenStatement, frame, nesting + 1);
+      if (node.elseStatement) {
+        if (typescript.isIfStatement(node.elseStatement)) {
+          visit(node.elseStatement, frame, nesting);
+        } else {
+          frame.cognitive++;
+          visitNested(node.elseStatement, frame, nesting + 1);
+        }
+      }
+      return;
+    }
+
+    if (typescript.isConditionalExpression(node)) {
+      frame.cyclomatic++;
+      frame.cognitive += 1 + nesting;
+      visit(node.condition, frame, nesting);
+      visitNested(node.whenTrue, frame, nesting + 1);
+      visitNested(node.whenFalse, frame, nesting + 1);
+      return;
+    }
+
+    if (typescript.isIterationStatement(node, false)) {
+      frame.cyclomatic++;
+      frame.cognitive += 1 + nesting;
+      typescript.forEachChild(node, child => {
+        if (child === node.statement) {
+          visitNested(child, frame, nesting + 1);
+        } else {
+          visit(child, frame, nesting);
+        }
+      });
+      return;
+    }
+
+    if (typescript.isSwitchStatement(node)) {
+      frame.cognitive += 1 + nesting;
+      visit(node.expression, frame, nesting);
+      for (const clause of node.caseBlock.clauses) {
+        if (typescript.isCaseClause(clause)) {
+          frame.cyclomatic++;
+          visit(clause.expression, frame, nesting + 1);
+        }
+        for (const statement of clause.statements) {
+          visitNested(statement, frame, nesting + 1);
+        }
+      }
+      return;
+    }
+
+    if (typescript.isCatchClause(node)) {
+      frame.cyclomatic++;
+      frame.cognitive += 1 + nesting;
+      visitNested(node.block, frame, nesting + 1);
+      return;
+    }
+
+    if (isLogicalOperator(node)) {
+      frame.cyclomatic++;
+      // A run of the same operator (a && b && c) counts once
+      const continuesSequence = isLogicalOperator(node.parent) &&
+        node.parent.operatorToken.kind === node.operatorToken.kind;
+      if (!continuesSequence) {
+        frame.cognitive++;
+      }
+    }
+
+    if ((typescript.isBreakStatement(node) || typescript.isContinueStatement(node)) && node.label) {
+      frame.cognitive++;
+    }
+
+    typescript.forEachChild(node, child => visit(child, frame, nesting));
+  };
+
+  visit(sourceFile, moduleFrame, 0);
+
+  return {
+    functions,
+    cyclomaticComplexity: functions.reduce((total, fn) => total + fn.cyclomaticComplexity - 1, moduleFrame.cyclomatic),
+    cognitiveComplexity: functions.reduce((total, fn) => total + fn.cognitiveComplexity, moduleFrame.cognitive),
+    nestingDepth: functions.reduce((max, fn) => Math.max(max, fn.nestingDepth), moduleFrame.nesting),
+    classCount,
+    dependencyCount
+  };
+}
+
+/**
+ * Count Halstead operators/operands and lines containing code from the tokens
+ */
+function analyzeTokens(
+  typescript: TypeScriptModule,
+  sourceFile: ts.SourceFile
+): { halsteadComplexity: HalsteadMetrics; codeLines: number } {
+  const operators: string[] = [];
+  const operands: string[] = [];
+  const lines = new Set<number>();
+
+  const visit = (node: ts.Node) => {
+    const children = node.getChildren(sourceFile);
+    if (children.length > 0) {
+      children.forEach(visit);
+      return;
+    }
+
+    const kind = typescript.SyntaxKind[node.kind];
+    const text = node.getText(sourceFile);
+    if (node.kind === typescript.SyntaxKind.EndOfFileToken || text.trim().length === 0) {
+      return;
+    }
+
+    lines.add(sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line);
+    (OPERAND_TOKEN_KINDS.has(kind) ? operands : operators).push(text);
+  };
+  visit(sourceFile);
+
+  const distinctOperators = new Set(operators).size;
+  const distinctOperands = new Set(operands).size;
+  const totalOperators = operators.length;
+  const totalOperands = operands.length;
+  const vocabulary = distinctOperators + distinctOperands;
+  const length = totalOperators + totalOperands;
+  const log2 = (value: number) => value > 0 ? Math.log2(value) : 0;
+  const calculatedLength = distinctOperators * log2(distinctOperators) + distinctOperands * log2(distinctOperands);
+  const volume = length * log2(vocabulary);
+  const difficulty = distinctOperands > 0 ? (distinctOperators / 2) * (totalOperands / distinctOperands) : 0;
+
+  return {
+    halsteadComplexity: {
+      distinctOperators,
+      distinctOperands,
+      totalOperators,
+      totalOperands,
+      vocabulary,
+      length,
+      calculatedLength,
+      volume,
+      difficulty,
+      effort: difficulty * volume
+    },
+    codeLines: lines.size
+  };
+}
+
+/**
+ * Describe a function by its declared or assigned name
+ */
+function getFunctionName(typescript: TypeScriptModule, node: ts.SignatureDeclaration, sourceFile: ts.SourceFile): string {
+  let name: string | undefined;
+  let owner: ts.Node | undefined;
+
+  if (typescript.isConstructorDeclaration(node)) {
+    name = 'constructor';
+    owner = node.parent;
+  } else if (node.name) {
+    name = node.name.getText(sourceFile);
+    owner = node.parent;
+    if (typescript.isGetAccessorDeclaration(node)) name = `get ${name}`;
+    if (typescript.isSetAccessorDeclaration(node)) name = `set ${name}`;
+  } else if (typescript.isVariableDeclaration(node.parent) ||
+    typescript.isPropertyDeclaration(node.parent) ||
+    typescript.isPropertyAssignment(node.parent)) {
+    name = node.parent.name.getText(sourceFile);
+    owner = node.parent.parent;
+  } else if (typescript.isBinaryExpression(node.parent) && node.parent.right === node) {
+    name = node.parent.left.getText(sourceFile);
+  }
+
+  if (!name) {
+    return '<anonymous>';
+  }
+  if (owner && typescript.isClassLike(owner)) {
+    return `${owner.name?.getText(sourceFile) ?? '<anonymous class>'}.${name}`;
+  }
+  return name;
+}
+
+/**
+ * Classify a function-like node
+ */
+function getFunctionKind(typescript: TypeScriptModule, node: ts.Node): FunctionComplexity['kind'] {
+  if (typescript.isConstructorDeclaration(node)) return 'constructor';
+  if (typescript.isMethodDeclaration(node)) return 'method';
+  if (typescript.isAccessor(node)) return 'accessor';
+  if (typescript.isArrowFunction(node)) return 'arrow';
+  if (typescript.isFunctionExpression(node)) return 'expression';
+  return 'function';
+}
+
+/**
+ * Score a function's complexity on a 0-100 scale
+ */
+function calculateFunctionScore(frame: FunctionFrame): number {
+  const normalizedCyclomatic = Math.min(100, frame.cyclomatic * 5);
+  const normalizedCognitive = Math.min(100, frame.cognitive * 3);
+  const normalizedNesting = Math.min(100, frame.nesting * 15);
+
+  return Math.round(normalizedCyclomatic * 0.4 + normalizedCognitive * 0.4 + normalizedNesting * 0.2);
+}
+
 // ============================================================================
 // Factory Functions
 // ============================================================================
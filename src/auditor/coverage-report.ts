@@ -0,0 +1,317 @@
+/**
+ * Coverage Report Analysis for the TESTS workflow step
+ *
+ * This module loads code coverage produced by istanbul-compatible tools
+ * (c8, nyc, Jest, Vitest) from `coverage-final.json` or `lcov.info`
+ * reports and intersects it with the lines changed by a diff, producing
+ * changed-lines coverage and the specific uncovered lines, branches and
+ * functions inside the diff hunks.
+ *
+ * Requirements: 2.4
+ */
+
+import { readFile } from 'fs/promises';
+import { isAbsolute, join, relative, resolve } from 'path';
+
+// ============================================================================
+// Coverage Types
+// ============================================================================
+
+/**
+ * Normalized coverage for a single source file
+ */
+export interface FileCoverage {
+  /** Execution count per instrumented line */
+  lines: Map<number, number>;
+  /** Branch outcomes */
+  branches: BranchCoverage[];
+  /** Function outcomes */
+  functions: FunctionCoverage[];
+}
+
+/**
+ * Coverage of a single branch outcome
+ */
+export interface BranchCoverage {
+  /** Line where the branch starts */
+  line: number;
+  /** Index of the outcome within its branch point */
+  index: number;
+  /** Whether the outcome was taken */
+  covered: boolean;
+}
+
+/**
+ * Coverage of a single function
+ */
+export interface FunctionCoverage {
+  /** Function name */
+  name: string;
+  /** Line where the function is declared */
+  line: number;
+  /** Whether the function was called */
+  covered: boolean;
+}
+
+/**
+ * Coverage data keyed by absolute file path
+ */
+export type CoverageMap = Map<string, FileCoverage>;
+
+/**
+ * Where coverage data came from
+ */
+export type CoverageSource = 'collected' | 'istanbul-json' | 'lcov' | 'unavailable';
+
+/**
+ * Loaded coverage data and its source
+ */
+export interface LoadedCoverage {
+  source: CoverageSource;
+  coverage: CoverageMap;
+}
+
+/**
+ * Coverage of the changed lines of one file
+ */
+export interface ChangedLinesCoverage {
+  /** Workspace-relative file path */
+  file: string;
+  /** Changed lines that are instrumented */
+  instrumentedLines: number;
+  /** Changed instrumented lines that were executed */
+  coveredLines: number;
+  /** Changed lines that were never executed */
+  uncoveredLines: number[];
+  /** Branch outcomes on changed lines that were never taken */
+  uncoveredBranches: BranchCoverage[];
+  /** Functions declared on changed lines that were never called */
+  uncoveredFunctions: string[];
+  /** Whether the file appears in the coverage report at all */
+  inReport: boolean;
+}
+
+// ============================================================================
+// Coverage Loading
+// ============================================================================
+
+/**
+ * Report locations checked when no report path is configured
+ */
+const DEFAULT_REPORT_PATHS = ['coverage/coverage-final.json', 'coverage/lcov.info'];
+
+/**
+ * Load an existing coverage report from the workspace
+ */
+export async function loadCoverageReport(
+  workspacePath: string,
+  reportPath?: string
+): Promise<LoadedCoverage> {
+  const candidates = reportPath ? [reportPath] : DEFAULT_REPORT_PATHS;
+
+  for (const candidate of candidates) {
+    const fullPath = isAbsolute(candidate) ? candidate : join(workspacePath, candidate);
+    let content: string;
+    try {
+      content = await readFile(fullPath, 'utf-8');
+    } catch (error) {
+      continue;
+    }
+
+    if (candidate.endsWith('.json')) {
+      return { source: 'istanbul-json', coverage: parseIstanbulCoverage(content, workspacePath) };
+    }
+    return { source: 'lcov', coverage: parseLcovCoverage(content, workspacePath) };
+  }
+
+  return { source: 'unavailable', coverage: new Map() };
+}
+
+/**
+ * Parse an istanbul `coverage-final.json` report
+ */
+export function parseIstanbulCoverage(content: string, workspacePath: string): CoverageMap {
+  const report = JSON.parse(content) as Record<string, any>;
+  const coverage: CoverageMap = new Map();
+
+  for (const [key, fileData] of Object.entries(report)) {
+    const lines = new Map<number, number>();
+    for (const [id, location] of Object.entries<any>(fileData.statementMap || {})) {
+      const line = location.start.line;
+      const count = fileData.s?.[id] ?? 0;
+      lines.set(line, Math.max(lines.get(line) ?? 0, count));
+    }
+
+    const branches: BranchCoverage[] = [];
+    for (const [id, branch] of Object.entries<any>(fileData.branchMap || {})) {
+      const counts: number[] = fileData.b?.[id] || [];
+      const line = branch.line ?? branch.loc?.start?.line ?? branch.locations?.[0]?.start?.line ?? 0;
+      counts.forEach((count, index) => {
+        branches.push({
+          line: branch.locations?.[index]?.start?.line ?? line,
+          index,
+          covered: count > 0
+        });
+      });
+    }
+
+    const functions: FunctionCoverage[] = Object.entries<any>(fileData.fnMap || {}).map(([id, fn]) => ({
+      name: fn.name,
+      line: fn.decl?.start?.line ?? fn.loc?.start?.line ?? fn.line,
+      covered: (fileData.f?.[id] ?? 0) > 0
+    }));
+
+    coverage.set(resolve(workspacePath, fileData.path || key), { lines, branches, functions });
+  }
+
+  return coverage;
+}
+
+/**
+ * Parse an `lcov.info` report
+ */
+export function parseLcovCoverage(content: string, workspacePath: string): CoverageMap {
+  const coverage: CoverageMap = new Map();
+  let current: FileCoverage | null = null;
+  const functionLines = new Map<string, number>();
+  const branchIndexes = new Map<number, number>();
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    const separator = line.indexOf(':');
+    const tag = separator === -1 ? line : line.slice(0, separator);
+    const values = separator === -1 ? [] : line.slice(separator + 1).split(',');
+
+    switch (tag) {
+      case 'SF':
+        current = { lines: new Map(), branches: [], functions: [] };
+        functionLines.clear();
+        branchIndexes.clear();
+        coverage.set(resolve(workspacePath, line.slice(3)), current);
+        break;
+      case 'DA':
+        current?.lines.set(parseInt(values[0], 10), parseInt(values[1], 10));
+        break;
+      case 'FN':
+        functionLines.set(values.slice(1).join(','), parseInt(values[0], 10));
+        break;
+      case 'FNDA': {
+        const name = values.slice(1).join(',');
+        current?.functions.push({
+          name,
+          line: functionLines.get(name) ?? 0,
+          covered: parseInt(values[0], 10) > 0
+        });
+        break;
+      }
+      case 'BRDA': {
+        const branchLine = parseInt(values[0], 10);
+        const index = branchIndexes.get(branchLine) ?? 0;
+        branchIndexes.set(branchLine, index + 1);
+        current?.branches.push({
+          line: branchLine,
+          index,
+          covered: values[3] !== '-' && parseInt(values[3], 10) > 0
+        });
+        break;
+      }
+      case 'end_of_record':
+        current = null;
+        break;
+    }
+  }
+
+  return coverage;
+}
+
+// ============================================================================
+// Changed-Lines Coverage
+// ============================================================================
+
+/**
+ * Intersect coverage with the changed lines of a file
+ *
+ * When `changedLines` is undefined every instrumented line counts as
+ * changed, which yields whole-file coverage.
+ */
+export function analyzeChangedLinesCoverage(
+  workspacePath: string,
+  file: string,
+  coverage: CoverageMap,
+  changedLines?: number[]
+): ChangedLinesCoverage {
+  const fileCoverage = coverage.get(resolve(workspacePath, file));
+  const relativeFile = relative(workspacePath, resolve(workspacePath, file));
+
+  if (!fileCoverage) {
+    // A file missing from the report was never loaded by the tests
+    return {
+      file: relativeFile,
+      instrumentedLines: changedLines?.length ?? 0,
+      coveredLines: 0,
+      uncoveredLines: changedLines ? [...changedLines] : [],
+      uncoveredBranches: [],
+      uncoveredFunctions: [],
+      inReport: false
+    };
+  }
+
+  const changed = changedLines ? new Set(changedLines) : null;
+  const isChanged = (line: number) => changed === null || changed.has(line);
+
+  const uncoveredLines: number[] = [];
+  let instrumentedLines = 0;
+  for (const [line, count] of fileCoverage.lines) {
+    if (!isChanged(line)) {
+      continue;
+    }
+    instrumentedLines++;
+    if (count === 0) {
+      uncoveredLines.push(line);
+    }
+  }
+
+  return {
+    file: relativeFile,
+    instrumentedLines,
+    coveredLines: instrumentedLines - uncoveredLines.length,
+    uncoveredLines: uncoveredLines.sort((a, b) => a - b),
+    uncoveredBranches: fileCoverage.branches.filter(branch => !branch.covered && isChanged(branch.line)),
+    uncoveredFunctions: fileCoverage.functions
+      .filter(fn => !fn.covered && isChanged(fn.line))
+      .map(fn => fn.name),
+    inReport: true
+  };
+}
+
+/**
+ * Summarize whole-file line, branch and function coverage percentages
+ */
+export function summarizeCoverage(
+  workspacePath: string,
+  files: string[],
+  coverage: CoverageMap
+): { lineCoverage: number; branchCoverage: number; functionCoverage: number } {
+  let lines = 0, coveredLines = 0, branches = 0, coveredBranches = 0, functions = 0, coveredFunctions = 0;
+
+  for (const file of files) {
+    const fileCoverage = coverage.get(resolve(workspacePath, file));
+    if (!fileCoverage) {
+      continue;
+    }
+    lines += fileCoverage.lines.size;
+    coveredLines += [...fileCoverage.lines.values()].filter(count => count > 0).length;
+    branches += fileCoverage.branches.length;
+    coveredBranches += fileCoverage.branches.filter(branch => branch.covered).length;
+    functions += fileCoverage.functions.length;
+    coveredFunctions += fileCoverage.functions.filter(fn => fn.covered).length;
+  }
+
+  const percentage = (covered: number, total: number) => total === 0 ? 100 : Math.round((covered / total) * 1000) / 10;
+
+  return {
+    lineCoverage: percentage(coveredLines, lines),
+    branchCoverage: percentage(coveredBranches, branches),
+    functionCoverage: percentage(coveredFunctions, functions)
+  };
+}
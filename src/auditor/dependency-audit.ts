@@ -0,0 +1,659 @@
+/**
+ * Offline Dependency Audit for the security quality assessment
+ *
+ * This module resolves installed package versions from `package-lock.json`,
+ * `pnpm-lock.yaml` and `yarn.lock` and matches them against a local
+ * advisory database in OSV format (as published by osv.dev and the GitHub
+ * advisory database) or the GitHub advisory REST export format. Everything
+ * is read from disk so audits work in air-gapped environments.
+ *
+ * Requirements: 3.4
+ */
+
+import { readFile, readdir, stat } from 'fs/promises';
+import { isAbsolute, join } from 'path';
+
+// ============================================================================
+// Dependency Audit Types
+// ============================================================================
+
+/**
+ * A package version resolved by a lockfile
+ */
+export interface LockedPackage {
+  /** Package name */
+  name: string;
+  /** Resolved version */
+  version: string;
+  /** Lockfile the package was read from */
+  lockfile: string;
+  /** Whether the package is only a development dependency */
+  dev: boolean;
+}
+
+/**
+ * Advisory severity
+ */
+export type AdvisorySeverity = "Critical" | "High" | "Medium" | "Low";
+
+/**
+ * A version comparator such as `>=1.2.0`
+ */
+export interface VersionComparator {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: string;
+}
+
+/**
+ * A contiguous range of affected versions
+ */
+export interface AffectedRange {
+  /** Comparators that must all hold */
+  comparators: VersionComparator[];
+  /** First version that is no longer affected */
+  fixed?: string;
+}
+
+/**
+ * A normalized security advisory for one package
+ */
+export interface Advisory {
+  /** Advisory id (GHSA, OSV or MAL id) */
+  id: string;
+  /** Aliases such as CVE ids */
+  aliases: string[];
+  /** Short description */
+  summary: string;
+  /** Severity */
+  severity: AdvisorySeverity;
+  /** Affected package name */
+  packageName: string;
+  /** Affected version ranges */
+  ranges: AffectedRange[];
+  /** Explicitly listed affected versions */
+  versions: string[];
+  /** Whether the advisory reports a malicious package */
+  malicious: boolean;
+}
+
+/**
+ * A locked package matched by an advisory
+ */
+export interface DependencyVulnerability {
+  /** Matching advisory */
+  advisory: Advisory;
+  /** Vulnerable package */
+  package: LockedPackage;
+  /** Human readable affected ranges, e.g. `>=4.0.0 <4.17.21` */
+  affectedRanges: string[];
+  /** Lowest version that fixes the advisory, if any */
+  fixedVersion?: string;
+}
+
+/**
+ * Result of auditing a workspace's lockfiles
+ */
+export interface DependencyAuditReport {
+  /** Lockfiles that were parsed */
+  lockfiles: string[];
+  /** Unique locked packages */
+  packages: LockedPackage[];
+  /** Advisory database that was used, or null when none is available */
+  advisoryDatabase: { path: string; advisoryCount: number } | null;
+  /** Vulnerable packages */
+  vulnerabilities: DependencyVulnerability[];
+}
+
+/**
+ * Environment variable pointing at the advisory database
+ */
+export const ADVISORY_DB_ENV = 'GAN_AUDITOR_ADVISORY_DB';
+
+/**
+ * Advisory database location checked when none is configured
+ */
+export const DEFAULT_ADVISORY_DB_PATH = '.gan-auditor/advisories';
+
+// ============================================================================
+// Audit
+// ============================================================================
+
+/**
+ * Audit the lockfiles of a workspace against a local advisory database
+ *
+ * The database path defaults to `GAN_AUDITOR_ADVISORY_DB`, then to
+ * `.gan-auditor/advisories` (directory) or `.gan-auditor/advisories.json`
+ * inside the workspace.
+ */
+export async function auditDependencies(
+  repositoryPath: string,
+  advisoryDatabasePath?: string
+): Promise<DependencyAuditReport> {
+  const { lockfiles, packages } = await loadLockedPackages(repositoryPath);
+
+  const databasePath = await resolveAdvisoryDatabasePath(repositoryPath, advisoryDatabasePath);
+  if (!databasePath) {
+    return { lockfiles, packages, advisoryDatabase: null, vulnerabilities: [] };
+  }
+
+  const advisories = await loadAdvisoryDatabase(databasePath);
+  return {
+    lockfiles,
+    packages,
+    advisoryDatabase: { path: databasePath, advisoryCount: advisories.length },
+    vulnerabilities: matchAdvisories(packages, advisories)
+  };
+}
+
+/**
+ * Match locked packages against advisories
+ */
+export function matchAdvisories(packages: LockedPackage[], advisories: Advisory[]): DependencyVulnerability[] {
+  const byPackage = new Map<string, Advisory[]>();
+  for (const advisory of advisories) {
+    const list = byPackage.get(advisory.packageName) || [];
+    list.push(advisory);
+    byPackage.set(advisory.packageName, list);
+  }
+
+  const vulnerabilities: DependencyVulnerability[] = [];
+  for (const pkg of packages) {
+    for (const advisory of byPackage.get(pkg.name) || []) {
+      const matchingRange = advisory.ranges.find(range => satisfiesRange(pkg.version, range));
+      if (!matchingRange && !advisory.versions.includes(pkg.version)) {
+        continue;
+      }
+
+      vulnerabilities.push({
+        advisory,
+        package: pkg,
+        affectedRanges: advisory.ranges.length > 0
+          ? advisory.ranges.map(formatRange)
+          : advisory.versions.map(version => `=${version}`),
+        fixedVersion: matchingRange?.fixed ?? findFixedVersion(pkg.version, advisory.ranges)
+      });
+    }
+  }
+
+  return vulnerabilities;
+}
+
+// ============================================================================
+// Lockfile Parsing
+// ============================================================================
+
+/**
+ * Load and deduplicate packages from every lockfile in the workspace root
+ */
+export async function loadLockedPackages(
+  repositoryPath: string
+): Promise<{ lockfiles: string[]; packages: LockedPackage[] }> {
+  const parsers: Array<[string, (content: string) => LockedPackage[]]> = [
+    ['package-lock.json', parsePackageLock],
+    ['npm-shrinkwrap.json', content => parsePackageLock(content, 'npm-shrinkwrap.json')],
+    ['pnpm-lock.yaml', parsePnpmLock],
+    ['yarn.lock', parseYarnLock]
+  ];
+
+  const lockfiles: string[] = [];
+  const packages = new Map<string, LockedPackage>();
+
+  for (const [lockfile, parse] of parsers) {
+    let content: string;
+    try {
+      content = await readFile(join(repositoryPath, lockfile), 'utf-8');
+    } catch (error) {
+      continue;
+    }
+
+    let parsed: LockedPackage[];
+    try {
+      parsed = parse(content);
+    } catch (error) {
+      // A corrupt lockfile is skipped rather than failing the whole audit
+      continue;
+    }
+
+    lockfiles.push(lockfile);
+    for (const pkg of parsed) {
+      const key = `${pkg.name}@${pkg.version}`;
+      const existing = packages.get(key);
+      // A package is a dev dependency only if every occurrence is
+      packages.set(key, existing ? { ...existing, dev: existing.dev && pkg.dev } : pkg);
+    }
+  }
+
+  return { lockfiles, packages: [...packages.values()] };
+}
+
+/**
+ * Parse an npm `package-lock.json` (lockfile versions 1-3)
+ */
+export function parsePackageLock(content: string, lockfile: string = 'package-lock.json'): LockedPackage[] {
+  const lock = JSON.parse(content);
+  const packages: LockedPackage[] = [];
+
+  if (lock.packages) {
+    for (const [key, entry] of Object.entries<any>(lock.packages)) {
+      const index = key.lastIndexOf('node_modules/');
+      // Skip the root project, workspace sources and symlinks
+      if (index === -1 || entry.link || !entry.version) {
+        continue;
+      }
+      packages.push({
+        name: entry.name || key.slice(index + 'node_modules/'.length),
+        version: entry.version,
+        lockfile,
+        dev: Boolean(entry.dev)
+      });
+    }
+    return packages;
+  }
+
+  const visit = (dependencies: Record<string, any> = {}) => {
+    for (const [name, entry] of Object.entries<any>(dependencies)) {
+      if (entry.version) {
+        packages.push({ name, version: entry.version, lockfile, dev: Boolean(entry.dev) });
+      }
+      visit(entry.dependencies);
+    }
+  };
+  visit(lock.dependencies);
+
+  return packages;
+}
+
+/**
+ * Parse a `pnpm-lock.yaml` (lockfile versions 5-9)
+ */
+export function parsePnpmLock(content: string): LockedPackage[] {
+  const packages: LockedPackage[] = [];
+  let inPackages = false;
+  let current: LockedPackage | null = null;
+
+  for (const line of content.split('\n')) {
+    if (/^\S/.test(line)) {
+      inPackages = line.trim() === 'packages:';
+      current = null;
+      continue;
+    }
+    if (!inPackages) {
+      continue;
+    }
+
+    const keyMatch = line.match(/^ {2}(\S.*):\s*$/);
+    if (keyMatch) {
+      const parsed = parsePnpmPackageKey(keyMatch[1].replace(/^['"]|['"]$/g, ''));
+      current = parsed ? { ...parsed, lockfile: 'pnpm-lock.yaml', dev: false } : null;
+      if (current) {
+        packages.push(current);
+      }
+      continue;
+    }
+
+    if (current && /^ {4}dev:\s*true\s*$/.test(line)) {
+      current.dev = true;
+    }
+  }
+
+  return packages;
+}
+
+/**
+ * Parse a pnpm package key such as `/lodash/4.17.21`, `/@scope/pkg@1.0.0(peer@2.0.0)` or `pkg@1.0.0`
+ */
+function parsePnpmPackageKey(key: string): { name: string; version: string } | null {
+  const withoutPeers = key.replace(/\(.*$/, '');
+
+  const modern = withoutPeers.match(/^\/?((?:@[^/@]+\/)?[^/@]+)@([^@/]+)$/);
+  if (modern) {
+    return { name: modern[1], version: modern[2] };
+  }
+
+  const legacy = withoutPeers.match(/^\/((?:@[^/]+\/)?[^/]+)\/([^/_]+)(?:_.*)?$/);
+  return legacy ? { name: legacy[1], version: legacy[2] } : null;
+}
+
+/**
+ * Parse a `yarn.lock` (classic v1 and Berry formats)
+ */
+export function parseYarnLock(content: string): LockedPackage[] {
+  const packages: LockedPackage[] = [];
+  let currentName: string | null = null;
+
+  for (const line of content.split('\n')) {
+    if (/^\S.*:\s*$/.test(line) && !line.startsWith('#')) {
+      const descriptor = line.replace(/:\s*$/, '').split(',')[0].trim().replace(/^"|"$/g, '');
+      const at = descriptor.indexOf('@', 1);
+      currentName = at > 0 && descriptor !== '__metadata' ? descriptor.slice(0, at) : null;
+      continue;
+    }
+
+    const versionMatch = line.match(/^ {2}version:?\s+"?([^"\s]+)"?\s*$/);
+    if (currentName && versionMatch) {
+      if (!versionMatch[1].endsWith('-use.local')) {
+        packages.push({ name: currentName, version: versionMatch[1], lockfile: 'yarn.lock', dev: false });
+      }
+      currentName = null;
+    }
+  }
+
+  return packages;
+}
+
+// ============================================================================
+// Advisory Database
+// ============================================================================
+
+const databaseCache = new Map<string, { mtimeMs: number; advisories: Advisory[] }>();
+
+/**
+ * Resolve the advisory database path, or null when none exists
+ */
+async function resolveAdvisoryDatabasePath(
+  repositoryPath: string,
+  configuredPath?: string
+): Promise<string | null> {
+  const explicit = configuredPath || process.env[ADVISORY_DB_ENV];
+  const candidates = explicit
+    ? [explicit]
+    : [DEFAULT_ADVISORY_DB_PATH, `${DEFAULT_ADVISORY_DB_PATH}.json`];
+
+  for (const candidate of candidates) {
+    const fullPath = isAbsolute(candidate) ? candidate : join(repositoryPath, candidate);
+    try {
+      await stat(fullPath);
+      return fullPath;
+    } catch (error) {
+      continue;
+    }
+  }
+  return null;
+}
+
+/**
+ * Load an advisory database from a JSON file or a directory of JSON files
+ *
+ * Files may contain a single advisory, an array of advisories, or an
+ * object with a `vulns` or `advisories` array. Only npm advisories are kept.
+ */
+export async function loadAdvisoryDatabase(databasePath: string): Promise<Advisory[]> {
+  const stats = await stat(databasePath);
+  const cached = databaseCache.get(databasePath);
+  if (cached && cached.mtimeMs === stats.mtimeMs) {
+    return cached.advisories;
+  }
+
+  const files = stats.isDirectory() ? await findJsonFiles(databasePath) : [databasePath];
+  const advisories: Advisory[] = [];
+
+  for (const file of files) {
+    let document: any;
+    try {
+      document = JSON.parse(await readFile(file, 'utf-8'));
+    } catch (error) {
+      continue;
+    }
+
+    const entries = Array.isArray(document) ? document : document.vulns || document.advisories || [document];
+    for (const entry of entries) {
+      advisories.push(...normalizeAdvisory(entry));
+    }
+  }
+
+  databaseCache.set(databasePath, { mtimeMs: stats.mtimeMs, advisories });
+  return advisories;
+}
+
+/**
+ * Recursively list JSON files in a directory
+ */
+async function findJsonFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    const fullPath = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await findJsonFiles(fullPath));
+    } else if (entry.name.endsWith('.json')) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Normalize an OSV or GitHub REST advisory into per-package advisories
+ */
+export function normalizeAdvisory(entry: any): Advisory[] {
+  if (!entry || typeof entry !== 'object') {
+    return [];
+  }
+
+  // GitHub REST export: { ghsa_id, cve_id, severity, vulnerabilities: [...] }
+  if (entry.ghsa_id && Array.isArray(entry.vulnerabilities)) {
+    return entry.vulnerabilities
+      .filter((vulnerability: any) => vulnerability.package?.ecosystem?.toLowerCase() === 'npm')
+      .map((vulnerability: any) => ({
+        id: entry.ghsa_id,
+        aliases: entry.cve_id ? [entry.cve_id] : [],
+        summary: entry.summary || '',
+        severity: normalizeSeverity(entry.severity),
+        packageName: vulnerability.package.name,
+        ranges: [parseRangeExpression(vulnerability.vulnerable_version_range || '', vulnerability.first_patched_version)],
+        versions: [],
+        malicious: entry.type === 'malware'
+      }));
+  }
+
+  // OSV: { id, aliases, affected: [{ package, ranges, versions }] }
+  if (!entry.id || !Array.isArray(entry.affected)) {
+    return [];
+  }
+
+  return entry.affected
+    .filter((affected: any) => !affected.package?.ecosystem || affected.package.ecosystem.toLowerCase() === 'npm')
+    .filter((affected: any) => affected.package?.name)
+    .map((affected: any) => ({
+      id: entry.id,
+      aliases: entry.aliases || [],
+      summary: entry.summary || entry.details?.split('\n')[0] || '',
+      severity: normalizeSeverity(
+        affected.database_specific?.severity ?? entry.database_specific?.severity ?? entry.severity
+      ),
+      packageName: affected.package.name,
+      ranges: (affected.ranges || [])
+        .filter((range: any) => range.type === 'SEMVER' || range.type === 'ECOSYSTEM')
+        .flatMap((range: any) => eventsToRanges(range.events || [])),
+      versions: affected.versions || [],
+      malicious: String(entry.id).startsWith('MAL-')
+    }));
+}
+
+/**
+ * Convert OSV range events into affected ranges
+ */
+function eventsToRanges(events: Array<Record<string, string>>): AffectedRange[] {
+  const sorted = [...events].sort((a, b) =>
+    compareVersions(Object.values(a)[0] || '0', Object.values(b)[0] || '0'));
+
+  const ranges: AffectedRange[] = [];
+  let introduced: string | null = null;
+
+  for (const event of sorted) {
+    if (event.introduced !== undefined) {
+      introduced ??= event.introduced;
+    } else if (introduced !== null && (event.fixed !== undefined || event.last_affected !== undefined)) {
+      const comparators: VersionComparator[] = introduced === '0' ? [] : [{ operator: '>=', version: introduced }];
+      if (event.fixed !== undefined) {
+        comparators.push({ operator: '<', version: event.fixed });
+        ranges.push({ comparators, fixed: event.fixed });
+      } else {
+        comparators.push({ operator: '<=', version: event.last_affected });
+        ranges.push({ comparators });
+      }
+      introduced = null;
+    }
+  }
+
+  if (introduced !== null) {
+    ranges.push({ comparators: introduced === '0' ? [] : [{ operator: '>=', version: introduced }] });
+  }
+
+  return ranges;
+}
+
+/**
+ * Parse a range expression such as `>= 1.0.0, < 1.2.3`
+ */
+function parseRangeExpression(expression: string, fixed?: string | { identifier: string } | null): AffectedRange {
+  const comparators: VersionComparator[] = [];
+  for (const part of expression.split(',')) {
+    const match = part.trim().match(/^(<=|>=|<|>|=)?\s*v?(\S+)$/);
+    if (match) {
+      comparators.push({ operator: (match[1] || '=') as VersionComparator['operator'], version: match[2] });
+    }
+  }
+
+  const fixedVersion = typeof fixed === 'string' ? fixed : fixed?.identifier;
+  return fixedVersion ? { comparators, fixed: fixedVersion } : { comparators };
+}
+
+/**
+ * Map advisory severities (GHSA labels or CVSS scores) to assessor severities
+ */
+function normalizeSeverity(severity: unknown): AdvisorySeverity {
+  if (Array.isArray(severity)) {
+    const score = severity.map(entry => parseFloat(entry?.score)).find(value => !isNaN(value));
+    return score === undefined ? "Medium" : normalizeSeverity(score);
+  }
+  if (typeof severity === 'number') {
+    return severity >= 9 ? "Critical" : severity >= 7 ? "High" : severity >= 4 ? "Medium" : "Low";
+  }
+
+  switch (String(severity).toUpperCase()) {
+    case 'CRITICAL':
+      return "Critical";
+    case 'HIGH':
+      return "High";
+    case 'LOW':
+      return "Low";
+    default:
+      return "Medium";
+  }
+}
+
+// ============================================================================
+// Semantic Versioning
+// ============================================================================
+
+/**
+ * Parsed semantic version
+ */
+interface ParsedVersion {
+  release: number[];
+  prerelease: string[];
+}
+
+/**
+ * Parse a version, tolerating a leading `v` and missing minor/patch parts
+ */
+function parseVersion(version: string): ParsedVersion | null {
+  const match = version.trim().match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+.*)?$/);
+  if (!match) {
+    return null;
+  }
+  return {
+    release: [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)],
+    prerelease: match[4] ? match[4].split('.') : []
+  };
+}
+
+/**
+ * Compare two versions using semver precedence
+ *
+ * Unparseable versions compare as equal so they never match a range.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    return 0;
+  }
+
+  for (let i = 0; i < 3; i++) {
+    if (left.release[i] !== right.release[i]) {
+      return left.release[i] < right.release[i] ? -1 : 1;
+    }
+  }
+
+  // A release has higher precedence than its prereleases
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    if (left.prerelease.length === right.prerelease.length) {
+      return 0;
+    }
+    return left.prerelease.length === 0 ? 1 : -1;
+  }
+
+  for (let i = 0; i < Math.max(left.prerelease.length, right.prerelease.length); i++) {
+    const l = left.prerelease[i];
+    const r = right.prerelease[i];
+    if (l === undefined || r === undefined) {
+      return l === undefined ? -1 : 1;
+    }
+    if (l === r) {
+      continue;
+    }
+    const ln = /^\d+$/.test(l) ? Number(l) : NaN;
+    const rn = /^\d+$/.test(r) ? Number(r) : NaN;
+    if (!isNaN(ln) && !isNaN(rn)) {
+      return ln < rn ? -1 : 1;
+    }
+    if (!isNaN(ln) || !isNaN(rn)) {
+      return !isNaN(ln) ? -1 : 1;
+    }
+    return l < r ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Check whether a version satisfies every comparator of a range
+ */
+export function satisfiesRange(version: string, range: AffectedRange): boolean {
+  if (!parseVersion(version)) {
+    return false;
+  }
+
+  return range.comparators.every(({ operator, version: bound }) => {
+    if (!parseVersion(bound)) {
+      return false;
+    }
+    const comparison = compareVersions(version, bound);
+    switch (operator) {
+      case '<': return comparison < 0;
+      case '<=': return comparison <= 0;
+      case '>': return comparison > 0;
+      case '>=': return comparison >= 0;
+      case '=': return comparison === 0;
+    }
+  });
+}
+
+/**
+ * Format a range as a semver range string
+ */
+function formatRange(range: AffectedRange): string {
+  return range.comparators.length === 0
+    ? '*'
+    : range.comparators.map(({ operator, version }) => `${operator}${version}`).join(' ');
+}
+
+/**
+ * Find the lowest fix version above an installed version
+ */
+function findFixedVersion(version: string, ranges: AffectedRange[]): string | undefined {
+  return ranges
+    .map(range => range.fixed)
+    .filter((fixed): fixed is string => fixed !== undefined && compareVersions(fixed, version) > 0)
+    .sort(compareVersions)[0];
+}
@@ -0,0 +1,534 @@
+/**
+ * Edge Case Sandbox
+ *
+ * Calls the exported functions of touched modules with edge-case and
+ * property-based generated inputs inside a resource-limited child process.
+ * Each function runs in its own process with a memory cap and a per-call
+ * watchdog, so thrown errors, hangs, crashes and unexpected return types are
+ * recorded as real, reproducible outcomes instead of bringing down the auditor.
+ * The process runs under Node's permission model: it may only read the
+ * sandbox and the workspace, and cannot write files or start processes.
+ */
+
+import { fork } from 'child_process';
+import { readFile, writeFile, rm } from 'fs/promises';
+import { join, isAbsolute } from 'path';
+import { loadTypeScript } from '../utils/tool-runner.js';
+import { logger } from '../utils/logger.js';
+import {
+  createSandboxDirectory,
+  prepareModule,
+  findExportedFunctions,
+  isExecutableModule,
+  assertPermissionModel,
+  permissionFlags,
+  type ExportedFunction,
+} from './sandbox-modules.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Limits for sandboxed edge-case execution
+ */
+export interface EdgeCaseSandboxOptions {
+  /** Time a single call may take before it counts as a hang, in milliseconds */
+  caseTimeout: number;
+  /** Time allowed for importing the module under test, in milliseconds */
+  loadTimeout: number;
+  /** Heap limit of each sandbox process in megabytes */
+  memoryLimitMb: number;
+  /** Number of property-based generated inputs per function */
+  propertyCases: number;
+  /** Seed for generated inputs, reported so runs can be reproduced */
+  seed: number;
+  /** Maximum number of functions exercised per run */
+  maxFunctions: number;
+}
+
+export const DEFAULT_EDGE_CASE_SANDBOX_OPTIONS: EdgeCaseSandboxOptions = {
+  caseTimeout: 2000,
+  loadTimeout: 10000,
+  memoryLimitMb: 128,
+  propertyCases: 20,
+  seed: 42,
+  maxFunctions: 20,
+};
+
+/**
+ * An input every exported function is called with
+ */
+export interface EdgeCaseInput {
+  scenario: string;
+  input: unknown;
+  expected: string;
+}
+
+/**
+ * How a sandboxed call ended
+ */
+export type EdgeCaseOutcome = 'returned' | 'rejected_input' | 'threw' | 'hang' | 'crashed' | 'unexpected_type' | 'load_failed';
+
+/**
+ * Result of calling one function with one input
+ */
+export interface SandboxedEdgeCaseResult {
+  file: string;
+  functionName: string;
+  scenario: string;
+  input: unknown;
+  expected: string;
+  actual: string;
+  status: 'passed' | 'failed' | 'error';
+  outcome: EdgeCaseOutcome;
+  error?: string;
+  /** Call that reproduces the outcome, e.g. `parse(null)` */
+  reproduction: string;
+  executionTime: number;
+}
+
+/**
+ * Messages sent by the harness process
+ */
+type HarnessMessage =
+  | { type: 'ready'; arity: number }
+  | { type: 'load-error'; error: string }
+  | { type: 'returned'; index: number; returnType: string; preview: string; duration: number }
+  | { type: 'threw'; index: number; errorName: string; message: string; duration: number }
+  | { type: 'done' };
+
+/**
+ * Number of argument slots filled per call; extra slots are dropped by the harness
+ */
+const MAX_ARITY = 4;
+
+/**
+ * Error types raised by the runtime for unguarded input rather than by validation code
+ */
+const RUNTIME_ERROR_NAMES = new Set(['TypeError', 'ReferenceError', 'RangeError', 'SyntaxError', 'InternalError']);
+
+// ============================================================================
+// Edge Case Execution
+// ============================================================================
+
+/**
+ * Call every exported function of the touched script modules with each input
+ */
+export async function runEdgeCasesInSandbox(
+  workspacePath: string,
+  touchedFiles: string[],
+  inputs: EdgeCaseInput[],
+  options: Partial<EdgeCaseSandboxOptions> = {}
+): Promise<SandboxedEdgeCaseResult[]> {
+  const config = { ...DEFAULT_EDGE_CASE_SANDBOX_OPTIONS, ...options };
+  const modules = touchedFiles.filter(isExecutableModule);
+  if (modules.length === 0) {
+    return [];
+  }
+
+  assertPermissionModel('Edge case execution');
+
+  const cases = [
+    ...inputs.map(input => ({ ...input, args: new Array(MAX_ARITY).fill(input.input) })),
+    ...generatePropertyInputs(config.propertyCases, config.seed),
+  ];
+
+  const sandboxDirectory = await createSandboxDirectory(workspacePath, 'gan-edge-cases-');
+  const results: SandboxedEdgeCaseResult[] = [];
+  let functionsRun = 0;
+
+  try {
+    const harnessPath = join(sandboxDirectory, 'edge-case-harness.mjs');
+    await writeFile(harnessPath, HARNESS_SOURCE);
+    const typescript = loadTypeScript(workspacePath);
+    const permissions = await permissionFlags([sandboxDirectory, workspacePath]);
+
+    for (const file of modules) {
+      if (functionsRun >= config.maxFunctions) break;
+
+      const absolutePath = isAbsolute(file) ? file : join(workspacePath, file);
+      const source = await readFile(absolutePath, 'utf-8');
+      const functions = typescript ? findExportedFunctions(typescript, absolutePath, source) : [];
+      const modulePath = await prepareModule(typescript, workspacePath, sandboxDirectory, absolutePath);
+
+      for (const fn of functions.slice(0, config.maxFunctions - functionsRun)) {
+        functionsRun++;
+        results.push(...await runFunctionCases(harnessPath, sandboxDirectory, modulePath, file, fn, cases, config, permissions));
+      }
+    }
+  } finally {
+    await rm(sandboxDirectory, { recursive: true, force: true });
+  }
+
+  logger.debug('Sandboxed edge cases finished', {
+    functions: functionsRun,
+    calls: results.length,
+    failing: results.filter(r => r.status !== 'passed').length,
+  }, 'edge-case-sandbox');
+
+  return results;
+}
+
+/**
+ * Deterministic property-based inputs: numbers, strings, collections and
+ * special values drawn from a seeded generator
+ */
+export function generatePropertyInputs(
+  count: number,
+  seed: number
+): Array<EdgeCaseInput & { args: unknown[] }> {
+  const random = createRandom(seed);
+  const cases: Array<EdgeCaseInput & { args: unknown[] }> = [];
+
+  for (let i = 0; i < count; i++) {
+    const args = Array.from({ length: MAX_ARITY }, () => generateValue(random, 0));
+    cases.push({
+      scenario: `generated input #${i + 1} (seed ${seed})`,
+      input: args[0],
+      args,
+      expected: 'no crash, hang or unexpected return type',
+    });
+  }
+
+  return cases;
+}
+
+/**
+ * Run all cases against one function, restarting the sandbox after hangs and crashes
+ */
+async function runFunctionCases(
+  harnessPath: string,
+  sandboxDirectory: string,
+  modulePath: string,
+  file: string,
+  fn: ExportedFunction,
+  cases: Array<EdgeCaseInput & { args: unknown[] }>,
+  config: EdgeCaseSandboxOptions,
+  permissions: string[]
+): Promise<SandboxedEdgeCaseResult[]> {
+  const results: SandboxedEdgeCaseResult[] = [];
+  let startIndex = 0;
+
+  while (startIndex < cases.length) {
+    const run = await runHarness(harnessPath, sandboxDirectory, modulePath, fn.name, cases, startIndex, config, permissions);
+    const arity = Math.max(1, run.arity ?? 1);
+
+    if (run.loadError !== undefined || run.arity === undefined) {
+      results.push({
+        file,
+        functionName: fn.name,
+        scenario: 'module load',
+        input: null,
+        expected: 'module imports without errors',
+        actual: 'module failed to load',
+        status: 'error',
+        outcome: 'load_failed',
+        error: run.loadError ?? (run.timedOut ? `Module did not load within ${config.loadTimeout}ms` : run.exitReason),
+        reproduction: `import('${file}')`,
+        executionTime: 0,
+      });
+      break;
+    }
+
+    for (const message of run.messages) {
+      const testCase = cases[message.index];
+      results.push(classifyCall(file, fn, testCase, arity, message));
+    }
+
+    const nextIndex = startIndex + run.messages.length;
+    if (nextIndex >= cases.length || run.completed) {
+      break;
+    }
+
+    // The case after the last reported one hung or crashed the sandbox
+    const testCase = cases[nextIndex];
+    const hung = run.timedOut;
+    results.push({
+      file,
+      functionName: fn.name,
+      scenario: testCase.scenario,
+      input: testCase.input,
+      expected: testCase.expected,
+      actual: hung ? `no result within ${config.caseTimeout}ms` : 'sandbox process exited',
+      status: hung ? 'failed' : 'error',
+      outcome: hung ? 'hang' : 'crashed',
+      error: hung ? 'Call did not return before the timeout' : run.exitReason,
+      reproduction: formatCall(fn.name, testCase.args.slice(0, arity)),
+      executionTime: hung ? config.caseTimeout : 0,
+    });
+    startIndex = nextIndex + 1;
+  }
+
+  return results;
+}
+
+/**
+ * Turn a harness message into an edge case result
+ */
+function classifyCall(
+  file: string,
+  fn: ExportedFunction,
+  testCase: EdgeCaseInput & { args: unknown[] },
+  arity: number,
+  message: Extract<HarnessMessage, { type: 'returned' | 'threw' }>
+): SandboxedEdgeCaseResult {
+  const base = {
+    file,
+    functionName: fn.name,
+    scenario: testCase.scenario,
+    input: testCase.input,
+    expected: fn.expectedType ? `returns ${fn.expectedType} or rejects the input` : testCase.expected,
+    reproduction: formatCall(fn.name, testCase.args.slice(0, arity)),
+    executionTime: Math.round(message.duration),
+  };
+
+  if (message.type === 'threw') {
+    const runtimeError = RUNTIME_ERROR_NAMES.has(message.errorName);
+    return {
+      ...base,
+      actual: `threw ${message.errorName}: ${message.message}`,
+      status: runtimeError ? 'error' : 'passed',
+      outcome: runtimeError ? 'threw' : 'rejected_input',
+      error: runtimeError ? `${message.errorName}: ${message.message}` : undefined,
+    };
+  }
+
+  const unexpected = message.returnType === 'NaN'
+    || (fn.expectedType !== undefined && !matchesExpectedType(message.returnType, fn.expectedType));
+  return {
+    ...base,
+    actual: `returned ${message.returnType} ${message.preview}`,
+    status: unexpected ? 'failed' : 'passed',
+    outcome: unexpected ? 'unexpected_type' : 'returned',
+    error: unexpected ? `Expected ${fn.expectedType ?? 'a number'} but got ${message.returnType}` : undefined,
+  };
+}
+
+/**
+ * Result of one sandbox process
+ */
+interface HarnessRun {
+  arity?: number;
+  loadError?: string;
+  messages: Array<Extract<HarnessMessage, { type: 'returned' | 'threw' }>>;
+  completed: boolean;
+  timedOut: boolean;
+  exitReason?: string;
+}
+
+/**
+ * Start a sandbox process for one function and collect results until it
+ * finishes, hangs on a call or exits
+ */
+function runHarness(
+  harnessPath: string,
+  sandboxDirectory: string,
+  modulePath: string,
+  functionName: string,
+  cases: Array<{ args: unknown[] }>,
+  startIndex: number,
+  config: EdgeCaseSandboxOptions,
+  permissions: string[]
+): Promise<HarnessRun> {
+  return new Promise(resolvePromise => {
+    const run: HarnessRun = { messages: [], completed: false, timedOut: false };
+    let stderr = '';
+    let settled = false;
+
+    const child = fork(harnessPath, [], {
+      cwd: sandboxDirectory,
+      env: { PATH: process.env.PATH ?? '', NODE_ENV: 'test' },
+      execArgv: [`--max-old-space-size=${config.memoryLimitMb}`, ...permissions],
+      stdio: ['ignore', 'ignore', 'pipe', 'ipc'],
+      serialization: 'advanced',
+    });
+
+    let watchdog = setTimeout(onTimeout, config.loadTimeout);
+
+    function onTimeout() {
+      run.timedOut = true;
+      child.kill('SIGKILL');
+    }
+
+    function resetWatchdog() {
+      clearTimeout(watchdog);
+      watchdog = setTimeout(onTimeout, config.caseTimeout);
+    }
+
+    function finish() {
+      if (settled) return;
+      settled = true;
+      clearTimeout(watchdog);
+      resolvePromise(run);
+    }
+
+    child.stderr?.on('data', chunk => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+
+    child.on('message', (message: HarnessMessage) => {
+      switch (message.type) {
+        case 'ready':
+          run.arity = message.arity;
+          resetWatchdog();
+          break;
+        case 'load-error':
+          run.loadError = message.error;
+          break;
+        case 'returned':
+        case 'threw':
+          run.messages.push(message);
+          resetWatchdog();
+          break;
+        case 'done':
+          run.completed = true;
+          break;
+      }
+    });
+
+    child.on('error', error => {
+      run.exitReason = error.message;
+      finish();
+    });
+
+    child.on('exit', (code, signal) => {
+      if (!run.completed && !run.timedOut) {
+        run.exitReason = `Sandbox exited with ${signal ?? `code ${code}`}${stderr.trim() ? `: ${stderr.trim().split('\n').slice(-3).join(' ')}` : ''}`;
+      }
+      finish();
+    });
+
+    child.send({ modulePath, functionName, cases: cases.map(c => c.args), startIndex });
+  });
+}
+
+function matchesExpectedType(actual: string, expected: string): boolean {
+  return actual === expected || (expected === 'undefined' && actual === 'null');
+}
+
+// ============================================================================
+// Input Generation
+// ============================================================================
+
+/**
+ * Seeded pseudo-random generator (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const SPECIAL_NUMBERS = [NaN, Infinity, -Infinity, -0, Number.MIN_SAFE_INTEGER, Number.EPSILON];
+const STRING_ALPHABET = ['a', 'Z', '0', ' ', '\n', '"', "'", '\\', '<', '>', '%', 'é', '漢', '😀', '\u0000'];
+
+function generateValue(random: () => number, depth: number): unknown {
+  const pick = <T>(items: readonly T[]) => items[Math.floor(random() * items.length)];
+  const kinds = depth >= 2
+    ? ['integer', 'float', 'special', 'string', 'boolean', 'nullish']
+    : ['integer', 'float', 'special', 'string', 'boolean', 'nullish', 'array', 'object'];
+
+  switch (pick(kinds)) {
+    case 'integer': return Math.floor(random() * 2_000_001) - 1_000_000;
+    case 'float': return (random() - 0.5) * 1e6;
+    case 'special': return pick(SPECIAL_NUMBERS);
+    case 'string': return Array.from({ length: Math.floor(random() * 20) }, () => pick(STRING_ALPHABET)).join('');
+    case 'boolean': return random() < 0.5;
+    case 'nullish': return random() < 0.5 ? null : undefined;
+    case 'array': return Array.from({ length: Math.floor(random() * 5) }, () => generateValue(random, depth + 1));
+    default: {
+      const entries = Array.from({ length: Math.floor(random() * 4) }, (_, i) =>
+        [`key${i}`, generateValue(random, depth + 1)] as const);
+      return Object.fromEntries(entries);
+    }
+  }
+}
+
+/**
+ * Render a call for the reproduction field
+ */
+function formatCall(functionName: string, args: unknown[]): string {
+  return `${functionName}(${args.map(formatValue).join(', ')})`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'number') {
+    return Object.is(value, -0) ? '-0' : String(value);
+  }
+  if (typeof value === 'string') {
+    if (value.length > 40 && new Set(value).size === 1) {
+      return `${JSON.stringify(value[0])}.repeat(${value.length})`;
+    }
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(', ')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{ ${Object.entries(value).map(([k, v]) => `${k}: ${formatValue(v)}`).join(', ')} }`;
+  }
+  return String(value);
+}
+
+// ============================================================================
+// Harness
+// ============================================================================
+
+/**
+ * Script run in the sandbox process; it reports each call before starting the
+ * next so the parent knows which call hung or crashed the process
+ */
+const HARNESS_SOURCE = `import { pathToFileURL } from 'node:url';
+import { inspect } from 'node:util';
+import { performance } from 'node:perf_hooks';
+
+const send = message => new Promise(resolve => process.send(message, () => resolve()));
+
+const typeOf = value => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+  return typeof value;
+};
+
+process.on('unhandledRejection', () => {});
+
+process.once('message', async ({ modulePath, functionName, cases, startIndex }) => {
+  let fn;
+  try {
+    const loaded = await import(pathToFileURL(modulePath).href);
+    fn = functionName === 'default' ? loaded.default : loaded[functionName];
+    if (typeof fn !== 'function') throw new Error(functionName + ' is not an exported function');
+  } catch (error) {
+    await send({ type: 'load-error', error: String(error && error.message ? error.message : error) });
+    process.exit(0);
+  }
+
+  const arity = Math.max(1, fn.length);
+  await send({ type: 'ready', arity });
+
+  for (let index = startIndex; index < cases.length; index++) {
+    const start = performance.now();
+    try {
+      let value = fn(...cases[index].slice(0, arity));
+      if (value && typeof value.then === 'function') value = await value;
+      const preview = inspect(value, { depth: 1, maxStringLength: 80, maxArrayLength: 10, breakLength: Infinity });
+      await send({ type: 'returned', index, returnType: typeOf(value), preview, duration: performance.now() - start });
+    } catch (error) {
+      const errorName = error && error.name ? String(error.name) : typeof error;
+      const message = error && error.message !== undefined ? String(error.message) : String(error);
+      await send({ type: 'threw', index, errorName, message: message.slice(0, 500), duration: performance.now() - start });
+    }
+  }
+
+  await send({ type: 'done' });
+  process.exit(0);
+});
+`;
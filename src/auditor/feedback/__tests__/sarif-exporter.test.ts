@@ -0,0 +1,161 @@
+/**
+ * Tests for SARIF export of audit findings
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  SarifExporter,
+  createSarifContextFromReview,
+  exportSessionAsSarif
+} from '../sarif-exporter.js';
+import { parseUnifiedDiff } from '../../../utils/git-utils.js';
+import type { GanReview, SessionState } from '../../../types/gan-types.js';
+
+const DIFF = [
+  '--- a/src/math.ts',
+  '+++ b/src/math.ts',
+  '@@ -2,3 +2,4 @@',
+  ' export function divide(a: number, b: number) {',
+  '-  return a / b;',
+  '+  if (b === 0) throw new RangeError("b must not be 0");',
+  '+  return a / b;',
+  ' }',
+  ''
+].join('\n');
+
+function createReview(overrides: Partial<GanReview> = {}): GanReview {
+  return {
+    overall: 62,
+    dimensions: [{ name: 'accuracy', score: 55 }],
+    verdict: 'revise',
+    review: {
+      summary: 'Division is unguarded',
+      inline: [{ path: 'src/math.ts', line: 3, comment: 'Guard against division by zero' }],
+      citations: []
+    },
+    proposed_diff: DIFF,
+    iterations: 1,
+    judge_cards: [{ model: 'internal', score: 62 }],
+    workflow_steps: [{
+      stepName: 'STATIC',
+      success: false,
+      evidence: [],
+      issues: [
+        { severity: 'critical', description: 'Unchecked division', location: 'src/math.ts:3:10' },
+        { severity: 'minor', description: 'Missing module docs', location: 'MathModule:divide' }
+      ]
+    }],
+    ...overrides
+  };
+}
+
+describe('SarifExporter', () => {
+  it('should map review findings to results with rules, levels, locations and fixes', () => {
+    const log = new SarifExporter().export(createSarifContextFromReview(createReview(), {
+      sessionId: 'review-1',
+      repositoryPath: '/repo',
+      endTime: Date.UTC(2026, 0, 1)
+    }));
+
+    expect(log.version).toBe('2.1.0');
+    const [run] = log.runs;
+    expect(run.tool.driver.name).toBe('GansAuditor_Codex');
+    expect(run.tool.driver.rules.map(rule => rule.id)).toEqual(['gansaudit/static', 'gansaudit/review_comment']);
+    expect(run.automationDetails).toEqual({ id: 'gansaudit/review-1/' });
+    expect(run.originalUriBaseIds).toEqual({ SRCROOT: { uri: 'file:///repo/' } });
+    expect(run.invocations[0].endTimeUtc).toBe('2026-01-01T00:00:00.000Z');
+    expect(run.properties).toMatchObject({ verdict: 'revise', overall: 62 });
+
+    const [critical, logical, inline] = run.results;
+    expect(critical).toMatchObject({
+      ruleId: 'gansaudit/static',
+      ruleIndex: 0,
+      level: 'error',
+      message: { text: 'Unchecked division' },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: 'src/math.ts', uriBaseId: 'SRCROOT' },
+          region: { startLine: 3, startColumn: 10 }
+        }
+      }]
+    });
+    expect(critical.fixes).toEqual([{
+      description: { text: 'Apply the proposed diff of the review' },
+      artifactChanges: [{
+        artifactLocation: { uri: 'src/math.ts', uriBaseId: 'SRCROOT' },
+        replacements: [{
+          deletedRegion: { startLine: 2, startColumn: 1, endLine: 5, endColumn: 1 },
+          insertedContent: {
+            text: 'export function divide(a: number, b: number) {\n  if (b === 0) throw new RangeError("b must not be 0");\n  return a / b;\n}\n'
+          }
+        }]
+      }]
+    }]);
+
+    expect(logical.level).toBe('note');
+    expect(logical.locations).toEqual([{
+      logicalLocations: [{ name: 'divide', fullyQualifiedName: 'MathModule.divide', kind: 'function' }]
+    }]);
+    expect(logical.fixes).toBeUndefined();
+
+    expect(inline).toMatchObject({ ruleId: 'gansaudit/review_comment', ruleIndex: 1, level: 'note' });
+    expect(inline.fixes).toHaveLength(1);
+  });
+
+  it('should fingerprint findings independently of their line', () => {
+    const exporter = new SarifExporter();
+    const moved = createReview({
+      review: { summary: '', inline: [{ path: 'src/math.ts', line: 9, comment: 'Guard against  division by zero' }], citations: [] }
+    });
+
+    const before = exporter.export(createSarifContextFromReview(createReview())).runs[0].results[2];
+    const after = exporter.export(createSarifContextFromReview(moved)).runs[0].results[2];
+
+    expect(after.partialFingerprints).toEqual(before.partialFingerprints);
+  });
+
+  it('should compare the latest audit of a session with the one before it', () => {
+    const first = createReview();
+    const second = createReview({
+      workflow_steps: [{
+        stepName: 'STATIC',
+        success: false,
+        evidence: [],
+        issues: [
+          { severity: 'critical', description: 'Unchecked division', location: 'src/math.ts:3:10' },
+          { severity: 'major', description: 'Result is not rounded', location: 'src/math.ts:4' }
+        ]
+      }]
+    });
+    const session = {
+      id: 'review-1',
+      updatedAt: 2,
+      history: [
+        { timestamp: 1, thoughtNumber: 1, review: first, config: {} },
+        { timestamp: 2, thoughtNumber: 2, review: second, config: {} }
+      ],
+      lastGan: second
+    } as unknown as SessionState;
+
+    const results = exportSessionAsSarif(session).runs[0].results;
+
+    expect(results.map(result => [result.message.text, result.baselineState])).toEqual([
+      ['Unchecked division', 'unchanged'],
+      ['Result is not rounded', 'new'],
+      ['Guard against division by zero', 'unchanged'],
+      ['Missing module docs', 'absent']
+    ]);
+    expect(() => exportSessionAsSarif({ id: 'empty', history: [] } as unknown as SessionState))
+      .toThrow('Session empty has no completed audit to export');
+  });
+
+  it('should parse added and modified files of a unified diff', () => {
+    const changes = parseUnifiedDiff(`${DIFF}--- /dev/null\n+++ b/src/new.ts\n@@ -0,0 +1 @@\n+export const x = 1;\n`);
+
+    expect(changes.map(change => [change.filePath, change.changeType, change.additions, change.deletions])).toEqual([
+      ['src/math.ts', 'modified', 2, 1],
+      ['src/new.ts', 'added', 1, 0]
+    ]);
+    expect(changes[1].hunks[0]).toMatchObject({ oldStart: 0, oldCount: 0, newStart: 1, newCount: 1 });
+  });
+});
@@ -145,6 +145,30 @@ export type {
   SecretCategory
 } from './output-sanitizer.js';
 
+// SARIF export of findings
+export {
+  SarifExporter,
+  createSarifExporter,
+  createSarifContextFromReview,
+  exportSessionAsSarif,
+  DEFAULT_SARIF_EXPORT_CONFIG
+} from './sarif-exporter.js';
+
+export { parseUnifiedDiff } from '../../utils/git-utils.js';
+
+export type {
+  SarifExportConfig,
+  SarifExportContext,
+  ReviewSarifOptions,
+  SarifLog,
+  SarifRun,
+  SarifResult,
+  SarifRule,
+  SarifFix,
+  SarifLevel,
+  SarifBaselineState
+} from './sarif-exporter.js';
+
 // Re-export feedback types for convenience
 export type {
   StructuredFeedbackOutput,
@@ -0,0 +1,530 @@
+/**
+ * SARIF Exporter for GAN Auditor Findings
+ *
+ * This module exports audit findings as SARIF 2.1.0 logs so they can be
+ * uploaded to code-scanning UIs and compared across runs. Evidence entries
+ * become results with rule ids, levels and physical locations; proposed diffs
+ * become fixes of the results in the files they change.
+ *
+ * Requirements addressed:
+ * - Map evidence entries to SARIF results with rule ids and severity levels
+ * - Physical locations relative to the repository root
+ * - Fixes taken from proposed diffs
+ * - Per-run tool metadata, stable fingerprints and baseline states
+ */
+
+import { createHash } from "crypto";
+import { pathToFileURL } from "url";
+
+import type {
+  EvidenceEntry,
+  ProposedDiff,
+  SeverityLevel
+} from "../../types/feedback-types.js";
+
+import type {
+  GanReview,
+  SessionState
+} from "../../types/gan-types.js";
+
+import { parseUnifiedDiff } from "../../utils/git-utils.js";
+
+// ============================================================================
+// SARIF 2.1.0 Types
+// ============================================================================
+
+/**
+ * SARIF result level
+ */
+export type SarifLevel = "error" | "warning" | "note" | "none";
+
+/**
+ * Comparison of a result with the baseline run
+ */
+export type SarifBaselineState = "new" | "unchanged" | "absent";
+
+export interface SarifMessage {
+  text: string;
+}
+
+export interface SarifRegion {
+  startLine: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+export interface SarifArtifactLocation {
+  uri: string;
+  uriBaseId?: string;
+}
+
+export interface SarifLocation {
+  physicalLocation?: {
+    artifactLocation: SarifArtifactLocation;
+    region?: SarifRegion;
+  };
+  logicalLocations?: Array<{ name?: string; fullyQualifiedName: string; kind?: string }>;
+}
+
+export interface SarifReplacement {
+  deletedRegion: SarifRegion;
+  insertedContent?: { text: string };
+}
+
+export interface SarifFix {
+  description: SarifMessage;
+  artifactChanges: Array<{
+    artifactLocation: SarifArtifactLocation;
+    replacements: SarifReplacement[];
+  }>;
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations: SarifLocation[];
+  partialFingerprints: Record<string, string>;
+  baselineState?: SarifBaselineState;
+  fixes?: SarifFix[];
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: SarifMessage;
+  defaultConfiguration: { level: SarifLevel };
+  properties: { tags: string[] };
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      version: string;
+      informationUri?: string;
+      rules: SarifRule[];
+    };
+  };
+  automationDetails?: { id: string };
+  invocations: Array<{ executionSuccessful: boolean; endTimeUtc: string }>;
+  originalUriBaseIds?: Record<string, { uri: string }>;
+  results: SarifResult[];
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: SarifRun[];
+}
+
+// ============================================================================
+// SARIF Exporter Configuration
+// ============================================================================
+
+/**
+ * Configuration for SARIF export
+ */
+export interface SarifExportConfig {
+  /** Tool name reported in the run */
+  toolName: string;
+  /** Tool version reported in the run */
+  toolVersion: string;
+  /** Tool documentation link */
+  informationUri?: string;
+  /** Prefix of rule ids */
+  ruleIdPrefix: string;
+}
+
+/**
+ * Context for SARIF export
+ */
+export interface SarifExportContext {
+  /** Findings to export */
+  evidence: EvidenceEntry[];
+  /** Fixes for the findings */
+  proposedDiffs?: ProposedDiff[];
+  /** Session the findings belong to; identifies the run's automation */
+  sessionId?: string;
+  /** Repository root the locations are relative to */
+  repositoryPath?: string;
+  /** When the audit finished (default: now) */
+  endTime?: number;
+  /** Earlier log to compare results with */
+  baseline?: SarifLog;
+  /** Run properties, e.g. verdict and score */
+  properties?: Record<string, unknown>;
+}
+
+const SRCROOT = "SRCROOT";
+const FINGERPRINT_KEY = "gansauditFinding/v1";
+
+const SEVERITY_LEVELS: Record<SeverityLevel, SarifLevel> = {
+  Critical: "error",
+  Major: "warning",
+  Minor: "note"
+};
+
+// ============================================================================
+// SARIF Exporter Implementation
+// ============================================================================
+
+/**
+ * Converts evidence entries and proposed diffs into a SARIF log with one run
+ */
+export class SarifExporter {
+  private config: SarifExportConfig;
+
+  constructor(config?: Partial<SarifExportConfig>) {
+    this.config = {
+      ...DEFAULT_SARIF_EXPORT_CONFIG,
+      ...config
+    };
+  }
+
+  /**
+   * Export findings as a SARIF log
+   */
+  export(context: SarifExportContext): SarifLog {
+    const rules: SarifRule[] = [];
+    const ruleIndexes = new Map<string, number>();
+    const ruleIndexFor = (entry: EvidenceEntry): number => {
+      const ruleId = this.getRuleId(entry);
+      if (!ruleIndexes.has(ruleId)) {
+        ruleIndexes.set(ruleId, rules.length);
+        rules.push(this.createRule(ruleId, entry));
+      }
+      return ruleIndexes.get(ruleId)!;
+    };
+
+    const results = context.evidence.map(entry => this.createResult(entry, ruleIndexFor(entry), context.proposedDiffs ?? []));
+
+    if (context.baseline) {
+      results.push(...this.compareWithBaseline(results, context.baseline));
+    }
+
+    const run: SarifRun = {
+      tool: {
+        driver: {
+          name: this.config.toolName,
+          version: this.config.toolVersion,
+          ...(this.config.informationUri ? { informationUri: this.config.informationUri } : {}),
+          rules
+        }
+      },
+      invocations: [{
+        executionSuccessful: true,
+        endTimeUtc: new Date(context.endTime ?? Date.now()).toISOString()
+      }],
+      results
+    };
+
+    if (context.sessionId) {
+      run.automationDetails = { id: `${this.config.ruleIdPrefix}/${context.sessionId}/` };
+    }
+    if (context.repositoryPath) {
+      const root = pathToFileURL(context.repositoryPath).href;
+      run.originalUriBaseIds = { [SRCROOT]: { uri: root.endsWith("/") ? root : `${root}/` } };
+    }
+    if (context.properties) {
+      run.properties = context.properties;
+    }
+
+    return {
+      $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+      version: "2.1.0",
+      runs: [run]
+    };
+  }
+
+  // ============================================================================
+  // Private Implementation Methods
+  // ============================================================================
+
+  private getRuleId(entry: EvidenceEntry): string {
+    return `${this.config.ruleIdPrefix}/${entry.metadata.tags[0] ?? "finding"}`;
+  }
+
+  private createRule(ruleId: string, entry: EvidenceEntry): SarifRule {
+    const name = ruleId.slice(this.config.ruleIdPrefix.length + 1);
+    return {
+      id: ruleId,
+      name,
+      shortDescription: { text: `${name.replace(/[_-]/g, " ")} findings (${entry.metadata.detectionMethod})` },
+      defaultConfiguration: { level: SEVERITY_LEVELS[entry.severity] },
+      properties: { tags: [entry.metadata.detectionMethod] }
+    };
+  }
+
+  private createResult(entry: EvidenceEntry, ruleIndex: number, proposedDiffs: ProposedDiff[]): SarifResult {
+    const ruleId = this.getRuleId(entry);
+    const file = entry.location.file ? normalizePath(entry.location.file) : undefined;
+    const fixes = file
+      ? proposedDiffs
+        .filter(diff => diff.fileChanges.some(change => normalizePath(change.filePath) === file))
+        .map(diff => this.createFix(diff))
+      : [];
+
+    const result: SarifResult = {
+      ruleId,
+      ruleIndex,
+      level: SEVERITY_LEVELS[entry.severity],
+      message: { text: entry.fixSummary ? `${entry.issue}\n\nFix: ${entry.fixSummary}` : entry.issue },
+      locations: [this.createLocation(entry)],
+      partialFingerprints: { [FINGERPRINT_KEY]: fingerprint(ruleId, file ?? entry.location.formatted, entry.issue) },
+      properties: {
+        severity: entry.severity,
+        confidence: entry.metadata.confidence,
+        proofType: entry.proof.type,
+        tags: entry.metadata.tags
+      }
+    };
+
+    if (fixes.length > 0) {
+      result.fixes = fixes;
+    }
+    return result;
+  }
+
+  private createLocation(entry: EvidenceEntry): SarifLocation {
+    const { file, line, column, component, method, formatted } = entry.location;
+    if (file) {
+      return {
+        physicalLocation: {
+          artifactLocation: { uri: normalizePath(file), uriBaseId: SRCROOT },
+          ...(line ? { region: { startLine: line, ...(column ? { startColumn: column } : {}) } } : {})
+        }
+      };
+    }
+    return {
+      logicalLocations: [{
+        name: method ?? component,
+        fullyQualifiedName: component && method ? `${component}.${method}` : formatted,
+        kind: method ? "function" : "module"
+      }]
+    };
+  }
+
+  /**
+   * One replacement per hunk: the hunk's old lines, including their line
+   * breaks, are replaced by its new lines
+   */
+  private createFix(diff: ProposedDiff): SarifFix {
+    return {
+      description: { text: diff.metadata.description },
+      artifactChanges: diff.fileChanges.map(change => ({
+        artifactLocation: { uri: normalizePath(change.filePath), uriBaseId: SRCROOT },
+        replacements: change.hunks.map(hunk => {
+          const startLine = hunk.oldCount === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+          const newLines = hunk.lines.filter(line => line.type !== "deletion").map(line => `${line.content}\n`);
+          return {
+            deletedRegion: { startLine, startColumn: 1, endLine: startLine + hunk.oldCount, endColumn: 1 },
+            ...(newLines.length > 0 ? { insertedContent: { text: newLines.join("") } } : {})
+          };
+        })
+      }))
+    };
+  }
+
+  /**
+   * Mark results as new or unchanged, and return the baseline results that
+   * are gone as absent
+   */
+  private compareWithBaseline(results: SarifResult[], baseline: SarifLog): SarifResult[] {
+    const baselineResults = baseline.runs.flatMap(run => run.results);
+    const previous = new Set(baselineResults.map(result => result.partialFingerprints[FINGERPRINT_KEY]));
+    const current = new Set(results.map(result => result.partialFingerprints[FINGERPRINT_KEY]));
+
+    for (const result of results) {
+      result.baselineState = previous.has(result.partialFingerprints[FINGERPRINT_KEY]) ? "unchanged" : "new";
+    }
+
+    return baselineResults
+      .filter(result => !current.has(result.partialFingerprints[FINGERPRINT_KEY]))
+      .map(result => {
+        const { fixes, ...absent } = result;
+        return { ...absent, ruleIndex: -1, baselineState: "absent" as const };
+      });
+  }
+}
+
+// ============================================================================
+// Review Conversion
+// ============================================================================
+
+/**
+ * Options for exporting a review
+ */
+export interface ReviewSarifOptions {
+  sessionId?: string;
+  repositoryPath?: string;
+  endTime?: number;
+}
+
+/**
+ * Build the export context of a review: workflow step issues and inline
+ * comments become evidence entries, the proposed diff becomes the fix
+ */
+export function createSarifContextFromReview(review: GanReview, options: ReviewSarifOptions = {}): SarifExportContext {
+  const evidence: EvidenceEntry[] = [
+    ...(review.workflow_steps ?? []).flatMap(step => step.issues.map((issue, index) => createReviewEvidence(
+      `${step.stepName}-${index + 1}`,
+      step.stepName.toLowerCase(),
+      ISSUE_SEVERITIES[issue.severity],
+      issue.description,
+      parseLocation(issue.location),
+      `workflow_step:${step.stepName}`
+    ))),
+    ...review.review.inline.map((comment, index) => createReviewEvidence(
+      `inline-${index + 1}`,
+      "review_comment",
+      "Minor",
+      comment.comment,
+      { file: comment.path, line: comment.line, formatted: `${comment.path}:${comment.line}` },
+      "review"
+    ))
+  ];
+
+  const fileChanges = review.proposed_diff ? parseUnifiedDiff(review.proposed_diff) : [];
+  const proposedDiffs: ProposedDiff[] = fileChanges.length === 0 ? [] : [{
+    metadata: {
+      timestamp: options.endTime ?? Date.now(),
+      id: "proposed-diff",
+      description: "Apply the proposed diff of the review",
+      category: "fix",
+      priority: review.verdict === "reject" ? "high" : "medium"
+    },
+    unifiedDiff: review.proposed_diff!,
+    fileChanges,
+    validation: { isSmallAndIsolated: false, testFirstPriority: false, verificationCommands: [], warnings: [] }
+  }];
+
+  return {
+    evidence,
+    proposedDiffs,
+    sessionId: options.sessionId,
+    repositoryPath: options.repositoryPath,
+    endTime: options.endTime,
+    properties: {
+      verdict: review.verdict,
+      overall: review.overall,
+      iterations: review.iterations,
+      judges: review.judge_cards.map(card => card.model)
+    }
+  };
+}
+
+/**
+ * Export the latest review of a session, compared with the review before it
+ */
+export function exportSessionAsSarif(
+  session: SessionState,
+  options: { repositoryPath?: string; config?: Partial<SarifExportConfig> } = {}
+): SarifLog {
+  const latest = session.history[session.history.length - 1];
+  const review = session.lastGan ?? latest?.review;
+  if (!review) {
+    throw new Error(`Session ${session.id} has no completed audit to export`);
+  }
+
+  const exporter = new SarifExporter(options.config);
+  const previous = session.history.length > 1 ? session.history[session.history.length - 2] : undefined;
+  return exporter.export({
+    ...createSarifContextFromReview(review, {
+      sessionId: session.id,
+      repositoryPath: options.repositoryPath,
+      endTime: latest?.timestamp ?? session.updatedAt
+    }),
+    baseline: previous ? exporter.export(createSarifContextFromReview(previous.review)) : undefined
+  });
+}
+
+const ISSUE_SEVERITIES: Record<"critical" | "major" | "minor", SeverityLevel> = {
+  critical: "Critical",
+  major: "Major",
+  minor: "Minor"
+};
+
+function createReviewEvidence(
+  id: string,
+  type: string,
+  severity: SeverityLevel,
+  issue: string,
+  location: EvidenceEntry["location"],
+  detectionMethod: string
+): EvidenceEntry {
+  return {
+    id,
+    issue,
+    severity,
+    location,
+    proof: { type: "docs", content: issue, artifacts: [] },
+    fixSummary: "",
+    metadata: { detectionMethod, confidence: 80, relatedEvidence: [], tags: [type, severity.toLowerCase()] }
+  };
+}
+
+/**
+ * Parse `file:line[:column]`, a bare file path or `component:method`
+ */
+function parseLocation(location?: string): EvidenceEntry["location"] {
+  if (!location) {
+    return { formatted: "unknown" };
+  }
+  const fileLine = /^(.+?):(\d+)(?::(\d+))?(?:-\d+)?$/.exec(location);
+  if (fileLine) {
+    return {
+      file: fileLine[1],
+      line: Number(fileLine[2]),
+      ...(fileLine[3] ? { column: Number(fileLine[3]) } : {}),
+      formatted: location
+    };
+  }
+  if (/[\\/]|\.\w+$/.test(location)) {
+    return { file: location, formatted: location };
+  }
+  const [component, method] = location.split(":");
+  return { component, ...(method ? { method } : {}), formatted: location };
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, "/").replace(/^\.\//, "");
+}
+
+/**
+ * Fingerprint that survives line moves: rule, file and normalized message
+ */
+function fingerprint(ruleId: string, location: string, issue: string): string {
+  const message = issue.toLowerCase().replace(/\s+/g, " ").trim();
+  return createHash("sha256").update(`${ruleId}\0${location}\0${message}`).digest("hex").slice(0, 32);
+}
+
+// ============================================================================
+// Default Configuration
+// ============================================================================
+
+/**
+ * Default configuration for SARIF export
+ */
+export const DEFAULT_SARIF_EXPORT_CONFIG: SarifExportConfig = {
+  toolName: "GansAuditor_Codex",
+  toolVersion: "0.2.0",
+  ruleIdPrefix: "gansaudit"
+};
+
+/**
+ * Create SARIF exporter with default configuration
+ */
+export function createSarifExporter(
+  config?: Partial<SarifExportConfig>
+): SarifExporter {
+  return new SarifExporter(config);
+}
@@ -0,0 +1,261 @@
+/**
+ * Fix Applier
+ *
+ * Applies a proposed unified diff inside a temporary git worktree that mirrors
+ * the current working tree, re-runs the STATIC and TESTS steps before and after
+ * the fix, and reports whether the fix applies cleanly and improves the result.
+ * The real working tree is only touched when write-back is explicitly requested.
+ */
+
+import { writeFile, mkdir, copyFile, symlink } from 'fs/promises';
+import { join, dirname } from 'path';
+import type { FixApplicationResult, FixVerification } from '../types/gan-types.js';
+import type { EvidenceItem, LintResult, TypeCheckResult } from './workflow-types.js';
+import { executeStaticStep } from './workflow-steps/static-step.js';
+import { executeTestsStep, DEFAULT_TESTS_INPUTS, type TestResult } from './workflow-steps/tests-step.js';
+import { runTool } from '../utils/tool-runner.js';
+import { pathExists } from '../utils/file-utils.js';
+import { AuditCancelledError } from '../types/error-types.js';
+import {
+  findRepositoryRoot,
+  addTemporaryWorktree,
+  removeTemporaryWorktree,
+  parseUnifiedDiff,
+  type TemporaryWorktree,
+} from '../utils/git-utils.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Options for applying a fix
+ */
+export interface FixApplierOptions {
+  /** Directory inside the git repository being audited */
+  workspacePath: string;
+  /** Apply the fix to the real working tree when verification does not regress */
+  writeBack?: boolean;
+  /** Timeout for the test run in each verification, in milliseconds */
+  testTimeout?: number;
+  /** Stops verification, and prevents write-back, when aborted */
+  signal?: AbortSignal;
+}
+
+const GIT_TIMEOUT = 60000;
+
+/**
+ * Points deducted per problem when scoring a verification
+ */
+const VERIFICATION_PENALTY = {
+  lintError: 5,
+  typeError: 5,
+  failedTest: 10,
+} as const;
+
+// ============================================================================
+// Fix Application
+// ============================================================================
+
+/**
+ * Apply a unified diff in a temporary worktree and verify it
+ */
+export async function applyFixInWorktree(
+  diff: string,
+  options: FixApplierOptions
+): Promise<FixApplicationResult> {
+  const filesChanged = parseDiffFiles(diff);
+
+  if (!diff.trim() || filesChanged.length === 0) {
+    return createResult('no_diff', filesChanged, 'No proposed diff to apply');
+  }
+
+  const repositoryRoot = await findRepositoryRoot(options.workspacePath);
+  if (!repositoryRoot) {
+    return createResult('not_git_repo', filesChanged, `${options.workspacePath} is not inside a git repository`);
+  }
+
+  AuditCancelledError.throwIfAborted(options.signal, 'applying-fix');
+  let worktree: TemporaryWorktree;
+  try {
+    worktree = await addTemporaryWorktree(repositoryRoot, 'HEAD', 'gan-fix-');
+  } catch (error) {
+    return createResult('failed', filesChanged, error instanceof Error ? error.message : String(error));
+  }
+  const worktreePath = worktree.path;
+  const fixPatch = join(worktree.directory, 'fix.patch');
+
+  try {
+    await mirrorWorkingTree(repositoryRoot, worktreePath, worktree.directory);
+    await writeFile(fixPatch, diff.endsWith('\n') ? diff : `${diff}\n`);
+
+    const checkResult = await git(['apply', '--check', '--whitespace=nowarn', fixPatch], worktreePath);
+    if (checkResult.exitCode !== 0) {
+      return createResult('conflict', filesChanged, `Fix does not apply cleanly: ${checkResult.stderr.trim()}`);
+    }
+
+    const before = await verifyWorktree(worktreePath, filesChanged, '', options);
+
+    const applyResult = await git(['apply', '--whitespace=nowarn', fixPatch], worktreePath);
+    if (applyResult.exitCode !== 0) {
+      return createResult('conflict', filesChanged, `Fix does not apply cleanly: ${applyResult.stderr.trim()}`);
+    }
+
+    const after = await verifyWorktree(worktreePath, filesChanged, diff, options);
+    const improved = after.score > before.score;
+    const regressed = after.score < before.score;
+
+    let writtenBack = false;
+    let message = improved
+      ? `Fix applies cleanly and raises the verification score from ${before.score} to ${after.score}`
+      : regressed
+        ? `Fix applies cleanly but lowers the verification score from ${before.score} to ${after.score}`
+        : `Fix applies cleanly; verification score unchanged at ${after.score}`;
+
+    if (options.writeBack) {
+      if (regressed) {
+        message += '; not written back because it regresses verification';
+      } else {
+        AuditCancelledError.throwIfAborted(options.signal, 'applying-fix');
+        const writeResult = await writeBackFix(repositoryRoot, fixPatch);
+        writtenBack = writeResult.exitCode === 0;
+        message += writtenBack
+          ? '; written back to the working tree'
+          : `; write-back failed: ${writeResult.stderr.trim()}`;
+      }
+    }
+
+    return {
+      status: 'applied',
+      appliedCleanly: true,
+      filesChanged,
+      before,
+      after,
+      improved,
+      writtenBack,
+      message,
+    };
+  } catch (error) {
+    if (error instanceof AuditCancelledError) {
+      throw error;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createResult('failed', filesChanged, `Fix verification failed: ${errorMessage}`);
+  } finally {
+    await removeTemporaryWorktree(worktree);
+  }
+}
+
+/**
+ * Files touched by a unified diff (new path, or old path for deletions)
+ */
+export function parseDiffFiles(diff: string): string[] {
+  return [...new Set(parseUnifiedDiff(diff).map(change => change.filePath))];
+}
+
+/**
+ * Score a verification from its problem counts
+ */
+export function scoreVerification(counts: Omit<FixVerification, 'score'>): number {
+  const penalty = counts.lintErrors * VERIFICATION_PENALTY.lintError
+    + counts.typeErrors * VERIFICATION_PENALTY.typeError
+    + counts.testsFailed * VERIFICATION_PENALTY.failedTest;
+  return Math.max(0, 100 - penalty);
+}
+
+// ============================================================================
+// Worktree Helpers
+// ============================================================================
+
+/**
+ * Run git without a shell
+ */
+function git(args: string[], cwd: string) {
+  return runTool('git', args, { cwd, timeout: GIT_TIMEOUT });
+}
+
+/**
+ * Reproduce uncommitted changes, untracked files and installed dependencies
+ * in the worktree, since proposed diffs are made against the working tree
+ */
+async function mirrorWorkingTree(repositoryRoot: string, worktreePath: string, tempDirectory: string): Promise<void> {
+  const stateResult = await git(['diff', 'HEAD', '--binary'], repositoryRoot);
+  if (stateResult.exitCode === 0 && stateResult.stdout.trim()) {
+    const statePatch = join(tempDirectory, 'working-tree.patch');
+    await writeFile(statePatch, stateResult.stdout);
+    const applyState = await git(['apply', '--whitespace=nowarn', statePatch], worktreePath);
+    if (applyState.exitCode !== 0) {
+      throw new Error(`could not reproduce uncommitted changes: ${applyState.stderr.trim()}`);
+    }
+  }
+
+  const untrackedResult = await git(['ls-files', '--others', '--exclude-standard', '-z'], repositoryRoot);
+  for (const file of untrackedResult.stdout.split('\0').filter(Boolean)) {
+    const target = join(worktreePath, file);
+    await mkdir(dirname(target), { recursive: true });
+    await copyFile(join(repositoryRoot, file), target);
+  }
+
+  const nodeModules = join(repositoryRoot, 'node_modules');
+  if (await pathExists(nodeModules) && !(await pathExists(join(worktreePath, 'node_modules')))) {
+    await symlink(nodeModules, join(worktreePath, 'node_modules'), 'dir');
+  }
+}
+
+/**
+ * Run the STATIC and TESTS steps in the worktree; the signal kills their tool runs
+ */
+async function verifyWorktree(
+  worktreePath: string,
+  files: string[],
+  gitDiff: string,
+  options: FixApplierOptions
+): Promise<FixVerification> {
+  const evidence: EvidenceItem[] = [];
+  const staticOutputs: { lintResults?: LintResult[]; typeCheckResults?: TypeCheckResult[] } = {};
+  await executeStaticStep({ workspacePath: worktreePath, touchedFiles: files, signal: options.signal }, staticOutputs, evidence);
+  AuditCancelledError.throwIfAborted(options.signal, 'applying-fix');
+
+  const testsOutputs: { testResults?: TestResult[] } = {};
+  await executeTestsStep(
+    {
+      ...DEFAULT_TESTS_INPUTS,
+      workspacePath: worktreePath,
+      touchedFiles: files,
+      gitDiff,
+      timeout: options.testTimeout,
+      signal: options.signal,
+    },
+    testsOutputs,
+    evidence
+  );
+  AuditCancelledError.throwIfAborted(options.signal, 'applying-fix');
+
+  const testResults = testsOutputs.testResults ?? [];
+  const counts = {
+    lintErrors: (staticOutputs.lintResults ?? []).filter(r => r.severity === 'error').length,
+    typeErrors: (staticOutputs.typeCheckResults ?? []).filter(r => r.severity === 'error').length,
+    testsPassed: testResults.filter(t => t.status === 'passed').length,
+    testsFailed: testResults.filter(t => t.status === 'failed').length,
+  };
+  return { score: scoreVerification(counts), ...counts };
+}
+
+/**
+ * Apply the verified fix to the real working tree
+ */
+async function writeBackFix(repositoryRoot: string, fixPatch: string) {
+  const check = await git(['apply', '--check', '--whitespace=nowarn', fixPatch], repositoryRoot);
+  if (check.exitCode !== 0) {
+    return check;
+  }
+  return git(['apply', '--whitespace=nowarn', fixPatch], repositoryRoot);
+}
+
+function createResult(
+  status: FixApplicationResult['status'],
+  filesChanged: string[],
+  message: string
+): FixApplicationResult {
+  return { status, appliedCleanly: false, filesChanged, improved: false, writtenBack: false, message };
+}
@@ -12,6 +12,8 @@ import type {
   ISessionManager,
   IContextPacker,
   ICodexJudge,
+  AuditRunOptions,
+  AuditPipelineStep,
 } from '../types/integration-types.js';
 import type {
   ThoughtData,
@@ -22,12 +24,25 @@ import type {
   AuditRubric,
   AuditBudget,
   InlineConfig,
+  RankedCandidate,
 } from '../types/gan-types.js';
 import { DEFAULT_SESSION_CONFIG, DEFAULT_AUDIT_RUBRIC } from '../types/gan-types.js';
 import { extractInlineConfig, validateAndSanitizeConfig } from '../config/config-parser.js';
 import { SessionManager } from '../session/session-manager.js';
 import { ContextPacker } from '../context/context-packer.js';
 import { CodexJudge } from '../codex/codex-judge.js';
+import {
+  JudgeEnsemble,
+  createDefaultJudgeRegistry,
+  resolveAggregationMethod,
+  DEFAULT_JUDGE_ENSEMBLE_CONFIG,
+  type JudgeEnsembleConfig,
+  type JudgeRegistry,
+} from './judge-ensemble.js';
+import { rankCandidates, applyCandidateRanking } from './candidate-ranking.js';
+import { applyFixInWorktree } from './fix-applier.js';
+import { computeAuditCacheKey } from './audit-cache.js';
+import { OutboundRedactor, DEFAULT_OUTBOUND_REDACTION_CONFIG, type OutboundRedactionConfig } from './outbound-redactor.js';
 import { 
   errorHandler, 
   withRetry, 
@@ -36,7 +51,7 @@ import {
   createErrorResponse,
 } from '../utils/error-handler.js';
 import { logger, createComponentLogger, createTimer } from '../utils/logger.js';
-import type { GanAuditorError } from '../types/error-types.js';
+import { AuditCancelledError, type GanAuditorError } from '../types/error-types.js';
 
 /**
  * Configuration for GAN Auditor
@@ -61,6 +76,18 @@ export interface GanAuditorConfig {
     enabled?: boolean;
     level?: 'debug' | 'info' | 'warn' | 'error';
   };
+  judgeEnsemble?: Partial<JudgeEnsembleConfig> & {
+    /** Judge factories; defaults to the built-in judge kinds */
+    registry?: JudgeRegistry;
+  };
+  fixApplier?: {
+    /** Repository the proposed diffs are applied to */
+    workspacePath?: string;
+    /** Timeout for each verification test run, in milliseconds */
+    testTimeout?: number;
+  };
+  /** Redaction of requests before they are sent to the judges */
+  outboundRedaction?: Partial<OutboundRedactionConfig>;
 }
 
 /**
@@ -86,6 +113,12 @@ export const DEFAULT_GAN_AUDITOR_CONFIG: Required<GanAuditorConfig> = {
     enabled: false,
     level: 'info',
   },
+  judgeEnsemble: { ...DEFAULT_JUDGE_ENSEMBLE_CONFIG },
+  fixApplier: {
+    workspacePath: process.cwd(),
+    testTimeout: 120000, // 2 minutes
+  },
+  outboundRedaction: { ...DEFAULT_OUTBOUND_REDACTION_CONFIG },
 };
 
 /**
@@ -100,6 +133,9 @@ export class GanAuditor implements IGanAuditor {
   private readonly sessionManager: ISessionManager;
   private readonly contextPacker: IContextPacker;
   private readonly codexJudge: ICodexJudge;
+  private readonly judgeEnsemble: JudgeEnsemble;
+  private readonly judgeRegistry: JudgeRegistry;
+  private readonly outboundRedactor: OutboundRedactor;
   private readonly config: Required<GanAuditorConfig>;
   private readonly componentLogger: typeof logger;
 
@@ -119,22 +155,42 @@ export class GanAuditor implements IGanAuditor {
     
     // Use provided instances or create new ones
     this.sessionManager = sessionManager || new SessionManager(this.config.sessionManager);
-    this.contextPacker = contextPacker || new ContextPacker(this.config.contextPacker);
+    this.contextPacker = contextPacker || new ContextPacker({
+      ...this.config.contextPacker,
+      deniedPaths: this.config.outboundRedaction.deniedPaths,
+    });
+    this.outboundRedactor = new OutboundRedactor(this.config.outboundRedaction);
     this.codexJudge = codexJudge || new CodexJudge(this.config.codexJudge);
+    
+    const { registry, ...ensembleConfig } = this.config.judgeEnsemble;
+    this.judgeRegistry = registry ?? createDefaultJudgeRegistry();
+    this.judgeEnsemble = new JudgeEnsemble(this.codexJudge, ensembleConfig, this.judgeRegistry, this.config.codexJudge);
   }
 
   /**
    * Audit a thought and return review results
    * Requirement 1.2: Implement audit workflow logic (load session → build context → execute audit → persist results)
    */
-  async auditThought(thought: ThoughtData, sessionId?: string): Promise<GanReview> {
+  async auditThought(thought: ThoughtData, sessionId?: string, options: AuditRunOptions = {}): Promise<GanReview> {
     const timer = createTimer(`audit-thought-${thought.thoughtNumber}`, 'gan-auditor');
+    let resolvedSessionId: string | undefined;
+    let currentStep: AuditPipelineStep | undefined;
+
+    // Every step transition is also a cancellation point
+    const enterStep = (step: AuditPipelineStep) => {
+      AuditCancelledError.throwIfAborted(options.signal, currentStep);
+      currentStep = step;
+      options.onStep?.(step);
+    };
+    const runOptions: AuditRunOptions = { signal: options.signal, onStep: enterStep, cache: options.cache };
     
     try {
       this.componentLogger.info(`Starting audit for thought ${thought.thoughtNumber}`, { sessionId });
 
       // Step 1: Load or create session - fail fast on errors
+      enterStep('loading-session');
       const session = await this.loadOrCreateSession(thought, sessionId);
+      resolvedSessionId = session.id;
       
       this.componentLogger.debug(`Loaded session ${session.id}`, { 
         sessionConfig: session.config
@@ -158,22 +214,43 @@ export class GanAuditor implements IGanAuditor {
       }
 
       // Step 3: Build repository context - fail fast on errors
+      enterStep('building-context');
       const contextPack = await this.buildContext(session.config);
       
       this.componentLogger.debug(`Built context pack (${contextPack.length} characters)`, { 
         scope: session.config.scope
       });
 
-      // Step 4: Execute audit - fail fast on errors
-      const auditRequest = this.createAuditRequest(thought, contextPack, session.config);
-      const auditResult = await this.executeAudit(auditRequest);
+      // Step 4: Execute audit on the redacted request - fail fast on errors
+      const auditRequest = await this.outboundRedactor.redactRequest(
+        this.createAuditRequest(thought, contextPack, session.config),
+        session.id
+      );
+      const auditResult = await this.executeCachedAudit(auditRequest, session.config, runOptions);
       
       this.componentLogger.info(`Audit completed with verdict: ${auditResult.verdict}`, { 
         overall: auditResult.overall, 
         iterations: auditResult.iterations
       });
 
-      // Step 5: Process and persist results - fail fast on errors
+      // Step 5: Verify the proposed fix in a worktree when applyFixes is enabled
+      if (session.config.applyFixes && auditResult.proposed_diff) {
+        enterStep('applying-fix');
+        auditResult.fix_application = await applyFixInWorktree(auditResult.proposed_diff, {
+          ...this.config.fixApplier,
+          workspacePath: this.config.fixApplier.workspacePath ?? process.cwd(),
+          writeBack: session.config.writeBackFixes ?? false,
+          signal: options.signal,
+        });
+
+        this.componentLogger.info(`Fix application: ${auditResult.fix_application.status}`, {
+          improved: auditResult.fix_application.improved,
+          writtenBack: auditResult.fix_application.writtenBack,
+        });
+      }
+
+      // Step 6: Process and persist results - fail fast on errors
+      enterStep('persisting');
       await this.persistAuditResults(session, thought, auditResult);
 
       timer.end({ 
@@ -182,6 +259,19 @@ export class GanAuditor implements IGanAuditor {
       
       return auditResult;
     } catch (error) {
+      // A cancelled audit is recorded as such, not as a Codex failure
+      if (error instanceof AuditCancelledError) {
+        timer.end({ cancelled: true });
+        this.componentLogger.info(`Audit cancelled for thought ${thought.thoughtNumber}`, {
+          sessionId: resolvedSessionId,
+          step: currentStep,
+        });
+        if (resolvedSessionId) {
+          await this.sessionManager.recordCancelledAudit(resolvedSessionId, thought.thoughtNumber, currentStep);
+        }
+        throw error;
+      }
+
       timer.endWithError(error as Error);
       
       // Enhanced error logging with diagnostic information
@@ -262,7 +352,7 @@ export class GanAuditor implements IGanAuditor {
         return null;
       }
 
-      const validationResult = validateAndSanitizeConfig(parseResult.config);
+      const validationResult = validateAndSanitizeConfig(parseResult.config, DEFAULT_SESSION_CONFIG, this.judgeRegistry);
       
       if (!validationResult.isValid) {
         this.componentLogger.warn('Inline config validation failed', { 
@@ -285,7 +375,7 @@ export class GanAuditor implements IGanAuditor {
    * Validate audit configuration
    */
   validateConfig(config: Partial<SessionConfig>): SessionConfig {
-    const validationResult = validateAndSanitizeConfig(config, DEFAULT_SESSION_CONFIG);
+    const validationResult = validateAndSanitizeConfig(config, DEFAULT_SESSION_CONFIG, this.judgeRegistry);
     
     if (!validationResult.isValid) {
       this.log('warn', 'Config validation issues', { 
@@ -336,7 +426,7 @@ export class GanAuditor implements IGanAuditor {
     }
 
     // Merge inline config with session config
-    const validationResult = validateAndSanitizeConfig(inlineConfig, sessionConfig);
+    const validationResult = validateAndSanitizeConfig(inlineConfig, sessionConfig, this.judgeRegistry);
     
     if (validationResult.warnings && validationResult.warnings.length > 0) {
       this.componentLogger.warn('Configuration merge warnings', { warnings: validationResult.warnings });
@@ -396,29 +486,83 @@ export class GanAuditor implements IGanAuditor {
       contextPack,
       rubric,
       budget,
+      secretScan: config.secretScan,
     };
   }
 
   /**
-   * Execute audit using Codex judge - NO FALLBACKS
+   * Execute the audit, or reuse the review of an identical audit from the run's cache
+   */
+  private async executeCachedAudit(request: AuditRequest, config: SessionConfig, options: AuditRunOptions): Promise<GanReview> {
+    const identity = this.codexJudge.getCacheIdentity?.();
+    if (!options.cache || !identity) {
+      return await this.executeAudit(request, config.judges, options);
+    }
+
+    const { registry: _registry, ...ensembleConfig } = this.config.judgeEnsemble;
+    const key = computeAuditCacheKey({
+      request,
+      config,
+      judges: [identity.judge, `ensemble:${JSON.stringify(ensembleConfig)}`],
+      promptConfigHash: identity.promptConfigHash,
+    });
+
+    let cached: GanReview | null = null;
+    try {
+      cached = await options.cache.get(key);
+    } catch (cacheError) {
+      this.componentLogger.warn('Failed to read cached audit result', {
+        error: (cacheError as Error).message,
+      });
+    }
+    if (cached) {
+      this.componentLogger.info('Audit result served from cache', {
+        key: key.substring(0, 8),
+        verdict: cached.verdict,
+        overall: cached.overall,
+      });
+      return cached;
+    }
+
+    const review = await this.executeAudit(request, config.judges, options);
+    try {
+      await options.cache.set(key, review);
+    } catch (cacheError) {
+      this.componentLogger.warn('Failed to cache audit result', {
+        error: (cacheError as Error).message,
+      });
+    }
+    return review;
+  }
+
+  /**
+   * Execute audit with the configured judges - NO FALLBACKS
    * Requirements: 4.1, 4.5 - Remove graceful degradation and mock responses
    */
-  private async executeAudit(request: AuditRequest): Promise<GanReview> {
+  private async executeAudit(request: AuditRequest, judges: string[] = [], options: AuditRunOptions = {}): Promise<GanReview> {
     try {
       // Execute audit with strict error handling - no fallbacks allowed
-      const result = await this.codexJudge.executeAudit(request);
+      options.onStep?.('judging');
+      const review = await this.judgeEnsemble.executeAudit(request, judges, options.signal);
+      const result = await this.generateRankedCandidates(request, review, judges, options);
       
       this.componentLogger.debug('Codex audit completed successfully', {
         verdict: result.verdict,
         overall: result.overall,
-        iterations: result.iterations
+        iterations: result.iterations,
+        judges: result.judge_cards.map(card => card.model)
       });
       
       return result;
     } catch (error) {
+      if (error instanceof AuditCancelledError) {
+        throw error;
+      }
+
       // Log the error with full context for debugging
       this.componentLogger.error('Codex audit execution failed - no fallback available', error as Error, {
         task: request.task,
+        judges,
         candidateLength: request.candidate.length,
         contextPackLength: request.contextPack.length,
         budget: request.budget
@@ -430,6 +574,54 @@ export class GanAuditor implements IGanAuditor {
     }
   }
 
+  /**
+   * Generate up to `budget.candidates` alternative fixes for a failing review
+   * and rank them with the same judges. If that fails, the primary review is
+   * returned without candidates.
+   */
+  private async generateRankedCandidates(
+    request: AuditRequest,
+    review: GanReview,
+    judges: string[],
+    options: AuditRunOptions
+  ): Promise<GanReview> {
+    const count = request.budget.candidates;
+    if (count <= 1 || review.verdict === 'pass') {
+      return review;
+    }
+
+    if (!this.codexJudge.generateCandidates) {
+      this.componentLogger.debug('Judge does not support candidate generation', { candidates: count });
+      return review;
+    }
+
+    options.onStep?.('ranking-candidates');
+    let ranked: RankedCandidate[];
+    try {
+      const generated = await this.codexJudge.generateCandidates(request, review, count, options.signal);
+      ranked = await rankCandidates(
+        request,
+        generated,
+        candidateRequest => this.judgeEnsemble.executeAudit(candidateRequest, judges, options.signal)
+      );
+    } catch (error) {
+      if (error instanceof AuditCancelledError || options.signal?.aborted) {
+        throw error;
+      }
+      this.componentLogger.warn('Candidate generation failed, returning the review without candidates', {
+        candidates: count,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return review;
+    }
+
+    this.componentLogger.debug('Ranked generated candidates', {
+      candidates: ranked.map(c => ({ id: c.id, overall: c.overall })),
+    });
+
+    return applyCandidateRanking(review, ranked);
+  }
+
   /**
    * Persist audit results to session
    */
@@ -468,7 +660,14 @@ export class GanAuditor implements IGanAuditor {
       sessionManager: { ...DEFAULT_GAN_AUDITOR_CONFIG.sessionManager, ...config.sessionManager },
       contextPacker: { ...DEFAULT_GAN_AUDITOR_CONFIG.contextPacker, ...config.contextPacker },
       codexJudge: { ...DEFAULT_GAN_AUDITOR_CONFIG.codexJudge, ...config.codexJudge },
+      judgeEnsemble: {
+        ...DEFAULT_GAN_AUDITOR_CONFIG.judgeEnsemble,
+        aggregationMethod: resolveAggregationMethod(process.env.GAN_AUDITOR_AGGREGATION_METHOD),
+        ...config.judgeEnsemble,
+      },
       logging: { ...DEFAULT_GAN_AUDITOR_CONFIG.logging, ...config.logging },
+      fixApplier: { ...DEFAULT_GAN_AUDITOR_CONFIG.fixApplier, ...config.fixApplier },
+      outboundRedaction: { ...DEFAULT_GAN_AUDITOR_CONFIG.outboundRedaction, ...config.outboundRedaction },
     };
   }
 
@@ -12,6 +12,40 @@ export {
   DEFAULT_GAN_AUDITOR_CONFIG 
 } from './gan-auditor.js';
 
+// Judge Ensemble
+export {
+  JudgeEnsemble,
+  JudgeRegistry,
+  StubJudge,
+  createDefaultJudgeRegistry,
+  parseJudgeSpec,
+  aggregateScores,
+  resolveAggregationMethod,
+  DEFAULT_JUDGE_ENSEMBLE_CONFIG,
+  type AuditJudge,
+  type JudgeSpec,
+  type JudgeFactory,
+  type JudgeFactoryContext,
+  type JudgeEnsembleConfig
+} from './judge-ensemble.js';
+
+export { LocalRuleJudge } from './local-rule-judge.js';
+
+// Candidate Ranking
+export {
+  rankCandidates,
+  applyCandidateRanking,
+  type CandidateJudge
+} from './candidate-ranking.js';
+
+// Fix Application
+export {
+  applyFixInWorktree,
+  parseDiffFiles,
+  scoreVerification,
+  type FixApplierOptions
+} from './fix-applier.js';
+
 export {
   SynchronousAuditEngine,
   createSynchronousAuditEngine,
@@ -91,6 +125,7 @@ export {
   type FormatIssue,
   type TypeCheckResult,
   type CodeSmell,
+  type StaticToolRun,
   DEFAULT_AUDIT_WORKFLOW,
   DEFAULT_WORKFLOW_CONFIG
 } from './workflow-types.js';
@@ -109,6 +144,7 @@ export {
 
 export {
   executeStaticStep,
+  clearTypeCheckCache,
   type StaticStepInputs,
   DEFAULT_STATIC_INPUTS
 } from './workflow-steps/static-step.js';
@@ -153,9 +189,103 @@ export {
   type FocusAreaWeights,
   type AuditDepthAdjustment,
   type AuditDepthLevel,
-  type CodeAnalysisContext
+  type CodeAnalysisContext,
+  type FunctionComplexity
 } from './complexity-analyzer.js';
 
+// Coverage Analysis
+export {
+  loadCoverageReport,
+  parseIstanbulCoverage,
+  parseLcovCoverage,
+  analyzeChangedLinesCoverage,
+  summarizeCoverage,
+  type FileCoverage,
+  type BranchCoverage,
+  type FunctionCoverage,
+  type CoverageMap,
+  type CoverageSource,
+  type LoadedCoverage,
+  type ChangedLinesCoverage
+} from './coverage-report.js';
+
+// Secret Scanning
+export {
+  scanContentForSecrets,
+  scanFilesForSecrets,
+  buildSecretRules,
+  calculateShannonEntropy,
+  maskSecret,
+  BUILT_IN_SECRET_RULES,
+  DEFAULT_ENTROPY_THRESHOLD,
+  type SecretRule,
+  type SecretFinding,
+  type SecretType
+} from './secret-scanner.js';
+
+// Dependency Audit
+export {
+  auditDependencies,
+  matchAdvisories,
+  loadLockedPackages,
+  loadAdvisoryDatabase,
+  normalizeAdvisory,
+  parsePackageLock,
+  parsePnpmLock,
+  parseYarnLock,
+  compareVersions,
+  satisfiesRange,
+  ADVISORY_DB_ENV,
+  DEFAULT_ADVISORY_DB_PATH,
+  type LockedPackage,
+  type Advisory,
+  type AdvisorySeverity,
+  type AffectedRange,
+  type VersionComparator,
+  type DependencyVulnerability,
+  type DependencyAuditReport
+} from './dependency-audit.js';
+
+// Edge Case Sandbox
+export {
+  runEdgeCasesInSandbox,
+  generatePropertyInputs,
+  DEFAULT_EDGE_CASE_SANDBOX_OPTIONS,
+  type EdgeCaseSandboxOptions,
+  type EdgeCaseInput,
+  type EdgeCaseOutcome,
+  type SandboxedEdgeCaseResult
+} from './edge-case-sandbox.js';
+
+// Benchmark Runner
+export {
+  runBenchmarks,
+  compareMeasurements,
+  findRegressions,
+  mannWhitneyPValue,
+  clearBenchmarkBaselines,
+  DEFAULT_BENCHMARK_OPTIONS,
+  type BenchmarkOptions,
+  type BenchmarkMeasurement,
+  type BenchmarkComparison,
+  type BenchmarkRegression,
+  type BenchmarkResult,
+  type BenchmarkRunInputs,
+  type BenchmarkBaselineSource
+} from './benchmark-runner.js';
+
+// Architecture Rules
+export {
+  loadArchitectureRules,
+  parseArchitectureRules,
+  checkArchitectureRules,
+  collectImports,
+  type ArchitectureRules,
+  type ArchitectureLayer,
+  type ForbiddenModuleRule,
+  type ImportStatement
+} from './architecture-rules.js';
+
 // Project Context Analysis
 export {
   ProjectContextAnalyzer,
@@ -0,0 +1,463 @@
+/**
+ * Multi-Judge Ensemble
+ *
+ * Runs every judge named in the session's `judges` config on the same audit
+ * request and combines their reviews. Judges are created from a registry keyed
+ * by judge kind, so Codex models/profiles, the local rule-based judge and the
+ * stub judge used in tests are interchangeable.
+ *
+ * Judge ids have the form `kind` or `kind:argument`:
+ * - `internal` - the auditor's own Codex judge
+ * - `codex[:model]` - Codex CLI with an optional model override
+ * - `codex-profile:<profile>` - Codex CLI with a config profile
+ * - `local` - deterministic local rule-based judge
+ * - `stub[:score]` - fixed-score judge for tests
+ */
+
+import type {
+  AuditRequest,
+  DimensionalScore,
+  GanReview,
+  GanVerdict,
+  InlineComment,
+  JudgeCard,
+  JudgeDisagreement,
+  ScoreAggregationMethod,
+} from '../types/gan-types.js';
+import { SCORE_AGGREGATION_METHODS } from '../types/gan-types.js';
+import type { ICodexJudge } from '../types/integration-types.js';
+import { CodexJudge, type CodexJudgeConfig } from '../codex/codex-judge.js';
+import { LocalRuleJudge } from './local-rule-judge.js';
+import { createComponentLogger } from '../utils/logger.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A judge that can score an audit request
+ */
+export interface AuditJudge {
+  /** Judge id as written in the `judges` config */
+  readonly name: string;
+  executeAudit(request: AuditRequest, signal?: AbortSignal): Promise<GanReview>;
+}
+
+/**
+ * Parsed judge id
+ */
+export interface JudgeSpec {
+  id: string;
+  kind: string;
+  argument?: string;
+}
+
+/**
+ * Inputs available to judge factories
+ */
+export interface JudgeFactoryContext {
+  spec: JudgeSpec;
+  /** The auditor's own Codex judge */
+  primaryJudge: ICodexJudge;
+  /** Base configuration for additional Codex judges */
+  codexJudgeConfig: Partial<CodexJudgeConfig>;
+}
+
+/**
+ * Creates a judge for a judge id
+ */
+export type JudgeFactory = (context: JudgeFactoryContext) => AuditJudge;
+
+/**
+ * Ensemble behaviour settings
+ */
+export interface JudgeEnsembleConfig {
+  /** How per-judge scores are combined */
+  aggregationMethod: ScoreAggregationMethod;
+  /** Score spread (points) at which judges are reported as disagreeing */
+  disagreementThreshold: number;
+}
+
+export const DEFAULT_JUDGE_ENSEMBLE_CONFIG: JudgeEnsembleConfig = {
+  aggregationMethod: 'weighted-average',
+  disagreementThreshold: 20,
+};
+
+/**
+ * Fraction of scores dropped from each end by the trimmed mean
+ */
+const TRIM_FRACTION = 0.2;
+
+// ============================================================================
+// Judge Registry
+// ============================================================================
+
+/**
+ * Registry of judge factories keyed by judge kind
+ */
+export class JudgeRegistry {
+  private readonly factories = new Map<string, JudgeFactory>();
+
+  /**
+   * Register (or replace) the factory for a judge kind
+   */
+  register(kind: string, factory: JudgeFactory): this {
+    this.factories.set(kind, factory);
+    return this;
+  }
+
+  has(kind: string): boolean {
+    return this.factories.has(kind);
+  }
+
+  kinds(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Create the judge for a judge id
+   */
+  create(context: Omit<JudgeFactoryContext, 'spec'> & { id: string }): AuditJudge {
+    const { id, ...rest } = context;
+    const spec = parseJudgeSpec(id);
+    const factory = this.factories.get(spec.kind);
+    if (!factory) {
+      throw new Error(`Unknown judge "${id}". Available judge kinds: ${this.kinds().join(', ')}`);
+    }
+    return factory({ ...rest, spec });
+  }
+}
+
+/**
+ * Split a judge id into kind and argument
+ */
+export function parseJudgeSpec(id: string): JudgeSpec {
+  const trimmed = id.trim();
+  const separator = trimmed.indexOf(':');
+  if (separator === -1) {
+    return { id: trimmed, kind: trimmed };
+  }
+  const argument = trimmed.slice(separator + 1).trim();
+  return { id: trimmed, kind: trimmed.slice(0, separator).trim(), argument: argument || undefined };
+}
+
+/**
+ * Registry with the built-in judge kinds
+ */
+export function createDefaultJudgeRegistry(): JudgeRegistry {
+  return new JudgeRegistry()
+    .register('internal', ({ spec, primaryJudge }) => ({
+      name: spec.id,
+      executeAudit: (request, signal) => primaryJudge.executeAudit(request, signal),
+    }))
+    .register('codex', ({ spec, codexJudgeConfig }) =>
+      wrapCodexJudge(spec, new CodexJudge({ ...codexJudgeConfig, model: spec.argument })))
+    .register('codex-profile', ({ spec, codexJudgeConfig }) => {
+      if (!spec.argument) {
+        throw new Error(`Judge "${spec.id}" requires a profile name (codex-profile:<profile>)`);
+      }
+      return wrapCodexJudge(spec, new CodexJudge({ ...codexJudgeConfig, profile: spec.argument }));
+    })
+    .register('local', ({ spec }) => new LocalRuleJudge(spec.id))
+    .register('stub', ({ spec }) => {
+      const score = spec.argument === undefined ? 100 : Number(spec.argument);
+      if (!Number.isFinite(score) || score < 0 || score > 100) {
+        throw new Error(`Judge "${spec.id}" requires a score between 0 and 100`);
+      }
+      return new StubJudge(spec.id, score);
+    });
+}
+
+/**
+ * Give a Codex judge the id it was configured with
+ */
+function wrapCodexJudge(spec: JudgeSpec, judge: CodexJudge): AuditJudge {
+  return {
+    name: spec.id,
+    executeAudit: (request, signal) => judge.executeAudit(request, signal),
+  };
+}
+
+// ============================================================================
+// Stub Judge
+// ============================================================================
+
+/**
+ * Judge that returns a fixed score for every rubric dimension
+ */
+export class StubJudge implements AuditJudge {
+  constructor(readonly name: string, private readonly score: number) {}
+
+  async executeAudit(request: AuditRequest): Promise<GanReview> {
+    return {
+      overall: this.score,
+      dimensions: request.rubric.dimensions.map(d => ({ name: d.name, score: this.score })),
+      verdict: this.score >= request.budget.threshold ? 'pass' : 'revise',
+      review: {
+        summary: `Stub judge returned a fixed score of ${this.score}`,
+        inline: [],
+        citations: [],
+      },
+      proposed_diff: null,
+      iterations: 1,
+      judge_cards: [{ model: 'stub', score: this.score }],
+    };
+  }
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+/**
+ * Combine scores with the given method. Judges carry equal weight unless
+ * weights are supplied, so `weighted-average` is the plain mean by default.
+ */
+export function aggregateScores(
+  scores: number[],
+  method: ScoreAggregationMethod,
+  weights?: number[]
+): number {
+  if (scores.length === 0) {
+    return 0;
+  }
+
+  switch (method) {
+    case 'minimum':
+      return Math.min(...scores);
+    case 'geometric-mean':
+      return scores.some(s => s <= 0)
+        ? 0
+        : Math.exp(scores.reduce((sum, s) => sum + Math.log(s), 0) / scores.length);
+    case 'median': {
+      const sorted = [...scores].sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+    }
+    case 'trimmed-mean': {
+      const sorted = [...scores].sort((a, b) => a - b);
+      const trim = sorted.length >= 3 ? Math.max(1, Math.floor(sorted.length * TRIM_FRACTION)) : 0;
+      const kept = sorted.slice(trim, sorted.length - trim);
+      return kept.reduce((sum, s) => sum + s, 0) / kept.length;
+    }
+    case 'weighted-average':
+    default: {
+      const w = weights ?? scores.map(() => 1);
+      const totalWeight = w.reduce((sum, x) => sum + x, 0);
+      return totalWeight > 0
+        ? scores.reduce((sum, s, i) => sum + s * w[i], 0) / totalWeight
+        : 0;
+    }
+  }
+}
+
+/**
+ * Resolve an aggregation method name, falling back for unknown values
+ */
+export function resolveAggregationMethod(
+  value: string | undefined,
+  fallback: ScoreAggregationMethod = DEFAULT_JUDGE_ENSEMBLE_CONFIG.aggregationMethod
+): ScoreAggregationMethod {
+  const trimmed = value?.trim() as ScoreAggregationMethod | undefined;
+  return trimmed && SCORE_AGGREGATION_METHODS.includes(trimmed) ? trimmed : fallback;
+}
+
+// ============================================================================
+// Judge Ensemble
+// ============================================================================
+
+/**
+ * Runs the configured judges and merges their reviews
+ */
+export class JudgeEnsemble {
+  private readonly config: JudgeEnsembleConfig;
+  private readonly judges = new Map<string, AuditJudge>();
+  private readonly componentLogger = createComponentLogger('judge-ensemble');
+
+  constructor(
+    private readonly primaryJudge: ICodexJudge,
+    config: Partial<JudgeEnsembleConfig> = {},
+    private readonly registry: JudgeRegistry = createDefaultJudgeRegistry(),
+    private readonly codexJudgeConfig: Partial<CodexJudgeConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_JUDGE_ENSEMBLE_CONFIG, ...config };
+  }
+
+  /**
+   * Audit with every judge in `judgeIds`. A single judge's review is returned
+   * unchanged; any judge failure fails the whole audit.
+   */
+  async executeAudit(request: AuditRequest, judgeIds: string[], signal?: AbortSignal): Promise<GanReview> {
+    const ids = Array.from(new Set(judgeIds.map(id => id.trim()).filter(id => id.length > 0)));
+    const judges = (ids.length > 0 ? ids : ['internal']).map(id => this.getJudge(id));
+
+    if (judges.length === 1) {
+      return judges[0].executeAudit(request, signal);
+    }
+
+    this.componentLogger.debug('Running judge ensemble', {
+      judges: judges.map(j => j.name),
+      aggregationMethod: this.config.aggregationMethod,
+    });
+
+    const reviews = await Promise.all(judges.map(judge => judge.executeAudit(request, signal)));
+    return this.combineReviews(request, judges.map(j => j.name), reviews);
+  }
+
+  /**
+   * Get (and cache) the judge for a judge id
+   */
+  private getJudge(id: string): AuditJudge {
+    let judge = this.judges.get(id);
+    if (!judge) {
+      judge = this.registry.create({
+        id,
+        primaryJudge: this.primaryJudge,
+        codexJudgeConfig: this.codexJudgeConfig,
+      });
+      this.judges.set(id, judge);
+    }
+    return judge;
+  }
+
+  /**
+   * Merge per-judge reviews into one ensemble review
+   */
+  private combineReviews(request: AuditRequest, names: string[], reviews: GanReview[]): GanReview {
+    const method = this.config.aggregationMethod;
+    const overall = Math.round(aggregateScores(reviews.map(r => r.overall), method));
+    const dimensions = this.combineDimensions(request, reviews);
+    const disagreement = this.measureDisagreement(names, reviews);
+
+    const summary = [
+      `Ensemble of ${names.length} judges (${names.join(', ')}) aggregated with ${method}: overall ${overall}`,
+      ...reviews.map((r, i) => `[${names[i]}] ${r.review.summary}`),
+    ];
+    if (disagreement.significant) {
+      summary.push(describeDisagreement(names, reviews, disagreement));
+    }
+
+    return {
+      overall,
+      dimensions,
+      verdict: this.determineVerdict(overall, request.budget.threshold, reviews),
+      review: {
+        summary: summary.join('\n'),
+        inline: mergeInlineComments(reviews),
+        citations: Array.from(new Set(reviews.flatMap(r => r.review.citations))),
+      },
+      proposed_diff: reviews.find(r => r.proposed_diff)?.proposed_diff ?? null,
+      iterations: Math.max(...reviews.map(r => r.iterations)),
+      judge_cards: reviews.map((r, i): JudgeCard => ({
+        model: names[i],
+        score: r.overall,
+        notes: r.judge_cards[0]?.notes ?? r.verdict,
+      })),
+      judge_disagreement: disagreement,
+    };
+  }
+
+  /**
+   * Aggregate each dimension over the judges that scored it, rubric order first
+   */
+  private combineDimensions(request: AuditRequest, reviews: GanReview[]): DimensionalScore[] {
+    const names = request.rubric.dimensions.map(d => d.name);
+    for (const review of reviews) {
+      for (const dimension of review.dimensions) {
+        if (!names.includes(dimension.name)) names.push(dimension.name);
+      }
+    }
+
+    return names.flatMap(name => {
+      const scores = reviews
+        .map(r => r.dimensions.find(d => d.name === name)?.score)
+        .filter((s): s is number => s !== undefined);
+      return scores.length > 0
+        ? [{ name, score: Math.round(aggregateScores(scores, this.config.aggregationMethod)) }]
+        : [];
+    });
+  }
+
+  /**
+   * Score spreads between judges, overall and per dimension
+   */
+  private measureDisagreement(names: string[], reviews: GanReview[]): JudgeDisagreement {
+    const threshold = this.config.disagreementThreshold;
+    const overallSpread = spread(reviews.map(r => r.overall));
+
+    const dimensionNames = Array.from(new Set(reviews.flatMap(r => r.dimensions.map(d => d.name))));
+    const dimensions = dimensionNames
+      .map(name => {
+        const scores: Record<string, number> = {};
+        reviews.forEach((r, i) => {
+          const score = r.dimensions.find(d => d.name === name)?.score;
+          if (score !== undefined) scores[names[i]] = score;
+        });
+        return { name, spread: spread(Object.values(scores)), scores };
+      })
+      .filter(d => Object.keys(d.scores).length > 1);
+
+    const verdicts: Record<string, GanVerdict> = {};
+    reviews.forEach((r, i) => { verdicts[names[i]] = r.verdict; });
+
+    return {
+      aggregationMethod: this.config.aggregationMethod,
+      threshold,
+      overallSpread,
+      dimensions,
+      verdicts,
+      significant: overallSpread >= threshold
+        || dimensions.some(d => d.spread >= threshold)
+        || new Set(Object.values(verdicts)).size > 1,
+    };
+  }
+
+  /**
+   * Pass on the aggregated score; reject only when most judges reject
+   */
+  private determineVerdict(overall: number, threshold: number, reviews: GanReview[]): GanVerdict {
+    if (overall >= threshold) {
+      return 'pass';
+    }
+    const rejections = reviews.filter(r => r.verdict === 'reject').length;
+    return rejections > reviews.length / 2 ? 'reject' : 'revise';
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function spread(scores: number[]): number {
+  return scores.length > 1 ? Math.max(...scores) - Math.min(...scores) : 0;
+}
+
+/**
+ * Union of the judges' inline comments without duplicates
+ */
+function mergeInlineComments(reviews: GanReview[]): InlineComment[] {
+  const seen = new Set<string>();
+  const merged: InlineComment[] = [];
+  for (const review of reviews) {
+    for (const comment of review.review.inline) {
+      const key = `${comment.path}:${comment.line}:${comment.comment}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        merged.push(comment);
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * One-line description of where the judges disagree
+ */
+function describeDisagreement(names: string[], reviews: GanReview[], disagreement: JudgeDisagreement): string {
+  const scores = reviews.map((r, i) => `${names[i]} ${r.overall} (${r.verdict})`).join(', ');
+  const widest = [...disagreement.dimensions].sort((a, b) => b.spread - a.spread)[0];
+  const dimension = widest && widest.spread > 0
+    ? `; widest dimension spread: ${widest.name} ${widest.spread} points`
+    : '';
+  return `Judges disagree: overall spread ${disagreement.overallSpread} points [${scores}]${dimension}`;
+}
@@ -0,0 +1,241 @@
+/**
+ * Local Rule-Based Judge
+ *
+ * Deterministic judge that scores a candidate without calling Codex, using
+ * line rules, the secret scanner and per-function complexity. Intended as a
+ * cheap, reproducible voice in a multi-judge ensemble.
+ */
+
+import type {
+  AuditRequest,
+  DimensionalScore,
+  GanReview,
+  GanVerdict,
+  InlineComment,
+  SecretScanConfig,
+} from '../types/gan-types.js';
+import type { AuditJudge } from './judge-ensemble.js';
+import { ComplexityAnalyzer } from './complexity-analyzer.js';
+import { scanContentForSecrets, INLINE_CODE_LABEL } from './secret-scanner.js';
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * Line rule applied to the candidate
+ */
+interface LocalJudgeRule {
+  id: string;
+  /** Rubric dimension the rule counts against */
+  dimension: string;
+  pattern: RegExp;
+  /** Points deducted per matching line */
+  penalty: number;
+  message: string;
+}
+
+/**
+ * Rule finding with its location in the candidate
+ */
+interface LocalJudgeFinding {
+  ruleId: string;
+  dimension: string;
+  line: number;
+  penalty: number;
+  message: string;
+  critical: boolean;
+}
+
+const LOCAL_JUDGE_RULES: LocalJudgeRule[] = [
+  { id: 'dynamic-eval', dimension: 'accuracy', pattern: /\beval\s*\(|\bnew\s+Function\s*\(/, penalty: 15, message: 'Dynamic code evaluation' },
+  { id: 'empty-catch', dimension: 'accuracy', pattern: /catch\s*(\([^)]*\))?\s*\{\s*\}/, penalty: 10, message: 'Empty catch block swallows errors' },
+  { id: 'loose-equality', dimension: 'accuracy', pattern: /[^=!<>]==[^=]|!=[^=]/, penalty: 3, message: 'Loose equality comparison' },
+  { id: 'unfinished-marker', dimension: 'completeness', pattern: /\b(TODO|FIXME|XXX|HACK)\b/, penalty: 8, message: 'Unfinished work marker' },
+  { id: 'not-implemented', dimension: 'completeness', pattern: /throw\s+new\s+\w*Error\(\s*['"`][^'"`]*not\s+implemented/i, penalty: 15, message: 'Unimplemented code path' },
+  { id: 'long-line', dimension: 'clarity', pattern: /^.{121,}$/, penalty: 2, message: 'Line longer than 120 characters' },
+  { id: 'debug-output', dimension: 'human_likeness', pattern: /\bconsole\.(log|debug)\s*\(|\bdebugger\b/, penalty: 5, message: 'Leftover debug output' },
+  { id: 'explicit-any', dimension: 'human_likeness', pattern: /:\s*any\b|\bas\s+any\b|<any>/, penalty: 3, message: 'Explicit any type' },
+];
+
+/**
+ * Rubric dimensions the local judge can score
+ */
+const LOCAL_JUDGE_DIMENSIONS = ['accuracy', 'completeness', 'clarity', 'human_likeness'];
+
+/**
+ * Maximum points a single rule can deduct, so one noisy rule cannot zero a dimension
+ */
+const MAX_RULE_PENALTY = 30;
+
+const SECRET_PENALTY = { High: 25, Medium: 15, Low: 5 } as const;
+
+const COMPLEXITY_LIMIT = 10;
+const NESTING_LIMIT = 4;
+const REJECT_BELOW = 50;
+
+// ============================================================================
+// Local Rule Judge
+// ============================================================================
+
+/**
+ * Judge that scores candidates with deterministic local rules
+ */
+export class LocalRuleJudge implements AuditJudge {
+  private readonly complexityAnalyzer = new ComplexityAnalyzer();
+
+  constructor(readonly name: string = 'local') {}
+
+  /**
+   * Score the candidate against the request rubric
+   */
+  async executeAudit(request: AuditRequest): Promise<GanReview> {
+    const findings = [
+      ...this.applyLineRules(request.candidate),
+      ...this.findSecrets(request.candidate, request.secretScan),
+      ...(await this.findComplexFunctions(request.candidate)),
+    ].sort((a, b) => a.line - b.line);
+
+    const penalties = new Map<string, number>();
+    const rulePenalties = new Map<string, number>();
+    for (const finding of findings) {
+      const ruleTotal = rulePenalties.get(finding.ruleId) ?? 0;
+      const applied = Math.min(finding.penalty, MAX_RULE_PENALTY - ruleTotal);
+      if (applied <= 0) continue;
+      rulePenalties.set(finding.ruleId, ruleTotal + applied);
+      penalties.set(finding.dimension, (penalties.get(finding.dimension) ?? 0) + applied);
+    }
+
+    const rubricDimensions = request.rubric.dimensions.filter(d => LOCAL_JUDGE_DIMENSIONS.includes(d.name));
+    const dimensions: DimensionalScore[] = rubricDimensions.map(d => ({
+      name: d.name,
+      score: Math.max(0, 100 - (penalties.get(d.name) ?? 0)),
+    }));
+
+    const totalWeight = rubricDimensions.reduce((sum, d) => sum + d.weight, 0);
+    const totalPenalty = Array.from(penalties.values()).reduce((sum, p) => sum + p, 0);
+    const overall = totalWeight > 0
+      ? Math.round(rubricDimensions.reduce((sum, d, i) => sum + d.weight * dimensions[i].score, 0) / totalWeight)
+      : Math.max(0, 100 - totalPenalty);
+
+    const verdict = this.determineVerdict(overall, request.budget.threshold, findings);
+    const ruleCount = rulePenalties.size;
+
+    return {
+      overall,
+      dimensions,
+      verdict,
+      review: {
+        summary: findings.length === 0
+          ? 'Local rule-based review found no rule violations'
+          : `Local rule-based review found ${findings.length} issue(s) across ${ruleCount} rule(s)`,
+        inline: findings.map((f): InlineComment => ({
+          path: 'code',
+          line: f.line,
+          comment: `${f.message} (${f.ruleId})`,
+        })),
+        citations: [],
+      },
+      proposed_diff: null,
+      iterations: 1,
+      judge_cards: [{
+        model: 'local-rules',
+        score: overall,
+        notes: `${findings.length} rule finding(s)`,
+      }],
+    };
+  }
+
+  /**
+   * Apply line rules, reporting each rule at most once per line
+   */
+  private applyLineRules(candidate: string): LocalJudgeFinding[] {
+    const findings: LocalJudgeFinding[] = [];
+    candidate.split('\n').forEach((line, index) => {
+      for (const rule of LOCAL_JUDGE_RULES) {
+        if (rule.pattern.test(line)) {
+          findings.push({
+            ruleId: rule.id,
+            dimension: rule.dimension,
+            line: index + 1,
+            penalty: rule.penalty,
+            message: rule.message,
+            critical: false,
+          });
+        }
+      }
+    });
+    return findings;
+  }
+
+  /**
+   * Hardcoded secrets count against accuracy; high-confidence ones are critical.
+   * The session's secret scanner rules and allowlist apply.
+   */
+  private findSecrets(candidate: string, config?: SecretScanConfig): LocalJudgeFinding[] {
+    return scanContentForSecrets(candidate, INLINE_CODE_LABEL, config).map(secret => ({
+      ruleId: `secret:${secret.ruleId}`,
+      dimension: 'accuracy',
+      line: secret.lineNumber,
+      penalty: SECRET_PENALTY[secret.confidence],
+      message: `Hardcoded ${secret.type.replace('_', ' ')} ${secret.maskedValue}`,
+      critical: secret.confidence === 'High',
+    }));
+  }
+
+  /**
+   * Functions above the complexity or nesting limits count against clarity
+   */
+  private async findComplexFunctions(candidate: string): Promise<LocalJudgeFinding[]> {
+    if (candidate.trim().length === 0) {
+      return [];
+    }
+
+    let functions;
+    try {
+      const metrics = await this.complexityAnalyzer.analyzeComplexity({
+        filePath: 'candidate.ts',
+        language: 'typescript',
+        content: candidate,
+      });
+      functions = metrics.functions ?? [];
+    } catch {
+      return [];
+    }
+
+    const findings: LocalJudgeFinding[] = [];
+    for (const fn of functions) {
+      if (fn.cyclomaticComplexity > COMPLEXITY_LIMIT) {
+        findings.push({
+          ruleId: 'function-complexity',
+          dimension: 'clarity',
+          line: fn.startLine,
+          penalty: Math.min(20, 5 + fn.cyclomaticComplexity - COMPLEXITY_LIMIT),
+          message: `${fn.name} has cyclomatic complexity ${fn.cyclomaticComplexity}`,
+          critical: false,
+        });
+      }
+      if (fn.nestingDepth > NESTING_LIMIT) {
+        findings.push({
+          ruleId: 'deep-nesting',
+          dimension: 'clarity',
+          line: fn.startLine,
+          penalty: 10,
+          message: `${fn.name} nests ${fn.nestingDepth} levels deep`,
+          critical: false,
+        });
+      }
+    }
+    return findings;
+  }
+
+  /**
+   * Critical findings or very low scores reject; otherwise the threshold decides
+   */
+  private determineVerdict(overall: number, threshold: number, findings: LocalJudgeFinding[]): GanVerdict {
+    if (findings.some(f => f.critical) || overall < REJECT_BELOW) {
+      return 'reject';
+    }
+    return overall >= threshold ? 'pass' : 'revise';
+  }
+}
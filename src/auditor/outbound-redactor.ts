@@ -0,0 +1,242 @@
+/**
+ * Outbound Redactor
+ *
+ * Redacts audit requests before they reach the judges, and so the external
+ * Codex CLI. Files on a path deny-list are withheld, diffs of those files
+ * are dropped, and the secret and PII patterns of the output sanitizer are
+ * masked in the task, the candidate and the context pack. Each redacted
+ * request is summarized in an append-only JSONL audit log. Summaries name
+ * paths, pattern names and line numbers, never the withheld values.
+ */
+
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import type { AuditRequest } from '../types/gan-types.js';
+import type { PIIPattern } from '../types/feedback-types.js';
+import { DEFAULT_OUTPUT_SANITIZER_CONFIG, type SecretPattern } from './feedback/output-sanitizer.js';
+import { globToRegExp } from '../utils/file-utils.js';
+import { createComponentLogger } from '../utils/logger.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Configuration of the outbound redaction stage
+ */
+export interface OutboundRedactionConfig {
+  /** Globs of files never sent; globs without "/" match the file name in any directory */
+  deniedPaths: string[];
+  /** Secret patterns masked in outbound text */
+  secretPatterns: SecretPattern[];
+  /** PII patterns masked in outbound text */
+  piiPatterns: PIIPattern[];
+  /** JSONL file redaction summaries are appended to; summaries are only logged when unset */
+  auditLogFile?: string;
+}
+
+/**
+ * Files that commonly hold credentials
+ */
+export const DEFAULT_DENIED_PATHS: string[] = [
+  '.env',
+  '.env.*',
+  '*.env',
+  '*.pem',
+  '*.key',
+  '*.p12',
+  '*.pfx',
+  'id_rsa',
+  'id_rsa.*',
+  'id_dsa',
+  'id_ecdsa',
+  'id_ed25519',
+  '.npmrc',
+  '.netrc',
+];
+
+/**
+ * Default redaction: the output sanitizer's patterns plus the default deny-list
+ */
+export const DEFAULT_OUTBOUND_REDACTION_CONFIG: OutboundRedactionConfig = {
+  deniedPaths: DEFAULT_DENIED_PATHS,
+  secretPatterns: DEFAULT_OUTPUT_SANITIZER_CONFIG.secretPatterns,
+  piiPatterns: DEFAULT_OUTPUT_SANITIZER_CONFIG.piiPatterns,
+};
+
+// ============================================================================
+// Redaction Results
+// ============================================================================
+
+/**
+ * A masked secret or PII match
+ */
+export interface RedactionMatch {
+  kind: 'secret' | 'pii';
+  /** Name of the matching pattern */
+  pattern: string;
+  /** 1-based line of the match in the redacted text */
+  line: number;
+}
+
+/**
+ * Redacted text with what was removed from it
+ */
+export interface RedactedText {
+  text: string;
+  /** Denied files whose content or diff was withheld */
+  withheldPaths: string[];
+  matches: RedactionMatch[];
+}
+
+/**
+ * Audit log entry of a redacted request
+ */
+export interface OutboundRedactionSummary {
+  timestamp: string;
+  sessionId?: string;
+  withheldPaths: string[];
+  redactions: Array<RedactionMatch & { field: RedactedField }>;
+}
+
+/**
+ * Request fields that are redacted
+ */
+export type RedactedField = 'task' | 'candidate' | 'contextPack';
+
+const WITHHELD_PREFIX = '[withheld by outbound redaction: ';
+const WITHHELD_PATTERN = /\[withheld by outbound redaction: ([^\]\n]+)\]/g;
+
+/**
+ * Placeholder left where the content or diff of a denied file was
+ */
+export function withheldPlaceholder(path: string): string {
+  return `${WITHHELD_PREFIX}${path}]`;
+}
+
+/**
+ * Whether a path matches one of the deny-list globs
+ */
+export function isDeniedPath(path: string, deniedPaths: string[]): boolean {
+  const normalized = path.replace(/\\/g, '/').replace(/^\.\//, '');
+  const fileName = normalized.slice(normalized.lastIndexOf('/') + 1);
+  return deniedPaths.some(glob => globToRegExp(glob).test(glob.includes('/') ? normalized : fileName));
+}
+
+// ============================================================================
+// Outbound Redactor
+// ============================================================================
+
+/**
+ * Redacts audit requests and records what was withheld
+ */
+export class OutboundRedactor {
+  private readonly config: OutboundRedactionConfig;
+  private readonly componentLogger = createComponentLogger('outbound-redactor');
+
+  constructor(config: Partial<OutboundRedactionConfig> = {}) {
+    this.config = { ...DEFAULT_OUTBOUND_REDACTION_CONFIG, ...config };
+  }
+
+  /**
+   * Whether a file must not be sent
+   */
+  isDenied(path: string): boolean {
+    return isDeniedPath(path, this.config.deniedPaths);
+  }
+
+  /**
+   * Drop diffs of denied files, then mask secrets and PII
+   */
+  redactText(text: string): RedactedText {
+    const matches: RedactionMatch[] = [];
+    let redacted = this.dropDeniedDiffs(text);
+
+    const mask = (kind: RedactionMatch['kind'], patterns: Array<{ name: string; pattern: RegExp; replacement: string }>) => {
+      for (const { name, pattern, replacement } of patterns) {
+        redacted = redacted.replace(pattern, (...args) => {
+          // The match offset precedes the input string in the callback arguments
+          const offset = args[args.length - 2] as number;
+          matches.push({ kind, pattern: name, line: redacted.slice(0, offset).split('\n').length });
+          return replacement;
+        });
+      }
+    };
+    mask('pii', this.config.piiPatterns);
+    mask('secret', this.config.secretPatterns);
+
+    const withheldPaths = [...new Set([...redacted.matchAll(WITHHELD_PATTERN)].map(match => match[1]))];
+    return { text: redacted, withheldPaths, matches };
+  }
+
+  /**
+   * Redact the outbound fields of a request. When anything was withheld,
+   * the summary is logged and appended to the audit log before the request
+   * is returned; failing to write the audit log fails the audit.
+   */
+  async redactRequest(request: AuditRequest, sessionId?: string): Promise<AuditRequest> {
+    const redactedRequest = { ...request };
+    const summary: OutboundRedactionSummary = {
+      timestamp: new Date().toISOString(),
+      sessionId,
+      withheldPaths: [],
+      redactions: [],
+    };
+
+    for (const field of ['task', 'candidate', 'contextPack'] as const) {
+      if (!request[field]) {
+        continue;
+      }
+      const result = this.redactText(request[field]);
+      redactedRequest[field] = result.text;
+      summary.withheldPaths.push(...result.withheldPaths.filter(path => !summary.withheldPaths.includes(path)));
+      summary.redactions.push(...result.matches.map(match => ({ ...match, field })));
+    }
+
+    if (summary.withheldPaths.length > 0 || summary.redactions.length > 0) {
+      this.componentLogger.info('Withheld content from outbound audit request', {
+        sessionId,
+        withheldPaths: summary.withheldPaths,
+        redactions: summary.redactions.length,
+      });
+      await this.appendToAuditLog(summary);
+    }
+
+    return redactedRequest;
+  }
+
+  private async appendToAuditLog(summary: OutboundRedactionSummary): Promise<void> {
+    if (!this.config.auditLogFile) {
+      return;
+    }
+    await mkdir(dirname(this.config.auditLogFile), { recursive: true });
+    await appendFile(this.config.auditLogFile, `${JSON.stringify(summary)}\n`, 'utf-8');
+  }
+
+  /**
+   * Replace each `diff --git` section of a denied file with a placeholder.
+   * A section ends at the next file's diff or at the end of its fenced block.
+   */
+  private dropDeniedDiffs(text: string): string {
+    const output: string[] = [];
+    let skipping = false;
+
+    for (const line of text.split('\n')) {
+      if (line.startsWith('diff --git ')) {
+        const path = line.match(/ b\/(.+)$/)?.[1];
+        skipping = path !== undefined && this.isDenied(path);
+        if (skipping) {
+          output.push(withheldPlaceholder(path!));
+          continue;
+        }
+      } else if (skipping && line.startsWith('```')) {
+        skipping = false;
+      }
+      if (!skipping) {
+        output.push(line);
+      }
+    }
+
+    return output.join('\n');
+  }
+}
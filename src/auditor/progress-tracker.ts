@@ -9,6 +9,8 @@
 
 import { EventEmitter } from 'events';
 import type { GansAuditorCodexThoughtData } from '../types/gan-types.js';
+import type { AuditPipelineStep } from '../types/integration-types.js';
+import { AuditCancelledError } from '../types/error-types.js';
 import { logger, createComponentLogger } from '../utils/logger.js';
 
 /**
@@ -21,6 +23,8 @@ export interface ProgressUpdate {
   percentage: number;
   /** Current stage of the audit process */
   stage: AuditStage;
+  /** Pipeline step currently running, when reported */
+  step?: string;
   /** Descriptive message about current progress */
   message: string;
   /** Estimated time remaining in milliseconds */
@@ -46,6 +50,18 @@ export enum AuditStage {
   FAILED = 'failed',
 }
 
+/**
+ * Progress stage reported for each audit pipeline step
+ */
+export const PIPELINE_STEP_STAGES: Record<AuditPipelineStep, AuditStage> = {
+  'loading-session': AuditStage.INITIALIZING,
+  'building-context': AuditStage.ANALYZING_STRUCTURE,
+  'judging': AuditStage.RUNNING_CHECKS,
+  'ranking-candidates': AuditStage.EVALUATING_QUALITY,
+  'applying-fix': AuditStage.GENERATING_FEEDBACK,
+  'persisting': AuditStage.FINALIZING,
+};
+
 /**
  * Configuration for progress tracking
  */
@@ -72,6 +88,8 @@ interface ActiveAudit {
   startTime: number;
   /** Current stage */
   currentStage: AuditStage;
+  /** Current pipeline step */
+  currentStep?: string;
   /** Current progress percentage */
   progress: number;
   /** Stage start times for duration estimation */
@@ -121,9 +139,14 @@ export class ProgressTracker extends EventEmitter {
   }
 
   /**
-   * Start tracking progress for an audit operation
+   * Start tracking progress for an audit operation; updates are emitted once
+   * the audit has run for `progressThreshold` ms (immediately when 0)
    */
-  startTracking(auditId: string, thought: GansAuditorCodexThoughtData): void {
+  startTracking(
+    auditId: string,
+    thought: GansAuditorCodexThoughtData,
+    progressThreshold: number = this.config.progressThreshold
+  ): void {
     // Check concurrent audit limit
     if (this.activeAudits.size >= this.config.maxConcurrentAudits) {
       this.componentLogger.warn('Maximum concurrent audits reached, not tracking progress', {
@@ -149,11 +172,15 @@ export class ProgressTracker extends EventEmitter {
     this.activeAudits.set(auditId, audit);
 
     // Start progress tracking after threshold delay
-    setTimeout(() => {
-      if (this.activeAudits.has(auditId)) {
-        this.enableProgressTracking(auditId);
-      }
-    }, this.config.progressThreshold);
+    if (progressThreshold <= 0) {
+      this.enableProgressTracking(auditId);
+    } else {
+      setTimeout(() => {
+        if (this.activeAudits.has(auditId)) {
+          this.enableProgressTracking(auditId);
+        }
+      }, progressThreshold);
+    }
 
     this.componentLogger.debug('Started audit tracking', {
       auditId,
@@ -162,9 +189,9 @@ export class ProgressTracker extends EventEmitter {
   }
 
   /**
-   * Update the current stage of an audit
+   * Update the current stage of an audit and the pipeline step running in it
    */
-  updateStage(auditId: string, stage: AuditStage, message?: string): void {
+  updateStage(auditId: string, stage: AuditStage, message?: string, step?: string): void {
     const audit = this.activeAudits.get(auditId);
     if (!audit) {
       return;
@@ -180,6 +207,7 @@ export class ProgressTracker extends EventEmitter {
 
     // Update to new stage
     audit.currentStage = stage;
+    audit.currentStep = step;
     audit.stageStartTimes.set(stage, now);
     audit.progress = this.calculateProgress(stage);
 
@@ -263,6 +291,45 @@ export class ProgressTracker extends EventEmitter {
     this.activeAudits.delete(auditId);
   }
 
+  /**
+   * Track an audit run from start to end. `run` receives the step callback
+   * for its AuditRunOptions; onProgress gets every update of this audit.
+   */
+  async trackAudit<T>(
+    auditId: string,
+    thought: GansAuditorCodexThoughtData,
+    run: (onStep: (step: AuditPipelineStep) => void) => Promise<T>,
+    onProgress?: (update: ProgressUpdate) => void
+  ): Promise<T> {
+    const listener = (update: ProgressUpdate) => {
+      if (update.auditId === auditId) {
+        onProgress?.(update);
+      }
+    };
+
+    if (onProgress) {
+      this.on('progress', listener);
+    }
+    try {
+      this.startTracking(auditId, thought, onProgress ? 0 : undefined);
+      this.updateStage(auditId, AuditStage.INITIALIZING);
+
+      const result = await run(step => this.updateStage(auditId, PIPELINE_STEP_STAGES[step], undefined, step));
+
+      this.completeTracking(auditId, true);
+      return result;
+    } catch (error) {
+      if (error instanceof AuditCancelledError) {
+        this.cancelTracking(auditId);
+      } else {
+        this.completeTracking(auditId, false);
+      }
+      throw error;
+    } finally {
+      this.off('progress', listener);
+    }
+  }
+
   /**
    * Get current progress for an audit
    */
@@ -420,6 +487,7 @@ export class ProgressTracker extends EventEmitter {
       auditId: audit.id,
       percentage: Math.round(audit.progress),
       stage: audit.currentStage,
+      step: audit.currentStep,
       message: finalMessage,
       estimatedTimeRemaining,
       elapsedTime,
@@ -11,6 +11,9 @@
  * - Scoring validation and normalization
  */
 
+import type { SecretScanConfig } from '../types/gan-types.js';
+import type { BenchmarkResult } from './benchmark-runner.js';
+
 // ============================================================================
 // Quality Dimension Types and Interfaces
 // ============================================================================
@@ -590,6 +593,12 @@ export interface QualityEvaluationContext {
   previousResults?: any[];
   /** Session information */
   sessionId?: string;
+  /** Secret scanner configuration from the session config */
+  secretScan?: SecretScanConfig;
+  /** Offline advisory database for dependency audits (file or directory) */
+  advisoryDatabasePath?: string;
+  /** Benchmark results of the DYNAMIC step; when set, bottlenecks come from them */
+  benchmarkResults?: BenchmarkResult[];
 }
 
 // ============================================================================
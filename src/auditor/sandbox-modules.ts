@@ -0,0 +1,259 @@
+/**
+ * Sandbox Modules
+ *
+ * Shared preparation for running workspace modules in an isolated child
+ * process: a temporary directory with the workspace's module type and
+ * dependencies, TypeScript transpiled together with its relative imports,
+ * discovery of the functions a module exports, and the Node permission flags
+ * that confine the process to reading files.
+ */
+
+import { mkdtemp, readFile, writeFile, mkdir, symlink, realpath } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, dirname, extname, relative, resolve } from 'path';
+import type * as ts from 'typescript';
+import type { TypeScriptModule } from '../utils/tool-runner.js';
+import { pathExists } from '../utils/file-utils.js';
+
+/**
+ * Exported function found in a module's syntax tree
+ */
+export interface ExportedFunction {
+  name: string;
+  /** Runtime type implied by the declared return type, if any */
+  expectedType?: string;
+  /** Parameters without a default value, `?` or rest marker */
+  parameterCount: number;
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts'];
+
+// ============================================================================
+// Module Preparation
+// ============================================================================
+
+/**
+ * Create a temporary directory that mirrors the workspace module type and
+ * links its dependencies; the caller removes it when done
+ */
+export async function createSandboxDirectory(workspacePath: string, prefix: string): Promise<string> {
+  const sandboxDirectory = await mkdtemp(join(tmpdir(), prefix));
+  let moduleType = 'commonjs';
+  try {
+    const packageJson = JSON.parse(await readFile(join(workspacePath, 'package.json'), 'utf-8'));
+    moduleType = packageJson.type === 'module' ? 'module' : 'commonjs';
+  } catch {
+    // No package.json: Node's CommonJS default applies
+  }
+  await writeFile(join(sandboxDirectory, 'package.json'), JSON.stringify({ type: moduleType }));
+
+  const nodeModules = join(workspacePath, 'node_modules');
+  if (await pathExists(nodeModules)) {
+    await symlink(nodeModules, join(sandboxDirectory, 'node_modules'), 'dir');
+  }
+
+  return sandboxDirectory;
+}
+
+/**
+ * Path the harness imports: JavaScript runs in place, TypeScript is transpiled
+ * into the sandbox together with the relative modules it imports
+ */
+export async function prepareModule(
+  typescript: TypeScriptModule | null,
+  workspacePath: string,
+  sandboxDirectory: string,
+  absolutePath: string
+): Promise<string> {
+  if (!TYPESCRIPT_EXTENSIONS.includes(extname(absolutePath))) {
+    return absolutePath;
+  }
+  if (!typescript) {
+    throw new Error(`TypeScript is required to run edge cases for ${absolutePath}`);
+  }
+
+  const moduleKind = await readModuleKind(sandboxDirectory, typescript);
+  const pending = [absolutePath];
+  const transpiled = new Set<string>();
+
+  while (pending.length > 0) {
+    const sourcePath = pending.pop()!;
+    if (transpiled.has(sourcePath)) continue;
+    transpiled.add(sourcePath);
+
+    const source = await readFile(sourcePath, 'utf-8');
+    const output = typescript.transpileModule(source, {
+      fileName: sourcePath,
+      compilerOptions: {
+        module: moduleKind,
+        target: typescript.ScriptTarget.ES2022,
+        jsx: typescript.JsxEmit.ReactJSX,
+        esModuleInterop: true,
+      },
+    });
+    const target = join(sandboxDirectory, 'src', toJavaScriptPath(relative(workspacePath, sourcePath)));
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, output.outputText);
+
+    for (const imported of typescript.preProcessFile(source, true, true).importedFiles) {
+      if (!imported.fileName.startsWith('.')) continue;
+      const dependency = await resolveTypeScriptImport(dirname(sourcePath), imported.fileName);
+      if (dependency && dependency.startsWith(resolve(workspacePath))) {
+        pending.push(dependency);
+      }
+    }
+  }
+
+  return join(sandboxDirectory, 'src', toJavaScriptPath(relative(workspacePath, absolutePath)));
+}
+
+async function readModuleKind(sandboxDirectory: string, typescript: TypeScriptModule): Promise<ts.ModuleKind> {
+  const packageJson = JSON.parse(await readFile(join(sandboxDirectory, 'package.json'), 'utf-8'));
+  return packageJson.type === 'module' ? typescript.ModuleKind.ESNext : typescript.ModuleKind.CommonJS;
+}
+
+/**
+ * Resolve `./x.js`, `./x` or `./x/index` to a TypeScript source file
+ */
+async function resolveTypeScriptImport(fromDirectory: string, specifier: string): Promise<string | null> {
+  const base = resolve(fromDirectory, specifier);
+  const withoutExtension = base.replace(/\.(m|c)?js$/, '');
+  const candidates = [
+    `${withoutExtension}.ts`,
+    `${withoutExtension}.tsx`,
+    `${withoutExtension}.mts`,
+    join(base, 'index.ts'),
+  ];
+  for (const candidate of candidates) {
+    if (await pathExists(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function toJavaScriptPath(path: string): string {
+  return path.replace(/\.tsx?$/, '.js').replace(/\.mts$/, '.mjs').replace(/\.cts$/, '.cjs');
+}
+
+export function isExecutableModule(file: string): boolean {
+  return SCRIPT_EXTENSIONS.includes(extname(file))
+    && !file.endsWith('.d.ts')
+    && !/(\.test\.|\.spec\.|__tests__)/.test(file);
+}
+
+// ============================================================================
+// Process Permissions
+// ============================================================================
+
+/**
+ * First Node version with the permission model the sandboxes rely on
+ */
+const MIN_PERMISSION_NODE_MAJOR = 20;
+
+/**
+ * Fail when this Node version has no permission model to confine a sandbox with
+ */
+export function assertPermissionModel(feature: string): void {
+  const nodeMajor = Number(process.versions.node.split('.')[0]);
+  if (nodeMajor < MIN_PERMISSION_NODE_MAJOR) {
+    throw new Error(`${feature} requires Node ${MIN_PERMISSION_NODE_MAJOR} or later for its permission model, found ${process.versions.node}`);
+  }
+}
+
+/**
+ * Node flags that only allow reading the given paths (and their real paths).
+ * File writes, child processes, worker threads and native addons stay denied.
+ */
+export async function permissionFlags(readablePaths: string[]): Promise<string[]> {
+  const paths = new Set(readablePaths);
+  for (const path of readablePaths) {
+    paths.add(await realpath(path));
+  }
+
+  // Node 22.13 and 23.5 renamed the flag when the permission model became stable
+  const [major, minor] = process.versions.node.split('.').map(Number);
+  const stable = major > 23 || (major === 23 && minor >= 5) || (major === 22 && minor >= 13);
+  return [
+    stable ? '--permission' : '--experimental-permission',
+    ...Array.from(paths, path => `--allow-fs-read=${path}`),
+  ];
+}
+
+// ============================================================================
+// Export Discovery
+// ============================================================================
+
+/**
+ * Exported functions with the runtime type implied by their declared return type
+ */
+export function findExportedFunctions(typescript: TypeScriptModule, filePath: string, source: string): ExportedFunction[] {
+  const sourceFile = typescript.createSourceFile(filePath, source, typescript.ScriptTarget.Latest, true);
+  const functions: ExportedFunction[] = [];
+
+  const isExported = (node: ts.Node) =>
+    typescript.canHaveModifiers(node)
+    && (typescript.getModifiers(node) ?? []).some(m => m.kind === typescript.SyntaxKind.ExportKeyword);
+  const isDefault = (node: ts.Node) =>
+    (typescript.getModifiers(node as ts.HasModifiers) ?? []).some(m => m.kind === typescript.SyntaxKind.DefaultKeyword);
+
+  for (const statement of sourceFile.statements) {
+    if (typescript.isFunctionDeclaration(statement) && isExported(statement) && statement.body) {
+      const name = isDefault(statement) ? 'default' : statement.name?.text;
+      if (name) {
+        functions.push({
+          name,
+          expectedType: runtimeTypeOf(typescript, statement.type),
+          parameterCount: countRequiredParameters(statement.parameters),
+        });
+      }
+    } else if (typescript.isVariableStatement(statement) && isExported(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const initializer = declaration.initializer;
+        if (typescript.isIdentifier(declaration.name) && initializer
+          && (typescript.isArrowFunction(initializer) || typescript.isFunctionExpression(initializer))) {
+          functions.push({
+            name: declaration.name.text,
+            expectedType: runtimeTypeOf(typescript, initializer.type),
+            parameterCount: countRequiredParameters(initializer.parameters),
+          });
+        }
+      }
+    }
+  }
+
+  return functions;
+}
+
+function countRequiredParameters(parameters: ts.NodeArray<ts.ParameterDeclaration>): number {
+  return parameters.filter(p => !p.initializer && !p.questionToken && !p.dotDotDotToken).length;
+}
+
+/**
+ * Map a declared return type to the type the harness reports, when unambiguous
+ */
+function runtimeTypeOf(typescript: TypeScriptModule, type: ts.TypeNode | undefined): string | undefined {
+  if (!type) return undefined;
+
+  switch (type.kind) {
+    case typescript.SyntaxKind.NumberKeyword: return 'number';
+    case typescript.SyntaxKind.StringKeyword: return 'string';
+    case typescript.SyntaxKind.BooleanKeyword: return 'boolean';
+    case typescript.SyntaxKind.BigIntKeyword: return 'bigint';
+    case typescript.SyntaxKind.VoidKeyword:
+    case typescript.SyntaxKind.UndefinedKeyword: return 'undefined';
+    case typescript.SyntaxKind.ArrayType:
+    case typescript.SyntaxKind.TupleType: return 'array';
+    case typescript.SyntaxKind.TypeLiteral: return 'object';
+  }
+
+  if (typescript.isTypeReferenceNode(type) && typescript.isIdentifier(type.typeName)) {
+    const name = type.typeName.text;
+    if (name === 'Promise') return runtimeTypeOf(typescript, type.typeArguments?.[0]);
+    if (name === 'Array' || name === 'ReadonlyArray') return 'array';
+    if (name === 'Record') return 'object';
+  }
+
+  return undefined;
+}
@@ -0,0 +1,372 @@
+/**
+ * Secret Scanner for the security quality assessment
+ *
+ * This module detects hardcoded credentials with a deterministic rule set
+ * of known token formats (AWS, GitHub, Slack, private keys, JWTs,
+ * connection strings) plus entropy scoring for generic secrets. Rules can
+ * be disabled, extended and allowlisted through the session's
+ * `secretScan` configuration.
+ *
+ * Requirements: 3.4
+ */
+
+import { readFile, stat } from 'fs/promises';
+import { isAbsolute, relative, resolve, sep } from 'path';
+import type { SecretScanConfig } from '../types/gan-types.js';
+import { globToRegExp } from '../utils/file-utils.js';
+
+// ============================================================================
+// Secret Scanner Types
+// ============================================================================
+
+/**
+ * Category of a detected secret
+ */
+export type SecretType = "api_key" | "password" | "token" | "certificate" | "private_key" | "connection_string";
+
+/**
+ * A secret detection rule
+ */
+export interface SecretRule {
+  /** Unique rule id */
+  id: string;
+  /** Human readable description */
+  description: string;
+  /** Secret category */
+  type: SecretType;
+  /** Pattern; the first capture group (or whole match) is the secret */
+  pattern: RegExp;
+  /** Confidence of a match */
+  confidence: "High" | "Medium" | "Low";
+  /** Minimum Shannon entropy for a match to count */
+  minEntropy?: number;
+  /** Whether obvious placeholder values are ignored */
+  skipPlaceholders?: boolean;
+}
+
+/**
+ * A secret found in scanned content
+ */
+export interface SecretFinding {
+  /** Rule that matched */
+  ruleId: string;
+  /** Secret category */
+  type: SecretType;
+  /** Workspace-relative file path */
+  filePath: string;
+  /** 1-based line number */
+  lineNumber: number;
+  /** 1-based column of the secret */
+  column: number;
+  /** Confidence of the match */
+  confidence: "High" | "Medium" | "Low";
+  /** Secret with everything but a short prefix masked */
+  maskedValue: string;
+  /** Shannon entropy of the secret in bits per character */
+  entropy: number;
+}
+
+// ============================================================================
+// Rule Set
+// ============================================================================
+
+/**
+ * Default minimum entropy for generic secrets
+ */
+export const DEFAULT_ENTROPY_THRESHOLD = 4.0;
+
+/**
+ * Label used for findings in audited code that is not backed by a file
+ */
+export const INLINE_CODE_LABEL = '<audited code>';
+
+const MAX_SCANNED_FILE_SIZE = 1024 * 1024; // 1MB
+
+/**
+ * Values that are clearly documentation placeholders rather than secrets
+ */
+const PLACEHOLDER_PATTERN = /example|sample|dummy|placeholder|changeme|your[_-]|xxxx|\*\*\*|<[^>]+>|\$\{|\{\{/i;
+
+/**
+ * Built-in rules for well-known token formats
+ */
+export const BUILT_IN_SECRET_RULES: SecretRule[] = [
+  {
+    id: 'aws-access-key-id',
+    description: 'AWS access key ID',
+    type: 'api_key',
+    pattern: /\b((?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16})\b/g,
+    confidence: 'High',
+    skipPlaceholders: true
+  },
+  {
+    id: 'aws-secret-access-key',
+    description: 'AWS secret access key',
+    type: 'api_key',
+    pattern: /aws.{0,20}?(?:secret|private).{0,20}?['"`]([A-Za-z0-9/+=]{40})['"`]/gi,
+    confidence: 'High',
+    minEntropy: 3.5,
+    skipPlaceholders: true
+  },
+  {
+    id: 'github-token',
+    description: 'GitHub token',
+    type: 'token',
+    pattern: /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,255})\b/g,
+    confidence: 'High'
+  },
+  {
+    id: 'github-fine-grained-pat',
+    description: 'GitHub fine-grained personal access token',
+    type: 'token',
+    pattern: /\b(github_pat_[A-Za-z0-9_]{22,255})\b/g,
+    confidence: 'High'
+  },
+  {
+    id: 'slack-token',
+    description: 'Slack token',
+    type: 'token',
+    pattern: /\b(xox[baprs]-[A-Za-z0-9-]{10,})\b/g,
+    confidence: 'High'
+  },
+  {
+    id: 'slack-webhook',
+    description: 'Slack incoming webhook URL',
+    type: 'token',
+    pattern: /(https:\/\/hooks\.slack\.com\/services\/T[A-Za-z0-9_]+\/B[A-Za-z0-9_]+\/[A-Za-z0-9_]+)/g,
+    confidence: 'High'
+  },
+  {
+    id: 'private-key',
+    description: 'Private key block',
+    type: 'private_key',
+    pattern: /(-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----)/g,
+    confidence: 'High'
+  },
+  {
+    id: 'jwt',
+    description: 'JSON Web Token',
+    type: 'token',
+    pattern: /\b(eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})/g,
+    confidence: 'Medium'
+  },
+  {
+    id: 'connection-string',
+    description: 'Connection string with embedded credentials',
+    type: 'connection_string',
+    pattern: /\b((?:postgres(?:ql)?|mysql|mongodb(?:\+srv)?|redis|amqps?):\/\/[^:\s'"`/]+:[^@\s'"`]+@[^\s'"`]+)/g,
+    confidence: 'High',
+    skipPlaceholders: true
+  },
+  {
+    id: 'generic-password',
+    description: 'Password assigned to a literal',
+    type: 'password',
+    pattern: /(?:passw(?:or)?d|pwd)[\w-]*['"`]?\s*[:=]\s*['"`]([^'"`\s]{6,})['"`]/gi,
+    confidence: 'Medium',
+    skipPlaceholders: true
+  },
+  {
+    id: 'generic-api-key',
+    description: 'API key or secret assigned to a literal',
+    type: 'api_key',
+    pattern: /(?:api[_-]?key|secret|token|access[_-]?key|auth[_-]?key)[\w-]*['"`]?\s*[:=]\s*['"`]([A-Za-z0-9_\-+/=.]{16,})['"`]/gi,
+    confidence: 'Medium',
+    minEntropy: DEFAULT_ENTROPY_THRESHOLD,
+    skipPlaceholders: true
+  },
+  {
+    id: 'high-entropy-string',
+    description: 'High-entropy string literal',
+    type: 'api_key',
+    pattern: /['"`]([A-Za-z0-9+/_-]{32,}={0,2})['"`]/g,
+    confidence: 'Low',
+    minEntropy: DEFAULT_ENTROPY_THRESHOLD + 0.5,
+    skipPlaceholders: true
+  }
+];
+
+/**
+ * Catch-all rules that run after format-specific and custom rules
+ */
+const GENERIC_RULES = new Set(['generic-password', 'generic-api-key', 'high-entropy-string']);
+
+/**
+ * Rules whose entropy floor follows the configured entropy threshold
+ */
+const ENTROPY_SCORED_RULES = new Set(['generic-api-key', 'high-entropy-string']);
+
+/**
+ * Build the effective rule set for a scanner configuration
+ */
+export function buildSecretRules(config: SecretScanConfig = {}): SecretRule[] {
+  const disabled = new Set(config.disabledRules || []);
+  const threshold = config.entropyThreshold ?? DEFAULT_ENTROPY_THRESHOLD;
+  const entropyOffset = threshold - DEFAULT_ENTROPY_THRESHOLD;
+
+  const builtIn = BUILT_IN_SECRET_RULES
+    .filter(rule => !disabled.has(rule.id))
+    .map(rule => ENTROPY_SCORED_RULES.has(rule.id)
+      ? { ...rule, minEntropy: (rule.minEntropy ?? 0) + entropyOffset }
+      : rule);
+
+  const custom: SecretRule[] = (config.customRules || [])
+    .filter(rule => !disabled.has(rule.id))
+    .map(rule => ({
+      id: rule.id,
+      description: `Custom rule ${rule.id}`,
+      type: rule.type || 'api_key',
+      pattern: new RegExp(rule.pattern, 'g'),
+      confidence: rule.confidence || 'Medium'
+    }));
+
+  // Custom rules take precedence over the generic catch-all rules
+  const rules = [
+    ...builtIn.filter(rule => !GENERIC_RULES.has(rule.id)),
+    ...custom,
+    ...builtIn.filter(rule => GENERIC_RULES.has(rule.id))
+  ];
+
+  return rules;
+}
+
+// ============================================================================
+// Scanning
+// ============================================================================
+
+/**
+ * Scan text content for secrets
+ */
+export function scanContentForSecrets(
+  content: string,
+  filePath: string,
+  config: SecretScanConfig = {},
+  rules: SecretRule[] = buildSecretRules(config)
+): SecretFinding[] {
+  if (isPathAllowlisted(filePath, config)) {
+    return [];
+  }
+
+  const allowPatterns = (config.allowlist?.patterns || []).map(pattern => new RegExp(pattern));
+  const findings: SecretFinding[] = [];
+  const lines = content.split('\n');
+
+  lines.forEach((line, index) => {
+    // Each secret is reported once, by the first (most specific) rule
+    const claimed: Array<[number, number]> = [];
+
+    for (const rule of rules) {
+      for (const match of line.matchAll(rule.pattern)) {
+        const value = match[1] ?? match[0];
+        const start = (match.index ?? 0) + match[0].indexOf(value);
+        const end = start + value.length;
+
+        if (claimed.some(([from, to]) => start < to && end > from)) {
+          continue;
+        }
+        if (rule.skipPlaceholders && PLACEHOLDER_PATTERN.test(value)) {
+          continue;
+        }
+        const entropy = calculateShannonEntropy(value);
+        if (rule.minEntropy !== undefined && entropy < rule.minEntropy) {
+          continue;
+        }
+        if (allowPatterns.some(pattern => pattern.test(value))) {
+          continue;
+        }
+
+        claimed.push([start, end]);
+        findings.push({
+          ruleId: rule.id,
+          type: rule.type,
+          filePath,
+          lineNumber: index + 1,
+          column: start + 1,
+          confidence: rule.confidence,
+          maskedValue: maskSecret(value),
+          entropy: Math.round(entropy * 100) / 100
+        });
+      }
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * Scan workspace files for secrets
+ *
+ * Missing, oversized and binary files are skipped.
+ */
+export async function scanFilesForSecrets(
+  repositoryPath: string,
+  filePaths: string[],
+  config: SecretScanConfig = {}
+): Promise<SecretFinding[]> {
+  const rules = buildSecretRules(config);
+  const findings: SecretFinding[] = [];
+
+  for (const filePath of filePaths) {
+    const fullPath = isAbsolute(filePath) ? filePath : resolve(repositoryPath, filePath);
+    const relativePath = relative(repositoryPath, fullPath).split(sep).join('/');
+
+    let content: string;
+    try {
+      const stats = await stat(fullPath);
+      if (!stats.isFile() || stats.size > MAX_SCANNED_FILE_SIZE) {
+        continue;
+      }
+      content = await readFile(fullPath, 'utf-8');
+    } catch (error) {
+      continue;
+    }
+
+    if (content.includes('\u0000')) {
+      continue;
+    }
+
+    findings.push(...scanContentForSecrets(content, relativePath, config, rules));
+  }
+
+  return findings;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function calculateShannonEntropy(value: string): number {
+  if (value.length === 0) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+/**
+ * Mask a secret, keeping only a short prefix for identification
+ */
+export function maskSecret(value: string): string {
+  return value.length > 8 ? `${value.slice(0, 4)}****` : '****';
+}
+
+/**
+ * Check whether a file path matches the allowlisted path globs
+ */
+function isPathAllowlisted(filePath: string, config: SecretScanConfig): boolean {
+  const normalized = filePath.split(sep).join('/');
+  return (config.allowlist?.paths || []).some(glob => globToRegExp(glob).test(normalized));
+}
@@ -9,6 +9,7 @@
 import type {
   IGanAuditor,
   IGansAuditorCodexAuditor,
+  AuditRunOptions,
 } from '../types/integration-types.js';
 import type {
   ThoughtData,
@@ -29,10 +30,11 @@ import {
 import {
   AuditServiceUnavailableError,
   AuditTimeoutError,
+  AuditCancelledError,
   InvalidCodeFormatError,
 } from '../types/error-types.js';
 import { AuditCache, type AuditCacheConfig } from './audit-cache.js';
-import { ProgressTracker, type ProgressTrackerConfig, AuditStage } from './progress-tracker.js';
+import { ProgressTracker, type ProgressTrackerConfig, type ProgressUpdate } from './progress-tracker.js';
 import { AuditQueue, type AuditQueueConfig } from './audit-queue.js';
 
 /**
@@ -130,6 +132,23 @@ export interface SynchronousAuditResult {
   sessionId?: string;
 }
 
+/**
+ * Per-call options for auditAndWait
+ */
+export interface AuditAndWaitOptions {
+  /**
+   * Receives every progress update of this audit from its start; requires
+   * progress tracking to be enabled
+   */
+  onProgress?: (update: ProgressUpdate) => void;
+
+  /**
+   * Cancels the audit: a queued audit leaves the queue, a running one has its
+   * Codex process killed, and auditAndWait rejects with AuditCancelledError
+   */
+  signal?: AbortSignal;
+}
+
 /**
  * Default configuration for the Synchronous Audit Engine
  */
@@ -188,7 +207,8 @@ export class SynchronousAuditEngine {
 
   constructor(
     config: Partial<SynchronousAuditEngineConfig> = {},
-    ganAuditor?: IGansAuditorCodexAuditor
+    ganAuditor?: IGansAuditorCodexAuditor,
+    auditCache?: AuditCache
   ) {
     this.config = this.mergeConfig(config);
     this.componentLogger = createComponentLogger('synchronous-audit-engine', {
@@ -200,7 +220,7 @@ export class SynchronousAuditEngine {
     this.ganAuditor = ganAuditor || new GanAuditor(this.config.ganAuditorConfig);
     
     // Initialize performance optimization components
-    this.initializePerformanceComponents();
+    this.initializePerformanceComponents(auditCache);
     
     this.componentLogger.info('Synchronous Audit Engine initialized', {
       enabled: this.config.enabled,
@@ -221,7 +241,8 @@ export class SynchronousAuditEngine {
    */
   async auditAndWait(
     thought: GansAuditorCodexThoughtData, 
-    sessionId?: string
+    sessionId?: string,
+    options: AuditAndWaitOptions = {}
   ): Promise<SynchronousAuditResult> {
     const timer = createTimer(`sync-audit-${thought.thoughtNumber}`, 'synchronous-audit-engine');
     const startTime = Date.now();
@@ -271,31 +292,6 @@ export class SynchronousAuditEngine {
         return this.createSkippedResult(thought, sessionId);
       }
 
-      // Requirement 9.1: Check cache for identical code submissions
-      if (this.auditCache && await this.auditCache.has(thought)) {
-        const cachedResult = await this.auditCache.get(thought);
-        if (cachedResult) {
-          const duration = Date.now() - startTime;
-          timer.end({ verdict: cachedResult.verdict, duration, cached: true });
-
-          this.componentLogger.info('Audit result served from cache', {
-            thoughtNumber: thought.thoughtNumber,
-            sessionId,
-            verdict: cachedResult.verdict,
-            score: cachedResult.overall,
-            duration,
-          });
-
-          return {
-            review: cachedResult,
-            success: true,
-            timedOut: false,
-            duration,
-            sessionId,
-          };
-        }
-      }
-
       // Execute audit with performance optimizations
       let review: GansAuditorCodexReview;
       let partialResults: any = null;
@@ -303,9 +299,14 @@ export class SynchronousAuditEngine {
 
       try {
         // Execute audit with queue management and progress tracking
-        review = await this.executeOptimizedAudit(thought, sessionId);
+        review = await this.executeOptimizedAudit(thought, sessionId, options);
       } catch (auditError) {
         const duration = Date.now() - startTime;
+
+        // Cancellation is reported to the caller as is, never as a fallback review
+        if (auditError instanceof AuditCancelledError) {
+          throw auditError;
+        }
         
         // Handle specific error types (Requirements 7.1, 7.4)
         if (this.isServiceUnavailableError(auditError)) {
@@ -320,17 +321,6 @@ export class SynchronousAuditEngine {
         return await this.handleGenericAuditError(auditError, thought, sessionId, duration);
       }
 
-      // Requirement 9.1: Cache successful audit results
-      if (this.auditCache && review) {
-        try {
-          await this.auditCache.set(thought, review);
-        } catch (cacheError) {
-          this.componentLogger.warn('Failed to cache audit result', {
-            error: (cacheError as Error).message,
-          });
-        }
-      }
-
       const duration = Date.now() - startTime;
       timer.end({ verdict: review.verdict, duration });
 
@@ -352,6 +342,17 @@ export class SynchronousAuditEngine {
 
     } catch (error) {
       const duration = Date.now() - startTime;
+
+      if (error instanceof AuditCancelledError) {
+        timer.end({ cancelled: true, duration });
+        this.componentLogger.info('Synchronous audit cancelled', {
+          thoughtNumber: thought.thoughtNumber,
+          sessionId,
+          duration,
+        });
+        throw error;
+      }
+
       timer.endWithError(error as Error);
 
       this.componentLogger.error(
@@ -445,11 +446,13 @@ export class SynchronousAuditEngine {
    * Initialize performance optimization components
    * Requirements 9.1-9.4: Performance optimizations
    */
-  private initializePerformanceComponents(): void {
+  private initializePerformanceComponents(sharedAuditCache?: AuditCache): void {
     const perfConfig = this.config.performance;
 
-    // Initialize audit cache (Requirement 9.1)
-    if (perfConfig?.enableCaching) {
+    // Initialize audit cache (Requirement 9.1); engines serving several clients share one
+    if (sharedAuditCache) {
+      (this as any).auditCache = sharedAuditCache;
+    } else if (perfConfig?.enableCaching) {
       (this as any).auditCache = new AuditCache(perfConfig.cacheConfig);
       this.componentLogger.info('Audit cache initialized');
     }
@@ -463,7 +466,7 @@ export class SynchronousAuditEngine {
     // Initialize audit queue (Requirement 9.3)
     if (perfConfig?.enableQueueManagement) {
       (this as any).auditQueue = new AuditQueue(
-        (thought, sessionId) => this.executeDirectAudit(thought, sessionId),
+        (thought, sessionId, runOptions) => this.executeDirectAudit(thought, sessionId, runOptions),
         perfConfig.queueConfig
       );
       this.componentLogger.info('Audit queue initialized');
@@ -476,36 +479,42 @@ export class SynchronousAuditEngine {
    */
   private async executeOptimizedAudit(
     thought: GansAuditorCodexThoughtData,
-    sessionId?: string
+    sessionId?: string,
+    options: AuditAndWaitOptions = {}
+  ): Promise<GansAuditorCodexReview> {
+    const { onProgress, signal } = options;
+
+    // Use progress tracking if available (Requirement 9.2)
+    if (this.progressTracker) {
+      return await this.progressTracker.trackAudit(
+        `audit-${thought.thoughtNumber}-${Date.now()}`,
+        thought,
+        onStep => this.executeQueuedAudit(thought, sessionId, { signal, onStep }),
+        onProgress
+      );
+    }
+
+    return await this.executeQueuedAudit(thought, sessionId, { signal });
+  }
+
+  /**
+   * Execute audit through the queue when queue management is enabled
+   * Requirement 9.3: Concurrent audit limiting
+   */
+  private async executeQueuedAudit(
+    thought: GansAuditorCodexThoughtData,
+    sessionId?: string,
+    runOptions?: AuditRunOptions
   ): Promise<GansAuditorCodexReview> {
-    // Use queue management if available (Requirement 9.3)
     if (this.auditQueue) {
       return await this.auditQueue.enqueue(thought, sessionId, {
         priority: 'normal',
         timeout: this.config.auditTimeout,
+        runOptions,
       });
     }
 
-    // Use progress tracking if available (Requirement 9.2)
-    if (this.progressTracker) {
-      const auditId = `audit-${thought.thoughtNumber}-${Date.now()}`;
-      
-      try {
-        this.progressTracker.startTracking(auditId, thought);
-        this.progressTracker.updateStage(auditId, AuditStage.INITIALIZING);
-        
-        const result = await this.executeDirectAudit(thought, sessionId);
-        
-        this.progressTracker.completeTracking(auditId, true);
-        return result;
-      } catch (error) {
-        this.progressTracker.completeTracking(auditId, false);
-        throw error;
-      }
-    }
-
-    // Fallback to direct execution
-    return await this.executeDirectAudit(thought, sessionId);
+    return await this.executeDirectAudit(thought, sessionId, runOptions);
   }
 
   /**
@@ -513,10 +522,12 @@ export class SynchronousAuditEngine {
    */
   private async executeDirectAudit(
     thought: GansAuditorCodexThoughtData,
-    sessionId?: string
+    sessionId?: string,
+    runOptions?: AuditRunOptions
   ): Promise<GansAuditorCodexReview> {
+    // Requirement 9.1: the auditor keys the cache once the context of the audit is known
     return await withTimeout(
-      () => this.ganAuditor.auditThought(thought, sessionId),
+      () => this.ganAuditor.auditThought(thought, sessionId, { ...runOptions, cache: this.auditCache }),
       this.config.auditTimeout,
       'Audit operation timed out'
     );
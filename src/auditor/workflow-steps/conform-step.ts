@@ -15,6 +15,7 @@ import { join } from 'path';
 import { 
   EvidenceItem 
 } from '../workflow-types.js';
+import { loadArchitectureRules, checkArchitectureRules } from '../architecture-rules.js';
 
 // ============================================================================
 // CONFORM Step Implementation
@@ -33,7 +34,7 @@ export async function executeConformStep(
     const namingViolations = await validateNamingConventions(inputs);
     
     // Check architecture pattern compliance
-    const architectureViolations = await checkArchitectureCompliance(inputs);
+    const { violations: architectureViolations, error: architectureRulesError } = await checkArchitectureCompliance(inputs);
     
     // Validate library usage
     const libraryIssues = await validateLibraryUsage(inputs);
@@ -45,6 +46,7 @@ export async function executeConformStep(
     const conformOutputs: ConformStepOutputs = {
       namingViolations,
       architectureViolations,
+      architectureRulesError,
       libraryIssues,
       dependencyAnalysis
     };
@@ -92,6 +94,8 @@ export interface ConformStepOutputs {
   namingViolations: NamingViolation[];
   /** Architecture pattern violations */
   architectureViolations: ArchitectureViolation[];
+  /** Why the architecture rules could not be checked, e.g. an invalid rules file */
+  architectureRulesError?: string;
   /** Library usage issues */
   libraryIssues: LibraryIssue[];
   /** Dependency analysis results */
@@ -136,6 +140,8 @@ export interface ArchitectureViolation {
   suggestedFix: string;
   /** Severity level */
   severity: 'Critical' | 'Major' | 'Minor';
+  /** Import statement that breaks the rule */
+  importStatement?: string;
 }
 
 /**
@@ -500,124 +506,23 @@ function convertNaming(name: string, convention: string): string {
 // ============================================================================
 
 /**
- * Check architecture pattern compliance
+ * Check the import graph of touched files against the declarative
+ * architecture rules in the steering directory. Rules that cannot be loaded
+ * or applied are reported instead of failing the step.
  */
-async function checkArchitectureCompliance(inputs: ConformStepInputs): Promise<ArchitectureViolation[]> {
-  const violations: ArchitectureViolation[] = [];
-  
+async function checkArchitectureCompliance(
+  inputs: ConformStepInputs
+): Promise<{ violations: ArchitectureViolation[]; error?: string }> {
   try {
-    // Load architecture patterns from constraints
-    const patterns = extractArchitecturePatterns(inputs.constraints || []);
-    
-    // Analyze touched files for architecture violations
-    if (inputs.touchedFiles) {
-      for (const file of inputs.touchedFiles) {
-        if (isSourceFile(file)) {
-          const fileViolations = await analyzeArchitectureCompliance(file, inputs.workspacePath, patterns);
-          violations.push(...fileViolations);
-        }
-      }
-    }
-    
-  } catch (error) {
-    // Architecture compliance check failed
-  }
-  
-  return violations;
-}
-
-/**
- * Extract architecture patterns from constraints
- */
-function extractArchitecturePatterns(constraints: string[]): ArchitecturePattern[] {
-  const patterns: ArchitecturePattern[] = [];
-  
-  // Default architecture patterns
-  patterns.push(
-    {
-      name: 'Separation of Concerns',
-      description: 'Controllers should not contain business logic',
-      pattern: /controller.*\.(ts|js)$/i,
-      antiPattern: /(database|db|sql|query|business|logic)/i
-    },
-    {
-      name: 'Dependency Injection',
-      description: 'Avoid direct instantiation in constructors',
-      pattern: /constructor\s*\(/,
-      antiPattern: /new\s+[A-Z]/
-    },
-    {
-      name: 'Single Responsibility',
-      description: 'Classes should have a single responsibility',
-      pattern: /class\s+\w+/,
-      antiPattern: /(and|or|plus|also)/i
-    }
-  );
-  
-  // Extract patterns from constraints
-  for (const constraint of constraints) {
-    if (constraint.toLowerCase().includes('must not') || constraint.toLowerCase().includes('shall not')) {
-      patterns.push({
-        name: 'Custom Constraint',
-        description: constraint,
-        pattern: /.*/,
-        antiPattern: new RegExp(constraint.split(' ').slice(-3).join('|'), 'i')
-      });
+    const rules = await loadArchitectureRules(inputs.workspacePath, inputs.steeringPath || '.kiro/steering');
+    if (!rules || !inputs.touchedFiles) {
+      return { violations: [] };
     }
-  }
-  
-  return patterns;
-}
 
-/**
- * Architecture pattern definition
- */
-interface ArchitecturePattern {
-  name: string;
-  description: string;
-  pattern: RegExp;
-  antiPattern: RegExp;
-}
-
-/**
- * Analyze file for architecture compliance
- */
-async function analyzeArchitectureCompliance(
-  file: string, 
-  workspacePath: string, 
-  patterns: ArchitecturePattern[]
-): Promise<ArchitectureViolation[]> {
-  const violations: ArchitectureViolation[] = [];
-  
-  try {
-    const filePath = join(workspacePath, file);
-    const content = await readFile(filePath, 'utf-8');
-    
-    for (const pattern of patterns) {
-      if (pattern.pattern.test(file) || pattern.pattern.test(content)) {
-        // Check for anti-pattern violations
-        const lines = content.split('\n');
-        
-        for (let i = 0; i < lines.length; i++) {
-          if (pattern.antiPattern.test(lines[i])) {
-            violations.push({
-              file,
-              line: i + 1,
-              pattern: pattern.name,
-              violation: pattern.description,
-              suggestedFix: `Refactor to follow ${pattern.name} pattern`,
-              severity: 'Major'
-            });
-          }
-        }
-      }
-    }
-    
+    return { violations: await checkArchitectureRules(inputs.workspacePath, inputs.touchedFiles.filter(isSourceFile), rules) };
   } catch (error) {
-    // File analysis failed
+    return { violations: [], error: error instanceof Error ? error.message : String(error) };
   }
-  
-  return violations;
 }
 
 // ============================================================================
@@ -819,7 +724,7 @@ async function addConformanceEvidence(
         severity: "Critical",
         location: "Architecture patterns",
         description: `${criticalArch.length} critical architecture violations found`,
-        proof: `Critical violations: ${criticalArch.map(v => v.pattern).join(', ')}`,
+        proof: `Critical violations: ${criticalArch.map(describeArchitectureViolation).join('; ')}`,
         suggestedFix: "Fix critical architecture pattern violations"
       });
     }
@@ -830,12 +735,23 @@ async function addConformanceEvidence(
         severity: "Major",
         location: "Architecture patterns",
         description: `${majorArch.length} major architecture violations found`,
-        proof: `Major violations: ${majorArch.map(v => v.pattern).join(', ')}`,
+        proof: `Major violations: ${majorArch.map(describeArchitectureViolation).join('; ')}`,
         suggestedFix: "Follow established architecture patterns"
       });
     }
   }
   
+  if (outputs.architectureRulesError) {
+    evidence.push({
+      type: "architecture_violation",
+      severity: "Minor",
+      location: "Architecture rules",
+      description: "Architecture rules could not be checked",
+      proof: outputs.architectureRulesError,
+      suggestedFix: "Fix the architecture rules in the steering directory"
+    });
+  }
+  
   // Add evidence for library issues
   const criticalLibrary = outputs.libraryIssues.filter(i => i.severity === 'Critical' || i.severity === 'High');
   if (criticalLibrary.length > 0) {
@@ -888,6 +804,14 @@ async function addConformanceEvidence(
 // Utility Functions
 // ============================================================================
 
+/**
+ * Cite an architecture violation by location and offending import
+ */
+function describeArchitectureViolation(violation: ArchitectureViolation): string {
+  const citation = violation.importStatement ? ` \`${violation.importStatement}\`` : '';
+  return `${violation.pattern} at ${violation.file}:${violation.line}${citation}`;
+}
+
 /**
  * Check if file is a source file
  */
@@ -18,6 +18,7 @@ import {
   SessionContext, 
   EvidenceItem 
 } from '../workflow-types.js';
+import { readGitDiff, type DiffRange } from '../../utils/git-utils.js';
 
 // ============================================================================
 // INIT Step Implementation
@@ -42,7 +43,8 @@ export async function executeInitStep(
     const constraints = await identifyConstraints(inputs.steeringPath, inputs.workspacePath);
     
     // Detect touched files/modules
-    const touchedFiles = await detectTouchedFiles(inputs.workspacePath, inputs.gitDiff);
+    const gitDiff = inputs.gitDiff ?? (inputs.diffRange ? await readGitDiff(inputs.workspacePath, inputs.diffRange) : undefined);
+    const touchedFiles = await detectTouchedFiles(inputs.workspacePath, gitDiff);
     
     // Create session context
     const sessionContext: SessionContext = {
@@ -92,6 +94,8 @@ export interface InitStepInputs {
   workspacePath: string;
   /** Git diff for detecting changes */
   gitDiff?: string;
+  /** Commit range whose diff is read when no git diff is given */
+  diffRange?: DiffRange;
   /** Session identifier */
   sessionId?: string;
   /** Branch identifier for continuity */
@@ -227,49 +231,59 @@ async function parseAcceptanceCriteria(specPath: string = '.kiro/specs', workspa
 }
 
 /**
- * Parse acceptance criteria from requirements content
+ * Parse acceptance criteria from requirements content.
+ *
+ * Criteria under a "Requirement N" heading get the stable id
+ * `REQ-<requirement>.<item number>`, so "Requirement 3.2" item 4 is
+ * REQ-3.2.4 however the rest of the document changes. Criteria outside
+ * such a section are numbered by position (AC-001, AC-002, ...).
  */
 function parseAcceptanceCriteriaFromContent(content: string): AcceptanceCriterion[] {
-  const criteria: AcceptanceCriterion[] = [];
-  
-  // Look for EARS format criteria (WHEN/IF...THEN...SHALL)
-  const earsRegex = /^\s*\d+\.\s*((?:WHEN|IF)\s+.+?\s+THEN\s+.+?\s+SHALL\s+.+?)$/gim;
-  let match;
-  let criterionId = 1;
-  
-  while ((match = earsRegex.exec(content)) !== null) {
-    const description = match[1].trim();
-    
-    criteria.push({
-      id: `AC-${criterionId.toString().padStart(3, '0')}`,
-      description,
-      isMet: false, // Will be determined during audit
-      relatedTests: [] // Will be populated during TRACE step
-    });
-    
-    criterionId++;
-  }
-  
-  // Also look for numbered acceptance criteria
-  const numberedRegex = /^\s*\d+\.\s*(.+?)(?=\n\s*\d+\.|$)/gim;
-  const numberedMatches = content.match(numberedRegex);
-  
-  if (numberedMatches && criteria.length === 0) {
-    // Only use numbered criteria if no EARS format found
-    numberedMatches.forEach((match, index) => {
-      const description = match.replace(/^\s*\d+\.\s*/, '').trim();
-      if (description && !description.startsWith('WHEN') && !description.startsWith('IF')) {
-        criteria.push({
-          id: `AC-${(index + 1).toString().padStart(3, '0')}`,
-          description,
-          isMet: false,
-          relatedTests: []
-        });
+  const earsRegex = /^(?:WHEN|IF)\s+.+?\s+THEN\s+.+?\s+SHALL\s+.+$/i;
+  const items: Array<{ requirement?: string; number: string; description: string; ears: boolean }> = [];
+  let requirement: { number: string; level: number } | undefined;
+
+  for (const line of content.split('\n')) {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const level = heading[1].length;
+      const number = heading[2].match(/^Requirement\s+(\d+(?:\.\d+)*)\b/i)?.[1];
+      // Subheadings such as "Acceptance Criteria" stay within the requirement
+      if (number) {
+        requirement = { number, level };
+      } else if (requirement && level <= requirement.level) {
+        requirement = undefined;
       }
-    });
+      continue;
+    }
+
+    const item = line.match(/^\s*(\d+)\.\s*(.+?)\s*$/);
+    if (item) {
+      items.push({ requirement: requirement?.number, number: item[1], description: item[2], ears: earsRegex.test(item[2]) });
+    }
   }
-  
-  return criteria;
+
+  // Numbered criteria are only used if no EARS format criteria are found
+  const hasEars = items.some(item => item.ears);
+  const selected = items.filter(item => hasEars
+    ? item.ears
+    : !item.description.startsWith('WHEN') && !item.description.startsWith('IF'));
+
+  return selected.map((item, index) => ({
+    id: item.requirement
+      ? formatRequirementCriterionId(item.requirement, item.number)
+      : `AC-${(index + 1).toString().padStart(3, '0')}`,
+    description: item.description,
+    isMet: false, // Will be determined during audit
+    relatedTests: [] // Will be populated during TRACE step
+  }));
+}
+
+/**
+ * Stable id of an acceptance criterion of a numbered requirement
+ */
+function formatRequirementCriterionId(requirement: string, criterion: number | string): string {
+  return `REQ-${requirement}.${criterion}`;
 }
 
 // ============================================================================
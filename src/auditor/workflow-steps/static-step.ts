@@ -11,15 +11,19 @@
  */
 
 import { readFile } from 'fs/promises';
-import { join } from 'path';
+import { dirname, join, relative, resolve } from 'path';
+import type * as ts from 'typescript';
 import { 
   StaticStepOutputs, 
   EvidenceItem,
   LintResult,
   FormatIssue,
   TypeCheckResult,
-  CodeSmell
+  CodeSmell,
+  StaticToolRun
 } from '../workflow-types.js';
+import { pathExists } from '../../utils/file-utils.js';
+import { resolveLocalBinary, runTool, loadTypeScript, type TypeScriptModule } from '../../utils/tool-runner.js';
 
 // ============================================================================
 // STATIC Step Implementation
@@ -35,23 +39,24 @@ export async function executeStaticStep(
 ): Promise<void> {
   try {
     // Run linting analysis
-    const lintResults = await runLintingAnalysis(inputs);
+    const lintAnalysis = await runLintingAnalysis(inputs);
     
     // Check formatting compliance
     const formatIssues = await checkFormattingCompliance(inputs);
     
     // Perform type checking
-    const typeCheckResults = await performTypeChecking(inputs);
+    const typeCheckAnalysis = await performTypeChecking(inputs);
     
     // Detect code smells
     const codeSmells = await detectCodeSmells(inputs);
 
     // Set outputs
     const staticOutputs: StaticStepOutputs = {
-      lintResults,
+      lintResults: lintAnalysis.results,
       formatIssues,
-      typeCheckResults,
-      codeSmells
+      typeCheckResults: typeCheckAnalysis.results,
+      codeSmells,
+      toolRuns: [lintAnalysis.run, typeCheckAnalysis.run]
     };
 
     Object.assign(outputs, staticOutputs);
@@ -87,6 +92,10 @@ export interface StaticStepInputs {
   formatCommand?: string;
   /** Type check command to run */
   typeCheckCommand?: string;
+  /** Session identifier used to reuse compiler state across iterations */
+  sessionId?: string;
+  /** Kills the lint run when aborted */
+  signal?: AbortSignal;
 }
 
 // ============================================================================
@@ -94,56 +103,167 @@ export interface StaticStepInputs {
 // ============================================================================
 
 /**
- * Run linting analysis on touched files
+ * Source file extensions ESLint is asked to analyze
  */
-async function runLintingAnalysis(inputs: StaticStepInputs): Promise<LintResult[]> {
-  const results: LintResult[] = [];
-  
+const LINTABLE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Timeout for a single ESLint run
+ */
+const ESLINT_TIMEOUT = 120000;
+
+/**
+ * Lint results together with how ESLint was run
+ */
+interface LintAnalysis {
+  results: LintResult[];
+  run: StaticToolRun;
+}
+
+/**
+ * Message shape of ESLint's JSON formatter
+ */
+interface ESLintJsonMessage {
+  ruleId: string | null;
+  severity: number;
+  message: string;
+  line?: number;
+  column?: number;
+  fatal?: boolean;
+  fix?: { range: [number, number]; text: string };
+  suggestions?: Array<{ desc: string }>;
+}
+
+/**
+ * File result shape of ESLint's JSON formatter
+ */
+interface ESLintJsonFileResult {
+  filePath: string;
+  messages: ESLintJsonMessage[];
+}
+
+/**
+ * Run the workspace's own ESLint on touched files
+ */
+async function runLintingAnalysis(inputs: StaticStepInputs): Promise<LintAnalysis> {
+  const files = await selectExistingFiles(inputs, LINTABLE_EXTENSIONS);
+  const run: StaticToolRun = { tool: 'eslint', status: 'completed', filesAnalyzed: 0 };
+
+  if (files.length === 0) {
+    return { results: [], run };
+  }
+
+  if (!(await detectESLintConfig(inputs.workspacePath))) {
+    return {
+      results: [],
+      run: { ...run, status: 'not_configured', detail: 'No ESLint configuration found in workspace' }
+    };
+  }
+
+  const eslintBinary = await resolveLocalBinary(inputs.workspacePath, 'eslint');
+  if (!eslintBinary) {
+    return {
+      results: [],
+      run: { ...run, status: 'not_installed', detail: 'ESLint is configured but not installed in node_modules' }
+    };
+  }
+
+  const toolResult = await runTool(
+    eslintBinary,
+    ['--format', 'json', '--no-error-on-unmatched-pattern', ...files],
+    { cwd: inputs.workspacePath, timeout: ESLINT_TIMEOUT, signal: inputs.signal }
+  );
+
+  if (toolResult.timedOut || toolResult.error) {
+    return {
+      results: [],
+      run: { ...run, status: 'failed', detail: toolResult.error || `ESLint timed out after ${ESLINT_TIMEOUT}ms` }
+    };
+  }
+
+  let fileResults: ESLintJsonFileResult[];
   try {
-    // Check for ESLint configuration
-    const eslintConfig = await detectESLintConfig(inputs.workspacePath);
-    if (eslintConfig) {
-      // Simulate ESLint results for touched files
-      if (inputs.touchedFiles) {
-        for (const file of inputs.touchedFiles) {
-          if (file.endsWith('.ts') || file.endsWith('.js')) {
-            // Add sample lint results (in real implementation, would run actual ESLint)
-            results.push({
-              file,
-              line: 1,
-              column: 1,
-              rule: 'no-unused-vars',
-              severity: 'warning',
-              message: 'Variable is defined but never used',
-              fix: 'Remove unused variable'
-            });
-          }
-        }
-      }
-    }
-  } catch (error) {
-    // Linting failed - will be handled by evidence collection
+    fileResults = JSON.parse(toolResult.stdout);
+  } catch {
+    // Exit code 2 means ESLint itself failed (bad config, missing plugin)
+    const detail = toolResult.stderr.trim().split('\n')[0] || `ESLint exited with code ${toolResult.exitCode}`;
+    return { results: [], run: { ...run, status: 'failed', detail } };
   }
-  
-  return results;
+
+  return {
+    results: fileResults.flatMap(fileResult => mapESLintMessages(fileResult, inputs.workspacePath)),
+    run: { ...run, filesAnalyzed: fileResults.length }
+  };
 }
 
 /**
- * Detect ESLint configuration
+ * Map ESLint JSON messages for one file into lint results
+ */
+function mapESLintMessages(fileResult: ESLintJsonFileResult, workspacePath: string): LintResult[] {
+  const file = relative(workspacePath, fileResult.filePath) || fileResult.filePath;
+
+  return fileResult.messages
+    // Files matched by .eslintignore are reported as warnings without a rule
+    .filter(message => !(message.ruleId === null && !message.fatal && message.message.startsWith('File ignored')))
+    .map(message => {
+      const fixable = message.fix !== undefined;
+      const suggestion = message.suggestions?.[0]?.desc;
+
+      return {
+        file,
+        line: message.line ?? 0,
+        column: message.column ?? 0,
+        rule: message.ruleId ?? (message.fatal ? 'parse-error' : 'unknown'),
+        severity: message.severity === 2 ? 'error' : message.severity === 1 ? 'warning' : 'info',
+        message: message.message,
+        fix: fixable ? 'Auto-fixable with eslint --fix' : suggestion,
+        fixable
+      };
+    });
+}
+
+/**
+ * Detect ESLint configuration (flat config, legacy eslintrc or package.json)
  */
 async function detectESLintConfig(workspacePath: string): Promise<boolean> {
-  const configFiles = ['.eslintrc.js', '.eslintrc.json', '.eslintrc.yml', 'eslint.config.js'];
+  const configFiles = [
+    'eslint.config.js', 'eslint.config.mjs', 'eslint.config.cjs',
+    'eslint.config.ts', 'eslint.config.mts', 'eslint.config.cts',
+    '.eslintrc.js', '.eslintrc.cjs', '.eslintrc.json',
+    '.eslintrc.yml', '.eslintrc.yaml', '.eslintrc'
+  ];
   
   for (const configFile of configFiles) {
-    try {
-      await readFile(join(workspacePath, configFile), 'utf-8');
+    if (await pathExists(join(workspacePath, configFile))) {
       return true;
-    } catch (error) {
-      // Config file not found, continue
     }
   }
-  
-  return false;
+
+  try {
+    const packageJson = JSON.parse(await readFile(join(workspacePath, 'package.json'), 'utf-8'));
+    return packageJson.eslintConfig !== undefined;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Select touched files with the given extensions that still exist on disk
+ */
+async function selectExistingFiles(inputs: StaticStepInputs, extensions: string[]): Promise<string[]> {
+  const selected: string[] = [];
+
+  for (const file of inputs.touchedFiles || []) {
+    if (!extensions.some(ext => file.endsWith(ext))) {
+      continue;
+    }
+    // Deleted files still appear in the diff but cannot be analyzed
+    if (await pathExists(resolve(inputs.workspacePath, file))) {
+      selected.push(file);
+    }
+  }
+
+  return selected;
 }
 
 // ============================================================================
@@ -206,48 +326,171 @@ async function detectPrettierConfig(workspacePath: string): Promise<boolean> {
 // ============================================================================
 
 /**
- * Perform type checking integration
+ * Source file extensions checked by the TypeScript compiler
  */
-async function performTypeChecking(inputs: StaticStepInputs): Promise<TypeCheckResult[]> {
-  const results: TypeCheckResult[] = [];
-  
+const TYPE_CHECKABLE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts'];
+
+/**
+ * Maximum number of programs kept for incremental reuse
+ */
+const MAX_CACHED_PROGRAMS = 10;
+
+/**
+ * Programs from previous iterations, keyed by session and tsconfig path.
+ * Passing the previous program as `oldProgram` lets the compiler reuse
+ * unchanged source files when the same session is audited again.
+ */
+const programCache = new Map<string, ts.Program>();
+
+/**
+ * Type check results together with how the compiler was run
+ */
+interface TypeCheckAnalysis {
+  results: TypeCheckResult[];
+  run: StaticToolRun;
+}
+
+/**
+ * Type check touched files with the TypeScript compiler API
+ */
+async function performTypeChecking(inputs: StaticStepInputs): Promise<TypeCheckAnalysis> {
+  const files = await selectExistingFiles(inputs, TYPE_CHECKABLE_EXTENSIONS);
+  const run: StaticToolRun = { tool: 'typescript', status: 'completed', filesAnalyzed: 0 };
+
+  if (files.length === 0) {
+    return { results: [], run };
+  }
+
+  const configPath = join(inputs.workspacePath, 'tsconfig.json');
+  if (!(await pathExists(configPath))) {
+    return {
+      results: [],
+      run: { ...run, status: 'not_configured', detail: 'No tsconfig.json found in workspace' }
+    };
+  }
+
+  const typescript = loadTypeScript(inputs.workspacePath);
+  if (!typescript) {
+    return {
+      results: [],
+      run: { ...run, status: 'not_installed', detail: 'TypeScript compiler could not be loaded' }
+    };
+  }
+
   try {
-    // Check for TypeScript configuration
-    const tsConfig = await detectTypeScriptConfig(inputs.workspacePath);
-    if (tsConfig) {
-      // Simulate TypeScript compiler results
-      if (inputs.touchedFiles) {
-        for (const file of inputs.touchedFiles) {
-          if (file.endsWith('.ts')) {
-            // Add sample type check results (in real implementation, would run tsc)
-            results.push({
-              file,
-              line: 5,
-              column: 10,
-              code: 'TS2322',
-              message: 'Type string is not assignable to type number',
-              severity: 'error'
-            });
-          }
-        }
+    const program = createTypeCheckProgram(typescript, configPath, inputs.sessionId);
+    const results: TypeCheckResult[] = [];
+    let filesAnalyzed = 0;
+
+    for (const file of files) {
+      // Files excluded by tsconfig are not part of the program
+      const sourceFile = program.getSourceFile(resolve(inputs.workspacePath, file));
+      if (!sourceFile) {
+        continue;
       }
+      filesAnalyzed++;
+
+      const diagnostics = [
+        ...program.getSyntacticDiagnostics(sourceFile),
+        ...program.getSemanticDiagnostics(sourceFile)
+      ];
+      results.push(...mapDiagnostics(typescript, diagnostics, file));
     }
+
+    return { results, run: { ...run, filesAnalyzed } };
   } catch (error) {
-    // Type checking failed
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { results: [], run: { ...run, status: 'failed', detail: errorMessage } };
   }
-  
+}
+
+/**
+ * Build a program from tsconfig.json, reusing the session's previous program
+ */
+function createTypeCheckProgram(
+  typescript: TypeScriptModule,
+  configPath: string,
+  sessionId?: string
+): ts.Program {
+  const configFile = typescript.readConfigFile(configPath, typescript.sys.readFile);
+  if (configFile.error) {
+    throw new Error(typescript.flattenDiagnosticMessageText(configFile.error.messageText, '\n'));
+  }
+
+  const parsedConfig = typescript.parseJsonConfigFileContent(
+    configFile.config,
+    typescript.sys,
+    dirname(configPath),
+    undefined,
+    configPath
+  );
+
+  const cacheKey = `${sessionId ?? 'default'}:${configPath}`;
+  const program = typescript.createProgram({
+    rootNames: parsedConfig.fileNames,
+    options: { ...parsedConfig.options, noEmit: true },
+    projectReferences: parsedConfig.projectReferences,
+    oldProgram: programCache.get(cacheKey)
+  });
+
+  programCache.delete(cacheKey);
+  programCache.set(cacheKey, program);
+  if (programCache.size > MAX_CACHED_PROGRAMS) {
+    const oldestKey = programCache.keys().next().value;
+    if (oldestKey !== undefined) {
+      programCache.delete(oldestKey);
+    }
+  }
+
+  return program;
+}
+
+/**
+ * Map compiler diagnostics into type check results
+ */
+function mapDiagnostics(
+  typescript: TypeScriptModule,
+  diagnostics: readonly ts.Diagnostic[],
+  file: string
+): TypeCheckResult[] {
+  const results: TypeCheckResult[] = [];
+
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.category !== typescript.DiagnosticCategory.Error &&
+        diagnostic.category !== typescript.DiagnosticCategory.Warning) {
+      continue;
+    }
+
+    const position = diagnostic.file && diagnostic.start !== undefined
+      ? typescript.getLineAndCharacterOfPosition(diagnostic.file, diagnostic.start)
+      : { line: 0, character: 0 };
+
+    results.push({
+      file,
+      line: position.line + 1,
+      column: position.character + 1,
+      code: `TS${diagnostic.code}`,
+      message: typescript.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      severity: diagnostic.category === typescript.DiagnosticCategory.Error ? 'error' : 'warning'
+    });
+  }
+
   return results;
 }
 
 /**
- * Detect TypeScript configuration
+ * Clear programs retained for incremental type checking
  */
-async function detectTypeScriptConfig(workspacePath: string): Promise<boolean> {
-  try {
-    await readFile(join(workspacePath, 'tsconfig.json'), 'utf-8');
-    return true;
-  } catch (error) {
-    return false;
+export function clearTypeCheckCache(sessionId?: string): void {
+  if (!sessionId) {
+    programCache.clear();
+    return;
+  }
+
+  for (const key of [...programCache.keys()]) {
+    if (key.startsWith(`${sessionId}:`)) {
+      programCache.delete(key);
+    }
   }
 }
 
@@ -296,29 +539,19 @@ async function addStaticAnalysisEvidence(
   evidence: EvidenceItem[]
 ): Promise<void> {
   
-  // Add evidence for lint violations
-  const errors = outputs.lintResults.filter(r => r.severity === 'error');
-  const warnings = outputs.lintResults.filter(r => r.severity === 'warning');
-  
-  if (errors.length > 0) {
-    evidence.push({
-      type: "lint_violation",
-      severity: "Critical",
-      location: "Linting",
-      description: `${errors.length} linting errors found`,
-      proof: `Errors in: ${errors.map(e => `${e.file}:${e.line}`).join(', ')}`,
-      suggestedFix: "Fix linting errors before proceeding"
-    });
-  }
-  
-  if (warnings.length > 0) {
+  // Add evidence for each lint violation reported by ESLint
+  for (const result of outputs.lintResults) {
+    if (result.severity === 'info') {
+      continue;
+    }
     evidence.push({
       type: "lint_violation",
-      severity: "Minor",
-      location: "Linting",
-      description: `${warnings.length} linting warnings found`,
-      proof: `Warnings in: ${warnings.map(w => `${w.file}:${w.line}`).join(', ')}`,
-      suggestedFix: "Address linting warnings for better code quality"
+      severity: result.severity === 'error' ? "Critical" : "Minor",
+      location: `${result.file}:${result.line}:${result.column}`,
+      description: `${result.rule}: ${result.message}`,
+      proof: `ESLint ${result.severity} (${result.rule}) at ${result.file}:${result.line}:${result.column}`,
+      suggestedFix: result.fix || "Fix the reported linting issue",
+      reproductionSteps: [`npx eslint ${result.file}`]
     });
   }
   
@@ -342,11 +575,31 @@ async function addStaticAnalysisEvidence(
       severity: "Critical",
       location: "Type checking",
       description: `${typeErrors.length} type errors found`,
-      proof: `Errors in: ${typeErrors.map(e => `${e.file}:${e.line}`).join(', ')}`,
+      proof: `Errors in: ${typeErrors.map(e => `${e.file}:${e.line}:${e.column} ${e.code}`).join(', ')}`,
       suggestedFix: "Fix type errors to ensure type safety"
     });
   }
   
+  // Add evidence for analysis tools that are configured but could not run
+  for (const run of outputs.toolRuns ?? []) {
+    if (run.status !== 'not_installed' && run.status !== 'failed') {
+      continue;
+    }
+    const toolName = run.tool === 'eslint' ? 'ESLint' : 'TypeScript';
+    evidence.push({
+      type: run.tool === 'eslint' ? "lint_violation" : "type_error",
+      severity: "Minor",
+      location: toolName,
+      description: run.status === 'not_installed'
+        ? `${toolName} is not installed, so its checks did not run`
+        : `${toolName} failed, so its results are missing`,
+      proof: run.detail || `${toolName} ${run.status.replace('_', ' ')}`,
+      suggestedFix: run.status === 'not_installed'
+        ? `Install ${run.tool} in the workspace (npm install)`
+        : `Run ${run.tool === 'eslint' ? 'npx eslint' : 'npx tsc --noEmit'} in the workspace and fix what stops it`
+    });
+  }
+  
   // Add evidence for code smells
   if (outputs.codeSmells.length > 0) {
     evidence.push({
@@ -7,6 +7,11 @@
  * - Unmet AC identification and reporting
  * - Missing implementation detection
  * 
+ * ACs are linked explicitly by `// @ac REQ-3.2.4` annotations in code and
+ * tests and by `[REQ-3.2.4]` tags in test names. Explicit links take
+ * precedence over links inferred from keyword overlap, and an AC is only
+ * met when its linked tests ran and passed.
+ * 
  * Requirements: 2.7
  */
 
@@ -16,6 +21,7 @@ import {
   EvidenceItem,
   AcceptanceCriterion
 } from '../workflow-types.js';
+import type { TestResult } from './tests-step.js';
 
 // ============================================================================
 // TRACE Step Implementation
@@ -30,11 +36,14 @@ export async function executeTraceStep(
   evidence: EvidenceItem[]
 ): Promise<void> {
   try {
+    // Collect explicit AC annotations and test-name tags
+    const explicitLinks = await collectExplicitLinks(inputs);
+
     // Generate traceability matrix
-    const traceabilityMatrix = await generateTraceabilityMatrix(inputs);
+    const traceabilityMatrix = await generateTraceabilityMatrix(inputs, explicitLinks);
     
     // Map ACs to implementation files
-    const acImplementationMapping = await mapACsToImplementation(inputs);
+    const acImplementationMapping = mapACsToImplementation(traceabilityMatrix);
     
     // Identify unmet ACs
     const unmetACs = await identifyUnmetACs(inputs, traceabilityMatrix);
@@ -51,7 +60,8 @@ export async function executeTraceStep(
       acImplementationMapping,
       unmetACs,
       missingImplementations,
-      coverageReport
+      coverageReport,
+      unresolvedReferences: explicitLinks.unresolved
     };
 
     Object.assign(outputs, traceOutputs);
@@ -84,7 +94,7 @@ export interface TraceStepInputs {
   /** Touched files from INIT step */
   touchedFiles?: string[];
   /** Test results from TESTS step */
-  testResults?: any[];
+  testResults?: TestResult[];
   /** Path to spec documents */
   specPath?: string;
   /** Additional implementation files to analyze */
@@ -105,6 +115,8 @@ export interface TraceStepOutputs {
   missingImplementations: MissingImplementation[];
   /** Coverage report summary */
   coverageReport: CoverageReport;
+  /** Annotations and test-name tags naming ACs that do not exist */
+  unresolvedReferences: ACReference[];
 }
 
 /**
@@ -126,9 +138,62 @@ export interface TraceabilityMatrix {
     evidence: string[];
     /** Related code snippets */
     codeReferences: CodeReference[];
+    /** Links to implementation and test files, explicit ones first */
+    links: TraceLink[];
+    /** Whether any link of this AC is explicit, only inferred links exist, or none */
+    linkSource: 'explicit' | 'inferred' | 'none';
+    /** Mean confidence of the links (0-100) */
+    confidence: number;
+    /** Outcomes of the linked tests */
+    testOutcomes: TestOutcomeSummary;
+    /** Whether this AC is covered and its linked tests ran and passed */
+    met: boolean;
   };
 }
 
+/**
+ * Link of an AC to an implementation or test file
+ */
+export interface TraceLink {
+  /** Linked file */
+  file: string;
+  /** Whether the file implements or tests the AC */
+  kind: 'implementation' | 'test';
+  /** Explicit annotation or tag, or inferred from keyword overlap */
+  source: 'explicit' | 'inferred';
+  /** Link confidence (0-100); explicit links are 100 */
+  confidence: number;
+  /** Line of the annotation or tag */
+  line?: number;
+  /** Name of the tagged test */
+  test?: string;
+}
+
+/**
+ * Outcomes of the tests linked to an AC
+ */
+export interface TestOutcomeSummary {
+  passed: number;
+  failed: number;
+  skipped: number;
+  /** Names of the failed tests */
+  failedTests: string[];
+}
+
+/**
+ * AC id found in an annotation or test-name tag
+ */
+export interface ACReference {
+  /** Referenced AC id */
+  acId: string;
+  /** File of the reference */
+  file: string;
+  /** Line of the reference; absent for tags only seen in test results */
+  line?: number;
+  /** Name of the tagged test */
+  test?: string;
+}
+
 /**
  * AC to implementation mapping
  */
@@ -175,6 +240,10 @@ export interface CoverageReport {
   testedACs: number;
   /** Number of fully covered ACs */
   fullyCoveredACs: number;
+  /** Number of ACs whose linked tests ran and passed */
+  metACs: number;
+  /** Number of ACs with at least one explicit link */
+  explicitlyLinkedACs: number;
   /** Overall coverage percentage */
   coveragePercentage: number;
   /** Implementation coverage percentage */
@@ -199,6 +268,150 @@ export interface CodeReference {
   type: 'implementation' | 'test' | 'comment' | 'documentation';
 }
 
+// ============================================================================
+// Explicit AC Links
+// ============================================================================
+
+/** AC ids such as REQ-3.2.4 or AC-001 */
+const AC_ID_PATTERN = '[A-Z]+-\\d+(?:\\.\\d+)*';
+
+/** `@ac REQ-3.2.4`, optionally followed by more comma-separated ids */
+const AC_ANNOTATION_REGEX = new RegExp(`@ac\\s+(${AC_ID_PATTERN}(?:\\s*,\\s*${AC_ID_PATTERN})*)`, 'g');
+
+/** `[REQ-3.2.4]` in a test name */
+const AC_TAG_REGEX = new RegExp(`\\[(${AC_ID_PATTERN})\\]`, 'g');
+
+/** Title of a test or suite declared on a line */
+const TEST_TITLE_REGEX = /\b(?:it|test|describe)(?:\.\w+)*\(\s*(['"`])(.*?)\1/;
+
+/**
+ * Explicit links per AC id and references to unknown ACs
+ */
+interface ExplicitLinks {
+  links: Map<string, TraceLink[]>;
+  references: Map<string, CodeReference[]>;
+  unresolved: ACReference[];
+}
+
+/**
+ * Find the AC references of a file: `@ac` annotations anywhere, and
+ * `[id]` tags in test and suite titles of test files
+ */
+export function findACReferences(file: string, content: string): ACReference[] {
+  const references: ACReference[] = [];
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    for (const match of lines[i].matchAll(AC_ANNOTATION_REGEX)) {
+      for (const acId of match[1].split(/\s*,\s*/)) {
+        references.push({ acId, file, line: i + 1 });
+      }
+    }
+
+    const test = isTestFile(file) ? lines[i].match(TEST_TITLE_REGEX)?.[2] : undefined;
+    for (const match of test?.matchAll(AC_TAG_REGEX) ?? []) {
+      references.push({ acId: match[1], file, line: i + 1, test });
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Collect the explicit links of the ACs from the touched, implementation
+ * and tested files, and from the names of the reported tests
+ */
+async function collectExplicitLinks(inputs: TraceStepInputs): Promise<ExplicitLinks> {
+  const knownIds = new Set((inputs.acceptanceCriteria || []).map(ac => ac.id));
+  const testResults = inputs.testResults || [];
+  const files = [...new Set([
+    ...(inputs.touchedFiles || []),
+    ...(inputs.implementationFiles || []),
+    ...testResults.map(testResult => testResult.file).filter(Boolean)
+  ])];
+
+  const references: Array<ACReference & { snippet?: string }> = [];
+  for (const file of files) {
+    try {
+      const content = await readFile(join(inputs.workspacePath, file), 'utf-8');
+      const lines = content.split('\n');
+      references.push(...findACReferences(file, content).map(reference => ({
+        ...reference,
+        snippet: lines[reference.line! - 1].trim()
+      })));
+    } catch (error) {
+      // Unreadable files contribute no annotations
+    }
+  }
+
+  // Tagged tests whose titles were not found in their file, e.g. generated names
+  for (const testResult of testResults) {
+    for (const match of testResult.name.matchAll(AC_TAG_REGEX)) {
+      const acId = match[1];
+      if (!references.some(reference => reference.acId === acId && reference.file === testResult.file && reference.test)) {
+        references.push({ acId, file: testResult.file, test: testResult.name });
+      }
+    }
+  }
+
+  const explicitLinks: ExplicitLinks = { links: new Map(), references: new Map(), unresolved: [] };
+  for (const { snippet, ...reference } of references) {
+    if (!knownIds.has(reference.acId)) {
+      explicitLinks.unresolved.push(reference);
+      continue;
+    }
+
+    const links = explicitLinks.links.get(reference.acId) || [];
+    links.push({
+      file: reference.file,
+      kind: isTestFile(reference.file) ? 'test' : 'implementation',
+      source: 'explicit',
+      confidence: 100,
+      line: reference.line,
+      test: reference.test
+    });
+    explicitLinks.links.set(reference.acId, links);
+
+    if (reference.line !== undefined && snippet !== undefined) {
+      const codeReferences = explicitLinks.references.get(reference.acId) || [];
+      codeReferences.push({
+        file: reference.file,
+        line: reference.line,
+        snippet,
+        type: determineReferenceType(snippet, reference.file)
+      });
+      explicitLinks.references.set(reference.acId, codeReferences);
+    }
+  }
+
+  return explicitLinks;
+}
+
+/**
+ * Summarize the outcomes of the tests linked to an AC. Links naming a
+ * test match the results containing that name; other links match every
+ * result of their file.
+ */
+function summarizeTestOutcomes(testLinks: TraceLink[], testResults: TestResult[] = []): TestOutcomeSummary {
+  const summary: TestOutcomeSummary = { passed: 0, failed: 0, skipped: 0, failedTests: [] };
+
+  for (const testResult of testResults) {
+    const linked = testLinks.some(link =>
+      link.file === testResult.file && (!link.test || testResult.name.includes(link.test))
+    );
+    if (!linked) {
+      continue;
+    }
+
+    summary[testResult.status]++;
+    if (testResult.status === 'failed') {
+      summary.failedTests.push(testResult.name);
+    }
+  }
+
+  return summary;
+}
+
 // ============================================================================
 // Traceability Matrix Generation
 // ============================================================================
@@ -206,28 +419,49 @@ export interface CodeReference {
 /**
  * Generate traceability matrix mapping ACs to implementations and tests
  */
-async function generateTraceabilityMatrix(inputs: TraceStepInputs): Promise<TraceabilityMatrix> {
+async function generateTraceabilityMatrix(inputs: TraceStepInputs, explicitLinks: ExplicitLinks): Promise<TraceabilityMatrix> {
   const matrix: TraceabilityMatrix = {};
   
   try {
     const acceptanceCriteria = inputs.acceptanceCriteria || [];
     
     for (const ac of acceptanceCriteria) {
-      // Find implementation files for this AC
-      const implementationFiles = await findImplementationFiles(ac, inputs);
-      
-      // Find test files for this AC
-      const testFiles = await findTestFiles(ac, inputs);
+      const explicit = explicitLinks.links.get(ac.id) || [];
+      const explicitImplementation = explicit.filter(link => link.kind === 'implementation');
+      const explicitTests = explicit.filter(link => link.kind === 'test');
+
+      // Explicit links replace keyword inference for their kind
+      const implementationLinks = explicitImplementation.length > 0
+        ? explicitImplementation
+        : await findImplementationFiles(ac, inputs);
+      const testLinks = explicitTests.length > 0
+        ? explicitTests
+        : await findTestFiles(ac, inputs);
+      const links = [...implementationLinks, ...testLinks]
+        .sort((a, b) => Number(b.source === 'explicit') - Number(a.source === 'explicit'));
+
+      const implementationFiles = [...new Set(implementationLinks.map(link => link.file))];
+      const testFiles = [...new Set(testLinks.map(link => link.file))];
       
-      // Find code references
-      const codeReferences = await findCodeReferences(ac, inputs);
+      // Find code references, annotations first
+      const annotations = explicitLinks.references.get(ac.id) || [];
+      const codeReferences = [
+        ...annotations,
+        ...(await findCodeReferences(ac, inputs)).filter(reference =>
+          !annotations.some(annotation => annotation.file === reference.file && annotation.line === reference.line)
+        )
+      ];
       
       // Calculate coverage
       const coveragePercentage = calculateACCoverage(implementationFiles, testFiles, codeReferences);
       const covered = coveragePercentage >= 80; // 80% threshold for "covered"
+
+      // A covered AC is only met once its linked tests ran and passed
+      const testOutcomes = summarizeTestOutcomes(testLinks, inputs.testResults);
+      const met = covered && testOutcomes.passed > 0 && testOutcomes.failed === 0;
       
       // Collect evidence
-      const evidence = await collectACEvidence(ac, implementationFiles, testFiles, inputs);
+      const evidence = collectACEvidence(implementationLinks, testLinks, testOutcomes);
       
       matrix[ac.id] = {
         description: ac.description,
@@ -236,7 +470,14 @@ async function generateTraceabilityMatrix(inputs: TraceStepInputs): Promise<Trac
         covered,
         coveragePercentage,
         evidence,
-        codeReferences
+        codeReferences,
+        links,
+        linkSource: explicit.length > 0 ? 'explicit' : links.length > 0 ? 'inferred' : 'none',
+        confidence: links.length > 0
+          ? Math.round(links.reduce((sum, link) => sum + link.confidence, 0) / links.length)
+          : 0,
+        testOutcomes,
+        met
       };
     }
     
@@ -250,8 +491,8 @@ async function generateTraceabilityMatrix(inputs: TraceStepInputs): Promise<Trac
 /**
  * Find implementation files that address a specific AC
  */
-async function findImplementationFiles(ac: AcceptanceCriterion, inputs: TraceStepInputs): Promise<string[]> {
-  const implementationFiles: string[] = [];
+async function findImplementationFiles(ac: AcceptanceCriterion, inputs: TraceStepInputs): Promise<TraceLink[]> {
+  const implementationFiles: TraceLink[] = [];
   
   try {
     // Extract keywords from AC description
@@ -263,7 +504,7 @@ async function findImplementationFiles(ac: AcceptanceCriterion, inputs: TraceSte
         if (isImplementationFile(file)) {
           const relevance = await calculateFileRelevance(file, keywords, inputs.workspacePath);
           if (relevance > 0.3) { // 30% relevance threshold
-            implementationFiles.push(file);
+            implementationFiles.push(inferredLink(file, 'implementation', relevance));
           }
         }
       }
@@ -274,7 +515,7 @@ async function findImplementationFiles(ac: AcceptanceCriterion, inputs: TraceSte
       for (const file of inputs.implementationFiles) {
         const relevance = await calculateFileRelevance(file, keywords, inputs.workspacePath);
         if (relevance > 0.3) {
-          implementationFiles.push(file);
+          implementationFiles.push(inferredLink(file, 'implementation', relevance));
         }
       }
     }
@@ -282,21 +523,22 @@ async function findImplementationFiles(ac: AcceptanceCriterion, inputs: TraceSte
     // If no files found, search more broadly
     if (implementationFiles.length === 0) {
       const broadSearchFiles = await searchImplementationFiles(keywords, inputs.workspacePath);
-      implementationFiles.push(...broadSearchFiles);
+      // Broad matches only pass the relevance threshold
+      implementationFiles.push(...broadSearchFiles.map(file => inferredLink(file, 'implementation', 0.3)));
     }
     
   } catch (error) {
     // Implementation file search failed
   }
   
-  return [...new Set(implementationFiles)]; // Remove duplicates
+  return uniqueLinks(implementationFiles);
 }
 
 /**
  * Find test files that verify a specific AC
  */
-async function findTestFiles(ac: AcceptanceCriterion, inputs: TraceStepInputs): Promise<string[]> {
-  const testFiles: string[] = [];
+async function findTestFiles(ac: AcceptanceCriterion, inputs: TraceStepInputs): Promise<TraceLink[]> {
+  const testFiles: TraceLink[] = [];
   
   try {
     // Extract keywords from AC description
@@ -308,7 +550,7 @@ async function findTestFiles(ac: AcceptanceCriterion, inputs: TraceStepInputs):
         if (testResult.file && isTestFile(testResult.file)) {
           const relevance = await calculateFileRelevance(testResult.file, keywords, inputs.workspacePath);
           if (relevance > 0.2) { // 20% relevance threshold for tests
-            testFiles.push(testResult.file);
+            testFiles.push(inferredLink(testResult.file, 'test', relevance));
           }
         }
       }
@@ -320,7 +562,7 @@ async function findTestFiles(ac: AcceptanceCriterion, inputs: TraceStepInputs):
         if (isTestFile(file)) {
           const relevance = await calculateFileRelevance(file, keywords, inputs.workspacePath);
           if (relevance > 0.2) {
-            testFiles.push(file);
+            testFiles.push(inferredLink(file, 'test', relevance));
           }
         }
       }
@@ -330,7 +572,28 @@ async function findTestFiles(ac: AcceptanceCriterion, inputs: TraceStepInputs):
     // Test file search failed
   }
   
-  return [...new Set(testFiles)]; // Remove duplicates
+  return uniqueLinks(testFiles);
+}
+
+/**
+ * Link inferred from the keyword relevance (0-1) of a file
+ */
+function inferredLink(file: string, kind: TraceLink['kind'], relevance: number): TraceLink {
+  return { file, kind, source: 'inferred', confidence: Math.round(relevance * 100) };
+}
+
+/**
+ * Keep the most confident link of each file
+ */
+function uniqueLinks(links: TraceLink[]): TraceLink[] {
+  const byFile = new Map<string, TraceLink>();
+  for (const link of links) {
+    const existing = byFile.get(link.file);
+    if (!existing || link.confidence > existing.confidence) {
+      byFile.set(link.file, link);
+    }
+  }
+  return [...byFile.values()];
 }
 
 /**
@@ -494,29 +757,42 @@ function calculateACCoverage(implementationFiles: string[], testFiles: string[],
 /**
  * Collect evidence for AC implementation
  */
-async function collectACEvidence(
-  ac: AcceptanceCriterion, 
-  implementationFiles: string[], 
-  testFiles: string[], 
-  inputs: TraceStepInputs
-): Promise<string[]> {
+function collectACEvidence(
+  implementationLinks: TraceLink[], 
+  testLinks: TraceLink[], 
+  testOutcomes: TestOutcomeSummary
+): string[] {
   const evidence: string[] = [];
   
-  if (implementationFiles.length > 0) {
-    evidence.push(`Implementation found in ${implementationFiles.length} file(s): ${implementationFiles.join(', ')}`);
+  if (implementationLinks.length > 0) {
+    evidence.push(`Implementation found in ${implementationLinks.length} location(s): ${implementationLinks.map(describeLink).join(', ')}`);
   }
   
-  if (testFiles.length > 0) {
-    evidence.push(`Tests found in ${testFiles.length} file(s): ${testFiles.join(', ')}`);
+  if (testLinks.length > 0) {
+    evidence.push(`Tests found in ${testLinks.length} location(s): ${testLinks.map(describeLink).join(', ')}`);
+
+    const ran = testOutcomes.passed + testOutcomes.failed + testOutcomes.skipped;
+    evidence.push(ran > 0
+      ? `Linked tests: ${testOutcomes.passed} passed, ${testOutcomes.failed} failed, ${testOutcomes.skipped} skipped`
+      : 'No results for the linked tests');
   }
   
-  if (implementationFiles.length === 0 && testFiles.length === 0) {
+  if (implementationLinks.length === 0 && testLinks.length === 0) {
     evidence.push('No implementation or tests found for this acceptance criterion');
   }
   
   return evidence;
 }
 
+/**
+ * Describe a link as its location, with the confidence of inferred links
+ */
+function describeLink(link: TraceLink): string {
+  const location = link.line !== undefined ? `${link.file}:${link.line}` : link.file;
+  const target = link.test ? `${location} "${link.test}"` : location;
+  return link.source === 'explicit' ? target : `${target} (inferred, ${link.confidence}% confidence)`;
+}
+
 // ============================================================================
 // AC Implementation Mapping
 // ============================================================================
@@ -524,49 +800,32 @@ async function collectACEvidence(
 /**
  * Map ACs to implementation files with detailed analysis
  */
-async function mapACsToImplementation(inputs: TraceStepInputs): Promise<ACImplementationMapping> {
+function mapACsToImplementation(matrix: TraceabilityMatrix): ACImplementationMapping {
   const mapping: ACImplementationMapping = {};
   
-  try {
-    const acceptanceCriteria = inputs.acceptanceCriteria || [];
+  for (const [acId, traceInfo] of Object.entries(matrix)) {
+    // Most confident implementation files first
+    const implementationFiles = uniqueLinks(traceInfo.links.filter(link => link.kind === 'implementation'))
+      .sort((a, b) => b.confidence - a.confidence)
+      .map(link => link.file);
     
-    for (const ac of acceptanceCriteria) {
-      const implementationFiles = await findImplementationFiles(ac, inputs);
-      const testFiles = await findTestFiles(ac, inputs);
-      
-      // Categorize implementation files
-      const primaryFiles = implementationFiles.slice(0, 2); // Top 2 most relevant
-      const supportingFiles = implementationFiles.slice(2);
-      
-      // Determine implementation status
-      let status: 'complete' | 'partial' | 'missing';
-      let confidence: number;
-      
-      if (implementationFiles.length === 0) {
-        status = 'missing';
-        confidence = 0;
-      } else if (implementationFiles.length >= 1 && testFiles.length >= 1) {
-        status = 'complete';
-        confidence = 90;
-      } else if (implementationFiles.length >= 1) {
-        status = 'partial';
-        confidence = 60;
-      } else {
-        status = 'missing';
-        confidence = 20;
-      }
-      
-      mapping[ac.id] = {
-        primaryFiles,
-        supportingFiles,
-        testFiles,
-        status,
-        confidence
-      };
+    // Determine implementation status; complete requires passing linked tests
+    let status: 'complete' | 'partial' | 'missing';
+    if (implementationFiles.length === 0) {
+      status = 'missing';
+    } else if (traceInfo.met) {
+      status = 'complete';
+    } else {
+      status = 'partial';
     }
     
-  } catch (error) {
-    // Mapping failed
+    mapping[acId] = {
+      primaryFiles: implementationFiles.slice(0, 2), // Top 2 most relevant
+      supportingFiles: implementationFiles.slice(2),
+      testFiles: traceInfo.testFiles,
+      status,
+      confidence: traceInfo.confidence
+    };
   }
   
   return mapping;
@@ -584,7 +843,7 @@ async function identifyUnmetACs(inputs: TraceStepInputs, matrix: TraceabilityMat
   
   try {
     for (const [acId, traceInfo] of Object.entries(matrix)) {
-      if (!traceInfo.covered || traceInfo.coveragePercentage < 50) {
+      if (!traceInfo.met) {
         unmetACs.push(acId);
       }
     }
@@ -608,7 +867,7 @@ async function detectMissingImplementations(inputs: TraceStepInputs, matrix: Tra
   
   try {
     for (const [acId, traceInfo] of Object.entries(matrix)) {
-      if (!traceInfo.covered) {
+      if (!traceInfo.met) {
         const missingAspects: string[] = [];
         let priority: 'Critical' | 'High' | 'Medium' | 'Low' = 'Medium';
         
@@ -622,6 +881,13 @@ async function detectMissingImplementations(inputs: TraceStepInputs, matrix: Tra
           if (priority !== 'Critical') priority = 'High';
         }
         
+        if (traceInfo.testOutcomes.failed > 0) {
+          missingAspects.push('Passing tests');
+          if (priority !== 'Critical') priority = 'High';
+        } else if (traceInfo.testFiles.length > 0 && traceInfo.testOutcomes.passed === 0) {
+          missingAspects.push('Test results');
+        }
+        
         if (traceInfo.codeReferences.length === 0) {
           missingAspects.push('Code documentation/comments');
           if (priority === 'Medium') priority = 'Low';
@@ -660,6 +926,14 @@ function generateImplementationSuggestion(description: string, missingAspects: s
     suggestion += 'Add unit and integration tests to verify the implementation. ';
   }
   
+  if (missingAspects.includes('Passing tests')) {
+    suggestion += 'Fix the failing tests linked to the acceptance criterion. ';
+  }
+  
+  if (missingAspects.includes('Test results')) {
+    suggestion += 'Run the linked tests so the acceptance criterion can be verified. ';
+  }
+  
   if (missingAspects.includes('Code documentation/comments')) {
     suggestion += 'Add code comments and documentation to explain the implementation. ';
   }
@@ -693,6 +967,8 @@ async function generateCoverageReport(inputs: TraceStepInputs, matrix: Traceabil
     let implementedACs = 0;
     let testedACs = 0;
     let fullyCoveredACs = 0;
+    let metACs = 0;
+    let explicitlyLinkedACs = 0;
     
     for (const traceInfo of Object.values(matrix)) {
       if (traceInfo.implementationFiles.length > 0) {
@@ -706,6 +982,14 @@ async function generateCoverageReport(inputs: TraceStepInputs, matrix: Traceabil
       if (traceInfo.covered) {
         fullyCoveredACs++;
       }
+      
+      if (traceInfo.met) {
+        metACs++;
+      }
+      
+      if (traceInfo.linkSource === 'explicit') {
+        explicitlyLinkedACs++;
+      }
     }
     
     const coveragePercentage = totalACs > 0 ? Math.round((fullyCoveredACs / totalACs) * 100) : 0;
@@ -723,6 +1007,10 @@ async function generateCoverageReport(inputs: TraceStepInputs, matrix: Traceabil
       gapsSummary.push(`${totalACs - testedACs} ACs lack test coverage`);
     }
     
+    if (metACs < totalACs) {
+      gapsSummary.push(`${totalACs - metACs} ACs are not verified by passing tests`);
+    }
+    
     if (coveragePercentage < 80) {
       gapsSummary.push('Overall coverage below 80% threshold');
     }
@@ -732,6 +1020,8 @@ async function generateCoverageReport(inputs: TraceStepInputs, matrix: Traceabil
       implementedACs,
       testedACs,
       fullyCoveredACs,
+      metACs,
+      explicitlyLinkedACs,
       coveragePercentage,
       implementationCoverage,
       testCoverage,
@@ -745,6 +1035,8 @@ async function generateCoverageReport(inputs: TraceStepInputs, matrix: Traceabil
       implementedACs: 0,
       testedACs: 0,
       fullyCoveredACs: 0,
+      metACs: 0,
+      explicitlyLinkedACs: 0,
       coveragePercentage: 0,
       implementationCoverage: 0,
       testCoverage: 0,
@@ -777,6 +1069,36 @@ async function addTraceabilityEvidence(
     });
   }
   
+  // Add evidence for ACs whose linked tests fail
+  const failingACs = Object.entries(outputs.traceabilityMatrix)
+    .filter(([, traceInfo]) => traceInfo.testOutcomes.failed > 0);
+  if (failingACs.length > 0) {
+    evidence.push({
+      type: "test_failure",
+      severity: "Major",
+      location: "Requirements traceability",
+      description: `${failingACs.length} acceptance criteria have failing linked tests`,
+      proof: failingACs
+        .map(([acId, traceInfo]) => `${acId}: ${traceInfo.testOutcomes.failedTests.join(', ')}`)
+        .join('; '),
+      suggestedFix: "Fix the failing tests before treating these acceptance criteria as met"
+    });
+  }
+  
+  // Add evidence for annotations naming unknown ACs
+  if (outputs.unresolvedReferences.length > 0) {
+    evidence.push({
+      type: "documentation_gap",
+      severity: "Minor",
+      location: "Requirements traceability",
+      description: `${outputs.unresolvedReferences.length} AC references name acceptance criteria that do not exist`,
+      proof: outputs.unresolvedReferences
+        .map(reference => `${reference.line !== undefined ? `${reference.file}:${reference.line}` : reference.file} ${reference.acId}`)
+        .join(', '),
+      suggestedFix: "Update the annotations to the ids of the current requirements document"
+    });
+  }
+  
   // Add evidence for missing implementations
   const criticalMissing = outputs.missingImplementations.filter(m => m.priority === 'Critical');
   if (criticalMissing.length > 0) {
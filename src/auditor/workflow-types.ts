@@ -232,6 +232,22 @@ export interface StaticStepOutputs {
   typeCheckResults: TypeCheckResult[];
   /** Detected code smells */
   codeSmells: CodeSmell[];
+  /** How each static analysis tool was run */
+  toolRuns?: StaticToolRun[];
+}
+
+/**
+ * Execution status of a static analysis tool
+ */
+export interface StaticToolRun {
+  /** Tool name */
+  tool: "eslint" | "typescript";
+  /** Whether the tool ran or why it was skipped */
+  status: "completed" | "not_installed" | "not_configured" | "failed";
+  /** Number of files analyzed */
+  filesAnalyzed: number;
+  /** Explanation when the tool did not complete */
+  detail?: string;
 }
 
 /**
@@ -252,6 +268,8 @@ export interface LintResult {
   message: string;
   /** Suggested fix */
   fix?: string;
+  /** Whether the tool can fix this issue automatically */
+  fixable?: boolean;
 }
 
 /**
@@ -261,6 +261,45 @@ describe('ProcessManager', () => {
     });
   });
 
+  describe('Cancellation', () => {
+    it('should kill a running process when its signal is aborted', async () => {
+      let currentChild: MockChildProcess;
+      mockSpawn.mockImplementation(() => {
+        currentChild = new MockChildProcess();
+        currentChild.pid = 1000 + processCount++;
+        return currentChild as any;
+      });
+
+      const controller = new AbortController();
+      const executePromise = processManager.executeCommand('sleep', ['10'], {
+        workingDirectory: '/tmp',
+        timeout: 5000,
+        environment: {},
+        signal: controller.signal,
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+      controller.abort();
+
+      await expect(executePromise).rejects.toThrow('Audit cancelled');
+      expect(currentChild!.kill).toHaveBeenCalledWith('SIGTERM');
+      expect(processManager.getHealthStatus().failedExecutions).toBe(0);
+    });
+
+    it('should reject without spawning when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(processManager.executeCommand('echo', ['hello'], {
+        workingDirectory: '/tmp',
+        timeout: 1000,
+        environment: {},
+        signal: controller.signal,
+      })).rejects.toThrow('Audit cancelled');
+      expect(mockSpawn).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Concurrent Process Limiting', () => {
     it('should limit concurrent processes and queue additional ones', async () => {
       const promises: Promise<any>[] = [];
@@ -10,6 +10,7 @@
  * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5
  */
 
+import { createHash } from 'crypto';
 import type {
   ICodexJudge,
 } from '../types/integration-types.js';
@@ -21,6 +22,7 @@ import type {
   JudgeCard,
   InlineComment,
   ReviewDetails,
+  GeneratedCandidate,
 } from '../types/gan-types.js';
 import { DEFAULT_AUDIT_RUBRIC } from '../types/gan-types.js';
 import { ProcessManager, type ProcessExecutionOptions, type ProcessResult } from './process-manager.js';
@@ -28,6 +30,7 @@ import { EnvironmentManager, type WorkingDirectoryResult, type EnvironmentResult
 import { CodexValidator, type CodexValidationResult } from './codex-validator.js';
 import { errorDiagnosticSystem, type CodexDiagnostic, type ExecutionContext } from '../utils/error-diagnostic-system.js';
 import { logger, createComponentLogger } from '../utils/logger.js';
+import { AuditCancelledError } from '../types/error-types.js';
 
 /**
  * Configuration for production Codex CLI execution
@@ -41,6 +44,8 @@ export interface CodexJudgeConfig {
   processCleanupTimeout: number;
   enableDebugLogging: boolean;
   failFast: boolean; // No fallbacks allowed in production
+  model?: string; // Codex model override (--model)
+  profile?: string; // Codex config profile (--profile)
 }
 
 /**
@@ -164,6 +169,17 @@ export class CodexResponseError extends Error {
   }
 }
 
+/**
+ * Request the audit prompt template is rendered with to hash it
+ */
+const PROMPT_TEMPLATE_PROBE: AuditRequest = {
+  task: '{task}',
+  candidate: '{candidate}',
+  contextPack: '{context}',
+  rubric: DEFAULT_AUDIT_RUBRIC,
+  budget: { maxCycles: 1, candidates: 1, threshold: 0 },
+};
+
 /**
  * Production implementation of Codex CLI integration for GAN auditing
  * 
@@ -182,6 +198,7 @@ export class CodexJudge implements ICodexJudge {
   private readonly codexValidator: CodexValidator;
   private readonly componentLogger = createComponentLogger('codex-judge');
   private isInitialized = false;
+  private promptConfigHash?: string;
 
   constructor(config: Partial<CodexJudgeConfig> = {}) {
     this.config = {
@@ -231,7 +248,7 @@ export class CodexJudge implements ICodexJudge {
    * Execute audit using Codex CLI with production-ready process management
    * Requirements: 1.1, 1.2, 1.5 - Execute actual Codex CLI without any mock fallback
    */
-  async executeAudit(request: AuditRequest): Promise<GanReview> {
+  async executeAudit(request: AuditRequest, signal?: AbortSignal): Promise<GanReview> {
     // Ensure system is initialized and validated
     await this.ensureInitialized();
 
@@ -239,7 +256,7 @@ export class CodexJudge implements ICodexJudge {
       workingDirectory: this.config.workingDirectory || process.cwd(),
       requestTimestamp: Date.now(),
       command: this.config.executable,
-      arguments: ['exec', '--sandbox', 'read-only', '--json', '--skip-git-repo-check'],
+      arguments: ['exec', ...this.getModelArguments(), '--sandbox', 'read-only', '--json', '--skip-git-repo-check'],
     };
 
     this.componentLogger.debug('Starting Codex audit execution', {
@@ -253,7 +270,11 @@ export class CodexJudge implements ICodexJudge {
     // Retry logic for robustness (but no fallbacks)
     for (let attempt = 0; attempt <= this.config.retries; attempt++) {
       try {
-        const response = await this.executeCodexCommandWithProcessManager(request, executionContext);
+        const response = await this.executeCodexCommandWithProcessManager(
+          this.generateAuditPrompt(request),
+          executionContext,
+          signal
+        );
         const result = this.parseCodexResponse(response);
         
         this.componentLogger.info('Codex audit completed successfully', {
@@ -264,6 +285,11 @@ export class CodexJudge implements ICodexJudge {
         
         return result;
       } catch (error) {
+        // Cancellation is neither retried nor diagnosed
+        if (error instanceof AuditCancelledError) {
+          throw error;
+        }
+
         lastError = error as Error;
         
         this.componentLogger.warn('Codex execution attempt failed', {
@@ -290,6 +316,7 @@ export class CodexJudge implements ICodexJudge {
           const delay = Math.pow(2, attempt) * 1000;
           this.componentLogger.debug('Waiting before retry', { delay, nextAttempt: attempt + 2 });
           await this.delay(delay);
+          AuditCancelledError.throwIfAborted(signal);
         }
       }
     }
@@ -306,6 +333,48 @@ export class CodexJudge implements ICodexJudge {
     throw new Error('Unknown error during Codex execution - no fallback available');
   }
 
+  /**
+   * Ask Codex for alternative fixes of an audited candidate
+   * Each candidate carries revised code so the judges can score it in place of the original.
+   */
+  async generateCandidates(
+    request: AuditRequest,
+    review: GanReview,
+    count: number,
+    signal?: AbortSignal
+  ): Promise<GeneratedCandidate[]> {
+    await this.ensureInitialized();
+
+    const executionContext: ExecutionContext = {
+      workingDirectory: this.config.workingDirectory || process.cwd(),
+      requestTimestamp: Date.now(),
+      command: this.config.executable,
+      arguments: ['exec', ...this.getModelArguments(), '--sandbox', 'read-only', '--json', '--skip-git-repo-check'],
+    };
+
+    try {
+      const response = await this.executeCodexCommandWithProcessManager(
+        this.generateCandidatePrompt(request, review, count),
+        executionContext,
+        signal
+      );
+      const candidates = this.parseCandidateResponse(response, count);
+
+      this.componentLogger.info('Codex candidate generation completed', {
+        requested: count,
+        generated: candidates.length,
+      });
+
+      return candidates;
+    } catch (error) {
+      if (error instanceof AuditCancelledError) {
+        throw error;
+      }
+      const diagnostic = await errorDiagnosticSystem.diagnoseCodexError(error as Error, executionContext);
+      throw this.createEnhancedError(error as Error, diagnostic);
+    }
+  }
+
   /**
    * Ensure the system is initialized and Codex CLI is available
    * Requirements: 1.3, 1.4 - Validate Codex CLI before accepting requests
@@ -369,6 +438,19 @@ export class CodexJudge implements ICodexJudge {
     }
   }
 
+  /**
+   * Identity of this judge for audit cache keys. The prompt hash comes from
+   * rendering the audit prompt template, so any template change invalidates
+   * cached reviews.
+   */
+  getCacheIdentity(): { judge: string; promptConfigHash: string } {
+    this.promptConfigHash ??= createHash('sha256').update(this.generateAuditPrompt(PROMPT_TEMPLATE_PROBE)).digest('hex');
+    return {
+      judge: `codex-cli:${this.config.model ?? 'default'}:${this.config.profile ?? 'default'}`,
+      promptConfigHash: this.promptConfigHash,
+    };
+  }
+
   /**
    * Get active process count from process manager
    * Requirements: 6.1 - Process management integration
@@ -398,8 +480,9 @@ export class CodexJudge implements ICodexJudge {
    * Requirements: 1.1, 1.3 - Reliable execution with proper process management
    */
   private async executeCodexCommandWithProcessManager(
-    request: AuditRequest, 
-    context: ExecutionContext
+    prompt: string, 
+    context: ExecutionContext,
+    signal?: AbortSignal
   ): Promise<string> {
     // Resolve working directory
     const workingDirResult = await this.environmentManager.resolveWorkingDirectory(
@@ -424,16 +507,14 @@ export class CodexJudge implements ICodexJudge {
       );
     }
 
-    // Generate audit prompt
-    const auditPrompt = this.generateAuditPrompt(request);
-    
     // Prepare command arguments
     const args = [
       'exec',
+      ...this.getModelArguments(),
       '--sandbox', 'read-only',
       '--json',
       '--skip-git-repo-check',
-      auditPrompt
+      prompt
     ];
 
     // Execute using ProcessManager
@@ -442,6 +523,7 @@ export class CodexJudge implements ICodexJudge {
       timeout: this.config.timeout,
       environment: envResult.environment,
       input: undefined, // No stdin input needed for this command
+      signal,
     };
 
     this.componentLogger.debug('Executing Codex CLI command', {
@@ -488,6 +570,20 @@ export class CodexJudge implements ICodexJudge {
     return result.stdout;
   }
 
+  /**
+   * Model and profile selection arguments for Codex CLI
+   */
+  private getModelArguments(): string[] {
+    const args: string[] = [];
+    if (this.config.model) {
+      args.push('--model', this.config.model);
+    }
+    if (this.config.profile) {
+      args.push('--profile', this.config.profile);
+    }
+    return args;
+  }
+
   /**
    * Generate structured audit prompt for Codex CLI with proper input validation
    * Requirements: 1.1, 1.3 - Fix command argument generation for reliable execution
@@ -547,6 +643,44 @@ Required JSON format:
     return prompt;
   }
 
+  /**
+   * Generate prompt asking for alternative fixes, guided by the audit findings
+   */
+  private generateCandidatePrompt(request: AuditRequest, review: GanReview, count: number): string {
+    this.validateAuditRequest(request);
+
+    const findings = review.review.inline
+      .map(comment => `- ${comment.path}:${comment.line} ${comment.comment}`)
+      .join('\n');
+    const sanitizedContext = this.sanitizeInput(request.contextPack || '');
+
+    return `You are a senior engineer. Propose ${count} alternative fixes for the code below, each taking a different approach to the audit findings.
+
+TASK: ${this.sanitizeInput(request.task)}
+
+CODE:
+\`\`\`
+${this.sanitizeInput(request.candidate)}
+\`\`\`
+
+${sanitizedContext ? `CONTEXT: ${sanitizedContext}` : ''}
+
+AUDIT SUMMARY: ${this.sanitizeInput(review.review.summary)}
+${findings ? `AUDIT FINDINGS:\n${this.sanitizeInput(findings)}` : ''}
+
+EVALUATION CRITERIA:
+${this.formatRubricDimensions(request.rubric)}
+
+CRITICAL: Respond with ONLY a valid JSON object. No markdown formatting, no additional text.
+
+Required JSON format:
+{
+  "candidates": [
+    {"summary": "<approach in one sentence>", "code": "<complete revised code>", "proposed_diff": "<unified diff against the original>"}
+  ]
+}`;
+  }
+
   /**
    * Validate audit request parameters
    * Requirements: 1.1, 1.3 - Add proper input handling and validation
@@ -679,23 +813,38 @@ Required JSON format:
    * Requirements: 1.2, 4.1 - Strict response validation without fallbacks
    */
   private parseCodexJsonLines(rawResponse: string): CodexRawResponse {
+    const agentMessage = this.extractAgentMessage(rawResponse);
+
+    // Try to parse the agent message as JSON first
+    try {
+      const directJson = JSON.parse(agentMessage);
+      if (this.isValidCodexResponse(directJson)) {
+        return directJson;
+      }
+    } catch {
+      // Agent message is not direct JSON, try to extract JSON from it
+    }
+
+    // Extract JSON from natural language response
+    return this.extractJsonFromNaturalLanguage(agentMessage);
+  }
+
+  /**
+   * Find the agent message in Codex CLI JSONL output
+   */
+  private extractAgentMessage(rawResponse: string): string {
     const lines = rawResponse.trim().split('\n').filter(line => line.trim().length > 0);
     
     if (lines.length === 0) {
       throw new CodexResponseError('Empty JSONL response from Codex CLI', rawResponse);
     }
 
-    let agentMessage = '';
-    let foundAgentMessage = false;
-    
     // Find the agent_message line which contains the actual response
     for (const line of lines) {
       try {
         const parsed = JSON.parse(line);
-        if (parsed.msg && parsed.msg.type === 'agent_message') {
-          agentMessage = parsed.msg.message;
-          foundAgentMessage = true;
-          break;
+        if (parsed.msg && parsed.msg.type === 'agent_message' && parsed.msg.message) {
+          return parsed.msg.message;
         }
       } catch (parseError) {
         // Log but continue - some lines might not be JSON
@@ -707,25 +856,71 @@ Required JSON format:
       }
     }
 
-    if (!foundAgentMessage || !agentMessage) {
-      throw new CodexResponseError(
-        'No agent message found in Codex JSONL response',
-        rawResponse
-      );
+    throw new CodexResponseError(
+      'No agent message found in Codex JSONL response',
+      rawResponse
+    );
+  }
+
+  /**
+   * Parse generated candidates, keeping at most `count` entries with code or a diff
+   */
+  private parseCandidateResponse(rawResponse: string, count: number): GeneratedCandidate[] {
+    if (!rawResponse || rawResponse.trim().length === 0) {
+      throw new CodexResponseError('Empty response from Codex CLI', rawResponse);
     }
 
-    // Try to parse the agent message as JSON first
+    let message: string;
     try {
-      const directJson = JSON.parse(agentMessage);
-      if (this.isValidCodexResponse(directJson)) {
-        return directJson;
-      }
+      message = this.extractAgentMessage(rawResponse);
     } catch {
-      // Agent message is not direct JSON, try to extract JSON from it
+      message = rawResponse;
     }
 
-    // Extract JSON from natural language response
-    return this.extractJsonFromNaturalLanguage(agentMessage);
+    let parsed: any;
+    try {
+      parsed = JSON.parse(message);
+    } catch {
+      const jsonMatch = message.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new CodexResponseError('No JSON object found in Codex candidate response', message);
+      }
+      try {
+        parsed = JSON.parse(jsonMatch[0]);
+      } catch (parseError) {
+        throw new CodexResponseError(
+          `Failed to parse Codex candidate response: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
+          message
+        );
+      }
+    }
+
+    if (!parsed || !Array.isArray(parsed.candidates)) {
+      throw new CodexResponseError('Codex candidate response is missing a candidates array', message);
+    }
+
+    const candidates: GeneratedCandidate[] = [];
+    for (const raw of parsed.candidates) {
+      if (candidates.length >= count) break;
+      if (!raw || typeof raw !== 'object') continue;
+
+      const code = typeof raw.code === 'string' ? raw.code : '';
+      const diff = typeof raw.proposed_diff === 'string' && raw.proposed_diff.trim() ? raw.proposed_diff : null;
+      if (!code.trim() && !diff) continue;
+
+      candidates.push({
+        id: `candidate-${candidates.length + 1}`,
+        summary: typeof raw.summary === 'string' ? raw.summary : '',
+        code,
+        proposed_diff: diff,
+      });
+    }
+
+    if (candidates.length === 0) {
+      throw new CodexResponseError('Codex returned no usable candidates', message);
+    }
+
+    return candidates;
   }
 
   /**
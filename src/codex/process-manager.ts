@@ -9,6 +9,7 @@
 
 import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
+import { AuditCancelledError } from '../types/error-types.js';
 
 /**
  * Configuration options for process execution
@@ -20,6 +21,8 @@ export interface ProcessExecutionOptions {
   input?: string;
   maxRetries?: number;
   retryDelay?: number;
+  /** Aborting kills the process, or removes it from the queue */
+  signal?: AbortSignal;
 }
 
 /**
@@ -69,6 +72,7 @@ interface ProcessInfo {
   timeout: number;
   timeoutId?: NodeJS.Timeout;
   forceKillTimeoutId?: NodeJS.Timeout;
+  removeAbortListener?: () => void;
   resolve: (result: ProcessResult) => void;
   reject: (error: Error) => void;
   options: ProcessExecutionOptions;
@@ -160,6 +164,7 @@ export class ProcessManager extends EventEmitter {
     if (this.isShuttingDown) {
       throw new Error('ProcessManager is shutting down, cannot execute new processes');
     }
+    AuditCancelledError.throwIfAborted(options.signal);
 
     // Check if we can execute immediately or need to queue
     if (this.activeProcesses.size >= this.config.maxConcurrentProcesses) {
@@ -297,6 +302,13 @@ export class ProcessManager extends EventEmitter {
         // Set up process monitoring
         this.setupProcessMonitoring(processId, processInfo);
 
+        // Kill the process when the caller cancels
+        if (options.signal) {
+          const onAbort = () => this.cancelProcess(processId, processInfo);
+          options.signal.addEventListener('abort', onAbort, { once: true });
+          processInfo.removeAbortListener = () => options.signal?.removeEventListener('abort', onAbort);
+        }
+
         // Handle input if provided
         if (options.input && child.stdin) {
           child.stdin.write(options.input);
@@ -341,14 +353,26 @@ export class ProcessManager extends EventEmitter {
         }
       }, this.config.queueTimeout);
 
+      // Leave the queue when the caller cancels
+      const onAbort = () => {
+        const index = this.queuedProcesses.indexOf(queuedProcess);
+        if (index !== -1) {
+          this.queuedProcesses.splice(index, 1);
+          queuedProcess.reject(new AuditCancelledError());
+        }
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
       // Clear timeout when process is dequeued
       queuedProcess.resolve = (result: ProcessResult) => {
         clearTimeout(queueTimeout);
+        options.signal?.removeEventListener('abort', onAbort);
         resolve(result);
       };
 
       queuedProcess.reject = (error: Error) => {
         clearTimeout(queueTimeout);
+        options.signal?.removeEventListener('abort', onAbort);
         reject(error);
       };
     });
@@ -423,6 +447,27 @@ export class ProcessManager extends EventEmitter {
     });
   }
 
+  /**
+   * Kill a cancelled process and release its slot right away
+   */
+  private cancelProcess(processId: number, processInfo: ProcessInfo): void {
+    const { process: child } = processInfo;
+
+    this.emit('process-cancelled', processId);
+    child.kill('SIGTERM');
+
+    // Force kill after the cleanup timeout; not cleared when the process completes
+    const forceKill = setTimeout(() => {
+      if (child.exitCode === null && child.signalCode === null) {
+        this.emit('process-force-kill', processId);
+        child.kill('SIGKILL');
+      }
+    }, this.config.processCleanupTimeout);
+    forceKill.unref();
+
+    this.completeProcessWithError(processId, new AuditCancelledError());
+  }
+
   /**
    * Set up process monitoring and event handling
    * Requirements: 6.1, 6.2, 6.5
@@ -483,6 +528,7 @@ export class ProcessManager extends EventEmitter {
     if (processInfo.forceKillTimeoutId) {
       clearTimeout(processInfo.forceKillTimeoutId);
     }
+    processInfo.removeAbortListener?.();
 
     // Update metrics
     this.updateMetrics(result);
@@ -517,9 +563,12 @@ export class ProcessManager extends EventEmitter {
     if (processInfo.forceKillTimeoutId) {
       clearTimeout(processInfo.forceKillTimeoutId);
     }
+    processInfo.removeAbortListener?.();
 
-    // Update metrics
-    this.metrics.failedExecutions++;
+    // Update metrics; a cancellation is not a failed execution
+    if (!(error instanceof AuditCancelledError)) {
+      this.metrics.failedExecutions++;
+    }
 
     // Remove from active processes
     this.activeProcesses.delete(processId);
@@ -214,7 +214,7 @@ describe('validateAndSanitizeConfig', () => {
       task: "Custom audit task",
       scope: "workspace",
       threshold: 95,
-      judges: ["model1", "model2"],
+      judges: ["codex:model1", "codex:model2"],
     };
 
     const result = validateAndSanitizeConfig(inlineConfig);
@@ -223,7 +223,7 @@ describe('validateAndSanitizeConfig', () => {
     expect(result.data?.task).toBe("Custom audit task");
     expect(result.data?.scope).toBe("workspace");
     expect(result.data?.threshold).toBe(95);
-    expect(result.data?.judges).toEqual(["model1", "model2"]);
+    expect(result.data?.judges).toEqual(["codex:model1", "codex:model2"]);
     expect(result.errors).toHaveLength(0);
   });
 
@@ -350,6 +350,14 @@ describe('validateAndSanitizeConfig', () => {
     expect(result.appliedDefaults.judges).toBe(DEFAULT_SESSION_CONFIG.judges);
   });
 
+  it('should reject judges whose kind is not registered', () => {
+    const result = validateAndSanitizeConfig({ judges: ["local", "gpt-judge:fast"] });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors[0]).toMatch(/^Unknown judges: gpt-judge:fast\. Available judge kinds: internal, codex/);
+    expect(result.data?.judges).toEqual(DEFAULT_SESSION_CONFIG.judges);
+  });
+
   it('should handle invalid applyFixes type', () => {
     const inlineConfig: Partial<InlineConfig> = {
       applyFixes: "true" as any, // String instead of boolean
@@ -362,6 +370,67 @@ describe('validateAndSanitizeConfig', () => {
     expect(result.appliedDefaults.applyFixes).toBe(DEFAULT_SESSION_CONFIG.applyFixes);
   });
 
+  it('should warn when writeBackFixes is set without applyFixes', () => {
+    const result = validateAndSanitizeConfig({ writeBackFixes: true });
+
+    expect(result.isValid).toBe(true);
+    expect(result.data?.writeBackFixes).toBe(true);
+    expect(result.warnings).toContain('writeBackFixes has no effect unless applyFixes is enabled');
+    expect(validateAndSanitizeConfig({ writeBackFixes: 'yes' as any }).errors)
+      .toContain('WriteBackFixes must be a boolean value');
+  });
+
+  it('should validate the commit range and let a range replace the refs', () => {
+    const refs = validateAndSanitizeConfig({ baseRef: 'main', headRef: 'feature' });
+    expect(refs.data).toMatchObject({ baseRef: 'main', headRef: 'feature' });
+
+    const range = validateAndSanitizeConfig({ range: 'main...feature' }, refs.data!);
+    expect(range.isValid).toBe(true);
+    expect(range.data).toMatchObject({ range: 'main...feature' });
+    expect(range.data?.baseRef).toBeUndefined();
+
+    expect(validateAndSanitizeConfig({ headRef: 'feature' }).errors).toContain('headRef requires baseRef');
+    expect(validateAndSanitizeConfig({ range: 'main' }).errors[0]).toContain('Invalid git range');
+    expect(validateAndSanitizeConfig({ range: 'a..b', baseRef: 'a' }).errors)
+      .toContain('Provide either range or baseRef/headRef, not both');
+  });
+
+  it('should validate benchmark entry points', () => {
+    const benchmarks = [{ file: 'src/math.ts', function: 'sum', args: [[1, 2, 3]] }];
+
+    expect(validateAndSanitizeConfig({ benchmarks }).data?.benchmarks).toEqual(benchmarks);
+    expect(validateAndSanitizeConfig({ benchmarks: [{ file: 'src/math.ts' }] as any }).errors)
+      .toContain('Benchmark entry points require string file and function');
+    expect(validateAndSanitizeConfig({ benchmarks: [{ file: 'a.ts', function: 'f', args: 1 }] as any }).errors)
+      .toContain('Benchmark a.ts#f args must be an array');
+  });
+
+  it('should accept a valid secretScan configuration', () => {
+    const secretScan = {
+      disabledRules: ['jwt'],
+      customRules: [{ id: 'acme', pattern: 'ACME-\\d+' }],
+      allowlist: { patterns: ['^test_'], paths: ['fixtures/**'] },
+      entropyThreshold: 4.5,
+    };
+
+    const result = validateAndSanitizeConfig({ secretScan });
+
+    expect(result.isValid).toBe(true);
+    expect(result.data?.secretScan).toEqual(secretScan);
+  });
+
+  it('should reject secretScan rules with invalid patterns', () => {
+    const inlineConfig: Partial<InlineConfig> = {
+      secretScan: { customRules: [{ id: 'broken', pattern: '(' }] },
+    };
+
+    const result = validateAndSanitizeConfig(inlineConfig);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('SecretScan rule broken has an invalid pattern');
+    expect(result.data?.secretScan).toBeUndefined();
+  });
+
   it('should handle non-integer maxCycles', () => {
     const inlineConfig: Partial<InlineConfig> = {
       maxCycles: 3.7, // Float value
@@ -392,14 +461,14 @@ describe('validateAndSanitizeConfig', () => {
     const inlineConfig: Partial<InlineConfig> = {
       scope: "paths",
       paths: ["src/", "", "test/", "   "], // Contains empty and whitespace-only strings
-      judges: ["model1", "", "model2", "   "],
+      judges: ["codex:model1", "", "codex:model2", "   "],
     };
 
     const result = validateAndSanitizeConfig(inlineConfig);
     
     expect(result.isValid).toBe(true);
     expect(result.data?.paths).toEqual(["src/", "test/"]);
-    expect(result.data?.judges).toEqual(["model1", "model2"]);
+    expect(result.data?.judges).toEqual(["codex:model1", "codex:model2"]);
   });
 });
 
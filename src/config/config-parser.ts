@@ -9,6 +9,8 @@
 import {
   GansAuditorCodexSessionConfig,
   GansAuditorCodexInlineConfig,
+  SecretScanConfig,
+  BenchmarkEntryPoint,
   DEFAULT_GANSAUDITOR_CODEX_SESSION_CONFIG,
   CONFIG_CONSTRAINTS,
   // Backward compatibility aliases
@@ -24,6 +26,8 @@ import type {
   SanitizationResult,
   SanitizationOptions,
 } from '../types/validation-types.js';
+import { formatDiffRange, parseDiffRange } from '../utils/git-utils.js';
+import { createDefaultJudgeRegistry, parseJudgeSpec, type JudgeRegistry } from '../auditor/judge-ensemble.js';
 
 // ============================================================================
 // Configuration Parsing
@@ -152,11 +156,13 @@ function attemptGreedyJsonParse<T>(text: string): JsonParseResult<T> {
  * 
  * @param inlineConfig - Partial configuration from inline parsing
  * @param baseConfig - Base configuration to merge with (defaults to DEFAULT_SESSION_CONFIG)
+ * @param judgeRegistry - Registry the judge ids must name a kind of (defaults to the built-in kinds)
  * @returns Validated and sanitized configuration
  */
 export function validateAndSanitizeConfig(
   inlineConfig: Partial<GansAuditorCodexInlineConfig> = {},
-  baseConfig: GansAuditorCodexSessionConfig = DEFAULT_GANSAUDITOR_CODEX_SESSION_CONFIG
+  baseConfig: GansAuditorCodexSessionConfig = DEFAULT_GANSAUDITOR_CODEX_SESSION_CONFIG,
+  judgeRegistry: JudgeRegistry = createDefaultJudgeRegistry()
 ): ConfigValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
@@ -201,6 +207,25 @@ export function validateAndSanitizeConfig(
     appliedDefaults.scope = 'workspace';
   }
 
+  // Validate and apply the commit range
+  if (inlineConfig.baseRef !== undefined || inlineConfig.headRef !== undefined || inlineConfig.range !== undefined) {
+    const rangeErrors = validateCommitRange(inlineConfig);
+    if (rangeErrors.length === 0) {
+      // A range replaces the refs and vice versa
+      if (inlineConfig.range !== undefined) {
+        delete config.baseRef;
+        delete config.headRef;
+        config.range = inlineConfig.range.trim();
+      } else {
+        delete config.range;
+        config.baseRef = inlineConfig.baseRef;
+        config.headRef = inlineConfig.headRef;
+      }
+    } else {
+      errors.push(...rangeErrors);
+    }
+  }
+
   // Validate and sanitize threshold
   if (inlineConfig.threshold !== undefined) {
     const thresholdResult = sanitizeThreshold(inlineConfig.threshold);
@@ -232,7 +257,11 @@ export function validateAndSanitizeConfig(
   if (inlineConfig.judges !== undefined) {
     if (Array.isArray(inlineConfig.judges) && inlineConfig.judges.every(j => typeof j === 'string')) {
       const validJudges = inlineConfig.judges.filter(j => j.trim().length > 0);
-      if (validJudges.length > 0) {
+      const unknownJudges = validJudges.filter(j => !judgeRegistry.has(parseJudgeSpec(j).kind));
+      if (unknownJudges.length > 0) {
+        errors.push(`Unknown judges: ${unknownJudges.join(', ')}. Available judge kinds: ${judgeRegistry.kinds().join(', ')}`);
+        appliedDefaults.judges = baseConfig.judges;
+      } else if (validJudges.length > 0) {
         config.judges = validJudges;
       } else {
         errors.push('At least one valid judge must be specified');
@@ -254,6 +283,41 @@ export function validateAndSanitizeConfig(
     }
   }
 
+  // Validate and apply writeBackFixes
+  if (inlineConfig.writeBackFixes !== undefined) {
+    if (typeof inlineConfig.writeBackFixes === 'boolean') {
+      config.writeBackFixes = inlineConfig.writeBackFixes;
+      if (config.writeBackFixes && !config.applyFixes) {
+        warnings.push('writeBackFixes has no effect unless applyFixes is enabled');
+      }
+    } else {
+      errors.push('WriteBackFixes must be a boolean value');
+      appliedDefaults.writeBackFixes = baseConfig.writeBackFixes;
+    }
+  }
+
+  // Validate and apply secretScan
+  if (inlineConfig.secretScan !== undefined) {
+    const secretScanErrors = validateSecretScanConfig(inlineConfig.secretScan);
+    if (secretScanErrors.length === 0) {
+      config.secretScan = inlineConfig.secretScan;
+    } else {
+      errors.push(...secretScanErrors);
+      appliedDefaults.secretScan = baseConfig.secretScan;
+    }
+  }
+
+  // Validate and apply benchmarks
+  if (inlineConfig.benchmarks !== undefined) {
+    const benchmarkErrors = validateBenchmarkEntryPoints(inlineConfig.benchmarks);
+    if (benchmarkErrors.length === 0) {
+      config.benchmarks = inlineConfig.benchmarks;
+    } else {
+      errors.push(...benchmarkErrors);
+      appliedDefaults.benchmarks = baseConfig.benchmarks;
+    }
+  }
+
   return {
     isValid: errors.length === 0,
     data: config,
@@ -274,6 +338,109 @@ function isValidScope(value: unknown): value is GansAuditorCodexSessionConfig['s
   return typeof value === 'string' && ['diff', 'paths', 'workspace'].includes(value);
 }
 
+/**
+ * Validate secret scanner configuration, returning error messages
+ */
+function validateSecretScanConfig(value: unknown): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['SecretScan must be an object'];
+  }
+
+  const errors: string[] = [];
+  const secretScan = value as SecretScanConfig;
+  const isStringArray = (items: unknown) => Array.isArray(items) && items.every(item => typeof item === 'string');
+  const isValidRegex = (pattern: string) => {
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (secretScan.disabledRules !== undefined && !isStringArray(secretScan.disabledRules)) {
+    errors.push('SecretScan disabledRules must be an array of rule ids');
+  }
+
+  if (secretScan.customRules !== undefined) {
+    if (!Array.isArray(secretScan.customRules)) {
+      errors.push('SecretScan customRules must be an array');
+    } else {
+      for (const rule of secretScan.customRules) {
+        if (!rule || typeof rule.id !== 'string' || typeof rule.pattern !== 'string') {
+          errors.push('SecretScan custom rules require string id and pattern');
+        } else if (!isValidRegex(rule.pattern)) {
+          errors.push(`SecretScan rule ${rule.id} has an invalid pattern`);
+        }
+      }
+    }
+  }
+
+  const allowlist = secretScan.allowlist;
+  if (allowlist !== undefined) {
+    if (allowlist.patterns !== undefined &&
+        (!isStringArray(allowlist.patterns) || !allowlist.patterns.every(isValidRegex))) {
+      errors.push('SecretScan allowlist patterns must be valid regular expressions');
+    }
+    if (allowlist.paths !== undefined && !isStringArray(allowlist.paths)) {
+      errors.push('SecretScan allowlist paths must be an array of strings');
+    }
+  }
+
+  if (secretScan.entropyThreshold !== undefined &&
+      (typeof secretScan.entropyThreshold !== 'number' || !isFinite(secretScan.entropyThreshold) ||
+       secretScan.entropyThreshold <= 0)) {
+    errors.push('SecretScan entropyThreshold must be a positive number');
+  }
+
+  return errors;
+}
+
+/**
+ * Validate benchmark entry points, returning error messages
+ */
+function validateBenchmarkEntryPoints(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return ['Benchmarks must be an array of entry points'];
+  }
+
+  const errors: string[] = [];
+  for (const entry of value as BenchmarkEntryPoint[]) {
+    if (!entry || typeof entry.file !== 'string' || typeof entry.function !== 'string' ||
+        entry.file.trim() === '' || entry.function.trim() === '') {
+      errors.push('Benchmark entry points require string file and function');
+    } else if (entry.args !== undefined && !Array.isArray(entry.args)) {
+      errors.push(`Benchmark ${entry.file}#${entry.function} args must be an array`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate the commit range fields, returning error messages
+ */
+function validateCommitRange(config: Pick<GansAuditorCodexInlineConfig, 'baseRef' | 'headRef' | 'range'>): string[] {
+  const fields = { baseRef: config.baseRef, headRef: config.headRef, range: config.range };
+  const invalid = Object.entries(fields).filter(([, value]) => value !== undefined && (typeof value !== 'string' || value.trim() === ''));
+  if (invalid.length > 0) {
+    return invalid.map(([field]) => `${field} must be a non-empty string`);
+  }
+  if (config.range !== undefined && (config.baseRef !== undefined || config.headRef !== undefined)) {
+    return ['Provide either range or baseRef/headRef, not both'];
+  }
+
+  try {
+    if (config.range !== undefined) {
+      parseDiffRange(config.range);
+    } else {
+      formatDiffRange({ baseRef: config.baseRef, headRef: config.headRef });
+    }
+    return [];
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+}
+
 // ============================================================================
 // Sanitization Functions
 // ============================================================================
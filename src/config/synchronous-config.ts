@@ -72,6 +72,7 @@ export const DEFAULT_SYNCHRONOUS_CONFIG: SynchronousWorkflowConfig = {
   enableAuditCaching: true,
   enableSessionPersistence: true,
   stateDirectory: '.mcp-gan-state',
+  sessionStorage: 'json',
   enableMetrics: false,
   enableHealthChecks: false,
 };
@@ -236,6 +237,10 @@ export function buildConcurrencyConfigFromEnv(): ConcurrencyConfig {
  * - ENABLE_AUDIT_CACHING (default: true)
  * - ENABLE_SESSION_PERSISTENCE (default: true)
  * - SYNC_AUDIT_STATE_DIRECTORY (default: '.mcp-gan-state')
+ * - SYNC_AUDIT_SESSION_STORAGE (default: 'json'; 'sqlite' for a transactional database)
+ * - SYNC_AUDIT_CACHE_DIRECTORY (default: unset, audit cache kept in memory only)
+ * - SYNC_AUDIT_REDACTION_LOG (default: outbound-redactions.jsonl in the state directory)
+ * - SYNC_AUDIT_REDACTION_DENY_PATHS (default: unset; comma-separated globs added to the deny-list)
  * - ENABLE_SYNC_AUDIT_METRICS (default: false)
  * - ENABLE_SYNC_AUDIT_HEALTH_CHECKS (default: false)
  */
@@ -252,6 +257,12 @@ export function buildSynchronousConfigFromEnv(): SynchronousWorkflowConfig {
     enableAuditCaching: parseEnvBoolean(process.env.ENABLE_AUDIT_CACHING, true),
     enableSessionPersistence: parseEnvBoolean(process.env.ENABLE_SESSION_PERSISTENCE, true),
     stateDirectory: process.env.SYNC_AUDIT_STATE_DIRECTORY || '.mcp-gan-state',
+    sessionStorage: parseEnvString(process.env.SYNC_AUDIT_SESSION_STORAGE, 'json', ['json', 'sqlite']),
+    auditCacheDirectory: process.env.SYNC_AUDIT_CACHE_DIRECTORY || undefined,
+    redactionLogFile: process.env.SYNC_AUDIT_REDACTION_LOG || undefined,
+    redactionDeniedPaths: process.env.SYNC_AUDIT_REDACTION_DENY_PATHS
+      ? process.env.SYNC_AUDIT_REDACTION_DENY_PATHS.split(',').map(glob => glob.trim()).filter(Boolean)
+      : undefined,
     enableMetrics: parseEnvBoolean(process.env.ENABLE_SYNC_AUDIT_METRICS, false),
     enableHealthChecks: parseEnvBoolean(process.env.ENABLE_SYNC_AUDIT_HEALTH_CHECKS, false),
   };
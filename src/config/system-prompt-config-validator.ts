@@ -20,6 +20,7 @@ import {
   getSystemPromptConfigSummary,
   SYSTEM_PROMPT_ENV_VARS,
 } from '../prompts/system-prompt-config.js';
+import { SCORE_AGGREGATION_METHODS } from '../types/gan-types.js';
 
 /**
  * Environment validation result
@@ -337,7 +338,7 @@ function validateEnvironmentVariable(
   }
 
   if (name === 'GAN_AUDITOR_AGGREGATION_METHOD') {
-    const validMethods = ['weighted-average', 'minimum', 'geometric-mean'];
+    const validMethods: string[] = SCORE_AGGREGATION_METHODS;
     if (!validMethods.includes(trimmedValue)) {
       return {
         isValid: false,
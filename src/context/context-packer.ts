@@ -12,6 +12,8 @@ import { readFile, readdir, stat, access } from 'fs/promises';
 import { join, relative, resolve, extname, basename } from 'path';
 import type { SessionConfig } from '../types/gan-types.js';
 import type { IContextPacker, IGitHelper, IFileSystemHelper } from '../types/integration-types.js';
+import { formatDiffRange, getSessionDiffRange, readGitDiff, readRangeCommits, type DiffRange, type RangeCommit } from '../utils/git-utils.js';
+import { DEFAULT_DENIED_PATHS, isDeniedPath, withheldPlaceholder } from '../auditor/outbound-redactor.js';
 
 // ============================================================================
 // Constants and Configuration
@@ -85,8 +87,11 @@ const IGNORED_DIRECTORIES = new Set([
  * Git operations helper
  */
 class GitHelper implements IGitHelper {
-  async getDiff(cwd: string = process.cwd()): Promise<string> {
+  async getDiff(cwd: string = process.cwd(), range?: DiffRange): Promise<string> {
     try {
+      if (range) {
+        return await readGitDiff(cwd, range);
+      }
       const result = await this.executeGitCommand(['diff', '--no-color'], cwd);
       return result.stdout;
     } catch (error) {
@@ -94,6 +99,14 @@ class GitHelper implements IGitHelper {
     }
   }
 
+  async getRangeCommits(cwd: string = process.cwd(), range: DiffRange): Promise<RangeCommit[]> {
+    try {
+      return await readRangeCommits(cwd, range);
+    } catch (error) {
+      throw new Error(`Failed to get git log: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   async getBranch(cwd: string = process.cwd()): Promise<string> {
     try {
       const result = await this.executeGitCommand(['branch', '--show-current'], cwd);
@@ -329,17 +342,21 @@ export class ContextPacker implements IContextPacker {
   private maxContextSize: number;
   private maxFileSize: number;
   private relevanceThreshold: number;
+  private deniedPaths: string[];
 
   constructor(options: {
     maxContextSize?: number;
     maxFileSize?: number;
     relevanceThreshold?: number;
+    /** Globs of files whose content is withheld from the context */
+    deniedPaths?: string[];
   } = {}) {
     this.gitHelper = new GitHelper();
     this.fsHelper = new FileSystemHelper();
     this.maxContextSize = options.maxContextSize || MAX_CONTEXT_SIZE;
     this.maxFileSize = options.maxFileSize || MAX_FILE_SIZE;
     this.relevanceThreshold = options.relevanceThreshold || RELEVANCE_THRESHOLD;
+    this.deniedPaths = options.deniedPaths ?? DEFAULT_DENIED_PATHS;
   }
 
   /**
@@ -357,7 +374,7 @@ export class ContextPacker implements IContextPacker {
       // Build context based on scope
       switch (config.scope) {
         case 'diff':
-          context += await this.buildDiffContext(cwd);
+          context += await this.buildDiffContext(cwd, getSessionDiffRange(config));
           break;
         case 'paths':
           if (!config.paths || config.paths.length === 0) {
@@ -384,10 +401,13 @@ export class ContextPacker implements IContextPacker {
   }
 
   /**
-   * Build git diff context
+   * Build git diff context of the working tree, or of a commit range with its commit messages
    * Requirement 4.2: Git integration functions
    */
-  async buildDiffContext(cwd: string = process.cwd()): Promise<string> {
+  async buildDiffContext(cwd: string = process.cwd(), range?: DiffRange): Promise<string> {
+    if (range) {
+      return this.buildRangeDiffContext(cwd, range);
+    }
     try {
       const diff = await this.gitHelper.getDiff(cwd);
       
@@ -401,6 +421,34 @@ export class ContextPacker implements IContextPacker {
     }
   }
 
+  /**
+   * Build diff context of a commit range. The range was asked for explicitly,
+   * so git failures are errors rather than part of the context.
+   */
+  private async buildRangeDiffContext(cwd: string, range: DiffRange): Promise<string> {
+    const revision = formatDiffRange(range);
+    const [commits, diff] = await Promise.all([
+      this.gitHelper.getRangeCommits(cwd, range),
+      this.gitHelper.getDiff(cwd, range),
+    ]);
+
+    let context = `# Git Diff Context\n\n- **Range:** ${revision}\n- **Commits:** ${commits.length}\n\n`;
+    if (commits.length > 0) {
+      context += '## Commits\n\n';
+      for (const commit of commits) {
+        context += `### ${commit.hash.slice(0, 12)} ${commit.subject}\n\n*${commit.author}*\n\n`;
+        if (commit.body) {
+          context += `${commit.body}\n\n`;
+        }
+      }
+    }
+
+    if (!diff.trim()) {
+      return `${context}No changes between the commits of the range.\n`;
+    }
+    return `${context}## Diff\n\n\`\`\`diff\n${diff}\n\`\`\`\n`;
+  }
+
   /**
    * Build context from specific file paths
    * Requirement 4.3: File relevance scoring algorithm
@@ -447,12 +495,18 @@ export class ContextPacker implements IContextPacker {
       context += `\`\`\`\n${tree}\`\`\`\n\n`;
       
       // Find and score relevant files
-      const relevantFiles = await this.pickRelevantFiles(cwd, TOP_FILES_LIMIT);
+      const withheld: string[] = [];
+      const relevantFiles = await this.pickRelevantFiles(cwd, TOP_FILES_LIMIT, withheld);
       
       if (relevantFiles.length > 0) {
         context += '## Relevant Files\n\n';
         context += await this.collectTopSnippets(relevantFiles.map(f => f.path), TOP_FILES_LIMIT, SNIPPET_MAX_TOKENS);
       }
+
+      if (withheld.length > 0) {
+        context += '## Withheld Files\n\n';
+        context += withheld.map(path => `- ${withheldPlaceholder(path)}`).join('\n') + '\n';
+      }
       
       return context;
     } catch (error) {
@@ -480,10 +534,11 @@ export class ContextPacker implements IContextPacker {
   }
 
   /**
-   * Pick relevant files using scoring algorithm
+   * Pick relevant files using scoring algorithm; relevant files on the
+   * deny-list are added to `withheld` instead
    * Requirement 4.3: File relevance scoring algorithm
    */
-  private async pickRelevantFiles(root: string, limit: number): Promise<FileScore[]> {
+  private async pickRelevantFiles(root: string, limit: number, withheld: string[] = []): Promise<FileScore[]> {
     const scores: FileScore[] = [];
     
     const scanDirectory = async (dir: string): Promise<void> => {
@@ -502,7 +557,9 @@ export class ContextPacker implements IContextPacker {
             const relativePath = relative(root, fullPath);
             const score = calculateFileRelevance(relativePath, { size: stats.size });
             
-            if (score >= this.relevanceThreshold) {
+            if (score >= this.relevanceThreshold && isDeniedPath(relativePath, this.deniedPaths)) {
+              withheld.push(relativePath);
+            } else if (score >= this.relevanceThreshold) {
               scores.push({
                 path: fullPath,
                 score,
@@ -650,6 +707,9 @@ export class ContextPacker implements IContextPacker {
    * Build context for a single file
    */
   private async buildFileContext(fullPath: string, relativePath: string): Promise<string> {
+    if (isDeniedPath(relativePath, this.deniedPaths)) {
+      return `## ${relativePath}\n\n${withheldPlaceholder(relativePath)}\n\n`;
+    }
     try {
       const content = await this.fsHelper.readFile(fullPath);
       const language = this.getLanguageFromPath(fullPath);
@@ -687,6 +747,7 @@ export function createContextPacker(options?: {
   maxContextSize?: number;
   maxFileSize?: number;
   relevanceThreshold?: number;
+  deniedPaths?: string[];
 }): IContextPacker {
   return new ContextPacker(options);
 }
\ No newline at end of file
@@ -164,10 +164,7 @@ export class PromptCacheManager {
     const cacheKey = this.generatePromptCacheKey(context);
     
     try {
-      // Create a mock thought data for audit cache compatibility
-      const mockThought = this.createMockThoughtData(context, cacheKey);
-      
-      const cachedReview = await this.auditCache.get(mockThought);
+      const cachedReview = await this.auditCache.get(cacheKey);
       if (!cachedReview) {
         this.recordPromptMiss(context.promptTemplate);
         return null;
@@ -221,10 +218,7 @@ export class PromptCacheManager {
         executionDuration
       );
 
-      // Create mock thought data for audit cache compatibility
-      const mockThought = this.createMockThoughtData(context, cacheKey);
-      
-      await this.auditCache.set(mockThought, enhancedResult);
+      await this.auditCache.set(cacheKey, enhancedResult);
 
       this.componentLogger.debug('Prompt result cached', {
         cacheKey: cacheKey.substring(0, 16),
@@ -244,10 +238,7 @@ export class PromptCacheManager {
    * Check if result exists in cache
    */
   async hasResult(context: PromptCacheContext): Promise<boolean> {
-    const cacheKey = this.generatePromptCacheKey(context);
-    const mockThought = this.createMockThoughtData(context, cacheKey);
-    
-    return this.auditCache.has(mockThought);
+    return this.auditCache.has(this.generatePromptCacheKey(context));
   }
 
   /**
@@ -361,21 +352,6 @@ export class PromptCacheManager {
     return crypto.createHash('md5').update(content).digest('hex');
   }
 
-  /**
-   * Create mock thought data for audit cache compatibility
-   */
-  private createMockThoughtData(context: PromptCacheContext, cacheKey: string): any {
-    return {
-      thoughtNumber: 1,
-      thought: context.codeContent,
-      metadata: {
-        promptCacheKey: cacheKey,
-        promptTemplate: this.getTemplateIdentifier(context.promptTemplate),
-        isPromptCache: true,
-      },
-    };
-  }
-
   /**
    * Get template identifier for logging
    */
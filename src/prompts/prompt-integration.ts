@@ -10,6 +10,7 @@ import type {
   ICodexJudge,
   ISessionManager,
   IContextPacker,
+  AuditRunOptions,
 } from '../types/integration-types.js';
 import type {
   GansAuditorCodexThoughtData,
@@ -107,7 +108,8 @@ export class PromptDrivenGanAuditor implements IGanAuditor {
    */
   async auditThought(
     thought: GansAuditorCodexThoughtData, 
-    sessionId?: string
+    sessionId?: string,
+    options?: AuditRunOptions
   ): Promise<GansAuditorCodexReview> {
     if (!this.config.enableSystemPrompt) {
       throw new Error('System prompt is disabled - cannot perform audit without system prompt');
@@ -129,7 +131,8 @@ export class PromptDrivenGanAuditor implements IGanAuditor {
       const auditResult = await this.executePromptEnhancedAudit(
         thought,
         session,
-        renderedPrompt.result
+        renderedPrompt.result,
+        options
       );
 
       // Process response with completion analysis
@@ -257,7 +260,8 @@ export class PromptDrivenGanAuditor implements IGanAuditor {
   private async executePromptEnhancedAudit(
     thought: GansAuditorCodexThoughtData,
     session: GansAuditorCodexSessionState | undefined,
-    renderedPrompt: any
+    renderedPrompt: any,
+    options?: AuditRunOptions
   ): Promise<GansAuditorCodexReview> {
     if (this.config.integrationConfig.enhanceCodexRequests) {
       // Create enhanced audit request with system prompt
@@ -269,10 +273,10 @@ export class PromptDrivenGanAuditor implements IGanAuditor {
       
       // Execute with enhanced context (this would require extending the base auditor)
       // For now, we'll use the base auditor and inject context through session
-      return await this.baseAuditor.auditThought(thought, session?.id);
+      return await this.baseAuditor.auditThought(thought, session?.id, options);
     } else {
       // Use base auditor without enhancement
-      return await this.baseAuditor.auditThought(thought, session?.id);
+      return await this.baseAuditor.auditThought(thought, session?.id, options);
     }
   }
 
@@ -11,6 +11,8 @@
 import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import type { ValidationResult } from '../types/validation-types.js';
+import type { ScoreAggregationMethod } from '../types/gan-types.js';
+import { SCORE_AGGREGATION_METHODS } from '../types/gan-types.js';
 
 /**
  * Configuration for the GAN Auditor system prompt
@@ -37,7 +39,7 @@ export interface SystemPromptConfig {
     dimensions: number;
     weightingScheme: 'project-standard' | 'custom' | 'balanced';
     scoringScale: '0-100' | '0-10' | 'letter-grade';
-    aggregationMethod: 'weighted-average' | 'minimum' | 'geometric-mean';
+    aggregationMethod: ScoreAggregationMethod;
   };
   
   /** Completion criteria */
@@ -459,9 +461,8 @@ export function validateSystemPromptConfig(config: Partial<SystemPromptConfig>):
       errors.push(`Invalid scoring scale. Must be one of: ${validScoringScales.join(', ')}`);
     }
     
-    const validAggregationMethods = ['weighted-average', 'minimum', 'geometric-mean'];
-    if (config.qualityFramework.aggregationMethod && !validAggregationMethods.includes(config.qualityFramework.aggregationMethod)) {
-      errors.push(`Invalid aggregation method. Must be one of: ${validAggregationMethods.join(', ')}`);
+    if (config.qualityFramework.aggregationMethod && !SCORE_AGGREGATION_METHODS.includes(config.qualityFramework.aggregationMethod)) {
+      errors.push(`Invalid aggregation method. Must be one of: ${SCORE_AGGREGATION_METHODS.join(', ')}`);
     }
   }
   
@@ -1024,7 +1025,7 @@ export function loadSystemPromptConfigFromEnv(): Partial<SystemPromptConfig> {
       aggregationMethod: parseEnvString(
         process.env.GAN_AUDITOR_AGGREGATION_METHOD,
         DEFAULT_SYSTEM_PROMPT_CONFIG.qualityFramework.aggregationMethod,
-        ['weighted-average', 'minimum', 'geometric-mean']
+        SCORE_AGGREGATION_METHODS
       )
     };
   }
@@ -1322,7 +1323,7 @@ export function generateEnvVarDocumentation(): string {
         { name: 'GAN_AUDITOR_QUALITY_DIMENSIONS', description: 'Number of quality dimensions', type: 'integer', default: '6', range: '1-10' },
         { name: 'GAN_AUDITOR_WEIGHTING_SCHEME', description: 'Dimension weighting scheme', type: 'enum', default: 'project-standard', options: ['project-standard', 'custom', 'balanced'] },
         { name: 'GAN_AUDITOR_SCORING_SCALE', description: 'Scoring scale', type: 'enum', default: '0-100', options: ['0-100', '0-10', 'letter-grade'] },
-        { name: 'GAN_AUDITOR_AGGREGATION_METHOD', description: 'Score aggregation method', type: 'enum', default: 'weighted-average', options: ['weighted-average', 'minimum', 'geometric-mean'] },
+        { name: 'GAN_AUDITOR_AGGREGATION_METHOD', description: 'Score aggregation method (dimensions and multi-judge ensembles)', type: 'enum', default: 'weighted-average', options: SCORE_AGGREGATION_METHODS },
       ],
     },
     {
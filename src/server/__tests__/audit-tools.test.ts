@@ -0,0 +1,252 @@
+/**
+ * Unit tests for the first-class MCP audit tools
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { execFileSync } from 'child_process';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import { AuditTools, AUDIT_TOOLS } from '../audit-tools.js';
+import { SessionManager } from '../../session/session-manager.js';
+import { ContextPacker } from '../../context/context-packer.js';
+import { DEFAULT_SESSION_CONFIG, type GanReview } from '../../types/gan-types.js';
+import type { ProgressUpdate } from '../../auditor/progress-tracker.js';
+
+const REVIEW: GanReview = {
+  overall: 72,
+  dimensions: [
+    { name: 'accuracy', score: 80 },
+    { name: 'security', score: 55 },
+    { name: 'style', score: 90 }
+  ],
+  verdict: 'revise',
+  review: {
+    summary: 'Input is not validated',
+    inline: [{ path: 'src/math.ts', line: 3, comment: 'Division by zero is not handled' }],
+    citations: ['repo://src/math.ts:1-4', 'repo://README.md:1-2']
+  },
+  iterations: 1,
+  judge_cards: [{ model: 'internal', score: 72, notes: 'Guard the divisor' }],
+  workflow_steps: [{
+    stepName: 'DYNAMIC',
+    success: false,
+    evidence: [],
+    issues: [{ severity: 'major', description: 'divide(1, 0) returned Infinity', location: 'src/math.ts:3' }]
+  }]
+};
+
+const parse = (response: { content: Array<{ text: string }> }) => JSON.parse(response.content[0].text);
+
+describe('Audit Tools', () => {
+  let workspace: string;
+  let sessionManager: SessionManager;
+  let auditThought: ReturnType<typeof vi.fn>;
+  let tools: AuditTools;
+
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: workspace, stdio: 'pipe' });
+
+  beforeEach(async () => {
+    workspace = await mkdtemp(join(tmpdir(), 'audit-tools-test-'));
+    sessionManager = new SessionManager({ stateDirectory: join(workspace, '.state') });
+    auditThought = vi.fn().mockResolvedValue(REVIEW);
+    tools = new AuditTools({
+      auditor: { auditThought, extractInlineConfig: () => null, validateConfig: config => config as any },
+      sessionManager,
+      workspacePath: workspace
+    });
+  });
+
+  afterEach(async () => {
+    sessionManager.destroy();
+    await rm(workspace, { recursive: true, force: true });
+  });
+
+  it('should advertise JSON input schemas for every tool', () => {
+    const schemas = Object.fromEntries(AUDIT_TOOLS.map(tool => [tool.name, tool.inputSchema]));
+
+    expect(Object.keys(schemas)).toEqual([
+      'audit_diff', 'audit_paths', 'get_session', 'list_sessions',
+      'delete_session', 'get_session_statistics', 'explain_finding', 'export_sarif', 'session_analytics'
+    ]);
+    expect(schemas.audit_paths).toMatchObject({ type: 'object', required: ['paths'], additionalProperties: false });
+    expect(schemas.explain_finding.required).toEqual(['sessionId', 'index']);
+    expect(tools.handles('audit_diff')).toBe(true);
+    expect(tools.handles('gansauditor_codex')).toBe(false);
+  });
+
+  it('should audit a diff in a session configured from the arguments', async () => {
+    const diff = 'diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-old\n+new\n';
+    const result = parse(await tools.call('audit_diff', { diff, sessionId: 'review-1', threshold: 95 }));
+
+    expect(result).toMatchObject({ sessionId: 'review-1', source: 'input', filesChanged: ['src/a.ts'], review: { overall: 72 } });
+    expect(auditThought).toHaveBeenCalledWith(expect.objectContaining({ thought: `\`\`\`diff\n${diff}\n\`\`\`` }), 'review-1', { signal: undefined });
+    expect((await sessionManager.getSession('review-1'))?.config).toMatchObject({ scope: 'diff', threshold: 95 });
+
+    const invalid = await tools.call('audit_diff', { headRef: 'main', sessionId: '../escape' });
+    expect(invalid.isError).toBe(true);
+    expect(parse(invalid).diagnostic.category).toBe('validation');
+    expect(parse(invalid).diagnostic.details).toContain('headRef requires baseRef');
+  });
+
+  it('should read the diff of a commit range from git', async () => {
+    git('init', '-q');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    await writeFile(join(workspace, 'one.ts'), 'export const one = 1;\n');
+    git('add', 'one.ts');
+    git('commit', '-qm', 'one');
+    await writeFile(join(workspace, 'two.ts'), 'export const two = 2;\n');
+    git('add', 'two.ts');
+    git('commit', '-qm', 'two');
+
+    const result = parse(await tools.call('audit_diff', { baseRef: 'HEAD~1' }));
+
+    expect(result).toMatchObject({ source: 'range', range: 'HEAD~1..HEAD', filesChanged: ['two.ts'] });
+    expect(auditThought.mock.calls[0][0].thought).toContain('+export const two = 2;');
+  });
+
+  it('should audit a branch from its merge base and record the range on the session', async () => {
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    await writeFile(join(workspace, 'one.ts'), 'export const one = 1;\n');
+    git('add', 'one.ts');
+    git('commit', '-qm', 'one');
+    git('checkout', '-qb', 'feature');
+    await writeFile(join(workspace, 'two.ts'), 'export const two = 2;\n');
+    git('add', 'two.ts');
+    git('commit', '-qm', 'Add two', '-m', 'Needed by the feature.');
+    git('checkout', '-q', 'main');
+    await writeFile(join(workspace, 'three.ts'), 'export const three = 3;\n');
+    git('add', 'three.ts');
+    git('commit', '-qm', 'three');
+
+    const result = parse(await tools.call('audit_diff', { range: 'main...feature', sessionId: 'branch-1' }));
+
+    expect(result).toMatchObject({ source: 'range', range: 'main...feature', filesChanged: ['two.ts'] });
+    const config = (await sessionManager.getSession('branch-1'))!.config;
+    expect(config).toMatchObject({ scope: 'diff', range: 'main...feature' });
+
+    const contextPack = await new ContextPacker().buildContextPack(config, workspace);
+    expect(contextPack).toContain('- **Range:** main...feature');
+    expect(contextPack).toMatch(/### [0-9a-f]{12} Add two\n\n\*Test\*\n\nNeeded by the feature\./);
+    expect(contextPack).toContain('+export const two = 2;');
+    expect(contextPack).not.toContain('three');
+
+    await tools.call('audit_diff', { diff: 'diff --git a/x b/x\n', sessionId: 'branch-1' });
+    expect((await sessionManager.getSession('branch-1'))!.config.range).toBeUndefined();
+  });
+
+  it('should list, inspect and delete sessions', async () => {
+    await tools.call('audit_paths', { paths: ['src'], sessionId: 'paths-1' });
+    const session = (await sessionManager.getSession('paths-1'))!;
+    await sessionManager.updateSession({ ...session, lastGan: REVIEW });
+
+    expect(parse(await tools.call('list_sessions', {})).sessions).toEqual([
+      expect.objectContaining({ sessionId: 'paths-1', lastVerdict: 'revise', lastScore: 72 })
+    ]);
+    expect(parse(await tools.call('get_session', { sessionId: 'paths-1' })).config).toMatchObject({ scope: 'paths', paths: ['src'] });
+    expect(parse(await tools.call('get_session_statistics', { sessionId: 'paths-1' })).sessionId).toBe('paths-1');
+    expect(parse(await tools.call('delete_session', { sessionId: 'paths-1' }))).toEqual({ sessionId: 'paths-1', deleted: true });
+
+    const missing = await tools.call('get_session', { sessionId: 'paths-1' });
+    expect(missing.isError).toBe(true);
+    expect(parse(missing).diagnostic.category).toBe('session');
+  });
+
+  it('should report the pipeline steps of an audit as progress', async () => {
+    auditThought.mockImplementation(async (_thought, _sessionId, options) => {
+      options.onStep('building-context');
+      options.onStep('judging');
+      return REVIEW;
+    });
+    const updates: ProgressUpdate[] = [];
+
+    await tools.call('audit_paths', { paths: ['src'], sessionId: 'progress-1' }, { onProgress: update => updates.push(update) });
+
+    expect(updates.map(update => update.step)).toEqual(expect.arrayContaining(['building-context', 'judging']));
+    expect(updates.at(-1)?.percentage).toBe(100);
+  });
+
+  it('should explain a finding of the latest review', async () => {
+    await mkdir(join(workspace, 'src'));
+    await writeFile(join(workspace, 'src', 'math.ts'), ['// math', 'export function divide(a: number, b: number) {', '  return a / b;', '}'].join('\n'));
+    const session = await sessionManager.createSession('explain-1', DEFAULT_SESSION_CONFIG);
+    await sessionManager.updateSession({ ...session, lastGan: REVIEW });
+
+    const explanation = parse(await tools.call('explain_finding', { sessionId: 'explain-1', index: 0, contextLines: 1 }));
+
+    expect(explanation.excerpt).toEqual({ startLine: 2, endLine: 4, lines: ['export function divide(a: number, b: number) {', '  return a / b;', '}'] });
+    expect(explanation.citations).toEqual(['repo://src/math.ts:1-4']);
+    expect(explanation.relatedIssues).toEqual([expect.objectContaining({ step: 'DYNAMIC', severity: 'major' })]);
+    expect(explanation.weakestDimensions.map((d: { name: string }) => d.name)).toEqual(['security', 'accuracy']);
+    expect(explanation.judgeNotes).toEqual([{ model: 'internal', score: 72, notes: 'Guard the divisor' }]);
+
+    const outOfRange = await tools.call('explain_finding', { sessionId: 'explain-1', index: 3 });
+    expect(parse(outOfRange).error).toContain('index 3 is out of range (1 findings)');
+  });
+
+  it('should not read findings outside the workspace', async () => {
+    const secret = `${workspace}-secret.txt`;
+    await writeFile(secret, 'token=hunter2');
+    const session = await sessionManager.createSession('explain-2', DEFAULT_SESSION_CONFIG);
+    const inline = [
+      { path: `../${basename(secret)}`, line: 1, comment: 'Relative escape' },
+      { path: secret, line: 1, comment: 'Absolute path' },
+      { path: '', line: 1, comment: 'No path' }
+    ];
+    await sessionManager.updateSession({ ...session, lastGan: { ...REVIEW, review: { ...REVIEW.review, inline } } });
+
+    try {
+      for (const index of [0, 1, 2]) {
+        const explanation = parse(await tools.call('explain_finding', { sessionId: 'explain-2', index }));
+        expect(explanation.excerpt).toBeUndefined();
+        expect(explanation.citations).toEqual([]);
+        expect(explanation.relatedIssues).toEqual([]);
+      }
+    } finally {
+      await rm(secret, { force: true });
+    }
+  });
+
+  it('should export the latest review of a session as SARIF', async () => {
+    auditThought.mockImplementation(async (_thought, sessionId: string) => {
+      await sessionManager.addAuditToHistory(sessionId, 1, REVIEW, DEFAULT_SESSION_CONFIG);
+      return REVIEW;
+    });
+
+    const log = parse(await tools.call('audit_paths', { paths: ['src'], sessionId: 'sarif-1', format: 'sarif' }));
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs[0].results.map((result: { ruleId: string; level: string }) => [result.ruleId, result.level])).toEqual([
+      ['gansaudit/dynamic', 'warning'],
+      ['gansaudit/review_comment', 'note']
+    ]);
+    expect(parse(await tools.call('export_sarif', { sessionId: 'sarif-1' }))).toEqual(log);
+
+    await sessionManager.createSession('empty-1', DEFAULT_SESSION_CONFIG);
+    expect(parse(await tools.call('export_sarif', { sessionId: 'empty-1' })).error).toContain('has no completed audit');
+  });
+
+  it('should report analytics over the sessions of a date window as JSON or CSV', async () => {
+    const session = await sessionManager.createSession('analytics-1', DEFAULT_SESSION_CONFIG);
+    await sessionManager.updateSession({ ...session, lastGan: REVIEW });
+
+    const report = parse(await tools.call('session_analytics', { from: '2000-01-01', groupBy: 'task' }));
+    expect(report).toMatchObject({
+      groupBy: 'task',
+      sessions: 1,
+      scoreDistributions: [{ group: DEFAULT_SESSION_CONFIG.task, sessions: 1, mean: 72 }],
+      commentCategories: [{ category: 'logic', count: 1, share: 1 }],
+    });
+    expect(parse(await tools.call('session_analytics', { to: '2000-01-01' })).sessions).toBe(0);
+
+    const csv = (await tools.call('session_analytics', { format: 'csv' })).content[0].text;
+    expect(csv.split('\n')[0]).toBe('section,group,metric,value');
+    expect(csv).toContain('comment_category,logic,count,1\n');
+
+    const invalid = await tools.call('session_analytics', { from: 'yesterday' });
+    expect(parse(invalid).diagnostic.details).toContain('Dates must be ISO 8601');
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for the HTTP transport
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  HttpTransportServer,
+  buildHttpTransportConfigFromEnv,
+  createMonitorHealthCheck,
+  resolveTransportMode,
+  type HealthCheck,
+} from '../http-transport.js';
+
+const HEALTHY: Awaited<ReturnType<HealthCheck>> = {
+  status: 'healthy',
+  uptime: 1000,
+  system: { status: 'healthy', checks: [] },
+  codex: { status: 'healthy', checks: [] },
+};
+
+/**
+ * Open an event stream and resolve with the message endpoint it announces
+ */
+async function openStream(baseUrl: string, token: string, signal: AbortSignal) {
+  const response = await fetch(`${baseUrl}/sse`, { headers: { Authorization: `Bearer ${token}` }, signal });
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let received = '';
+  while (!received.includes('event: endpoint')) {
+    const { value } = await reader.read();
+    received += decoder.decode(value);
+  }
+  const endpoint = /data: (\S+)/.exec(received)![1];
+  return { endpoint, reader };
+}
+
+describe('HTTP Transport', () => {
+  let httpServer: HttpTransportServer;
+  let baseUrl: string;
+  let connectClient: ReturnType<typeof vi.fn>;
+  let dispose: ReturnType<typeof vi.fn>;
+  let checkHealth: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    dispose = vi.fn();
+    connectClient = vi.fn(() => {
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+      server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+      return { server, dispose };
+    });
+    checkHealth = vi.fn().mockResolvedValue(HEALTHY);
+    httpServer = new HttpTransportServer(
+      {
+        host: '127.0.0.1',
+        port: 0,
+        clients: [{ clientId: 'alice', token: 'alice-token' }, { clientId: 'bob', token: 'bob-token' }],
+      },
+      connectClient,
+      checkHealth
+    );
+    const address = await httpServer.start();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await httpServer.stop();
+  });
+
+  it('should report health without authentication', async () => {
+    const healthy = await fetch(`${baseUrl}/health`);
+    expect(healthy.status).toBe(200);
+    expect(await healthy.json()).toMatchObject({ status: 'healthy', connections: 0 });
+
+    checkHealth.mockResolvedValue({ ...HEALTHY, status: 'critical' });
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(503);
+  });
+
+  it('should reject connections without a known bearer token', async () => {
+    const missing = await fetch(`${baseUrl}/sse`);
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+
+    const wrong = await fetch(`${baseUrl}/sse`, { headers: { Authorization: 'Bearer alice-tokem' } });
+    expect(wrong.status).toBe(401);
+    expect(connectClient).not.toHaveBeenCalled();
+  });
+
+  it('should route messages only to connections of the same client', async () => {
+    const controller = new AbortController();
+    const { endpoint, reader } = await openStream(baseUrl, 'alice-token', controller.signal);
+    expect(connectClient).toHaveBeenCalledWith('alice');
+    expect(httpServer.connectionCount).toBe(1);
+
+    const message = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    const post = (token: string) => fetch(`${baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: message,
+    });
+
+    expect((await post('bob-token')).status).toBe(404);
+    expect((await post('alice-token')).status).toBe(202);
+
+    let received = '';
+    while (!received.includes('"id":1')) {
+      const { value } = await reader.read();
+      received += new TextDecoder().decode(value);
+    }
+    expect(received).toContain('"tools":[]');
+
+    controller.abort();
+    await vi.waitFor(() => expect(dispose).toHaveBeenCalled());
+    expect(httpServer.connectionCount).toBe(0);
+  });
+
+  describe('Configuration', () => {
+    it('should read clients and defaults from the environment', () => {
+      expect(buildHttpTransportConfigFromEnv({ GAN_AUDITOR_HTTP_TOKENS: 'alice:a-1, bob:b:2' })).toEqual({
+        host: '127.0.0.1',
+        port: 3000,
+        clients: [{ clientId: 'alice', token: 'a-1' }, { clientId: 'bob', token: 'b:2' }],
+      });
+      expect(resolveTransportMode(undefined)).toBe('stdio');
+      expect(resolveTransportMode('http')).toBe('http');
+    });
+
+    it('should fail fast on invalid settings without echoing tokens', () => {
+      expect(() => buildHttpTransportConfigFromEnv({})).toThrow('GAN_AUDITOR_HTTP_TOKENS');
+      expect(() => buildHttpTransportConfigFromEnv({ GAN_AUDITOR_HTTP_TOKENS: 'secret-only' })).toThrow(/^((?!secret-only).)*$/);
+      expect(() => buildHttpTransportConfigFromEnv({ GAN_AUDITOR_HTTP_TOKENS: 'a:1,a:2' })).toThrow('duplicate client ids');
+      expect(() => buildHttpTransportConfigFromEnv({ GAN_AUDITOR_HTTP_TOKENS: 'a:1', GAN_AUDITOR_HTTP_PORT: 'http' })).toThrow('GAN_AUDITOR_HTTP_PORT');
+      expect(() => resolveTransportMode('websocket')).toThrow('GAN_AUDITOR_TRANSPORT');
+    });
+  });
+
+  it('should combine the system and Codex monitor reports', async () => {
+    const system = { overall: 'healthy', uptime: 5, checks: [{ name: 'memory', status: 'healthy', message: 'ok', timestamp: 0, duration: 1 }] };
+    const codex = { overall: 'unavailable', checks: [{ name: 'codex-availability', status: 'unavailable', message: 'codex not found', timestamp: 0, duration: 1 }] };
+    const healthCheck = createMonitorHealthCheck(
+      { getLastHealthReport: () => system as any, performHealthCheck: vi.fn() },
+      { getLastHealthReport: () => undefined, performHealthCheck: vi.fn().mockResolvedValue(codex) }
+    );
+
+    expect(await healthCheck()).toEqual({
+      status: 'critical',
+      uptime: 5,
+      system: { status: 'healthy', checks: [{ name: 'memory', status: 'healthy', message: 'ok' }] },
+      codex: { status: 'unavailable', checks: [{ name: 'codex-availability', status: 'unavailable', message: 'codex not found' }] },
+    });
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Unit tests for MCP progress notifications
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createProgressNotifier } from '../progress-notifications.js';
+import { AuditStage, type ProgressUpdate } from '../../auditor/progress-tracker.js';
+
+const update = (percentage: number, stage: AuditStage, step?: string): ProgressUpdate => ({
+  auditId: 'audit-1',
+  percentage,
+  stage,
+  step,
+  message: 'Running quality checks...',
+  elapsedTime: 1200,
+});
+
+describe('Progress Notifications', () => {
+  it('should only forward updates that advance the progress', async () => {
+    const notification = vi.fn().mockResolvedValue(undefined);
+    const notify = createProgressNotifier({ notification }, 'token-7');
+
+    notify(update(30, AuditStage.RUNNING_CHECKS, 'judging'));
+    notify(update(30, AuditStage.RUNNING_CHECKS, 'judging'));
+    notify(update(0, AuditStage.FAILED));
+    notify(update(60, AuditStage.GENERATING_FEEDBACK));
+
+    expect(notification).toHaveBeenNthCalledWith(1, {
+      method: 'notifications/progress',
+      params: expect.objectContaining({
+        progressToken: 'token-7',
+        progress: 30,
+        total: 100,
+        message: 'judging: Running quality checks...',
+        stage: 'running_checks',
+        step: 'judging',
+      }),
+    });
+    expect(notification).toHaveBeenCalledTimes(2);
+    expect(notification.mock.calls[1][0].params).toMatchObject({ progress: 60, stage: 'generating_feedback' });
+  });
+});
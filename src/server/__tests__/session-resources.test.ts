@@ -0,0 +1,118 @@
+/**
+ * Unit tests for audit sessions published as MCP resources
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SessionResources, SESSION_RESOURCE_TEMPLATES } from '../session-resources.js';
+import { SessionManager } from '../../session/session-manager.js';
+import { DEFAULT_SESSION_CONFIG, type GanReview } from '../../types/gan-types.js';
+
+const REVIEW: GanReview = {
+  overall: 64,
+  dimensions: [{ name: 'accuracy', score: 60 }],
+  verdict: 'revise',
+  review: {
+    summary: 'Guard the divisor',
+    inline: [{ path: 'src/math.ts', line: 3, comment: 'Division | by zero' }],
+    citations: []
+  },
+  proposed_diff: '--- a/src/math.ts\n+++ b/src/math.ts\n@@ -3 +3 @@\n-  return a / b;\n+  return b === 0 ? 0 : a / b;\n',
+  iterations: 1,
+  judge_cards: [{ model: 'internal', score: 64 }],
+  workflow_steps: [{
+    stepName: 'TRACE',
+    success: false,
+    evidence: [],
+    issues: [{ severity: 'major', description: 'AC-1 has no test', location: 'src/math.ts:3' }],
+    metadata: {
+      traceabilityMatrix: {
+        'AC-1': { description: 'Division is safe', implementationFiles: ['src/math.ts'], testFiles: [], covered: false, coveragePercentage: 0, linkSource: 'inferred', confidence: 40, met: false },
+        'REQ-2.1': { description: 'Results are rounded', implementationFiles: ['src/math.ts'], testFiles: ['src/math.test.ts'], covered: true, coveragePercentage: 100, linkSource: 'explicit', confidence: 100, met: true }
+      }
+    }
+  }]
+};
+
+describe('Session Resources', () => {
+  let stateDirectory: string;
+  let sessionManager: SessionManager;
+  let notifier: { sendResourceUpdated: ReturnType<typeof vi.fn>; sendResourceListChanged: ReturnType<typeof vi.fn> };
+  let resources: SessionResources;
+
+  beforeEach(async () => {
+    stateDirectory = await mkdtemp(join(tmpdir(), 'session-resources-test-'));
+    sessionManager = new SessionManager({ stateDirectory });
+    notifier = {
+      sendResourceUpdated: vi.fn().mockResolvedValue(undefined),
+      sendResourceListChanged: vi.fn().mockResolvedValue(undefined)
+    };
+    resources = new SessionResources(sessionManager, notifier);
+  });
+
+  afterEach(async () => {
+    sessionManager.destroy();
+    await rm(stateDirectory, { recursive: true, force: true });
+  });
+
+  it('should list the resources available for each session', async () => {
+    const session = await sessionManager.createSession('plain', DEFAULT_SESSION_CONFIG);
+    expect((await resources.listResources()).map(resource => resource.uri)).toEqual([
+      'gansaudit://sessions/plain',
+      'gansaudit://sessions/plain/history',
+      'gansaudit://sessions/plain/quality-progression',
+      'gansaudit://sessions/plain/evidence.md',
+      'gansaudit://sessions/plain/report.md'
+    ]);
+
+    await sessionManager.updateSession({ ...session, lastGan: REVIEW });
+    const uris = (await resources.listResources()).map(resource => resource.uri);
+    expect(uris).toContain('gansaudit://sessions/plain/traceability.json');
+    expect(uris).toContain('gansaudit://sessions/plain/proposed.diff');
+    expect(SESSION_RESOURCE_TEMPLATES[0].uriTemplate).toBe('gansaudit://sessions/{id}');
+  });
+
+  it('should read session views and render a markdown report', async () => {
+    const session = await sessionManager.createSession('audit-1', DEFAULT_SESSION_CONFIG);
+    await sessionManager.updateSession({ ...session, lastGan: REVIEW });
+
+    const state = await resources.readResource('gansaudit://sessions/audit-1');
+    expect(JSON.parse(state.text).lastGan.overall).toBe(64);
+    expect((await resources.readResource('gansaudit://sessions/audit-1/proposed.diff')).text).toBe(REVIEW.proposed_diff);
+    expect(JSON.parse((await resources.readResource('gansaudit://sessions/audit-1/traceability.json')).text)['AC-1'].covered).toBe(false);
+    expect((await resources.readResource('gansaudit://sessions/audit-1/evidence.md')).text)
+      .toContain('| TRACE | major | src/math.ts:3 | AC-1 has no test |');
+
+    const report = await resources.readResource('gansaudit://sessions/audit-1/report.md');
+    expect(report.mimeType).toBe('text/markdown');
+    expect(report.text).toContain('- Verdict: REVISE (64/100)');
+    expect(report.text).toContain('| 0 | src/math.ts:3 | Division \\| by zero |');
+    expect(report.text).toContain('| AC-1 | no | 0% | src/math.ts | - | no | inferred (40% confidence) |');
+    expect(report.text).toContain('| REQ-2.1 | yes | 100% | src/math.ts | src/math.test.ts | yes | explicit |');
+    expect(report.text).toContain('```diff');
+
+    await expect(resources.readResource('gansaudit://sessions/missing')).rejects.toThrow('Session not found: missing');
+    await expect(resources.readResource('gansaudit://sessions/../x')).rejects.toThrow('Invalid resource URI');
+  });
+
+  it('should notify subscribers when a session changes', async () => {
+    const session = await sessionManager.createSession('watched', DEFAULT_SESSION_CONFIG);
+    resources.subscribe('gansaudit://sessions/watched/report.md');
+    notifier.sendResourceListChanged.mockClear();
+
+    await sessionManager.updateSession({ ...session, currentLoop: 1 });
+    await vi.waitFor(() => expect(notifier.sendResourceUpdated).toHaveBeenCalledWith({ uri: 'gansaudit://sessions/watched/report.md' }));
+    expect(notifier.sendResourceListChanged).not.toHaveBeenCalled();
+
+    await sessionManager.updateSession({ ...session, lastGan: REVIEW });
+    await vi.waitFor(() => expect(notifier.sendResourceListChanged).toHaveBeenCalledTimes(1));
+
+    resources.unsubscribe('gansaudit://sessions/watched/report.md');
+    notifier.sendResourceUpdated.mockClear();
+    await sessionManager.deleteSession('watched');
+    await vi.waitFor(() => expect(notifier.sendResourceListChanged).toHaveBeenCalledTimes(2));
+    expect(notifier.sendResourceUpdated).not.toHaveBeenCalled();
+  });
+});
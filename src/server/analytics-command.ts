@@ -0,0 +1,110 @@
+/**
+ * Analytics Command
+ *
+ * `mcp-server-gansauditor-codex analytics [options]` prints the session
+ * analytics report of the configured state directory as JSON or CSV instead
+ * of starting the server. Options are validated with the schema of the
+ * `session_analytics` tool.
+ */
+
+import { SessionManager } from '../session/session-manager.js';
+import { analyzeSessions, formatSessionAnalytics } from '../session/session-analytics.js';
+import { buildSynchronousConfigFromEnv } from '../config/synchronous-config.js';
+import { SessionAnalyticsInputSchema, toSessionAnalyticsOptions } from './audit-tools.js';
+
+/** First argument that selects the command */
+export const ANALYTICS_COMMAND = 'analytics';
+
+export const ANALYTICS_USAGE = `Usage: mcp-server-gansauditor-codex analytics [options]
+
+Options:
+  --from <date>         Only sessions updated at or after this ISO 8601 date
+  --to <date>           Only sessions updated before this ISO 8601 date
+  --group-by <field>    Group score distributions by repository (default) or task
+  --limit <n>           Comment categories and workflow steps to report (default 10)
+  --format <format>     json (default) or csv
+  --state-dir <path>    State directory to read (default SYNC_AUDIT_STATE_DIRECTORY)
+  --help, -h            Show this help message
+`;
+
+const VALUE_OPTIONS: Record<string, string> = {
+  '--from': 'from',
+  '--to': 'to',
+  '--group-by': 'groupBy',
+  '--limit': 'limit',
+  '--format': 'format',
+  '--state-dir': 'stateDirectory',
+};
+
+/**
+ * Parsed command line of the analytics command
+ */
+export interface AnalyticsCommandArgs {
+  help: boolean;
+  stateDirectory?: string;
+  /** Raw `session_analytics` input, validated by runAnalyticsCommand */
+  input: Record<string, string | number>;
+}
+
+/**
+ * Parse the arguments following `analytics`
+ */
+export function parseAnalyticsArgs(args: string[]): AnalyticsCommandArgs {
+  const parsed: AnalyticsCommandArgs = { help: false, input: {} };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help' || arg === '-h') {
+      parsed.help = true;
+      continue;
+    }
+
+    const key = VALUE_OPTIONS[arg];
+    if (!key) {
+      throw new Error(`Unknown analytics option: ${arg}`);
+    }
+    const value = args[++i];
+    if (value === undefined || value.startsWith('--')) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+
+    if (key === 'stateDirectory') {
+      parsed.stateDirectory = value;
+    } else {
+      parsed.input[key] = key === 'limit' ? Number(value) : value;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Run the analytics command and resolve with its output
+ */
+export async function runAnalyticsCommand(args: string[]): Promise<string> {
+  const parsed = parseAnalyticsArgs(args);
+  if (parsed.help) {
+    return ANALYTICS_USAGE;
+  }
+
+  const validation = SessionAnalyticsInputSchema.safeParse(parsed.input);
+  if (!validation.success) {
+    throw new Error(`Invalid analytics options: ${validation.error.issues
+      .map(issue => `${issue.path.join('.') || 'input'}: ${issue.message}`)
+      .join('; ')}`);
+  }
+
+  const config = buildSynchronousConfigFromEnv();
+  const sessionManager = new SessionManager({
+    stateDirectory: parsed.stateDirectory ?? config.stateDirectory,
+    storage: config.sessionStorage,
+    // Reporting must not migrate the JSON session files of the state directory
+    importJsonSessions: false,
+  });
+  try {
+    const report = await analyzeSessions(sessionManager, toSessionAnalyticsOptions(validation.data));
+    return formatSessionAnalytics(report, validation.data.format ?? 'json');
+  } finally {
+    sessionManager.destroy();
+  }
+}
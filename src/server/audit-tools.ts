@@ -0,0 +1,559 @@
+/**
+ * Audit Tools
+ *
+ * First-class MCP tools next to the `gansauditor_codex` thought tool: audits
+ * of diffs and paths, session inspection and deletion, session statistics,
+ * explanations of individual findings, SARIF export and cross-session
+ * analytics. Every tool validates its input against a zod schema, which also
+ * produces the advertised JSON schema, and returns its result as JSON text
+ * (or CSV text where requested).
+ */
+
+import { readFile, realpath } from 'fs/promises';
+import { resolve, relative, isAbsolute, sep } from 'path';
+import { z } from 'zod';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { SessionManager, SessionStatistics } from '../session/session-manager.js';
+import type { IGansAuditorCodexAuditor } from '../types/integration-types.js';
+import {
+  DEFAULT_SESSION_CONFIG,
+  type GanReview,
+  type InlineComment,
+  type SessionConfig,
+  type SessionState,
+  type GansAuditorCodexToolResponse,
+  type GansAuditorCodexInlineConfig,
+} from '../types/gan-types.js';
+import { SessionNotFoundError } from '../types/error-types.js';
+import { validateAndSanitizeConfig } from '../config/config-parser.js';
+import { formatDiffRange, parseDiffRange, readGitDiff, type DiffRange } from '../utils/git-utils.js';
+import { parseDiffFiles } from '../auditor/fix-applier.js';
+import { ProgressTracker, type ProgressUpdate } from '../auditor/progress-tracker.js';
+import { exportSessionAsSarif, type SarifLog } from '../auditor/feedback/sarif-exporter.js';
+import {
+  analyzeSessions,
+  formatSessionAnalyticsCsv,
+  type SessionAnalyticsOptions,
+  type SessionAnalyticsReport,
+} from '../session/session-analytics.js';
+import {
+  createValidationError,
+  createErrorResponseFromError,
+  toMcpToolResponse,
+} from '../types/mcp-error-response.js';
+
+// ============================================================================
+// Input Schemas
+// ============================================================================
+
+const SessionIdSchema = z.string()
+  .regex(/^[\w-][\w.-]*$/, 'Session ids may only contain letters, digits, ".", "_" and "-"')
+  .describe('Audit session identifier');
+
+const GitRefSchema = z.string().regex(/^[^-\s][^\s]*$/, 'Git refs must not start with "-" or contain whitespace');
+
+const AuditOptionsShape = {
+  sessionId: SessionIdSchema.optional()
+    .describe('Session to audit in; a new session is created when omitted or unknown'),
+  task: z.string().min(1).optional().describe('What the auditor should focus on'),
+  threshold: z.number().int().min(0).max(100).optional().describe('Score required for a pass verdict'),
+  judges: z.array(z.string().min(1)).min(1).optional().describe('Judges to run, e.g. ["internal"]'),
+  format: z.enum(['json', 'sarif']).optional()
+    .describe('Result format: "json" (default) or a SARIF 2.1.0 log of the review'),
+};
+
+export const AuditDiffInputSchema = z.object({
+  diff: z.string().min(1).optional().describe('Unified diff to audit; read from git when omitted'),
+  baseRef: GitRefSchema.optional().describe('Start of the commit range; omit to audit the working tree against HEAD'),
+  headRef: GitRefSchema.optional().describe('End of the commit range (default HEAD)'),
+  range: z.string().min(1).optional()
+    .describe('Commit range as "base..head", or "base...head" to diff from the merge base like a pull request'),
+  ...AuditOptionsShape,
+}).strict()
+  .refine(input => !(input.diff && (input.baseRef || input.range)), { message: 'Provide either diff or a commit range, not both', path: ['diff'] })
+  .refine(input => !(input.range && input.baseRef), { message: 'Provide either range or baseRef, not both', path: ['range'] })
+  .refine(input => !input.headRef || input.baseRef, { message: 'headRef requires baseRef', path: ['headRef'] });
+
+export const AuditPathsInputSchema = z.object({
+  paths: z.array(z.string().min(1)).min(1).describe('Workspace-relative files or directories to audit'),
+  ...AuditOptionsShape,
+}).strict();
+
+export const SessionInputSchema = z.object({
+  sessionId: SessionIdSchema,
+}).strict();
+
+export const ListSessionsInputSchema = z.object({
+  limit: z.number().int().min(1).optional().describe('Maximum number of sessions, most recently updated first'),
+}).strict();
+
+export const ExplainFindingInputSchema = z.object({
+  sessionId: SessionIdSchema,
+  index: z.number().int().min(0).describe('Index of the finding in the latest review\'s inline comments'),
+  contextLines: z.number().int().min(0).max(50).optional().describe('Source lines shown around the finding (default 5)'),
+}).strict();
+
+const DateSchema = z.string()
+  .refine(value => !Number.isNaN(Date.parse(value)), 'Dates must be ISO 8601, e.g. "2026-01-31" or "2026-01-31T12:00:00Z"');
+
+export const SessionAnalyticsInputSchema = z.object({
+  from: DateSchema.optional().describe('Only sessions updated at or after this date'),
+  to: DateSchema.optional().describe('Only sessions updated before this date'),
+  groupBy: z.enum(['repository', 'task']).optional()
+    .describe('Group score distributions by "repository" (default) or "task"'),
+  limit: z.number().int().min(1).optional().describe('Comment categories and workflow steps to report (default 10)'),
+  format: z.enum(['json', 'csv']).optional().describe('Result format: "json" (default) or CSV rows'),
+}).strict()
+  .refine(input => !(input.from && input.to) || Date.parse(input.from) < Date.parse(input.to), { message: 'from must be before to', path: ['from'] });
+
+/**
+ * Analytics options of a validated `session_analytics` input
+ */
+export function toSessionAnalyticsOptions(input: z.infer<typeof SessionAnalyticsInputSchema>): SessionAnalyticsOptions {
+  return {
+    from: input.from !== undefined ? Date.parse(input.from) : undefined,
+    to: input.to !== undefined ? Date.parse(input.to) : undefined,
+    groupBy: input.groupBy,
+    limit: input.limit,
+  };
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * Result of `audit_diff`
+ */
+export interface AuditDiffResult {
+  sessionId: string;
+  source: 'input' | 'working_tree' | 'range';
+  /** `base..head` or `base...head` for range audits */
+  range?: string;
+  filesChanged: string[];
+  review: GanReview;
+}
+
+/**
+ * Result of `audit_paths`
+ */
+export interface AuditPathsResult {
+  sessionId: string;
+  paths: string[];
+  review: GanReview;
+}
+
+/**
+ * Entry of `list_sessions`
+ */
+export interface SessionSummary {
+  sessionId: string;
+  createdAt: number;
+  updatedAt: number;
+  currentLoop: number;
+  isComplete: boolean;
+  audits: number;
+  lastVerdict?: GanReview['verdict'];
+  lastScore?: number;
+}
+
+/**
+ * Result of `explain_finding`
+ */
+export interface FindingExplanation {
+  sessionId: string;
+  index: number;
+  finding: InlineComment;
+  verdict: GanReview['verdict'];
+  overall: number;
+  /** Source around the finding; absent when the file no longer exists */
+  excerpt?: { startLine: number; endLine: number; lines: string[] };
+  /** Review citations pointing at the finding's file */
+  citations: string[];
+  /** Workflow step issues located in the finding's file */
+  relatedIssues: Array<{ step: string; severity: string; description: string; location?: string }>;
+  /** Lowest scoring dimensions of the review */
+  weakestDimensions: GanReview['dimensions'];
+  judgeNotes: Array<{ model: string; score: number; notes: string }>;
+}
+
+const DEFAULT_CONTEXT_LINES = 5;
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+function defineTool(name: string, description: string, schema: z.ZodType): Tool {
+  const { $schema, ...inputSchema } = z.toJSONSchema(schema) as Record<string, unknown>;
+  return { name, description, inputSchema: inputSchema as Tool['inputSchema'] };
+}
+
+/**
+ * Tools served next to `gansauditor_codex`
+ */
+export const AUDIT_TOOLS: Tool[] = [
+  defineTool(
+    'audit_diff',
+    'Audit a unified diff. Without a diff, audits the working tree against HEAD, or a commit range (baseRef..headRef, or range such as "main...HEAD").',
+    AuditDiffInputSchema
+  ),
+  defineTool('audit_paths', 'Audit the given files or directories of the workspace.', AuditPathsInputSchema),
+  defineTool('get_session', 'Return the full state of an audit session.', SessionInputSchema),
+  defineTool('list_sessions', 'List audit sessions with their latest verdict and score.', ListSessionsInputSchema),
+  defineTool('delete_session', 'Delete an audit session and its persisted state.', SessionInputSchema),
+  defineTool(
+    'get_session_statistics',
+    'Return quality and workflow statistics of an audit session.',
+    SessionInputSchema
+  ),
+  defineTool(
+    'explain_finding',
+    'Explain an inline finding of the latest review: source excerpt, citations, related workflow issues and judge notes.',
+    ExplainFindingInputSchema
+  ),
+  defineTool(
+    'export_sarif',
+    'Export the latest review of a session as a SARIF 2.1.0 log, compared with the audit before it.',
+    SessionInputSchema
+  ),
+  defineTool(
+    'session_analytics',
+    'Analyze the sessions updated in a date window: score distributions per repository or task, frequent inline comment categories, iterations to pass, kill-switch hit rates and the slowest workflow steps.',
+    SessionAnalyticsInputSchema
+  ),
+];
+
+const AUDIT_TOOL_NAMES = new Set(AUDIT_TOOLS.map(tool => tool.name));
+
+// ============================================================================
+// Tool Handlers
+// ============================================================================
+
+/**
+ * Dependencies of the audit tools; the auditor must persist its sessions
+ * through the same session manager
+ */
+export interface AuditToolsDependencies {
+  auditor: IGansAuditorCodexAuditor;
+  sessionManager: SessionManager;
+  /** Repository diffs are read from; defaults to process.cwd() */
+  workspacePath?: string;
+}
+
+/**
+ * Per-call options of an audit tool
+ */
+export interface AuditToolCallOptions {
+  /** Cancels a running audit */
+  signal?: AbortSignal;
+  /** Receives the progress of audit_diff and audit_paths */
+  onProgress?: (update: ProgressUpdate) => void;
+}
+
+/**
+ * Handles calls to the tools in AUDIT_TOOLS
+ */
+export class AuditTools {
+  private readonly auditor: IGansAuditorCodexAuditor;
+  private readonly sessionManager: SessionManager;
+  private readonly workspacePath: string;
+  private readonly progressTracker = new ProgressTracker({ enableLogging: false });
+
+  constructor(dependencies: AuditToolsDependencies) {
+    this.auditor = dependencies.auditor;
+    this.sessionManager = dependencies.sessionManager;
+    this.workspacePath = dependencies.workspacePath ?? process.cwd();
+  }
+
+  /**
+   * Whether the tool is one of AUDIT_TOOLS
+   */
+  handles(name: string): boolean {
+    return AUDIT_TOOL_NAMES.has(name);
+  }
+
+  /**
+   * Run a tool; failures are returned as structured MCP error responses.
+   * Aborting the signal cancels a running audit.
+   */
+  async call(name: string, args: unknown, options: AuditToolCallOptions = {}): Promise<GansAuditorCodexToolResponse> {
+    try {
+      const result = await this.dispatch(name, args ?? {}, options);
+      const text = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+      return { content: [{ type: 'text', text }] };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return toMcpToolResponse(createValidationError(
+          `Invalid arguments for ${name}`,
+          error.issues.map(issue => `${issue.path.join('.') || 'input'}: ${issue.message}`).join('; '),
+          { toolName: name }
+        ));
+      }
+      return toMcpToolResponse(createErrorResponseFromError(error, {
+        toolName: name,
+        timestamp: new Date().toISOString(),
+      }));
+    }
+  }
+
+  private async dispatch(name: string, args: unknown, options: AuditToolCallOptions): Promise<unknown> {
+    switch (name) {
+      case 'audit_diff':
+        return this.auditDiff(AuditDiffInputSchema.parse(args), options);
+      case 'audit_paths':
+        return this.auditPaths(AuditPathsInputSchema.parse(args), options);
+      case 'get_session':
+        return this.requireSession(SessionInputSchema.parse(args).sessionId);
+      case 'list_sessions':
+        return this.listSessions(ListSessionsInputSchema.parse(args));
+      case 'delete_session':
+        return this.deleteSession(SessionInputSchema.parse(args).sessionId);
+      case 'get_session_statistics':
+        return this.getSessionStatistics(SessionInputSchema.parse(args).sessionId);
+      case 'explain_finding':
+        return this.explainFinding(ExplainFindingInputSchema.parse(args));
+      case 'export_sarif':
+        return this.exportSarif(SessionInputSchema.parse(args).sessionId);
+      case 'session_analytics':
+        return this.sessionAnalytics(SessionAnalyticsInputSchema.parse(args));
+      default:
+        throw new Error(`Unknown audit tool: ${name}`);
+    }
+  }
+
+  private async auditDiff(input: z.infer<typeof AuditDiffInputSchema>, options: AuditToolCallOptions): Promise<AuditDiffResult | SarifLog> {
+    const range: DiffRange | undefined = input.range
+      ? parseDiffRange(input.range)
+      : input.baseRef ? { baseRef: input.baseRef, headRef: input.headRef } : undefined;
+    const diff = input.diff ?? await readGitDiff(this.workspacePath, range);
+    if (!diff.trim()) {
+      throw new Error('Invalid audit_diff request: there are no changes to audit');
+    }
+
+    // The session records the range, so its context pack is built from the same commits
+    const scope: Pick<GansAuditorCodexInlineConfig, 'scope' | 'baseRef' | 'headRef' | 'range'> = { scope: 'diff' };
+    if (input.range) {
+      scope.range = input.range;
+    } else if (input.baseRef) {
+      scope.baseRef = input.baseRef;
+      scope.headRef = input.headRef;
+    }
+
+    const { sessionId, review } = await this.runAudit(input, scope, `\`\`\`diff\n${diff}\n\`\`\``, options);
+    if (input.format === 'sarif') {
+      return this.exportSarif(sessionId);
+    }
+    return {
+      sessionId,
+      source: input.diff ? 'input' : range ? 'range' : 'working_tree',
+      range: range ? formatDiffRange(range) : undefined,
+      filesChanged: parseDiffFiles(diff),
+      review,
+    };
+  }
+
+  private async auditPaths(input: z.infer<typeof AuditPathsInputSchema>, options: AuditToolCallOptions): Promise<AuditPathsResult | SarifLog> {
+    const candidate = `Audit the following workspace paths:\n${input.paths.map(path => `- ${path}`).join('\n')}`;
+    const { sessionId, review } = await this.runAudit(input, { scope: 'paths', paths: input.paths }, candidate, options);
+    if (input.format === 'sarif') {
+      return this.exportSarif(sessionId);
+    }
+    return { sessionId, paths: input.paths, review };
+  }
+
+  /**
+   * Store the requested configuration on the session, then audit the candidate in it
+   */
+  private async runAudit(
+    options: { sessionId?: string; task?: string; threshold?: number; judges?: string[] },
+    scope: Pick<GansAuditorCodexInlineConfig, 'scope' | 'paths' | 'baseRef' | 'headRef' | 'range'>,
+    candidate: string,
+    { signal, onProgress }: AuditToolCallOptions
+  ): Promise<{ sessionId: string; review: GanReview }> {
+    const sessionId = options.sessionId ?? this.sessionManager.generateSessionId(this.workspacePath);
+    const existing = await this.sessionManager.getSession(sessionId);
+
+    const overrides: Partial<GansAuditorCodexInlineConfig> = { ...scope };
+    if (options.task !== undefined) overrides.task = options.task;
+    if (options.threshold !== undefined) overrides.threshold = options.threshold;
+    if (options.judges !== undefined) overrides.judges = options.judges;
+
+    const validation = validateAndSanitizeConfig(overrides, existing?.config ?? DEFAULT_SESSION_CONFIG);
+    if (!validation.isValid || !validation.data) {
+      throw new Error(`Invalid audit configuration: ${validation.errors.join('; ')}`);
+    }
+    const config: SessionConfig = validation.data;
+    // The commit range of an earlier audit must not carry over
+    if (scope.baseRef === undefined && scope.range === undefined) {
+      delete config.baseRef;
+      delete config.headRef;
+      delete config.range;
+    }
+
+    if (existing) {
+      existing.config = config;
+      await this.sessionManager.updateSession(existing);
+    } else {
+      await this.sessionManager.createSession(sessionId, config);
+    }
+
+    const thoughtNumber = (existing?.history.length ?? 0) + 1;
+    const thought = {
+      thought: candidate,
+      thoughtNumber,
+      totalThoughts: thoughtNumber,
+      nextThoughtNeeded: false,
+      branchId: sessionId,
+    };
+    const review = onProgress
+      ? await this.progressTracker.trackAudit(
+          `${sessionId}-${thoughtNumber}`,
+          thought,
+          onStep => this.auditor.auditThought(thought, sessionId, { signal, onStep }),
+          onProgress
+        )
+      : await this.auditor.auditThought(thought, sessionId, { signal });
+
+    return { sessionId, review };
+  }
+
+  private async requireSession(sessionId: string): Promise<SessionState> {
+    const session = await this.sessionManager.getSession(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    return session;
+  }
+
+  private async listSessions(input: z.infer<typeof ListSessionsInputSchema>): Promise<{ sessions: SessionSummary[] }> {
+    const sessions = (await this.sessionManager.getAllSessions())
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, input.limit)
+      .map((session): SessionSummary => ({
+        sessionId: session.id,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        currentLoop: session.currentLoop,
+        isComplete: session.isComplete,
+        audits: session.history.length,
+        lastVerdict: session.lastGan?.verdict,
+        lastScore: session.lastGan?.overall,
+      }));
+    return { sessions };
+  }
+
+  private async deleteSession(sessionId: string): Promise<{ sessionId: string; deleted: boolean }> {
+    const deleted = await this.sessionManager.deleteSession(sessionId);
+    if (!deleted) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    return { sessionId, deleted };
+  }
+
+  private async exportSarif(sessionId: string): Promise<SarifLog> {
+    const session = await this.requireSession(sessionId);
+    if (!session.lastGan) {
+      throw new Error(`Invalid export_sarif request: session ${sessionId} has no completed audit`);
+    }
+    return exportSessionAsSarif(session, { repositoryPath: this.workspacePath });
+  }
+
+  private async sessionAnalytics(input: z.infer<typeof SessionAnalyticsInputSchema>): Promise<SessionAnalyticsReport | string> {
+    const report = await analyzeSessions(this.sessionManager, toSessionAnalyticsOptions(input));
+    return input.format === 'csv' ? formatSessionAnalyticsCsv(report) : report;
+  }
+
+  private async getSessionStatistics(sessionId: string): Promise<SessionStatistics> {
+    await this.requireSession(sessionId);
+    return this.sessionManager.getSessionStatistics(sessionId);
+  }
+
+  private async explainFinding(input: z.infer<typeof ExplainFindingInputSchema>): Promise<FindingExplanation> {
+    const session = await this.requireSession(input.sessionId);
+    const review = session.lastGan;
+    if (!review) {
+      throw new Error(`Invalid explain_finding request: session ${input.sessionId} has no completed audit`);
+    }
+    const finding = review.review.inline[input.index];
+    if (!finding) {
+      throw new Error(
+        `Invalid explain_finding request: index ${input.index} is out of range (${review.review.inline.length} findings)`
+      );
+    }
+
+    const findingPath = this.toWorkspacePath(finding.path);
+    const inFile = (location?: string) => Boolean(
+      findingPath && location && this.toWorkspacePath(locationPath(location)) === findingPath
+    );
+    return {
+      sessionId: input.sessionId,
+      index: input.index,
+      finding,
+      verdict: review.verdict,
+      overall: review.overall,
+      excerpt: await this.readExcerpt(finding, input.contextLines ?? DEFAULT_CONTEXT_LINES),
+      citations: review.review.citations.filter(inFile),
+      relatedIssues: (review.workflow_steps || []).flatMap(step => step.issues
+        .filter(issue => inFile(issue.location))
+        .map(issue => ({ step: step.stepName, ...issue }))),
+      weakestDimensions: [...review.dimensions].sort((a, b) => a.score - b.score).slice(0, 2),
+      judgeNotes: review.judge_cards
+        .filter(card => card.notes)
+        .map(card => ({ model: card.model, score: card.score, notes: card.notes! })),
+    };
+  }
+
+  /**
+   * Workspace-relative form of a path, or null when it points outside the workspace
+   */
+  private toWorkspacePath(path: string): string | null {
+    const relativePath = relative(resolve(this.workspacePath), resolve(this.workspacePath, path));
+    return isInside(relativePath) ? relativePath.split(sep).join('/') : null;
+  }
+
+  /**
+   * Lines around a finding; none for files outside the workspace, since the
+   * path comes from the model and explain_finding may be served over HTTP
+   */
+  private async readExcerpt(finding: InlineComment, contextLines: number): Promise<FindingExplanation['excerpt']> {
+    const filePath = this.toWorkspacePath(finding.path);
+    if (!filePath) {
+      return undefined;
+    }
+
+    let content: string;
+    try {
+      // Symlinks must not lead out of the workspace either
+      const workspace = await realpath(this.workspacePath);
+      const target = await realpath(resolve(this.workspacePath, filePath));
+      if (!isInside(relative(workspace, target))) {
+        return undefined;
+      }
+      content = await readFile(target, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const lines = content.split('\n');
+    const startLine = Math.max(1, finding.line - contextLines);
+    const endLine = Math.min(lines.length, finding.line + contextLines);
+    return { startLine, endLine, lines: lines.slice(startLine - 1, endLine) };
+  }
+}
+
+/**
+ * Whether a path relative to a directory stays inside it
+ */
+function isInside(relativePath: string): boolean {
+  return relativePath !== '' && relativePath !== '..' && !relativePath.startsWith(`..${sep}`) && !isAbsolute(relativePath);
+}
+
+/**
+ * File part of a location: `repo://path:start-end`, `path:line[:column]` or a bare path
+ */
+function locationPath(location: string): string {
+  return location.replace(/^repo:\/\//, '').replace(/:\d+(?:-\d+)?(?::\d+)?$/, '');
+}
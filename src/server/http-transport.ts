@@ -0,0 +1,318 @@
+/**
+ * HTTP Transport
+ *
+ * Serves MCP over HTTP with server-sent events, so a team can share one warm
+ * auditor. Clients authenticate with a bearer token that names them; each
+ * connection gets its own MCP server bound to that client's sessions.
+ *
+ * Routes:
+ * - `GET /sse` opens the event stream of a new connection
+ * - `POST /messages?sessionId=<id>` delivers client messages to a connection
+ * - `GET /health` reports server and Codex health without authentication
+ */
+
+import { createServer, type IncomingMessage, type Server as NodeHttpServer, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { HealthChecker, HealthStatus, SystemHealthReport } from '../monitoring/health-checker.js';
+import type { CodexHealthMonitor, CodexHealthReport, CodexHealthStatus } from '../monitoring/codex-health-monitor.js';
+import { InvalidConfigValueError, MissingConfigError } from '../types/error-types.js';
+import { logger } from '../utils/logger.js';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Transport the server listens on
+ */
+export type TransportMode = 'stdio' | 'http';
+
+/**
+ * A client allowed to connect, identified by its bearer token
+ */
+export interface HttpClient {
+  clientId: string;
+  token: string;
+}
+
+/**
+ * HTTP transport configuration
+ */
+export interface HttpTransportConfig {
+  host: string;
+  port: number;
+  clients: HttpClient[];
+}
+
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/**
+ * Read the transport mode from GAN_AUDITOR_TRANSPORT (default: 'stdio')
+ */
+export function resolveTransportMode(value: string | undefined): TransportMode {
+  if (value === undefined || value === '' || value === 'stdio') {
+    return 'stdio';
+  }
+  if (value === 'http') {
+    return 'http';
+  }
+  throw new InvalidConfigValueError('GAN_AUDITOR_TRANSPORT', value, 'stdio, http');
+}
+
+/**
+ * Build HTTP transport configuration from environment variables
+ * Environment variables:
+ * - GAN_AUDITOR_HTTP_HOST (default: '127.0.0.1')
+ * - GAN_AUDITOR_HTTP_PORT (default: 3000)
+ * - GAN_AUDITOR_HTTP_TOKENS (required): comma-separated `clientId:token` pairs
+ */
+export function buildHttpTransportConfigFromEnv(env: NodeJS.ProcessEnv = process.env): HttpTransportConfig {
+  const port = env.GAN_AUDITOR_HTTP_PORT ? Number(env.GAN_AUDITOR_HTTP_PORT) : 3000;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new InvalidConfigValueError('GAN_AUDITOR_HTTP_PORT', env.GAN_AUDITOR_HTTP_PORT, '0-65535');
+  }
+
+  if (!env.GAN_AUDITOR_HTTP_TOKENS?.trim()) {
+    throw new MissingConfigError('GAN_AUDITOR_HTTP_TOKENS', 'http transport');
+  }
+
+  const clients = env.GAN_AUDITOR_HTTP_TOKENS.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(':');
+    const clientId = entry.slice(0, separator);
+    const token = entry.slice(separator + 1);
+    if (separator < 0 || !CLIENT_ID_PATTERN.test(clientId) || !token) {
+      // Never echo the token itself
+      throw new InvalidConfigValueError('GAN_AUDITOR_HTTP_TOKENS', `entry for '${separator < 0 ? '?' : clientId}'`, 'clientId:token pairs; client ids use letters, digits, - and _');
+    }
+    return { clientId, token };
+  });
+
+  const clientIds = new Set(clients.map(client => client.clientId));
+  if (clientIds.size !== clients.length) {
+    throw new InvalidConfigValueError('GAN_AUDITOR_HTTP_TOKENS', 'duplicate client ids', 'one token per client id');
+  }
+
+  return {
+    host: env.GAN_AUDITOR_HTTP_HOST || '127.0.0.1',
+    port,
+    clients,
+  };
+}
+
+// ============================================================================
+// Health
+// ============================================================================
+
+/**
+ * Body of `GET /health`
+ */
+export interface HttpHealthReport {
+  status: 'healthy' | 'warning' | 'critical';
+  uptime: number;
+  connections: number;
+  system: { status: HealthStatus; checks: Array<{ name: string; status: HealthStatus; message: string }> };
+  codex: { status: CodexHealthStatus; checks: Array<{ name: string; status: CodexHealthStatus; message: string }> };
+}
+
+/**
+ * Health of the shared auditor, without the connection count
+ */
+export type HealthCheck = () => Promise<Omit<HttpHealthReport, 'connections'>>;
+
+/**
+ * Build the health check from the system and Codex monitors. The latest
+ * periodic reports are used; a check only runs when a monitor has none yet.
+ */
+export function createMonitorHealthCheck(
+  healthChecker: Pick<HealthChecker, 'getLastHealthReport' | 'performHealthCheck'>,
+  codexHealthMonitor: Pick<CodexHealthMonitor, 'getLastHealthReport' | 'performHealthCheck'>
+): HealthCheck {
+  return async () => {
+    const [system, codex]: [SystemHealthReport, CodexHealthReport] = await Promise.all([
+      healthChecker.getLastHealthReport() ?? healthChecker.performHealthCheck(),
+      codexHealthMonitor.getLastHealthReport() ?? codexHealthMonitor.performHealthCheck(),
+    ]);
+
+    const critical = system.overall === 'critical' || codex.overall === 'critical' || codex.overall === 'unavailable';
+    const warning = system.overall !== 'healthy' || codex.overall !== 'healthy';
+
+    return {
+      status: critical ? 'critical' : warning ? 'warning' : 'healthy',
+      uptime: system.uptime,
+      system: {
+        status: system.overall,
+        checks: system.checks.map(({ name, status, message }) => ({ name, status, message })),
+      },
+      codex: {
+        status: codex.overall,
+        checks: codex.checks.map(({ name, status, message }) => ({ name, status, message })),
+      },
+    };
+  };
+}
+
+// ============================================================================
+// HTTP Transport Server
+// ============================================================================
+
+/**
+ * MCP server of one connection and the cleanup to run when it closes
+ */
+export interface HttpClientConnection {
+  server: Server;
+  dispose(): void;
+}
+
+/**
+ * Create the MCP server for a new connection of an authenticated client
+ */
+export type HttpConnectionFactory = (clientId: string) => HttpClientConnection;
+
+interface OpenConnection {
+  clientId: string;
+  transport: SSEServerTransport;
+}
+
+/**
+ * Accepts authenticated SSE connections and routes client messages to them
+ */
+export class HttpTransportServer {
+  private readonly httpServer: NodeHttpServer;
+  private readonly connections = new Map<string, OpenConnection>();
+  /** Client ids by SHA-256 digest of their token */
+  private readonly tokenDigests: Array<{ digest: Buffer; clientId: string }>;
+
+  constructor(
+    private readonly config: HttpTransportConfig,
+    private readonly connectClient: HttpConnectionFactory,
+    private readonly checkHealth: HealthCheck
+  ) {
+    this.tokenDigests = config.clients.map(client => ({ digest: digest(client.token), clientId: client.clientId }));
+    this.httpServer = createServer((req, res) => {
+      this.route(req, res).catch(error => {
+        logger.error('HTTP request failed', error instanceof Error ? error : undefined, { url: req.url }, 'http-transport');
+        if (!res.headersSent) {
+          sendJson(res, 500, { error: 'Internal server error' });
+        }
+      });
+    });
+  }
+
+  /**
+   * Number of open connections
+   */
+  get connectionCount(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * Start listening; resolves with the bound address
+   */
+  async start(): Promise<AddressInfo> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.config.port, this.config.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    return this.httpServer.address() as AddressInfo;
+  }
+
+  /**
+   * Close every connection and stop listening
+   */
+  async stop(): Promise<void> {
+    await Promise.all([...this.connections.values()].map(connection => connection.transport.close()));
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.close(error => (error ? reject(error) : resolve()));
+      this.httpServer.closeAllConnections();
+    });
+  }
+
+  private async route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === '/health') {
+      if (req.method !== 'GET') {
+        return sendMethodNotAllowed(res, 'GET');
+      }
+      const report: HttpHealthReport = { ...(await this.checkHealth()), connections: this.connections.size };
+      return sendJson(res, report.status === 'critical' ? 503 : 200, report);
+    }
+
+    if (url.pathname !== '/sse' && url.pathname !== '/messages') {
+      return sendJson(res, 404, { error: 'Not found' });
+    }
+
+    const clientId = this.authenticate(req);
+    if (!clientId) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return sendJson(res, 401, { error: 'Missing or invalid bearer token' });
+    }
+
+    if (url.pathname === '/sse') {
+      if (req.method !== 'GET') {
+        return sendMethodNotAllowed(res, 'GET');
+      }
+      return this.openConnection(clientId, res);
+    }
+
+    if (req.method !== 'POST') {
+      return sendMethodNotAllowed(res, 'POST');
+    }
+    // Connections of other clients are reported as unknown, not forbidden
+    const connection = this.connections.get(url.searchParams.get('sessionId') ?? '');
+    if (!connection || connection.clientId !== clientId) {
+      return sendJson(res, 404, { error: 'Unknown session' });
+    }
+    await connection.transport.handlePostMessage(req, res);
+  }
+
+  private async openConnection(clientId: string, res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport('/messages', res);
+    const { server, dispose } = this.connectClient(clientId);
+
+    this.connections.set(transport.sessionId, { clientId, transport });
+    server.onclose = () => {
+      this.connections.delete(transport.sessionId);
+      dispose();
+      logger.info('HTTP client disconnected', { clientId, sessionId: transport.sessionId }, 'http-transport');
+    };
+
+    await server.connect(transport);
+    logger.info('HTTP client connected', { clientId, sessionId: transport.sessionId }, 'http-transport');
+  }
+
+  /**
+   * Resolve the client of the request's bearer token
+   */
+  private authenticate(req: IncomingMessage): string | undefined {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+    if (!match) {
+      return undefined;
+    }
+    const presented = digest(match[1]);
+    return this.tokenDigests.find(entry => timingSafeEqual(entry.digest, presented))?.clientId;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendMethodNotAllowed(res: ServerResponse, allowed: string): void {
+  res.setHeader('Allow', allowed);
+  sendJson(res, 405, { error: 'Method not allowed' });
+}
@@ -0,0 +1,51 @@
+/**
+ * Progress Notifications
+ *
+ * Forwards ProgressTracker updates of an audit to the client as MCP
+ * `notifications/progress` for the request's progress token.
+ */
+
+import type { ProgressToken } from '@modelcontextprotocol/sdk/types.js';
+import type { ProgressUpdate } from '../auditor/progress-tracker.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Sends notifications to the client; implemented by the MCP server
+ */
+export interface NotificationSender {
+  notification(notification: { method: string; params?: Record<string, unknown> }): Promise<void>;
+}
+
+/**
+ * Create a progress listener for one request. The protocol requires progress
+ * to increase with every notification, so updates that do not advance it
+ * (periodic updates within a stage, or a failed audit) are not sent.
+ */
+export function createProgressNotifier(
+  sender: NotificationSender,
+  progressToken: ProgressToken
+): (update: ProgressUpdate) => void {
+  let lastProgress: number | undefined;
+
+  return update => {
+    if (lastProgress !== undefined && update.percentage <= lastProgress) {
+      return;
+    }
+    lastProgress = update.percentage;
+    sender.notification({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress: lastProgress,
+        total: 100,
+        message: update.step ? `${update.step}: ${update.message}` : update.message,
+        stage: update.stage,
+        step: update.step,
+        elapsedTime: update.elapsedTime,
+        estimatedTimeRemaining: update.estimatedTimeRemaining,
+      },
+    }).catch(error => {
+      logger.warn('Failed to send progress notification', { progressToken, error }, 'progress-notifications');
+    });
+  };
+}
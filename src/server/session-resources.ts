@@ -0,0 +1,380 @@
+/**
+ * Session Resources
+ *
+ * Publishes audit sessions as MCP resources under `gansaudit://sessions/{id}`:
+ * the session state, its history and quality progression, the evidence table,
+ * the traceability matrix, the proposed diff and a markdown report. Clients
+ * can subscribe to a resource and are notified when the session changes.
+ */
+
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import type { SessionManager } from '../session/session-manager.js';
+import type { GanReview, SessionState } from '../types/gan-types.js';
+import { SessionNotFoundError } from '../types/error-types.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Contents of a read resource
+ */
+export interface SessionResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Notifications sent to connected clients; implemented by the MCP server
+ */
+export interface ResourceNotifier {
+  sendResourceUpdated(params: { uri: string }): Promise<void>;
+  sendResourceListChanged(): Promise<void>;
+}
+
+type SessionView = 'history' | 'quality-progression' | 'evidence.md' | 'traceability.json' | 'proposed.diff' | 'report.md';
+
+/**
+ * Traceability matrix as recorded by the TRACE step
+ */
+type TraceabilityMatrix = Record<string, {
+  description?: string;
+  implementationFiles?: string[];
+  testFiles?: string[];
+  covered?: boolean;
+  coveragePercentage?: number;
+  linkSource?: 'explicit' | 'inferred' | 'none';
+  confidence?: number;
+  met?: boolean;
+}>;
+
+/**
+ * Issue reported by a workflow step
+ */
+interface StepIssue {
+  step: string;
+  severity: string;
+  description: string;
+  location?: string;
+}
+
+const URI_PREFIX = 'gansaudit://sessions/';
+const RESOURCE_URI = /^gansaudit:\/\/sessions\/([\w-][\w.-]*)(?:\/(history|quality-progression|evidence\.md|traceability\.json|proposed\.diff|report\.md))?$/;
+
+const VIEWS: Record<SessionView, { name: string; mimeType: string; description: string }> = {
+  'history': { name: 'history', mimeType: 'application/json', description: 'Audit history entries' },
+  'quality-progression': { name: 'quality progression', mimeType: 'application/json', description: 'Scores across iterations' },
+  'evidence.md': { name: 'evidence table', mimeType: 'text/markdown', description: 'Issues reported by the workflow steps' },
+  'traceability.json': { name: 'traceability matrix', mimeType: 'application/json', description: 'Acceptance criteria mapped to code and tests' },
+  'proposed.diff': { name: 'proposed diff', mimeType: 'text/x-diff', description: 'Fix proposed by the latest review' },
+  'report.md': { name: 'report', mimeType: 'text/markdown', description: 'Markdown audit report' },
+};
+
+/**
+ * URI templates of the session resources
+ */
+export const SESSION_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${URI_PREFIX}{id}`,
+    name: 'Audit session',
+    description: 'Full state of an audit session',
+    mimeType: 'application/json',
+  },
+  ...(Object.entries(VIEWS) as Array<[SessionView, typeof VIEWS[SessionView]]>).map(([view, info]) => ({
+    uriTemplate: `${URI_PREFIX}{id}/${view}`,
+    name: `Audit session ${info.name}`,
+    description: info.description,
+    mimeType: info.mimeType,
+  })),
+];
+
+// ============================================================================
+// Session Resources
+// ============================================================================
+
+/**
+ * Lists, reads and tracks subscriptions to session resources
+ */
+export class SessionResources {
+  private readonly subscriptions = new Set<string>();
+  /** Resource URIs last listed per session, to detect list changes */
+  private readonly knownResources = new Map<string, string>();
+
+  constructor(
+    private readonly sessionManager: SessionManager,
+    private readonly notifier: ResourceNotifier
+  ) {
+    sessionManager.on('sessionUpdated', this.onSessionUpdated);
+    sessionManager.on('sessionDeleted', this.onSessionDeleted);
+  }
+
+  /**
+   * Stop following session changes, e.g. when the client disconnects
+   */
+  dispose(): void {
+    this.sessionManager.off('sessionUpdated', this.onSessionUpdated);
+    this.sessionManager.off('sessionDeleted', this.onSessionDeleted);
+    this.subscriptions.clear();
+  }
+
+  private readonly onSessionUpdated = (session: SessionState): void => {
+    this.notifySessionChanged(session.id, session).catch(error => {
+      logger.warn('Failed to send session resource notifications', { sessionId: session.id, error }, 'session-resources');
+    });
+  };
+
+  private readonly onSessionDeleted = (sessionId: string): void => {
+    this.notifySessionChanged(sessionId, null).catch(error => {
+      logger.warn('Failed to send session resource notifications', { sessionId, error }, 'session-resources');
+    });
+  };
+
+  /**
+   * All resources of all sessions, most recently updated sessions first
+   */
+  async listResources(): Promise<Resource[]> {
+    const sessions = (await this.sessionManager.getAllSessions()).sort((a, b) => b.updatedAt - a.updatedAt);
+    return sessions.flatMap(session => this.describeSession(session));
+  }
+
+  /**
+   * Read a resource; throws for unknown URIs and sessions
+   */
+  async readResource(uri: string): Promise<SessionResourceContents> {
+    const { sessionId, view } = parseResourceUri(uri);
+    const session = await this.sessionManager.getSession(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    if (!view) {
+      return { uri, mimeType: 'application/json', text: JSON.stringify(session, null, 2) };
+    }
+
+    const mimeType = VIEWS[view].mimeType;
+    switch (view) {
+      case 'history':
+        return { uri, mimeType, text: JSON.stringify(session.history, null, 2) };
+      case 'quality-progression':
+        return { uri, mimeType, text: JSON.stringify(session.qualityProgression ?? [], null, 2) };
+      case 'evidence.md':
+        return { uri, mimeType, text: renderEvidenceTable(collectStepIssues(session)) };
+      case 'traceability.json': {
+        const matrix = findTraceabilityMatrix(session);
+        if (!matrix) {
+          throw new Error(`Invalid resource ${uri}: session ${sessionId} has no traceability matrix`);
+        }
+        return { uri, mimeType, text: JSON.stringify(matrix, null, 2) };
+      }
+      case 'proposed.diff': {
+        const diff = session.lastGan?.proposed_diff;
+        if (!diff) {
+          throw new Error(`Invalid resource ${uri}: session ${sessionId} has no proposed diff`);
+        }
+        return { uri, mimeType, text: diff };
+      }
+      case 'report.md':
+        return { uri, mimeType, text: renderSessionReport(session) };
+    }
+  }
+
+  /**
+   * Send resources/updated notifications for the URI from now on
+   */
+  subscribe(uri: string): void {
+    parseResourceUri(uri);
+    this.subscriptions.add(uri);
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+  }
+
+  private describeSession(session: SessionState): Resource[] {
+    const label = session.lastGan
+      ? `${session.lastGan.verdict} ${session.lastGan.overall}/100`
+      : 'no completed audit';
+    const resources: Resource[] = [{
+      uri: `${URI_PREFIX}${session.id}`,
+      name: `Audit session ${session.id}`,
+      description: `Session state (${label})`,
+      mimeType: 'application/json',
+    }];
+
+    for (const view of Object.keys(VIEWS) as SessionView[]) {
+      if (view === 'traceability.json' && !findTraceabilityMatrix(session)) continue;
+      if (view === 'proposed.diff' && !session.lastGan?.proposed_diff) continue;
+      resources.push({
+        uri: `${URI_PREFIX}${session.id}/${view}`,
+        name: `Audit session ${session.id} ${VIEWS[view].name}`,
+        description: VIEWS[view].description,
+        mimeType: VIEWS[view].mimeType,
+      });
+    }
+    return resources;
+  }
+
+  private async notifySessionChanged(sessionId: string, session: SessionState | null): Promise<void> {
+    const uris = session ? this.describeSession(session).map(resource => resource.uri) : [];
+    const signature = uris.join('\n');
+    if (this.knownResources.get(sessionId) !== signature) {
+      if (session) {
+        this.knownResources.set(sessionId, signature);
+      } else {
+        this.knownResources.delete(sessionId);
+      }
+      await this.notifier.sendResourceListChanged();
+    }
+
+    const prefix = `${URI_PREFIX}${sessionId}`;
+    for (const uri of this.subscriptions) {
+      if (uri === prefix || uri.startsWith(`${prefix}/`)) {
+        await this.notifier.sendResourceUpdated({ uri });
+      }
+    }
+  }
+}
+
+/**
+ * Split a resource URI into session id and view
+ */
+function parseResourceUri(uri: string): { sessionId: string; view?: SessionView } {
+  const match = RESOURCE_URI.exec(uri);
+  if (!match) {
+    throw new Error(`Invalid resource URI: ${uri}`);
+  }
+  return { sessionId: match[1], view: match[2] as SessionView | undefined };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Issues of the latest review's workflow steps, or of the latest recorded
+ * workflow iteration when the review carries none
+ */
+function collectStepIssues(session: SessionState): StepIssue[] {
+  const reviewSteps = session.lastGan?.workflow_steps;
+  if (reviewSteps && reviewSteps.length > 0) {
+    return reviewSteps.flatMap(step => step.issues.map(issue => ({ step: step.stepName, ...issue })));
+  }
+
+  const history = session.workflowHistory ?? [];
+  const latest = Math.max(...history.map(entry => entry.thoughtNumber));
+  return history
+    .filter(entry => entry.thoughtNumber === latest)
+    .flatMap(entry => entry.stepResult.issues.map(issue => ({ step: entry.stepName, ...issue })));
+}
+
+function findTraceabilityMatrix(session: SessionState): TraceabilityMatrix | undefined {
+  const fromReview = session.lastGan?.workflow_steps?.find(step => step.stepName === 'TRACE')?.metadata?.traceabilityMatrix;
+  if (fromReview) {
+    return fromReview;
+  }
+  const fromHistory = [...(session.workflowHistory ?? [])].reverse()
+    .find(entry => entry.stepName === 'TRACE' && entry.stepResult.metadata?.traceabilityMatrix);
+  return fromHistory?.stepResult.metadata?.traceabilityMatrix;
+}
+
+function cell(value: unknown): string {
+  return String(value ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function renderEvidenceTable(issues: StepIssue[]): string {
+  if (issues.length === 0) {
+    return 'No evidence recorded.\n';
+  }
+  return [
+    '| Step | Severity | Location | Description |',
+    '| --- | --- | --- | --- |',
+    ...issues.map(issue => `| ${cell(issue.step)} | ${cell(issue.severity)} | ${cell(issue.location ?? '-')} | ${cell(issue.description)} |`),
+  ].join('\n') + '\n';
+}
+
+function renderTraceabilityTable(matrix: TraceabilityMatrix): string {
+  return [
+    '| Criterion | Covered | Coverage | Implementation | Tests | Met | Links |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...Object.entries(matrix).map(([id, entry]) =>
+      `| ${cell(id)} | ${entry.covered ? 'yes' : 'no'} | ${entry.coveragePercentage ?? 0}% | ${cell((entry.implementationFiles ?? []).join(', ') || '-')} | ${cell((entry.testFiles ?? []).join(', ') || '-')} | ${entry.met === undefined ? '-' : entry.met ? 'yes' : 'no'} | ${describeLinkSource(entry)} |`),
+  ].join('\n') + '\n';
+}
+
+/**
+ * Explicit links, or the confidence of inferred ones
+ */
+function describeLinkSource(entry: TraceabilityMatrix[string]): string {
+  if (entry.linkSource === 'explicit') return 'explicit';
+  if (entry.linkSource === 'inferred') return `inferred (${entry.confidence ?? 0}% confidence)`;
+  return '-';
+}
+
+function renderReview(review: GanReview): string[] {
+  const lines = [
+    '## Summary',
+    '',
+    review.review.summary || '-',
+    '',
+    '## Dimensions',
+    '',
+    '| Dimension | Score |',
+    '| --- | --- |',
+    ...review.dimensions.map(dimension => `| ${cell(dimension.name)} | ${dimension.score} |`),
+    '',
+    '## Findings',
+    '',
+  ];
+  if (review.review.inline.length === 0) {
+    lines.push('No inline findings.');
+  } else {
+    lines.push(
+      '| # | Location | Comment |',
+      '| --- | --- | --- |',
+      ...review.review.inline.map((finding, index) => `| ${index} | ${cell(`${finding.path}:${finding.line}`)} | ${cell(finding.comment)} |`)
+    );
+  }
+  return lines;
+}
+
+/**
+ * Markdown report of a session's latest review, evidence and progression
+ */
+export function renderSessionReport(session: SessionState): string {
+  const review = session.lastGan;
+  const lines = [
+    `# Audit Report: ${session.id}`,
+    '',
+    `- Verdict: ${review ? `${review.verdict.toUpperCase()} (${review.overall}/100)` : 'no completed audit'}`,
+    `- Loop: ${session.currentLoop}${session.isComplete ? ` (complete: ${session.completionReason ?? 'done'})` : ''}`,
+    `- Updated: ${new Date(session.updatedAt).toISOString()}`,
+    '',
+  ];
+
+  if (review) {
+    lines.push(...renderReview(review), '');
+  }
+
+  lines.push('## Evidence', '', renderEvidenceTable(collectStepIssues(session)));
+
+  const progression = session.qualityProgression ?? [];
+  if (progression.length > 0) {
+    lines.push(
+      '## Quality Progression',
+      '',
+      '| Thought | Score | Critical issues |',
+      '| --- | --- | --- |',
+      ...progression.map(entry => `| ${entry.thoughtNumber} | ${entry.overallScore} | ${entry.criticalIssuesCount} |`),
+      ''
+    );
+  }
+
+  const matrix = findTraceabilityMatrix(session);
+  if (matrix) {
+    lines.push('## Traceability', '', renderTraceabilityTable(matrix));
+  }
+
+  if (review?.proposed_diff) {
+    lines.push('## Proposed Diff', '', '```diff', review.proposed_diff.trimEnd(), '```', '');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,114 @@
+/**
+ * Tests for cross-session analytics
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeSessionAnalytics, formatSessionAnalyticsCsv } from '../session-analytics.js';
+import { parseAnalyticsArgs } from '../../server/analytics-command.js';
+import { DEFAULT_SESSION_CONFIG, type GanReview, type SessionState } from '../../types/gan-types.js';
+
+function review(overall: number, verdict: GanReview['verdict'], comments: string[] = []): GanReview {
+  return {
+    overall,
+    dimensions: [],
+    verdict,
+    review: { summary: '', inline: comments.map((comment, index) => ({ path: 'src/a.ts', line: index + 1, comment })), citations: [] },
+    iterations: 1,
+    judge_cards: [],
+  };
+}
+
+function createSession(id: string, reviews: GanReview[], overrides: Partial<SessionState> = {}): SessionState {
+  return {
+    id,
+    config: { ...DEFAULT_SESSION_CONFIG },
+    history: reviews.map((entry, index) => ({ timestamp: 1000 + index, thoughtNumber: index + 1, review: entry, config: {} })),
+    iterations: [],
+    currentLoop: reviews.length,
+    isComplete: false,
+    codexContextActive: false,
+    createdAt: 1000,
+    updatedAt: 2000,
+    lastGan: reviews[reviews.length - 1],
+    ...overrides,
+  };
+}
+
+function workflowEntry(stepName: string, duration: number) {
+  return {
+    timestamp: 1000,
+    thoughtNumber: 1,
+    stepName,
+    stepResult: { success: true, evidence: [], issues: [], duration },
+    sessionLoop: 1,
+  };
+}
+
+const repository = (name: string) => ({
+  promptContext: { promptVersion: '1', configHash: '', renderedPrompt: '', variables: {}, projectContext: { repository: name } },
+});
+
+describe('computeSessionAnalytics', () => {
+  const sessions = [
+    createSession('a', [review(60, 'revise', ['SQL injection in query builder']), review(92, 'pass')], {
+      ...repository('api'),
+      isComplete: true,
+      completionReason: 'score_95_at_10',
+      workflowHistory: [workflowEntry('DYNAMIC', 900), workflowEntry('INIT', 10)],
+    }),
+    createSession('b', [review(40, 'revise', ['Possible XSS', 'Missing test coverage']), review(55, 'revise')], {
+      ...repository('api'),
+      isComplete: true,
+      completionReason: 'max_loops_reached',
+      workflowHistory: [workflowEntry('DYNAMIC', 1100)],
+    }),
+    createSession('c', [review(88, 'pass', ['Unhandled exception'])], {
+      config: { ...DEFAULT_SESSION_CONFIG, task: 'Refactor parser' },
+    }),
+  ];
+
+  it('should group final scores by repository or task', () => {
+    const byRepository = computeSessionAnalytics(sessions);
+    expect(byRepository.scoreDistributions).toEqual([
+      expect.objectContaining({ group: 'api', sessions: 2, min: 55, max: 92, mean: 73.5, median: 73.5 }),
+      expect.objectContaining({ group: 'unknown', sessions: 1, mean: 88 }),
+    ]);
+    expect(byRepository.scoreDistributions[0].buckets[5]).toBe(1);
+    expect(byRepository.scoreDistributions[0].buckets[9]).toBe(1);
+
+    const byTask = computeSessionAnalytics(sessions, { groupBy: 'task' });
+    expect(byTask.scoreDistributions.map(distribution => distribution.group))
+      .toEqual([DEFAULT_SESSION_CONFIG.task, 'Refactor parser']);
+  });
+
+  it('should count comment categories, iterations to pass, kill switches and step durations', () => {
+    const report = computeSessionAnalytics(sessions, { limit: 1 });
+
+    expect(report.sessions).toBe(3);
+    expect(report.commentCategories).toEqual([{ category: 'security', count: 2, share: 0.5 }]);
+    expect(report.iterationsToPass).toEqual({ passedSessions: 2, average: 1.5, median: 1.5 });
+    expect(report.killSwitches).toEqual({ finishedSessions: 2, hits: 1, rate: 0.5, byReason: { max_loops_reached: 1 } });
+    expect(report.slowestSteps).toEqual([
+      { stepName: 'DYNAMIC', runs: 2, averageDuration: 1000, maxDuration: 1100, totalDuration: 2000 },
+    ]);
+  });
+
+  it('should format a report as quoted CSV rows', () => {
+    const csv = formatSessionAnalyticsCsv(computeSessionAnalytics([
+      createSession('d', [review(70, 'revise')], { config: { ...DEFAULT_SESSION_CONFIG, task: 'Fix "auth", then logs' } }),
+    ], { groupBy: 'task', from: Date.UTC(2026, 0, 1) }));
+
+    expect(csv).toContain('summary,all,from,2026-01-01T00:00:00.000Z\n');
+    expect(csv).toContain('score_by_task,"Fix ""auth"", then logs",mean,70\n');
+    expect(csv).toContain('iterations_to_pass,all,average,\n');
+  });
+});
+
+describe('parseAnalyticsArgs', () => {
+  it('should map command line options to tool input', () => {
+    expect(parseAnalyticsArgs(['--from', '2026-01-01', '--group-by', 'task', '--limit', '5', '--format', 'csv', '--state-dir', '/tmp/state']))
+      .toEqual({ help: false, stateDirectory: '/tmp/state', input: { from: '2026-01-01', groupBy: 'task', limit: 5, format: 'csv' } });
+    expect(() => parseAnalyticsArgs(['--since', '2026-01-01'])).toThrow('Unknown analytics option: --since');
+    expect(() => parseAnalyticsArgs(['--format'])).toThrow('Missing value for --format');
+  });
+});
@@ -244,6 +244,23 @@ describe('GansAuditor_Codex SessionManager', () => {
       expect(updated!.lastGan).toEqual(mockReview);
     });
 
+    it('should record cancelled audits without counting them as failures', async () => {
+      const sessionId = 'test-session-cancelled';
+      await sessionManager.createSession(sessionId, { ...DEFAULT_SESSION_CONFIG });
+
+      await sessionManager.recordCancelledAudit(sessionId, 2, 'judging');
+
+      const updated = await sessionManager.getSession(sessionId);
+      expect(updated!.lastAuditOutcome).toBe('cancelled');
+      expect(updated!.cancelledAudits).toEqual([
+        expect.objectContaining({ thoughtNumber: 2, step: 'judging' }),
+      ]);
+      expect(updated!.codexFailures ?? []).toHaveLength(0);
+      await expect(
+        sessionManager.recordCancelledAudit('non-existent', 1)
+      ).rejects.toThrow('Session not found: non-existent');
+    });
+
     it('should throw error when adding audit to non-existent session', async () => {
       const mockReview = { overall: 85 };
       const config: SessionConfig = { ...DEFAULT_SESSION_CONFIG };
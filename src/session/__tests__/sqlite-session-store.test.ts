@@ -0,0 +1,182 @@
+/**
+ * Tests for the SQLite session store and its use by SessionManager
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SessionManager } from '../session-manager.js';
+import { SqliteSessionStore, importJsonSessions } from '../sqlite-session-store.js';
+import { SQLITE_DATABASE_FILE } from '../session-store.js';
+import { SessionConflictError } from '../../types/error-types.js';
+import { DEFAULT_SESSION_CONFIG, type SessionState } from '../../types/gan-types.js';
+
+function createSession(id: string, overrides: Partial<SessionState> = {}): SessionState {
+  return {
+    id,
+    config: { ...DEFAULT_SESSION_CONFIG },
+    history: [],
+    iterations: [],
+    currentLoop: 0,
+    isComplete: false,
+    codexContextActive: false,
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+  };
+}
+
+describe('SqliteSessionStore', () => {
+  let stateDir: string;
+  let store: SqliteSessionStore;
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(join(tmpdir(), 'sqlite-sessions-'));
+    store = new SqliteSessionStore(join(stateDir, SQLITE_DATABASE_FILE));
+  });
+
+  afterEach(async () => {
+    store.close();
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  it('should reject writes based on a stale updatedAt', async () => {
+    await store.write(createSession('shared'));
+    await store.write(createSession('shared', { currentLoop: 1, updatedAt: 2000 }), 1000);
+
+    await expect(store.write(createSession('shared', { currentLoop: 2, updatedAt: 3000 }), 1000))
+      .rejects.toThrow(SessionConflictError);
+    expect(await store.read('shared')).toMatchObject({ currentLoop: 1, updatedAt: 2000 });
+
+    // Sessions not stored yet always match
+    await store.write(createSession('new', { updatedAt: 5000 }), 4000);
+    expect(await store.listIds()).toEqual(['new', 'shared']);
+  });
+
+  it('should query sessions by loop id, verdict and update time', async () => {
+    const review = (verdict: 'pass' | 'revise') => ({
+      overall: 80, dimensions: [], verdict, review: { summary: '', inline: [], citations: [] },
+      proposed_diff: null, iterations: 1, judge_cards: [],
+    });
+    await store.write(createSession('a', { loopId: 'loop-1', lastGan: review('pass'), updatedAt: 1000 }));
+    await store.write(createSession('b', { loopId: 'loop-1', lastGan: review('revise'), updatedAt: 2000 }));
+    await store.write(createSession('c', { loopId: 'loop-2', lastGan: review('pass'), updatedAt: 3000 }));
+
+    const ids = async (query: Parameters<SqliteSessionStore['query']>[0]) => (await store.query(query)).map(session => session.id);
+
+    expect(await ids({ loopId: 'loop-1' })).toEqual(['b', 'a']);
+    expect(await ids({ verdict: 'pass' })).toEqual(['c', 'a']);
+    expect(await ids({ updatedAfter: 2000, updatedBefore: 3000 })).toEqual(['b']);
+    expect(await ids({ limit: 1 })).toEqual(['c']);
+  });
+
+  it('should import JSON session files once and keep them as backups', async () => {
+    await fs.writeFile(join(stateDir, 'legacy.json'), JSON.stringify(createSession('legacy', { loopId: 'loop-9' })), 'utf-8');
+    await fs.writeFile(join(stateDir, 'broken.json'), '{"id":', 'utf-8');
+
+    expect(await importJsonSessions(stateDir, store)).toEqual({ imported: ['legacy'], skipped: [], failed: ['broken'] });
+    expect(await importJsonSessions(stateDir, store)).toEqual({ imported: [], skipped: [], failed: ['broken'] });
+
+    expect(await store.query({ loopId: 'loop-9' })).toHaveLength(1);
+    expect((await fs.readdir(stateDir)).sort()).toContain('legacy.json.migrated');
+  });
+
+  it('should leave files that cannot be written in place and report them as failed', async () => {
+    await fs.writeFile(join(stateDir, 'legacy.json'), JSON.stringify(createSession('legacy')), 'utf-8');
+    vi.spyOn(store, 'write').mockRejectedValueOnce(new Error('SQLITE_FULL: database or disk is full'));
+
+    expect(await importJsonSessions(stateDir, store)).toEqual({ imported: [], skipped: [], failed: ['legacy'] });
+    expect(await fs.readdir(stateDir)).toContain('legacy.json');
+
+    expect(await importJsonSessions(stateDir, store)).toEqual({ imported: ['legacy'], skipped: [], failed: [] });
+  });
+});
+
+describe('SessionManager with SQLite storage', () => {
+  let stateDir: string;
+  let managers: SessionManager[];
+
+  const createManager = () => {
+    const manager = new SessionManager({ stateDirectory: stateDir, storage: 'sqlite', cleanupInterval: 60000 });
+    managers.push(manager);
+    return manager;
+  };
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(join(tmpdir(), 'sqlite-manager-'));
+    managers = [];
+  });
+
+  afterEach(async () => {
+    managers.forEach(manager => manager.destroy());
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  it('should import existing JSON sessions on first use', async () => {
+    await fs.writeFile(join(stateDir, 'legacy.json'), JSON.stringify(createSession('legacy')), 'utf-8');
+
+    const session = await createManager().getSession('legacy');
+
+    expect(session).toMatchObject({ id: 'legacy', createdAt: 1000 });
+    expect(createManager().getStorageBackend()).toBe('sqlite');
+  });
+
+  it('should retry the JSON import after it fails', async () => {
+    await fs.writeFile(join(stateDir, 'legacy.json'), JSON.stringify(createSession('legacy')), 'utf-8');
+    const store = new SqliteSessionStore(join(stateDir, SQLITE_DATABASE_FILE));
+    vi.spyOn(store, 'read').mockRejectedValueOnce(new Error('EACCES: permission denied'));
+    const manager = new SessionManager({ stateDirectory: stateDir, store, cleanupInterval: 60000 });
+    managers.push(manager);
+
+    expect(await manager.getSession('legacy')).toBeNull();
+    expect(await manager.getSession('legacy')).toMatchObject({ id: 'legacy' });
+  });
+
+  it('should leave JSON session files alone when the import is turned off', async () => {
+    await fs.writeFile(join(stateDir, 'legacy.json'), JSON.stringify(createSession('legacy')), 'utf-8');
+    const manager = new SessionManager({
+      stateDirectory: stateDir, storage: 'sqlite', importJsonSessions: false, cleanupInterval: 60000,
+    });
+    managers.push(manager);
+
+    expect(await manager.getSession('legacy')).toBeNull();
+    expect(await fs.readdir(stateDir)).toContain('legacy.json');
+  });
+
+  it('should stop a client from overwriting a session changed by another client', async () => {
+    const first = createManager();
+    const second = createManager();
+    await first.createSession('shared', { ...DEFAULT_SESSION_CONFIG });
+
+    const seenByFirst = (await first.getSession('shared'))!;
+    const seenBySecond = (await second.getSession('shared'))!;
+    await second.updateSession({ ...seenBySecond, currentLoop: 1 });
+
+    await expect(first.updateSession({ ...seenByFirst, currentLoop: 2 })).rejects.toThrow(SessionConflictError);
+
+    // After reloading, the first client can write again
+    const reloaded = (await first.getSession('shared'))!;
+    expect(reloaded.currentLoop).toBe(1);
+    await first.updateSession({ ...reloaded, currentLoop: 2 });
+    expect((await second.getSession('shared'))!.currentLoop).toBe(2);
+  });
+
+  it('should detect conflicts between stale copies held by a single manager', async () => {
+    const manager = createManager();
+    await manager.createSession('shared', { ...DEFAULT_SESSION_CONFIG });
+
+    const copyA = (await manager.getSession('shared'))!;
+    const copyB = (await manager.getSession('shared'))!;
+    copyB.currentLoop = 1;
+    await manager.updateSession(copyB);
+
+    copyA.currentLoop = 2;
+    await expect(manager.updateSession(copyA)).rejects.toThrow(SessionConflictError);
+
+    // The copy that was written stays current and can be written again
+    copyB.currentLoop = 3;
+    await manager.updateSession(copyB);
+    expect((await manager.getSession('shared'))!.currentLoop).toBe(3);
+  });
+});
@@ -2,13 +2,38 @@
  * Session management module for GAN Auditor Integration
  * 
  * Exports SessionManager and related types for managing audit sessions
- * with file-based persistence and error recovery. Also exports the enhanced
- * SynchronousSessionManager for synchronous audit workflow support.
+ * with pluggable persistence (JSON files or SQLite) and error recovery.
+ * Also exports the enhanced SynchronousSessionManager for synchronous
+ * audit workflow support.
  */
 
 export { SessionManager, DEFAULT_SESSION_MANAGER_CONFIG } from './session-manager.js';
 export type { SessionManagerConfig } from './session-manager.js';
 
+export { JsonSessionStore, createSessionStore, SQLITE_DATABASE_FILE } from './session-store.js';
+export type { SessionStore, SessionStorageBackend, SessionQuery } from './session-store.js';
+export { SqliteSessionStore, importJsonSessions } from './sqlite-session-store.js';
+export type { JsonSessionImport } from './sqlite-session-store.js';
+
+export {
+  analyzeSessions,
+  computeSessionAnalytics,
+  formatSessionAnalytics,
+  formatSessionAnalyticsCsv,
+  KILL_SWITCH_REASONS,
+} from './session-analytics.js';
+export type {
+  SessionAnalyticsOptions,
+  SessionAnalyticsReport,
+  SessionAnalyticsGroupBy,
+  SessionAnalyticsFormat,
+  ScoreDistribution,
+  CommentCategoryFrequency,
+  IterationsToPass,
+  KillSwitchStatistics,
+  WorkflowStepTiming,
+} from './session-analytics.js';
+
 export { 
   SynchronousSessionManager, 
   DEFAULT_SYNCHRONOUS_SESSION_MANAGER_CONFIG 
@@ -0,0 +1,356 @@
+/**
+ * Session Analytics
+ *
+ * Aggregates over the stored audit sessions of a date window: final score
+ * distributions per repository or task, the most frequent inline comment
+ * categories, iterations needed to reach `pass`, kill-switch hit rates and
+ * the slowest workflow steps. Reports are returned as JSON or as CSV rows.
+ */
+
+import type { SessionManager } from './session-manager.js';
+import type { CompletionReason, GansAuditorCodexReview, SessionState } from '../types/gan-types.js';
+import { categorizeComment } from '../types/enhanced-response-builder.js';
+
+// ============================================================================
+// Report Types
+// ============================================================================
+
+/**
+ * Session attribute score distributions are grouped by
+ */
+export type SessionAnalyticsGroupBy = 'repository' | 'task';
+
+/**
+ * Window and shape of an analytics report
+ */
+export interface SessionAnalyticsOptions {
+  /** Only sessions updated at or after this time (ms) */
+  from?: number;
+  /** Only sessions updated before this time (ms) */
+  to?: number;
+  /** Default: 'repository' */
+  groupBy?: SessionAnalyticsGroupBy;
+  /** Comment categories and workflow steps to report; default 10 */
+  limit?: number;
+}
+
+/**
+ * Final scores of the sessions of one repository or task
+ */
+export interface ScoreDistribution {
+  group: string;
+  sessions: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  /** Session counts per score bucket: 0-9, 10-19, ..., 90-100 */
+  buckets: number[];
+}
+
+/**
+ * How often inline comments of a category were made
+ */
+export interface CommentCategoryFrequency {
+  category: string;
+  count: number;
+  /** Fraction of all inline comments */
+  share: number;
+}
+
+/**
+ * Audits needed until a session's first `pass` verdict
+ */
+export interface IterationsToPass {
+  passedSessions: number;
+  average: number | null;
+  median: number | null;
+}
+
+/**
+ * How often finished sessions were stopped by a kill switch
+ */
+export interface KillSwitchStatistics {
+  finishedSessions: number;
+  hits: number;
+  /** hits / finishedSessions; 0 without finished sessions */
+  rate: number;
+  byReason: Partial<Record<CompletionReason, number>>;
+}
+
+/**
+ * Durations of one workflow step in milliseconds
+ */
+export interface WorkflowStepTiming {
+  stepName: string;
+  runs: number;
+  averageDuration: number;
+  maxDuration: number;
+  totalDuration: number;
+}
+
+/**
+ * Cross-session analytics of a date window
+ */
+export interface SessionAnalyticsReport {
+  generatedAt: string;
+  window: { from?: string; to?: string };
+  groupBy: SessionAnalyticsGroupBy;
+  sessions: number;
+  scoreDistributions: ScoreDistribution[];
+  commentCategories: CommentCategoryFrequency[];
+  iterationsToPass: IterationsToPass;
+  killSwitches: KillSwitchStatistics;
+  slowestSteps: WorkflowStepTiming[];
+}
+
+/**
+ * Output formats of a report
+ */
+export type SessionAnalyticsFormat = 'json' | 'csv';
+
+/** Completion reasons that mean a kill switch stopped the session */
+export const KILL_SWITCH_REASONS: readonly CompletionReason[] = ['max_loops_reached', 'stagnation_detected'];
+
+/** Group of sessions without a repository or task */
+export const UNKNOWN_GROUP = 'unknown';
+
+const DEFAULT_LIMIT = 10;
+const BUCKET_COUNT = 10;
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/**
+ * Analyze the sessions of a session manager updated within the window
+ */
+export async function analyzeSessions(
+  sessionManager: SessionManager,
+  options: SessionAnalyticsOptions = {}
+): Promise<SessionAnalyticsReport> {
+  const sessions = await sessionManager.querySessions({ updatedAfter: options.from, updatedBefore: options.to });
+  return computeSessionAnalytics(sessions, options);
+}
+
+/**
+ * Compute the report of the given sessions; the window only labels the report
+ */
+export function computeSessionAnalytics(
+  sessions: SessionState[],
+  options: SessionAnalyticsOptions = {}
+): SessionAnalyticsReport {
+  const groupBy = options.groupBy ?? 'repository';
+  const limit = options.limit ?? DEFAULT_LIMIT;
+
+  const scores = new Map<string, number[]>();
+  const categories = new Map<string, number>();
+  const passIterations: number[] = [];
+  const killSwitches: KillSwitchStatistics = { finishedSessions: 0, hits: 0, rate: 0, byReason: {} };
+  const steps = new Map<string, number[]>();
+
+  for (const session of sessions) {
+    const reviews = getReviews(session);
+
+    if (reviews.length > 0) {
+      const group = getGroup(session, groupBy);
+      scores.set(group, [...(scores.get(group) ?? []), reviews[reviews.length - 1].overall]);
+    }
+
+    for (const review of reviews) {
+      for (const comment of review.review?.inline ?? []) {
+        const category = categorizeComment(comment.comment);
+        categories.set(category, (categories.get(category) ?? 0) + 1);
+      }
+    }
+
+    const firstPass = reviews.findIndex(review => review.verdict === 'pass');
+    if (firstPass >= 0) {
+      passIterations.push(firstPass + 1);
+    }
+
+    const reason = session.completionReason;
+    if (session.isComplete || (reason && reason !== 'in_progress')) {
+      killSwitches.finishedSessions++;
+      if (reason && KILL_SWITCH_REASONS.includes(reason)) {
+        killSwitches.hits++;
+        killSwitches.byReason[reason] = (killSwitches.byReason[reason] ?? 0) + 1;
+      }
+    }
+
+    for (const { stepName, duration } of getStepDurations(session, reviews)) {
+      steps.set(stepName, [...(steps.get(stepName) ?? []), duration]);
+    }
+  }
+  killSwitches.rate = killSwitches.finishedSessions > 0 ? round(killSwitches.hits / killSwitches.finishedSessions) : 0;
+
+  const commentCount = [...categories.values()].reduce((sum, count) => sum + count, 0);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    window: {
+      from: options.from !== undefined ? new Date(options.from).toISOString() : undefined,
+      to: options.to !== undefined ? new Date(options.to).toISOString() : undefined,
+    },
+    groupBy,
+    sessions: sessions.length,
+    scoreDistributions: [...scores.entries()]
+      .map(([group, values]) => createScoreDistribution(group, values))
+      .sort((a, b) => b.sessions - a.sessions || a.group.localeCompare(b.group)),
+    commentCategories: [...categories.entries()]
+      .map(([category, count]) => ({ category, count, share: round(count / commentCount) }))
+      .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category))
+      .slice(0, limit),
+    iterationsToPass: {
+      passedSessions: passIterations.length,
+      average: passIterations.length > 0 ? round(mean(passIterations)) : null,
+      median: passIterations.length > 0 ? median(passIterations) : null,
+    },
+    killSwitches,
+    slowestSteps: [...steps.entries()]
+      .map(([stepName, durations]) => ({
+        stepName,
+        runs: durations.length,
+        averageDuration: round(mean(durations)),
+        maxDuration: Math.max(...durations),
+        totalDuration: durations.reduce((sum, duration) => sum + duration, 0),
+      }))
+      .sort((a, b) => b.averageDuration - a.averageDuration || a.stepName.localeCompare(b.stepName))
+      .slice(0, limit),
+  };
+}
+
+/**
+ * Reviews of a session in audit order
+ */
+function getReviews(session: SessionState): GansAuditorCodexReview[] {
+  const reviews = (session.history ?? []).map(entry => entry.review).filter(Boolean);
+  return reviews.length === 0 && session.lastGan ? [session.lastGan] : reviews;
+}
+
+function getGroup(session: SessionState, groupBy: SessionAnalyticsGroupBy): string {
+  const value = groupBy === 'task'
+    ? session.config?.task
+    : session.promptContext?.projectContext?.repository;
+  return value?.trim() || UNKNOWN_GROUP;
+}
+
+/**
+ * Timed workflow steps of a session. The workflow history is preferred;
+ * sessions without one fall back to the steps reported with each review.
+ */
+function getStepDurations(
+  session: SessionState,
+  reviews: GansAuditorCodexReview[]
+): Array<{ stepName: string; duration: number }> {
+  const steps = session.workflowHistory?.length
+    ? session.workflowHistory.map(entry => ({ stepName: entry.stepName, duration: entry.stepResult.duration }))
+    : reviews.flatMap(review => review.workflow_steps ?? []);
+  return steps.filter((step): step is { stepName: string; duration: number } => typeof step.duration === 'number');
+}
+
+function createScoreDistribution(group: string, values: number[]): ScoreDistribution {
+  const buckets = new Array<number>(BUCKET_COUNT).fill(0);
+  for (const value of values) {
+    buckets[Math.min(BUCKET_COUNT - 1, Math.max(0, Math.floor(value / 10)))]++;
+  }
+  return {
+    group,
+    sessions: values.length,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    mean: round(mean(values)),
+    median: median(values),
+    buckets,
+  };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Format a report as pretty-printed JSON or as CSV
+ */
+export function formatSessionAnalytics(report: SessionAnalyticsReport, format: SessionAnalyticsFormat): string {
+  return format === 'csv' ? formatSessionAnalyticsCsv(report) : JSON.stringify(report, null, 2);
+}
+
+/**
+ * Format a report as CSV with one `section,group,metric,value` row per figure
+ */
+export function formatSessionAnalyticsCsv(report: SessionAnalyticsReport): string {
+  const rows: Array<[string, string, string, number | string | null]> = [
+    ['summary', 'all', 'sessions', report.sessions],
+    ['summary', 'all', 'from', report.window.from ?? ''],
+    ['summary', 'all', 'to', report.window.to ?? ''],
+  ];
+
+  for (const distribution of report.scoreDistributions) {
+    const section = `score_by_${report.groupBy}`;
+    rows.push(
+      [section, distribution.group, 'sessions', distribution.sessions],
+      [section, distribution.group, 'min', distribution.min],
+      [section, distribution.group, 'max', distribution.max],
+      [section, distribution.group, 'mean', distribution.mean],
+      [section, distribution.group, 'median', distribution.median],
+      ...distribution.buckets.map((count, index): [string, string, string, number] => [
+        section,
+        distribution.group,
+        `bucket_${index * 10}_${index === BUCKET_COUNT - 1 ? 100 : index * 10 + 9}`,
+        count,
+      ])
+    );
+  }
+
+  for (const { category, count, share } of report.commentCategories) {
+    rows.push(['comment_category', category, 'count', count], ['comment_category', category, 'share', share]);
+  }
+
+  rows.push(
+    ['iterations_to_pass', 'all', 'passed_sessions', report.iterationsToPass.passedSessions],
+    ['iterations_to_pass', 'all', 'average', report.iterationsToPass.average],
+    ['iterations_to_pass', 'all', 'median', report.iterationsToPass.median],
+    ['kill_switch', 'all', 'finished_sessions', report.killSwitches.finishedSessions],
+    ['kill_switch', 'all', 'hits', report.killSwitches.hits],
+    ['kill_switch', 'all', 'rate', report.killSwitches.rate],
+    ...Object.entries(report.killSwitches.byReason).map(([reason, hits]): [string, string, string, number] => [
+      'kill_switch', reason, 'hits', hits ?? 0,
+    ])
+  );
+
+  for (const step of report.slowestSteps) {
+    rows.push(
+      ['workflow_step', step.stepName, 'runs', step.runs],
+      ['workflow_step', step.stepName, 'average_duration_ms', step.averageDuration],
+      ['workflow_step', step.stepName, 'max_duration_ms', step.maxDuration],
+      ['workflow_step', step.stepName, 'total_duration_ms', step.totalDuration]
+    );
+  }
+
+  return [['section', 'group', 'metric', 'value'], ...rows]
+    .map(row => row.map(csvField).join(','))
+    .join('\n') + '\n';
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break
+ */
+function csvField(value: number | string | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -9,6 +9,7 @@
  */
 
 import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
 import { promises as fs } from 'fs';
 import { join, dirname } from 'path';
 import { homedir } from 'os';
@@ -160,11 +161,19 @@ import {
   SessionNotFoundError,
   SessionCorruptionError,
   SessionPersistenceError,
+  SessionConflictError,
   DirectoryCreationError,
   FileAccessError,
 } from '../types/error-types.js';
 import { logger, createComponentLogger } from '../utils/logger.js';
-import { withRetry, handleSessionError } from '../utils/error-handler.js';
+import { handleSessionError } from '../utils/error-handler.js';
+import {
+  createSessionStore,
+  type SessionQuery,
+  type SessionStorageBackend,
+  type SessionStore,
+} from './session-store.js';
+import { importJsonSessions } from './sqlite-session-store.js';
 
 /**
  * Configuration for SessionManager
@@ -173,6 +182,9 @@ export interface SessionManagerConfig {
   stateDirectory: string;
   maxSessionAge: number; // milliseconds
   cleanupInterval: number; // milliseconds
+  storage?: SessionStorageBackend; // Default: 'json'
+  store?: SessionStore; // Custom storage; overrides `storage`
+  importJsonSessions?: boolean; // Import JSON session files into SQLite; Default: true
 }
 
 /**
@@ -182,6 +194,8 @@ export const DEFAULT_SESSION_MANAGER_CONFIG: SessionManagerConfig = {
   stateDirectory: '.mcp-gan-state',
   maxSessionAge: 24 * 60 * 60 * 1000, // 24 hours
   cleanupInterval: 60 * 60 * 1000, // 1 hour
+  storage: 'json',
+  importJsonSessions: true,
 };
 
 /**
@@ -192,16 +206,27 @@ export const DEFAULT_SESSION_MANAGER_CONFIG: SessionManagerConfig = {
  * Requirement 3.3: Unique session ID generation
  * Requirement 3.4: Session state validation and error recovery
  * Requirement 3.5: Session cleanup functionality
+ *
+ * Emits `sessionUpdated` with the persisted state after every write and
+ * `sessionDeleted` with the session id when a session is removed.
+ *
+ * Persistence goes through a SessionStore: JSON files by default, or SQLite,
+ * which imports the JSON files of the state directory on first use and
+ * rejects writes of sessions changed since this manager last read them.
  */
-export class SessionManager implements IGansAuditorCodexSessionManager {
+export class SessionManager extends EventEmitter implements IGansAuditorCodexSessionManager {
   private readonly config: SessionManagerConfig;
   private readonly stateDir: string;
+  private readonly store: SessionStore;
+  private storeReady?: Promise<void>;
   private cleanupTimer?: NodeJS.Timeout;
   private readonly componentLogger: typeof logger;
 
   constructor(config: Partial<SessionManagerConfig> = {}) {
+    super();
     this.config = { ...DEFAULT_SESSION_MANAGER_CONFIG, ...config };
     this.stateDir = this.resolveStateDirectory();
+    this.store = this.config.store ?? createSessionStore(this.config.storage ?? 'json', this.stateDir);
     this.componentLogger = createComponentLogger('session-manager');
     this.startCleanupTimer();
   }
@@ -246,10 +271,40 @@ export class SessionManager implements IGansAuditorCodexSessionManager {
   }
 
   /**
-   * Get file path for session
+   * Ensure the store is usable; the SQLite store imports the JSON session
+   * files of the state directory once, unless `importJsonSessions` is off.
+   * A failed import is retried on the next call.
+   */
+  private async ensureStore(): Promise<void> {
+    await this.ensureStateDirectory();
+    if (this.store.backend !== 'sqlite' || !this.config.importJsonSessions) {
+      return;
+    }
+    this.storeReady ??= importJsonSessions(this.stateDir, this.store).then(result => {
+      if (result.imported.length > 0 || result.failed.length > 0) {
+        this.componentLogger.info(`Imported ${result.imported.length} JSON sessions into SQLite`, {
+          failed: result.failed,
+        });
+      }
+    }, error => {
+      this.storeReady = undefined;
+      throw error;
+    });
+    await this.storeReady;
+  }
+
+  /**
+   * Absolute directory the session files are stored in
    */
-  private getSessionFilePath(sessionId: string): string {
-    return join(this.stateDir, `${sessionId}.json`);
+  getStateDirectory(): string {
+    return this.stateDir;
+  }
+
+  /**
+   * Storage backend of the sessions
+   */
+  getStorageBackend(): SessionStorageBackend {
+    return this.store.backend;
   }
 
   /**
@@ -334,19 +389,11 @@ export class SessionManager implements IGansAuditorCodexSessionManager {
    */
   public async getSession(id: string): Promise<GansAuditorCodexSessionState | null> {
     try {
-      const filePath = this.getSessionFilePath(id);
-      
-      const content = await withRetry(
-        () => fs.readFile(filePath, 'utf-8'),
-        'session-file-read',
-        { maxAttempts: 2, retryableErrors: ['filesystem'] }
-      );
-
-      let data;
-      try {
-        data = JSON.parse(content);
-      } catch (parseError) {
-        throw new SessionCorruptionError(id, 'Invalid JSON format');
+      await this.ensureStore();
+      const data = await this.store.read(id);
+      if (data === null) {
+        this.componentLogger.debug(`Session ${id} not found`);
+        return null;
       }
 
       if (this.validateSessionState(data)) {
@@ -356,22 +403,16 @@ export class SessionManager implements IGansAuditorCodexSessionManager {
         // Attempt to recover corrupted session
         this.componentLogger.warn(`Session ${id} has invalid structure, attempting recovery`);
         const recovered = this.sanitizeSessionState(data, id);
-        await this.updateSession(recovered);
+        await this.writeSession(recovered);
         return recovered;
       }
     } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        // File doesn't exist, return null
-        this.componentLogger.debug(`Session ${id} not found`);
-        return null;
-      }
-      
-      // Handle other errors with recovery attempt
+      // Handle corrupted sessions with recovery attempt
       if (error instanceof SessionCorruptionError) {
         this.componentLogger.warn(`Session ${id} is corrupted, attempting recovery`);
         try {
           const recovered = this.sanitizeSessionState({}, id);
-          await this.updateSession(recovered);
+          await this.writeSession(recovered);
           return recovered;
         } catch (recoveryError) {
           this.componentLogger.error(`Failed to recover session ${id}`, recoveryError as Error);
@@ -391,7 +432,7 @@ export class SessionManager implements IGansAuditorCodexSessionManager {
    */
   public async createSession(id: string, config: GansAuditorCodexSessionConfig): Promise<GansAuditorCodexSessionState> {
     try {
-      await this.ensureStateDirectory();
+      await this.ensureStore();
       
       const now = Date.now();
       const session: GansAuditorCodexSessionState = {
@@ -407,7 +448,7 @@ export class SessionManager implements IGansAuditorCodexSessionManager {
         codexContextActive: false,
       };
 
-      await this.updateSession(session);
+      await this.writeSession(session);
       this.componentLogger.info(`Created new session ${id}`);
       return session;
     } catch (error) {
@@ -419,28 +460,40 @@ export class SessionManager implements IGansAuditorCodexSessionManager {
   /**
    * Update existing session state
    * Requirement 3.2: File-based persistence
+   *
+   * Stores that support it reject the write with SessionConflictError when
+   * the stored session is no longer the version the caller read, i.e. its
+   * updatedAt differs from `session.updatedAt`.
    */
   public async updateSession(session: GansAuditorCodexSessionState): Promise<void> {
+    await this.writeSession(session, session.updatedAt);
+  }
+
+  /**
+   * Store a new version of a session. On success the caller's object gets
+   * the new updatedAt, so it can be updated again without re-reading it.
+   * Without an expected version the write replaces whatever is stored.
+   */
+  protected async writeSession(session: GansAuditorCodexSessionState, expectedUpdatedAt?: number): Promise<void> {
     try {
-      await this.ensureStateDirectory();
+      await this.ensureStore();
       
       const updatedSession: GansAuditorCodexSessionState = {
         ...session,
-        updatedAt: Date.now(),
+        // Every write gets a new version, even within the same millisecond
+        updatedAt: Math.max(Date.now(), (session.updatedAt ?? 0) + 1),
       };
 
-      const filePath = this.getSessionFilePath(session.id);
-      const content = JSON.stringify(updatedSession, null, 2);
-      
-      await withRetry(
-        () => fs.writeFile(filePath, content, 'utf-8'),
-        'session-file-write',
-        { maxAttempts: 2, retryableErrors: ['filesystem'] }
-      );
+      await this.store.write(updatedSession, expectedUpdatedAt);
+      session.updatedAt = updatedSession.updatedAt;
 
       this.componentLogger.debug(`Updated session ${session.id}`);
+      this.emit('sessionUpdated', updatedSession);
     } catch (error) {
       this.componentLogger.error(`Failed to update session ${session.id}`, error as Error);
+      if (error instanceof SessionConflictError) {
+        throw error;
+      }
       throw new SessionPersistenceError(
         session.id, 
         'update', 
@@ -473,6 +526,7 @@ export class SessionManager implements IGansAuditorCodexSessionManager {
 
       session.history.push(historyEntry);
       session.lastGan = review;
+      session.lastAuditOutcome = 'completed';
       
       await this.updateSession(session);
       this.componentLogger.debug(`Added audit to history for session ${sessionId}, thought ${thoughtNumber}`);
@@ -521,6 +575,7 @@ export class SessionManager implements IGansAuditorCodexSessionManager {
 
       // Mark session as having Codex issues
       session.hasCodexIssues = true;
+      session.lastAuditOutcome = 'failed';
       session.lastCodexFailure = Date.now();
       session.updatedAt = Date.now();
 
@@ -536,6 +591,23 @@ export class SessionManager implements IGansAuditorCodexSessionManager {
     }
   }
 
+  /**
+   * Record an audit the client cancelled; unlike a failure it does not mark
+   * the session as having Codex issues
+   */
+  public async recordCancelledAudit(sessionId: string, thoughtNumber: number, step?: string): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+
+    session.cancelledAudits = [...(session.cancelledAudits ?? []), { timestamp: Date.now(), thoughtNumber, step }];
+    session.lastAuditOutcome = 'cancelled';
+
+    await this.updateSession(session);
+    this.componentLogger.info(`Recorded cancelled audit for session ${sessionId}`, { thoughtNumber, step });
+  }
+
   /**
    * Check if session has recent Codex failures
    * Requirements: 4.1, 4.5 - Track Codex failure patterns
@@ -613,47 +685,16 @@ export class SessionManager implements IGansAuditorCodexSessionManager {
     const cutoffTime = Date.now() - ageLimit;
 
     try {
-      await this.ensureStateDirectory();
-      const files = await fs.readdir(this.stateDir);
-      let cleanedCount = 0;
-      
-      for (const file of files) {
-        if (!file.endsWith('.json')) {
-          continue;
-        }
+      await this.ensureStore();
+      const removed = await this.store.removeStale(cutoffTime, data => this.validateSessionState(data));
 
-        const filePath = join(this.stateDir, file);
-        
-        try {
-          const stats = await fs.stat(filePath);
-          const content = await fs.readFile(filePath, 'utf-8');
-          const data = JSON.parse(content);
-
-          // Remove if file is too old or session is invalid
-          const shouldRemove = 
-            stats.mtime.getTime() < cutoffTime ||
-            !this.validateSessionState(data) ||
-            (data.updatedAt && data.updatedAt < cutoffTime);
-
-          if (shouldRemove) {
-            await fs.unlink(filePath);
-            cleanedCount++;
-            this.componentLogger.debug(`Cleaned up session file: ${file}`);
-          }
-        } catch (error) {
-          // Remove corrupted files that can't be parsed
-          this.componentLogger.warn(`Removing corrupted session file ${file}`, error as Error);
-          try {
-            await fs.unlink(filePath);
-            cleanedCount++;
-          } catch (unlinkError) {
-            this.componentLogger.error(`Failed to remove corrupted session file ${file}`, unlinkError as Error);
-          }
-        }
+      for (const sessionId of removed) {
+        this.emit('sessionDeleted', sessionId);
+        this.componentLogger.debug(`Cleaned up session ${sessionId}`);
       }
 
-      if (cleanedCount > 0) {
-        this.componentLogger.info(`Cleaned up ${cleanedCount} session files`);
+      if (removed.length > 0) {
+        this.componentLogger.info(`Cleaned up ${removed.length} sessions`);
       }
     } catch (error) {
       this.componentLogger.error('Failed to cleanup sessions', error as Error);
@@ -686,6 +727,7 @@ export class SessionManager implements IGansAuditorCodexSessionManager {
       clearInterval(this.cleanupTimer);
       this.cleanupTimer = undefined;
     }
+    this.store.close();
   }
 
   /**
@@ -693,16 +735,10 @@ export class SessionManager implements IGansAuditorCodexSessionManager {
    */
   public async getAllSessions(): Promise<GansAuditorCodexSessionState[]> {
     try {
-      await this.ensureStateDirectory();
-      const files = await fs.readdir(this.stateDir);
+      await this.ensureStore();
       const sessions: GansAuditorCodexSessionState[] = [];
 
-      for (const file of files) {
-        if (!file.endsWith('.json')) {
-          continue;
-        }
-
-        const sessionId = file.replace('.json', '');
+      for (const sessionId of await this.store.listIds()) {
         const session = await this.getSession(sessionId);
         if (session) {
           sessions.push(session);
@@ -720,16 +756,21 @@ export class SessionManager implements IGansAuditorCodexSessionManager {
    * Delete specific session
    */
   public async deleteSession(sessionId: string): Promise<boolean> {
-    try {
-      const filePath = this.getSessionFilePath(sessionId);
-      await fs.unlink(filePath);
-      return true;
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return false; // Session didn't exist
-      }
-      throw error;
+    await this.ensureStore();
+    const deleted = await this.store.delete(sessionId);
+    if (deleted) {
+      this.emit('sessionDeleted', sessionId);
     }
+    return deleted;
+  }
+
+  /**
+   * Sessions matching a query, most recently updated first. The SQLite
+   * store answers from its indexes; the JSON store reads every file.
+   */
+  public async querySessions(query: SessionQuery = {}): Promise<GansAuditorCodexSessionState[]> {
+    await this.ensureStore();
+    return await this.store.query(query);
   }
 
   // ============================================================================
@@ -0,0 +1,87 @@
+/**
+ * Session SARIF Writer
+ *
+ * Keeps a SARIF log of each session's latest audit next to its session
+ * file, as `<sessionId>.sarif`, so it can be uploaded to code-scanning UIs
+ * after every audit. The log is removed with its session.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { SessionManager } from './session-manager.js';
+import type { SessionState } from '../types/gan-types.js';
+import { exportSessionAsSarif } from '../auditor/feedback/sarif-exporter.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Writes and removes the SARIF logs of a session manager's sessions
+ */
+export class SessionSarifWriter {
+  /** Latest write per session; writes of one session run in order */
+  private readonly writes = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly sessionManager: SessionManager,
+    /** Repository root the SARIF locations are relative to */
+    private readonly repositoryPath: string = process.cwd()
+  ) {
+    sessionManager.on('sessionUpdated', this.onSessionUpdated);
+    sessionManager.on('sessionDeleted', this.onSessionDeleted);
+  }
+
+  /**
+   * Path of a session's SARIF log
+   */
+  getFilePath(sessionId: string): string {
+    return join(this.sessionManager.getStateDirectory(), `${sessionId}.sarif`);
+  }
+
+  /**
+   * Stop following session changes
+   */
+  dispose(): void {
+    this.sessionManager.off('sessionUpdated', this.onSessionUpdated);
+    this.sessionManager.off('sessionDeleted', this.onSessionDeleted);
+  }
+
+  /**
+   * Write the session's SARIF log; sessions without a completed audit have none
+   */
+  async write(session: SessionState): Promise<void> {
+    if (!session.lastGan && session.history.length === 0) {
+      return;
+    }
+    const next = (this.writes.get(session.id) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.writeLog(session));
+    this.writes.set(session.id, next);
+    try {
+      await next;
+    } finally {
+      if (this.writes.get(session.id) === next) {
+        this.writes.delete(session.id);
+      }
+    }
+  }
+
+  private async writeLog(session: SessionState): Promise<void> {
+    const log = exportSessionAsSarif(session, { repositoryPath: this.repositoryPath });
+    const filePath = this.getFilePath(session.id);
+    // Write then rename, so readers never see a partial log
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(log, null, 2), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  private readonly onSessionUpdated = (session: SessionState): void => {
+    this.write(session).catch(error => {
+      logger.warn('Failed to write session SARIF log', { sessionId: session.id, error }, 'session-sarif-writer');
+    });
+  };
+
+  private readonly onSessionDeleted = (sessionId: string): void => {
+    fs.rm(this.getFilePath(sessionId), { force: true }).catch(error => {
+      logger.warn('Failed to remove session SARIF log', { sessionId, error }, 'session-sarif-writer');
+    });
+  };
+}
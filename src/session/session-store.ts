@@ -0,0 +1,220 @@
+/**
+ * Session Storage
+ *
+ * Pluggable persistence for session state. The JSON backend keeps one
+ * `<sessionId>.json` file per session in the state directory and is the
+ * default; the SQLite backend keeps every session in `sessions.db` with
+ * atomic, version-checked updates and indexed queries.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { GansAuditorCodexSessionState } from '../types/gan-types.js';
+import { SessionCorruptionError } from '../types/error-types.js';
+import { withRetry } from '../utils/error-handler.js';
+import { SqliteSessionStore } from './sqlite-session-store.js';
+
+// ============================================================================
+// Store Interface
+// ============================================================================
+
+/**
+ * Available session storage backends
+ */
+export type SessionStorageBackend = 'json' | 'sqlite';
+
+/**
+ * Filter for querying sessions; all given fields must match
+ */
+export interface SessionQuery {
+  loopId?: string;
+  /** Verdict of the session's latest audit */
+  verdict?: 'pass' | 'revise' | 'reject';
+  /** Only sessions updated at or after this time (ms) */
+  updatedAfter?: number;
+  /** Only sessions updated before this time (ms) */
+  updatedBefore?: number;
+  limit?: number;
+}
+
+/**
+ * Persistence backend of a session manager
+ */
+export interface SessionStore {
+  readonly backend: SessionStorageBackend;
+
+  /**
+   * Stored state of a session, unvalidated, or null when there is none.
+   * Throws SessionCorruptionError when the stored state cannot be parsed.
+   */
+  read(sessionId: string): Promise<unknown | null>;
+
+  /**
+   * Store a session. With `expectedUpdatedAt`, backends that support
+   * optimistic concurrency throw SessionConflictError when the stored
+   * session has a different updatedAt; a session not stored yet always matches.
+   */
+  write(session: GansAuditorCodexSessionState, expectedUpdatedAt?: number): Promise<void>;
+
+  /**
+   * Remove a session; false when it did not exist
+   */
+  delete(sessionId: string): Promise<boolean>;
+
+  /**
+   * Ids of all stored sessions
+   */
+  listIds(): Promise<string[]>;
+
+  /**
+   * Sessions matching the query, most recently updated first
+   */
+  query(query: SessionQuery): Promise<GansAuditorCodexSessionState[]>;
+
+  /**
+   * Remove sessions last updated before the cutoff and sessions that fail
+   * validation; resolves with the removed ids
+   */
+  removeStale(cutoffTime: number, isValid: (data: unknown) => boolean): Promise<string[]>;
+
+  /**
+   * Release resources held by the store
+   */
+  close(): void;
+}
+
+/**
+ * Create the store of a backend in a state directory
+ */
+export function createSessionStore(backend: SessionStorageBackend, stateDirectory: string): SessionStore {
+  return backend === 'sqlite'
+    ? new SqliteSessionStore(join(stateDirectory, SQLITE_DATABASE_FILE))
+    : new JsonSessionStore(stateDirectory);
+}
+
+/** File name of the SQLite database in the state directory */
+export const SQLITE_DATABASE_FILE = 'sessions.db';
+
+/**
+ * Whether a session matches a query
+ */
+export function matchesSessionQuery(session: GansAuditorCodexSessionState, query: SessionQuery): boolean {
+  return (query.loopId === undefined || session.loopId === query.loopId)
+    && (query.verdict === undefined || session.lastGan?.verdict === query.verdict)
+    && (query.updatedAfter === undefined || session.updatedAt >= query.updatedAfter)
+    && (query.updatedBefore === undefined || session.updatedAt < query.updatedBefore);
+}
+
+// ============================================================================
+// JSON Backend
+// ============================================================================
+
+/**
+ * One JSON file per session. Writes replace the file atomically, but there
+ * is no cross-process locking: the last writer wins and `expectedUpdatedAt`
+ * is ignored. Queries scan every file.
+ */
+export class JsonSessionStore implements SessionStore {
+  readonly backend = 'json';
+  private writeCounter = 0;
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Path of a session's file
+   */
+  getFilePath(sessionId: string): string {
+    return join(this.directory, `${sessionId}.json`);
+  }
+
+  async read(sessionId: string): Promise<unknown | null> {
+    let content: string;
+    try {
+      content = await withRetry(
+        () => fs.readFile(this.getFilePath(sessionId), 'utf-8'),
+        'session-file-read',
+        { maxAttempts: 2, retryableErrors: ['filesystem'] }
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(content);
+    } catch {
+      throw new SessionCorruptionError(sessionId, 'Invalid JSON format');
+    }
+  }
+
+  async write(session: GansAuditorCodexSessionState): Promise<void> {
+    const filePath = this.getFilePath(session.id);
+    // Write then rename, so readers never see a partial file
+    const tempPath = `${filePath}.${process.pid}.${++this.writeCounter}.tmp`;
+    await withRetry(
+      async () => {
+        await fs.writeFile(tempPath, JSON.stringify(session, null, 2), 'utf-8');
+        await fs.rename(tempPath, filePath);
+      },
+      'session-file-write',
+      { maxAttempts: 2, retryableErrors: ['filesystem'] }
+    );
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.getFilePath(sessionId));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async listIds(): Promise<string[]> {
+    const files = await fs.readdir(this.directory);
+    return files.filter(file => file.endsWith('.json')).map(file => file.slice(0, -'.json'.length));
+  }
+
+  async query(query: SessionQuery): Promise<GansAuditorCodexSessionState[]> {
+    const sessions: GansAuditorCodexSessionState[] = [];
+    for (const sessionId of await this.listIds()) {
+      const data = await this.read(sessionId).catch(() => null);
+      if (data && typeof data === 'object' && matchesSessionQuery(data as GansAuditorCodexSessionState, query)) {
+        sessions.push(data as GansAuditorCodexSessionState);
+      }
+    }
+    sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+    return query.limit === undefined ? sessions : sessions.slice(0, query.limit);
+  }
+
+  async removeStale(cutoffTime: number, isValid: (data: unknown) => boolean): Promise<string[]> {
+    const removed: string[] = [];
+    for (const sessionId of await this.listIds()) {
+      const filePath = this.getFilePath(sessionId);
+      let stale: boolean;
+      try {
+        const stats = await fs.stat(filePath);
+        const data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        stale = stats.mtime.getTime() < cutoffTime
+          || !isValid(data)
+          || (data.updatedAt && data.updatedAt < cutoffTime);
+      } catch {
+        // Files that cannot be parsed are removed as well
+        stale = true;
+      }
+      if (stale && await this.delete(sessionId)) {
+        removed.push(sessionId);
+      }
+    }
+    return removed;
+  }
+
+  close(): void {
+    // Nothing is held open between operations
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * SQLite Session Store
+ *
+ * Keeps every session in one SQLite database. Each write runs in an
+ * immediate transaction that compares the stored updatedAt with the one the
+ * writer read, so concurrent clients cannot silently overwrite each other.
+ * Loop id, verdict and update time are indexed columns for queries; the
+ * full session is stored as JSON next to them.
+ *
+ * Uses the optional `better-sqlite3` dependency, loaded when a store is opened.
+ */
+
+import { mkdirSync, promises as fs } from 'fs';
+import { createRequire } from 'module';
+import { dirname, join } from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { GansAuditorCodexSessionState } from '../types/gan-types.js';
+import { ConfigurationError, SessionConflictError, SessionCorruptionError } from '../types/error-types.js';
+import type { SessionQuery, SessionStore } from './session-store.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    loop_id TEXT,
+    verdict TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    state TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS sessions_loop_id ON sessions (loop_id);
+  CREATE INDEX IF NOT EXISTS sessions_verdict ON sessions (verdict);
+  CREATE INDEX IF NOT EXISTS sessions_updated_at ON sessions (updated_at);
+`;
+
+interface SessionRow {
+  id: string;
+  updated_at: number;
+  state: string;
+}
+
+/**
+ * Load the SQLite driver, failing with setup instructions when it is missing
+ */
+function loadDriver(): typeof BetterSqlite3 {
+  try {
+    return createRequire(import.meta.url)('better-sqlite3');
+  } catch (error) {
+    throw new ConfigurationError(
+      `SQLite session storage needs the better-sqlite3 package: ${error instanceof Error ? error.message : String(error)}`,
+      ['Install it with `npm install better-sqlite3`', 'Or set SYNC_AUDIT_SESSION_STORAGE=json'],
+      { backend: 'sqlite' },
+      'session-store'
+    );
+  }
+}
+
+/**
+ * Session store backed by a SQLite database file
+ */
+export class SqliteSessionStore implements SessionStore {
+  readonly backend = 'sqlite';
+  private db?: BetterSqlite3.Database;
+
+  constructor(private readonly databasePath: string) {}
+
+  async read(sessionId: string): Promise<unknown | null> {
+    const row = this.open().prepare('SELECT state FROM sessions WHERE id = ?').get(sessionId) as SessionRow | undefined;
+    return row ? this.parseRow(sessionId, row) : null;
+  }
+
+  async write(session: GansAuditorCodexSessionState, expectedUpdatedAt?: number): Promise<void> {
+    const db = this.open();
+    const select = db.prepare('SELECT updated_at FROM sessions WHERE id = ?');
+    const upsert = db.prepare(`
+      INSERT INTO sessions (id, loop_id, verdict, created_at, updated_at, state)
+      VALUES (@id, @loopId, @verdict, @createdAt, @updatedAt, @state)
+      ON CONFLICT (id) DO UPDATE SET
+        loop_id = excluded.loop_id,
+        verdict = excluded.verdict,
+        updated_at = excluded.updated_at,
+        state = excluded.state
+    `);
+
+    // Immediate transactions take the write lock before reading the version
+    db.transaction(() => {
+      const stored = select.get(session.id) as Pick<SessionRow, 'updated_at'> | undefined;
+      if (stored && expectedUpdatedAt !== undefined && stored.updated_at !== expectedUpdatedAt) {
+        throw new SessionConflictError(session.id, expectedUpdatedAt, stored.updated_at);
+      }
+      upsert.run({
+        id: session.id,
+        loopId: session.loopId ?? null,
+        verdict: session.lastGan?.verdict ?? null,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        state: JSON.stringify(session),
+      });
+    }).immediate();
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.open().prepare('DELETE FROM sessions WHERE id = ?').run(sessionId).changes > 0;
+  }
+
+  async listIds(): Promise<string[]> {
+    const rows = this.open().prepare('SELECT id FROM sessions ORDER BY id').all() as Array<Pick<SessionRow, 'id'>>;
+    return rows.map(row => row.id);
+  }
+
+  async query(query: SessionQuery): Promise<GansAuditorCodexSessionState[]> {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+    if (query.loopId !== undefined) {
+      conditions.push('loop_id = @loopId');
+      params.loopId = query.loopId;
+    }
+    if (query.verdict !== undefined) {
+      conditions.push('verdict = @verdict');
+      params.verdict = query.verdict;
+    }
+    if (query.updatedAfter !== undefined) {
+      conditions.push('updated_at >= @updatedAfter');
+      params.updatedAfter = query.updatedAfter;
+    }
+    if (query.updatedBefore !== undefined) {
+      conditions.push('updated_at < @updatedBefore');
+      params.updatedBefore = query.updatedBefore;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = query.limit !== undefined ? `LIMIT ${Math.max(0, Math.floor(query.limit))}` : '';
+    const rows = this.open()
+      .prepare(`SELECT id, updated_at, state FROM sessions ${where} ORDER BY updated_at DESC ${limit}`)
+      .all(params) as SessionRow[];
+    return rows.map(row => this.parseRow(row.id, row) as GansAuditorCodexSessionState);
+  }
+
+  async removeStale(cutoffTime: number, isValid: (data: unknown) => boolean): Promise<string[]> {
+    const db = this.open();
+    const rows = db.prepare('SELECT id, updated_at, state FROM sessions').all() as SessionRow[];
+    const stale = rows.filter(row => {
+      if (row.updated_at < cutoffTime) {
+        return true;
+      }
+      try {
+        return !isValid(JSON.parse(row.state));
+      } catch {
+        return true;
+      }
+    }).map(row => row.id);
+
+    const remove = db.prepare('DELETE FROM sessions WHERE id = ?');
+    db.transaction((ids: string[]) => ids.forEach(id => remove.run(id)))(stale);
+    return stale;
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  /**
+   * Open the database on first use, creating its directory and schema
+   */
+  private open(): BetterSqlite3.Database {
+    if (!this.db) {
+      const Database = loadDriver();
+      mkdirSync(dirname(this.databasePath), { recursive: true });
+      this.db = new Database(this.databasePath);
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma('busy_timeout = 5000');
+      this.db.exec(SCHEMA);
+    }
+    return this.db;
+  }
+
+  private parseRow(sessionId: string, row: Pick<SessionRow, 'state'>): unknown {
+    try {
+      return JSON.parse(row.state);
+    } catch {
+      throw new SessionCorruptionError(sessionId, 'Invalid JSON format');
+    }
+  }
+}
+
+// ============================================================================
+// JSON Import
+// ============================================================================
+
+/** Suffix of session files that were imported into another store */
+export const MIGRATED_SESSION_FILE_SUFFIX = '.migrated';
+
+/**
+ * Result of importing JSON session files
+ */
+export interface JsonSessionImport {
+  imported: string[];
+  /** Sessions already in the target store; their files are left in place */
+  skipped: string[];
+  /** Files that could not be parsed or written to the target; left in place */
+  failed: string[];
+}
+
+/**
+ * Import the `<sessionId>.json` files of a state directory into a store.
+ * Imported files are renamed to `<sessionId>.json.migrated`, so the import
+ * runs once per file and the originals stay available.
+ */
+export async function importJsonSessions(directory: string, target: SessionStore): Promise<JsonSessionImport> {
+  const result: JsonSessionImport = { imported: [], skipped: [], failed: [] };
+  const files = (await fs.readdir(directory)).filter(file => file.endsWith('.json'));
+
+  for (const file of files) {
+    const sessionId = file.slice(0, -'.json'.length);
+    const filePath = join(directory, file);
+
+    if (await target.read(sessionId) !== null) {
+      result.skipped.push(sessionId);
+      continue;
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+      result.failed.push(sessionId);
+      continue;
+    }
+    if (!data || typeof data !== 'object') {
+      result.failed.push(sessionId);
+      continue;
+    }
+
+    // Sessions that fail validation are imported as is and repaired on load
+    try {
+      const modifiedAt = (await fs.stat(filePath)).mtime.getTime();
+      await target.write({
+        ...data,
+        id: sessionId,
+        createdAt: typeof data.createdAt === 'number' ? data.createdAt : modifiedAt,
+        updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : modifiedAt,
+      });
+      await fs.rename(filePath, `${filePath}${MIGRATED_SESSION_FILE_SUFFIX}`);
+    } catch {
+      result.failed.push(sessionId);
+      continue;
+    }
+    result.imported.push(sessionId);
+  }
+
+  return result;
+}
@@ -414,10 +414,10 @@ export class SynchronousSessionManager extends SessionManager implements IGansAu
       currentLoop: session.currentLoop || 0,
       isComplete: session.isComplete || false,
       codexContextActive: session.codexContextActive || false,
-      updatedAt: Date.now(),
     };
 
     await super.updateSession(enhancedSession);
+    session.updatedAt = enhancedSession.updatedAt;
   }
 
   /**
@@ -475,7 +475,7 @@ export class SynchronousSessionManager extends SessionManager implements IGansAu
       // Migrate legacy session if needed
       if (session && this.needsMigration(session)) {
         const migratedSession = this.migrateLegacySession(session);
-        await this.updateSession(migratedSession);
+        await this.writeSession(migratedSession);
         return migratedSession;
       }
 
@@ -674,7 +674,7 @@ export class SynchronousSessionManager extends SessionManager implements IGansAu
       }
 
       // Save the recovered session
-      await this.updateSession(recoveredSession);
+      await this.writeSession(recoveredSession);
       
       this.syncComponentLogger.info(`Successfully recovered session ${sessionId}`, {
         corruptionType,
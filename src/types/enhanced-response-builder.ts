@@ -275,7 +275,7 @@ export class EnhancedResponseBuilder {
       return null;
     }
 
-    const category = this.categorizeComment(comment.comment);
+    const category = categorizeComment(comment.comment);
     const priority = this.determinePriority(comment.comment, category);
     
     // Extract actionable guidance from comment
@@ -293,52 +293,6 @@ export class EnhancedResponseBuilder {
     };
   }
 
-  /**
-   * Categorize comment by content analysis
-   */
-  private categorizeComment(comment: string): IssueCategory {
-    const lowerComment = comment.toLowerCase();
-
-    if (lowerComment.includes('security') || lowerComment.includes('vulnerability') || 
-        lowerComment.includes('injection') || lowerComment.includes('xss')) {
-      return IssueCategory.SECURITY;
-    }
-    if (lowerComment.includes('performance') || lowerComment.includes('optimization') || 
-        lowerComment.includes('slow') || lowerComment.includes('inefficient')) {
-      return IssueCategory.PERFORMANCE;
-    }
-    if (lowerComment.includes('style') || lowerComment.includes('formatting') || 
-        lowerComment.includes('convention') || lowerComment.includes('lint')) {
-      return IssueCategory.STYLE;
-    }
-    if (lowerComment.includes('logic') || lowerComment.includes('algorithm') || 
-        lowerComment.includes('incorrect') || lowerComment.includes('bug')) {
-      return IssueCategory.LOGIC;
-    }
-    if (lowerComment.includes('error') || lowerComment.includes('exception') || 
-        lowerComment.includes('handling') || lowerComment.includes('catch')) {
-      return IssueCategory.ERROR_HANDLING;
-    }
-    if (lowerComment.includes('test') || lowerComment.includes('coverage') || 
-        lowerComment.includes('assertion')) {
-      return IssueCategory.TESTING;
-    }
-    if (lowerComment.includes('document') || lowerComment.includes('comment') || 
-        lowerComment.includes('readme')) {
-      return IssueCategory.DOCUMENTATION;
-    }
-    if (lowerComment.includes('architecture') || lowerComment.includes('design') || 
-        lowerComment.includes('structure')) {
-      return IssueCategory.ARCHITECTURE;
-    }
-    if (lowerComment.includes('maintain') || lowerComment.includes('readable') || 
-        lowerComment.includes('clean')) {
-      return IssueCategory.MAINTAINABILITY;
-    }
-
-    return IssueCategory.LOGIC; // Default category
-  }
-
   /**
    * Determine priority based on comment content and category
    */
@@ -982,6 +936,57 @@ export class EnhancedResponseBuilder {
   }
 }
 
+// ============================================================================
+// Comment Categorization
+// ============================================================================
+
+/**
+ * Categorize an inline comment by content analysis
+ */
+export function categorizeComment(comment: string): IssueCategory {
+  const lowerComment = comment.toLowerCase();
+
+  if (lowerComment.includes('security') || lowerComment.includes('vulnerability') || 
+      lowerComment.includes('injection') || lowerComment.includes('xss')) {
+    return IssueCategory.SECURITY;
+  }
+  if (lowerComment.includes('performance') || lowerComment.includes('optimization') || 
+      lowerComment.includes('slow') || lowerComment.includes('inefficient')) {
+    return IssueCategory.PERFORMANCE;
+  }
+  if (lowerComment.includes('style') || lowerComment.includes('formatting') || 
+      lowerComment.includes('convention') || lowerComment.includes('lint')) {
+    return IssueCategory.STYLE;
+  }
+  if (lowerComment.includes('logic') || lowerComment.includes('algorithm') || 
+      lowerComment.includes('incorrect') || lowerComment.includes('bug')) {
+    return IssueCategory.LOGIC;
+  }
+  if (lowerComment.includes('error') || lowerComment.includes('exception') || 
+      lowerComment.includes('handling') || lowerComment.includes('catch')) {
+    return IssueCategory.ERROR_HANDLING;
+  }
+  if (lowerComment.includes('test') || lowerComment.includes('coverage') || 
+      lowerComment.includes('assertion')) {
+    return IssueCategory.TESTING;
+  }
+  if (lowerComment.includes('document') || lowerComment.includes('comment') || 
+      lowerComment.includes('readme')) {
+    return IssueCategory.DOCUMENTATION;
+  }
+  if (lowerComment.includes('architecture') || lowerComment.includes('design') || 
+      lowerComment.includes('structure')) {
+    return IssueCategory.ARCHITECTURE;
+  }
+  if (lowerComment.includes('maintain') || lowerComment.includes('readable') || 
+      lowerComment.includes('clean')) {
+    return IssueCategory.MAINTAINABILITY;
+  }
+
+  return IssueCategory.LOGIC; // Default category
+}
+
+
 // ============================================================================
 // Factory Functions
 // ============================================================================
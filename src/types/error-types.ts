@@ -455,6 +455,25 @@ export class SessionPersistenceError extends SessionError {
   }
 }
 
+/**
+ * Session was written by someone else since it was last read
+ */
+export class SessionConflictError extends SessionError {
+  constructor(sessionId: string, expectedUpdatedAt: number, actualUpdatedAt: number) {
+    super(
+      `Session ${sessionId} was modified concurrently (expected updatedAt ${expectedUpdatedAt}, found ${actualUpdatedAt})`,
+      "medium",
+      "retry",
+      [
+        "Reload the session and apply the change again",
+        "Use distinct session ids for concurrent clients",
+      ],
+      { sessionId, expectedUpdatedAt, actualUpdatedAt },
+      "session-store"
+    );
+  }
+}
+
 // ============================================================================
 // Synchronous Audit Workflow Errors (Requirements 7.1-7.4)
 // ============================================================================
@@ -623,6 +642,31 @@ export class AuditTimeoutError extends CodexError {
   }
 }
 
+/**
+ * Audit cancelled by the client; never retried
+ */
+export class AuditCancelledError extends CodexError {
+  constructor(step?: string) {
+    super(
+      step ? `Audit cancelled during ${step}` : "Audit cancelled",
+      "low",
+      "abort",
+      ["The client cancelled the request; start a new audit to continue"],
+      { step },
+      "audit-cancellation"
+    );
+  }
+
+  /**
+   * Throw when the signal has been aborted
+   */
+  static throwIfAborted(signal: AbortSignal | undefined, step?: string): void {
+    if (signal?.aborted) {
+      throw new AuditCancelledError(step);
+    }
+  }
+}
+
 // ============================================================================
 // Error Utilities and Helpers
 // ============================================================================
@@ -32,6 +32,75 @@ export interface JudgeCard {
   notes?: string;
 }
 
+/**
+ * Method used to combine several scores into one
+ */
+export type ScoreAggregationMethod = "weighted-average" | "minimum" | "geometric-mean" | "median" | "trimmed-mean";
+
+/**
+ * Spread between the judges of a multi-judge audit
+ */
+export interface JudgeDisagreement {
+  aggregationMethod: ScoreAggregationMethod;
+  threshold: number; // Spread (in points) above which disagreement is significant
+  overallSpread: number; // max - min overall score
+  dimensions: Array<{
+    name: string;
+    spread: number;
+    scores: Record<string, number>; // judge -> score
+  }>;
+  verdicts: Record<string, GanVerdict>; // judge -> verdict
+  significant: boolean;
+}
+
+/**
+ * Alternative fix produced by the candidate generator
+ */
+export interface GeneratedCandidate {
+  id: string;
+  summary: string;
+  code: string; // Revised code, judged in place of the original candidate
+  proposed_diff: string | null;
+}
+
+/**
+ * Generated candidate after scoring by the judge pipeline
+ */
+export interface RankedCandidate {
+  id: string;
+  rank: number; // 1 = best
+  summary: string;
+  overall: number; // 0-100
+  verdict: GanVerdict;
+  dimensions: DimensionalScore[];
+  proposed_diff: string | null;
+}
+
+/**
+ * Static and test results for one side of a fix verification
+ */
+export interface FixVerification {
+  score: number; // 0-100, penalized by lint errors, type errors and failing tests
+  lintErrors: number;
+  typeErrors: number;
+  testsPassed: number;
+  testsFailed: number;
+}
+
+/**
+ * Outcome of applying a proposed diff in a temporary git worktree
+ */
+export interface FixApplicationResult {
+  status: "applied" | "conflict" | "no_diff" | "not_git_repo" | "failed";
+  appliedCleanly: boolean;
+  filesChanged: string[];
+  before?: FixVerification;
+  after?: FixVerification;
+  improved: boolean;
+  writtenBack: boolean;
+  message: string;
+}
+
 /**
  * Inline comment with file location and feedback
  */
@@ -63,6 +132,12 @@ export interface GansAuditorCodexReview {
   proposed_diff?: string | null;
   iterations: number;
   judge_cards: JudgeCard[];
+  /** Disagreement between judges (only present when several judges ran) */
+  judge_disagreement?: JudgeDisagreement;
+  /** Generated alternatives ranked best first (only present when candidates > 1) */
+  candidates?: RankedCandidate[];
+  /** Result of applying proposed_diff in a worktree (only present when applyFixes is set) */
+  fix_application?: FixApplicationResult;
   
   // ============================================================================
   // Prompt-Driven Audit Extensions (Requirement 6.5)
@@ -136,11 +211,62 @@ export interface GansAuditorCodexSessionConfig {
   task: string; // Default: "Audit and improve the provided candidate"
   scope: "diff" | "paths" | "workspace"; // Default: "diff"
   paths?: string[]; // Required when scope is "paths"
+  baseRef?: string; // "diff" scope: audit the commits baseRef..headRef instead of the working tree
+  headRef?: string; // Default: "HEAD"; requires baseRef
+  range?: string; // Alternative to baseRef/headRef: "base..head", or "base...head" to diff from the merge base
   threshold: number; // Default: 85 (0-100)
   maxCycles: number; // Default: 1
   candidates: number; // Default: 1
   judges: string[]; // Default: ["internal"]
   applyFixes: boolean; // Default: false
+  writeBackFixes?: boolean; // Default: false; write verified fixes to the working tree (requires applyFixes)
+  secretScan?: SecretScanConfig; // Secret scanner rules and allowlist
+  benchmarks?: BenchmarkEntryPoint[]; // Functions timed by the DYNAMIC step benchmark mode
+}
+
+/**
+ * Secret scanner configuration
+ */
+export interface SecretScanConfig {
+  /** Built-in rule ids to disable */
+  disabledRules?: string[];
+  /** Additional detection rules */
+  customRules?: SecretScanRuleConfig[];
+  /** Findings matching the allowlist are never reported */
+  allowlist?: {
+    /** Regular expressions matched against the detected value */
+    patterns?: string[];
+    /** Glob patterns matched against workspace-relative file paths */
+    paths?: string[];
+  };
+  /** Minimum Shannon entropy (bits per character) for generic secrets. Default: 4.0 */
+  entropyThreshold?: number;
+}
+
+/**
+ * User-defined secret detection rule
+ */
+export interface SecretScanRuleConfig {
+  /** Unique rule id */
+  id: string;
+  /** Regular expression; the first capture group (or whole match) is the secret */
+  pattern: string;
+  /** Secret category. Default: "api_key" */
+  type?: "api_key" | "password" | "token" | "certificate" | "private_key" | "connection_string";
+  /** Confidence of a match. Default: "Medium" */
+  confidence?: "High" | "Medium" | "Low";
+}
+
+/**
+ * Function the benchmark mode calls repeatedly
+ */
+export interface BenchmarkEntryPoint {
+  /** Workspace-relative module path */
+  file: string;
+  /** Exported function name ("default" for the default export) */
+  function: string;
+  /** Arguments passed on every call. Default: none */
+  args?: unknown[];
 }
 
 /**
@@ -198,6 +324,11 @@ export type CompletionReason =
   | "stagnation_detected"
   | "in_progress";
 
+/**
+ * Outcome of a single audit run
+ */
+export type AuditOutcome = "completed" | "failed" | "cancelled";
+
 /**
  * Termination reasons for Codex context
  */
@@ -256,6 +387,17 @@ export interface GansAuditorCodexSessionState {
   
   /** Timestamp of last Codex failure */
   lastCodexFailure?: number;
+
+  /** Outcome of the most recent audit of this session */
+  lastAuditOutcome?: AuditOutcome;
+
+  /** Audits cancelled by the client before they completed */
+  cancelledAudits?: Array<{
+    timestamp: number;
+    thoughtNumber: number;
+    /** Pipeline step that was running when the audit was cancelled */
+    step?: string;
+  }>;
   
   // ============================================================================
   // Prompt-Driven Audit Extensions (Requirements 6.1, 6.2, 6.3)
@@ -354,6 +496,7 @@ export interface GansAuditorCodexAuditRequest {
   contextPack: string; // Repository context
   rubric: AuditRubric;
   budget: AuditBudget;
+  secretScan?: SecretScanConfig; // Session secret scanner rules, applied by local judges
 }
 
 // ============================================================================
@@ -452,11 +595,17 @@ export interface GansAuditorCodexInlineConfig {
   task?: string;
   scope?: "diff" | "paths" | "workspace";
   paths?: string[];
+  baseRef?: string;
+  headRef?: string;
+  range?: string;
   threshold?: number;
   judges?: string[];
   maxCycles?: number;
   candidates?: number;
   applyFixes?: boolean;
+  writeBackFixes?: boolean;
+  secretScan?: SecretScanConfig;
+  benchmarks?: BenchmarkEntryPoint[];
 }
 
 // ============================================================================
@@ -501,6 +650,17 @@ export const CONFIG_CONSTRAINTS = {
   CANDIDATES_MAX: 5,
 } as const;
 
+/**
+ * Supported score aggregation methods
+ */
+export const SCORE_AGGREGATION_METHODS: ScoreAggregationMethod[] = [
+  "weighted-average",
+  "minimum",
+  "geometric-mean",
+  "median",
+  "trimmed-mean",
+];
+
 // ============================================================================
 // Backward Compatibility Type Aliases
 // ============================================================================
@@ -19,7 +19,10 @@ import type {
   ProgressAnalysis,
   StagnationResult,
   TerminationReason,
+  GeneratedCandidate,
 } from './gan-types.js';
+import type { DiffRange, RangeCommit } from '../utils/git-utils.js';
+import type { AuditCache } from '../auditor/audit-cache.js';
 
 // ============================================================================
 // Server Integration Interfaces
@@ -46,6 +49,29 @@ export interface IGansAuditorCodexServer {
   combineResponses(standard: GansAuditorCodexStandardResponse, audit: GansAuditorCodexReview | null): GansAuditorCodexEnhancedResponse;
 }
 
+/**
+ * Steps of a single audit run, in execution order
+ */
+export type AuditPipelineStep =
+  | 'loading-session'
+  | 'building-context'
+  | 'judging'
+  | 'ranking-candidates'
+  | 'applying-fix'
+  | 'persisting';
+
+/**
+ * Per-call options of an audit run
+ */
+export interface AuditRunOptions {
+  /** Called when the audit enters a pipeline step */
+  onStep?: (step: AuditPipelineStep) => void;
+  /** Cancels the audit; running Codex processes are killed */
+  signal?: AbortSignal;
+  /** Cache of judge results; identical audits reuse the cached review */
+  cache?: AuditCache;
+}
+
 /**
  * Interface for the GansAuditor_Codex core component
  * Requirement 1.1-1.4: GansAuditor_Codex orchestration
@@ -54,7 +80,7 @@ export interface IGansAuditorCodexAuditor {
   /**
    * Audit a thought and return review results
    */
-  auditThought(thought: GansAuditorCodexThoughtData, sessionId?: string): Promise<GansAuditorCodexReview>;
+  auditThought(thought: GansAuditorCodexThoughtData, sessionId?: string, options?: AuditRunOptions): Promise<GansAuditorCodexReview>;
   
   /**
    * Extract inline configuration from thought text
@@ -113,6 +139,11 @@ export interface IGansAuditorCodexSessionManager {
     config: GansAuditorCodexSessionConfig
   ): Promise<void>;
 
+  /**
+   * Record an audit the client cancelled before it completed
+   */
+  recordCancelledAudit(sessionId: string, thoughtNumber: number, step?: string): Promise<void>;
+
   // ============================================================================
   // Synchronous Workflow Methods
   // ============================================================================
@@ -297,9 +328,9 @@ export interface IGansAuditorCodexContextPacker {
   buildContextPack(config: GansAuditorCodexSessionConfig, cwd?: string): Promise<string>;
   
   /**
-   * Build git diff context
+   * Build git diff context of the working tree or of a commit range
    */
-  buildDiffContext(cwd?: string): Promise<string>;
+  buildDiffContext(cwd?: string, range?: DiffRange): Promise<string>;
   
   /**
    * Build context from specific file paths
@@ -319,9 +350,9 @@ export interface IGansAuditorCodexContextPacker {
  */
 export interface IGansAuditorCodexJudge {
   /**
-   * Execute audit using Codex CLI
+   * Execute audit using Codex CLI; aborting the signal kills the Codex process
    */
-  executeAudit(request: GansAuditorCodexAuditRequest): Promise<GansAuditorCodexReview>;
+  executeAudit(request: GansAuditorCodexAuditRequest, signal?: AbortSignal): Promise<GansAuditorCodexReview>;
   
   /**
    * Check if Codex CLI is available
@@ -333,6 +364,22 @@ export interface IGansAuditorCodexJudge {
    */
   getVersion(): Promise<string | null>;
 
+  /**
+   * Identity of the judge and hash of its prompt configuration, for cache
+   * keys. Audits by judges without one are never cached.
+   */
+  getCacheIdentity?(): { judge: string; promptConfigHash: string };
+
+  /**
+   * Generate alternative fixes for an audited candidate (optional)
+   */
+  generateCandidates?(
+    request: GansAuditorCodexAuditRequest,
+    review: GansAuditorCodexReview,
+    count: number,
+    signal?: AbortSignal
+  ): Promise<GeneratedCandidate[]>;
+
   // ============================================================================
   // Prompt-Driven Audit Integration Methods (Requirement 6.2)
   // ============================================================================
@@ -574,7 +621,8 @@ export interface IGansAuditorCodexFileSystemHelper {
  * Interface for git operations
  */
 export interface IGansAuditorCodexGitHelper {
-  getDiff(cwd?: string): Promise<string>;
+  getDiff(cwd?: string, range?: DiffRange): Promise<string>;
+  getRangeCommits(cwd: string | undefined, range: DiffRange): Promise<RangeCommit[]>;
   getBranch(cwd?: string): Promise<string>;
   getRepoRoot(cwd?: string): Promise<string>;
   getFileTree(cwd?: string, maxDepth?: number): Promise<string>;
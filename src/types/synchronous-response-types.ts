@@ -442,6 +442,14 @@ export interface SynchronousWorkflowConfig {
   enableSessionPersistence: boolean;
   /** Directory for storing session state */
   stateDirectory: string;
+  /** Session storage backend: JSON files or a SQLite database in the state directory */
+  sessionStorage: 'json' | 'sqlite';
+  /** Directory persisting audit cache entries across restarts; memory only when unset */
+  auditCacheDirectory?: string;
+  /** JSONL audit log of content withheld from requests sent to Codex; defaults to the state directory */
+  redactionLogFile?: string;
+  /** Globs of files withheld from Codex in addition to the default deny-list */
+  redactionDeniedPaths?: string[];
   /** Whether to enable performance metrics */
   enableMetrics: boolean;
   /** Whether to enable health checks */
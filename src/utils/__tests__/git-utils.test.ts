@@ -12,6 +12,11 @@ import {
   getGitDiff,
   getGitFileTree,
   isGitAvailable,
+  parseChangedLines,
+  parseUnifiedDiff,
+  parseCommitLog,
+  parseDiffRange,
+  getSessionDiffRange,
 } from '../git-utils.js';
 
 // Mock child_process
@@ -398,4 +403,106 @@ describe('Git command parsing', () => {
       expect(result.stats.deletions).toBe(8);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('GansAuditor_Codex diff parsing', () => {
+  it('should collect added line numbers per file from hunk headers', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 123..456 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,3 +1,4 @@',
+      ' line one',
+      '-old line two',
+      '+new line two',
+      '+added line three',
+      ' line four',
+      '@@ -20,2 +21,3 @@',
+      ' context',
+      '+added at 22',
+      'diff --git a/src/gone.ts b/src/gone.ts',
+      '--- a/src/gone.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-removed',
+    ].join('\n');
+
+    const changed = parseChangedLines(diff);
+
+    expect([...changed.keys()]).toEqual(['src/a.ts']);
+    expect(changed.get('src/a.ts')).toEqual([2, 3, 22]);
+  });
+
+  it('should read hunk bodies by their header counts', () => {
+    const diff = [
+      'diff --git a/src/counter.ts b/src/counter.ts',
+      '--- a/src/counter.ts',
+      '+++ b/src/counter.ts',
+      '@@ -1,3 +1,3 @@',
+      ' let x = 1;',
+      '---x;',
+      '+++x;',
+      ' export { x };',
+      '\\ No newline at end of file',
+      'diff --git a/src/b.ts b/src/b.ts',
+      '--- a/src/b.ts',
+      '+++ b/src/b.ts',
+      '@@ -5 +5 @@',
+      '-old',
+      '+new',
+    ].join('\n');
+
+    const changed = parseChangedLines(diff);
+
+    expect([...changed.keys()]).toEqual(['src/counter.ts', 'src/b.ts']);
+    expect(changed.get('src/counter.ts')).toEqual([2]);
+    expect(changed.get('src/b.ts')).toEqual([5]);
+  });
+
+  it('should keep header-like content lines inside their hunk', () => {
+    const diff = [
+      '--- a/notes.md',
+      '+++ b/notes.md',
+      '@@ -1,2 +1,2 @@',
+      '--- a/fake.ts',
+      '+++ b/fake.ts',
+      ' end',
+    ].join('\n');
+
+    const changes = parseUnifiedDiff(diff);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ filePath: 'notes.md', changeType: 'modified', additions: 1, deletions: 1 });
+    expect(changes[0].hunks[0].lines).toEqual([
+      { type: 'deletion', content: '-- a/fake.ts', oldLineNumber: 1 },
+      { type: 'addition', content: '++ b/fake.ts', newLineNumber: 1 },
+      { type: 'context', content: 'end', oldLineNumber: 2, newLineNumber: 2 },
+    ]);
+  });
+});
+
+describe('GansAuditor_Codex commit ranges', () => {
+  it('should parse two- and three-dot ranges', () => {
+    expect(parseDiffRange('v1.0..v1.1')).toEqual({ baseRef: 'v1.0', headRef: 'v1.1', mergeBase: false });
+    expect(parseDiffRange('main...')).toEqual({ baseRef: 'main', headRef: 'HEAD', mergeBase: true });
+    expect(() => parseDiffRange('main')).toThrow('Invalid git range');
+    expect(() => parseDiffRange('main....HEAD')).toThrow('Invalid git range');
+    expect(() => parseDiffRange('--output=x..HEAD')).toThrow('Invalid git ref');
+  });
+
+  it('should resolve the range of a session config', () => {
+    expect(getSessionDiffRange({ range: 'main...HEAD' })).toEqual({ baseRef: 'main', headRef: 'HEAD', mergeBase: true });
+    expect(getSessionDiffRange({ baseRef: 'main' })).toEqual({ baseRef: 'main', headRef: undefined });
+    expect(getSessionDiffRange({})).toBeUndefined();
+  });
+
+  it('should parse commits with multi-line messages', () => {
+    const output = 'abc\x1fAda\x1fAdd parser\x1fFirst line\n\nSecond paragraph\n\x1e\ndef\x1fBob\x1fFix typo\x1f\x1e\n';
+
+    expect(parseCommitLog(output)).toEqual([
+      { hash: 'abc', author: 'Ada', subject: 'Add parser', body: 'First line\n\nSecond paragraph' },
+      { hash: 'def', author: 'Bob', subject: 'Fix typo', body: '' },
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for GansAuditor_Codex workspace tool runner
+ */
+
+import { describe, it, expect } from 'vitest';
+import { tmpdir } from 'os';
+import { resolveLocalBinary, runTool } from '../tool-runner.js';
+
+describe('GansAuditor_Codex Tool Runner', () => {
+  describe('runTool', () => {
+    it('should capture output and exit code', async () => {
+      const result = await runTool(
+        process.execPath,
+        ['-e', 'process.stdout.write("out"); process.stderr.write("err"); process.exit(3)'],
+        { cwd: tmpdir() }
+      );
+
+      expect(result.stdout).toBe('out');
+      expect(result.stderr).toBe('err');
+      expect(result.exitCode).toBe(3);
+      expect(result.timedOut).toBe(false);
+    });
+
+    it('should kill processes that exceed the timeout', async () => {
+      const result = await runTool(
+        process.execPath,
+        ['-e', 'setTimeout(() => {}, 60000)'],
+        { cwd: tmpdir(), timeout: 200 }
+      );
+
+      expect(result.timedOut).toBe(true);
+      expect(result.exitCode).toBeNull();
+    });
+
+    it('should kill processes when the signal is aborted', async () => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 100);
+      const result = await runTool(
+        process.execPath,
+        ['-e', 'setTimeout(() => {}, 60000)'],
+        { cwd: tmpdir(), signal: controller.signal }
+      );
+
+      expect(result.error).toBe('Aborted');
+      expect(result.duration).toBeLessThan(10000);
+      expect((await runTool(process.execPath, ['-v'], { cwd: tmpdir(), signal: controller.signal })).error).toBe('Aborted');
+    });
+
+    it('should report spawn failures without rejecting', async () => {
+      const result = await runTool('definitely-not-a-real-binary', [], { cwd: tmpdir() });
+
+      expect(result.exitCode).toBeNull();
+      expect(result.error).toBeDefined();
+    });
+  });
+
+  describe('resolveLocalBinary', () => {
+    it('should return null when the binary is not installed', async () => {
+      expect(await resolveLocalBinary(tmpdir(), 'eslint')).toBeNull();
+    });
+
+    it('should resolve binaries from node_modules/.bin', async () => {
+      const binary = await resolveLocalBinary(process.cwd(), 'vitest');
+      expect(binary).toContain('node_modules');
+    });
+  });
+});
@@ -596,3 +596,33 @@ export async function copySafe(
 ): Promise<{ success: boolean; error?: GanAuditorError }> {
   return fileUtils.copy(sourcePath, destPath, options);
 }
+
+// ============================================================================
+// Path Matching
+// ============================================================================
+
+/**
+ * Convert a simple glob (`*`, `**`, `?`) to a regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      i++;
+      if (glob[i + 1] === '/') {
+        source += '(?:.*/)?';
+        i++;
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -12,11 +12,16 @@
 
 import { spawn, exec } from 'child_process';
 import { promisify } from 'util';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
 import { join, resolve } from 'path';
 import { logger, createTimer } from './logger.js';
 import { handleError, withRetry } from './error-handler.js';
 import { pathExists } from './file-utils.js';
+import { runTool } from './tool-runner.js';
 import type { GanAuditorError } from '../types/error-types.js';
+import type { SessionConfig } from '../types/gan-types.js';
+import type { FileChange, DiffHunk } from '../types/feedback-types.js';
 
 const execAsync = promisify(exec);
 
@@ -695,4 +700,304 @@ export async function getGitLog(options?: {
  */
 export async function isGitAvailable(): Promise<boolean> {
   return gitUtils.isGitAvailable();
-}
\ No newline at end of file
+}
+
+// ============================================================================
+// Diff Parsing
+// ============================================================================
+
+/**
+ * Parse a unified diff into file changes with their hunks
+ *
+ * Hunk bodies are read by the line counts of their `@@` header, so content
+ * lines that look like `+++`/`---` file headers are not misread.
+ */
+export function parseUnifiedDiff(diff: string): FileChange[] {
+  const changes: FileChange[] = [];
+  let change: FileChange | undefined;
+  let hunk: DiffHunk | undefined;
+  let oldLine = 0;
+  let newLine = 0;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+  let oldPath = '';
+
+  for (const line of diff.split(/\r?\n/)) {
+    if (hunk && change && (oldRemaining > 0 || newRemaining > 0)) {
+      const marker = line.charAt(0);
+      if (marker === '+') {
+        hunk.lines.push({ type: 'addition', content: line.slice(1), newLineNumber: newLine++ });
+        change.additions++;
+        newRemaining--;
+        continue;
+      }
+      if (marker === '-') {
+        hunk.lines.push({ type: 'deletion', content: line.slice(1), oldLineNumber: oldLine++ });
+        change.deletions++;
+        oldRemaining--;
+        continue;
+      }
+      if (marker === ' ' || line === '') {
+        hunk.lines.push({ type: 'context', content: line.slice(1), oldLineNumber: oldLine++, newLineNumber: newLine++ });
+        oldRemaining--;
+        newRemaining--;
+        continue;
+      }
+      if (marker === '\\') {
+        // "\ No newline at end of file" belongs to the previous line
+        continue;
+      }
+      // Anything else ends a hunk whose header overstated its length
+      oldRemaining = 0;
+      newRemaining = 0;
+    }
+
+    if (line.startsWith('--- ')) {
+      oldPath = stripDiffPrefix(line.slice(4));
+      hunk = undefined;
+      continue;
+    }
+    if (line.startsWith('+++ ')) {
+      const newPath = stripDiffPrefix(line.slice(4));
+      change = {
+        filePath: newPath === '/dev/null' ? oldPath : newPath,
+        changeType: oldPath === '/dev/null' ? 'added' : newPath === '/dev/null' ? 'deleted' : oldPath !== newPath ? 'renamed' : 'modified',
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+      };
+      changes.push(change);
+      continue;
+    }
+
+    const header = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (header && change) {
+      hunk = {
+        oldStart: Number(header[1]),
+        oldCount: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newCount: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+      };
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      oldRemaining = hunk.oldCount;
+      newRemaining = hunk.newCount;
+      change.hunks.push(hunk);
+      continue;
+    }
+
+    if (line.startsWith('diff --git')) {
+      change = undefined;
+      hunk = undefined;
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Extract added/modified line numbers (new file side) from a unified diff
+ *
+ * Returns a map of file path to the sorted line numbers added by the diff's
+ * hunks. Deleted files are omitted.
+ */
+export function parseChangedLines(diff: string): Map<string, number[]> {
+  const changedLines = new Map<string, number[]>();
+
+  for (const change of parseUnifiedDiff(diff)) {
+    if (change.changeType === 'deleted') {
+      continue;
+    }
+    const lines = change.hunks.flatMap(hunk =>
+      hunk.lines.filter(line => line.type === 'addition').map(line => line.newLineNumber!)
+    );
+    changedLines.set(change.filePath, [...(changedLines.get(change.filePath) ?? []), ...lines]);
+  }
+
+  return changedLines;
+}
+
+/**
+ * Strip the `a/`/`b/` prefix and any trailing timestamp from a diff file header path
+ */
+function stripDiffPrefix(path: string): string {
+  const trimmed = path.split('\t')[0].trim();
+  return trimmed === '/dev/null' ? trimmed : trimmed.replace(/^[ab]\//, '');
+}
+
+// ============================================================================
+// Diff Ranges
+// ============================================================================
+
+const GIT_COMMAND_TIMEOUT = 60000;
+
+/**
+ * Commits to diff; without a base ref the working tree is diffed against HEAD
+ */
+export interface DiffRange {
+  baseRef?: string;
+  /** Defaults to HEAD when baseRef is set */
+  headRef?: string;
+  /** Diff from the merge base of both refs (`base...head`), like a pull request */
+  mergeBase?: boolean;
+}
+
+/**
+ * Commit of a range, with its full message
+ */
+export interface RangeCommit {
+  hash: string;
+  author: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Parse `base..head` or `base...head`; an omitted head is HEAD
+ */
+export function parseDiffRange(range: string): DiffRange {
+  const match = /^(.+?)(\.{2,3})(.*)$/.exec(range.trim());
+  if (!match || match[1].endsWith('.') || match[3].startsWith('.')) {
+    throw new Error(`Invalid git range: ${range} (expected base..head or base...head)`);
+  }
+  const parsed: DiffRange = { baseRef: match[1], headRef: match[3] || 'HEAD', mergeBase: match[2] === '...' };
+  formatDiffRange(parsed);
+  return parsed;
+}
+
+/**
+ * Revision argument of a commit range, after checking its refs
+ */
+export function formatDiffRange(range: DiffRange): string {
+  if (!range.baseRef) {
+    throw new Error(range.headRef ? 'headRef requires baseRef' : 'A commit range requires baseRef');
+  }
+  for (const ref of [range.baseRef, range.headRef]) {
+    if (ref !== undefined && !isSafeRef(ref)) {
+      throw new Error(`Invalid git ref: ${ref}`);
+    }
+  }
+  return `${range.baseRef}${range.mergeBase ? '...' : '..'}${range.headRef ?? 'HEAD'}`;
+}
+
+/**
+ * Commit range a session audits, or undefined when it audits the working tree
+ */
+export function getSessionDiffRange(config: Pick<SessionConfig, 'baseRef' | 'headRef' | 'range'>): DiffRange | undefined {
+  if (config.range) {
+    return parseDiffRange(config.range);
+  }
+  return config.baseRef ? { baseRef: config.baseRef, headRef: config.headRef } : undefined;
+}
+
+/**
+ * Unified diff of the working tree or of a commit range
+ */
+export async function readGitDiff(cwd: string, range: DiffRange = {}): Promise<string> {
+  const args = range.baseRef || range.headRef
+    ? ['diff', '--no-color', formatDiffRange(range)]
+    : ['diff', '--no-color', 'HEAD'];
+  const result = await runTool('git', args, { cwd, timeout: GIT_COMMAND_TIMEOUT });
+
+  if (result.exitCode !== 0) {
+    throw new Error(`git ${args.join(' ')} failed: ${result.stderr.trim() || result.error || `exit code ${result.exitCode}`}`);
+  }
+  return result.stdout;
+}
+
+/**
+ * Commits reachable from the head of a range but not from its base, oldest first
+ */
+export async function readRangeCommits(cwd: string, range: DiffRange): Promise<RangeCommit[]> {
+  // Both range forms list the same commits: those the head adds to the base
+  const revision = formatDiffRange({ ...range, mergeBase: false });
+  const args = ['log', '--no-color', '--reverse', `--format=${COMMIT_LOG_FORMAT}`, revision];
+  const result = await runTool('git', args, { cwd, timeout: GIT_COMMAND_TIMEOUT });
+
+  if (result.exitCode !== 0) {
+    throw new Error(`git ${args.join(' ')} failed: ${result.stderr.trim() || result.error || `exit code ${result.exitCode}`}`);
+  }
+  return parseCommitLog(result.stdout);
+}
+
+/** Fields separated by US, records terminated by RS */
+export const COMMIT_LOG_FORMAT = '%H%x1f%an%x1f%s%x1f%b%x1e';
+
+/**
+ * Parse `git log` output written with COMMIT_LOG_FORMAT
+ */
+export function parseCommitLog(output: string): RangeCommit[] {
+  return output.split('\x1e').map(record => record.replace(/^\n/, '')).filter(Boolean).map(record => {
+    const [hash, author, subject, body = ''] = record.split('\x1f');
+    return { hash, author, subject, body: body.trim() };
+  });
+}
+
+/**
+ * Refs are passed to git as arguments, so they must not look like options
+ */
+function isSafeRef(ref: string): boolean {
+  return /^[^-\s][^\s]*$/.test(ref) && !ref.includes('..');
+}
+
+// ============================================================================
+// Temporary Worktrees
+// ============================================================================
+
+/**
+ * Detached worktree created under a temporary directory
+ */
+export interface TemporaryWorktree {
+  /** Root of the repository the worktree belongs to */
+  repositoryRoot: string;
+  /** Checkout directory */
+  path: string;
+  /** Temporary directory holding the checkout; removed with the worktree */
+  directory: string;
+}
+
+
+/**
+ * Top-level directory of the repository containing `path`, or null outside git
+ */
+export async function findRepositoryRoot(path: string): Promise<string | null> {
+  const result = await runTool('git', ['rev-parse', '--show-toplevel'], { cwd: path, timeout: GIT_COMMAND_TIMEOUT });
+  return result.exitCode === 0 ? result.stdout.trim() : null;
+}
+
+/**
+ * Check out `ref` into a new detached worktree in a temporary directory
+ */
+export async function addTemporaryWorktree(
+  repositoryRoot: string,
+  ref: string = 'HEAD',
+  prefix: string = 'gan-worktree-'
+): Promise<TemporaryWorktree> {
+  const directory = await mkdtemp(join(tmpdir(), prefix));
+  const path = join(directory, 'worktree');
+  const result = await runTool('git', ['worktree', 'add', '--detach', path, ref], {
+    cwd: repositoryRoot,
+    timeout: GIT_COMMAND_TIMEOUT,
+  });
+
+  if (result.exitCode !== 0) {
+    await rm(directory, { recursive: true, force: true });
+    throw new Error(`Could not create worktree for ${ref}: ${result.stderr.trim() || result.error || 'git failed'}`);
+  }
+
+  return { repositoryRoot, path, directory };
+}
+
+/**
+ * Remove a temporary worktree and its directory
+ */
+export async function removeTemporaryWorktree(worktree: TemporaryWorktree): Promise<void> {
+  const options = { cwd: worktree.repositoryRoot, timeout: GIT_COMMAND_TIMEOUT };
+  const result = await runTool('git', ['worktree', 'remove', '--force', worktree.path], options);
+  if (result.exitCode !== 0) {
+    logger.debug('Could not remove temporary worktree', { path: worktree.path, stderr: result.stderr }, 'git-utils');
+  }
+  await rm(worktree.directory, { recursive: true, force: true });
+  await runTool('git', ['worktree', 'prune'], options);
+}
@@ -31,6 +31,9 @@ export * from './json-utils.js';
 // Validation utilities
 export * from './validation-utils.js';
 
+// Workspace tool utilities
+export * from './tool-runner.js';
+
 // ============================================================================
 // Utility Configuration
 // ============================================================================
@@ -0,0 +1,202 @@
+/**
+ * Workspace tool runner for GAN Auditor Integration
+ *
+ * This module locates developer tools installed in the audited workspace
+ * (ESLint, test runners, coverage tools) and runs them as child processes
+ * with timeouts and bounded output, so workflow steps can report real
+ * results instead of simulated ones.
+ *
+ * Requirements addressed:
+ * - 2.3: Integration with existing project tooling
+ * - 7.3: Error handling for external command failures
+ * - 7.4: Graceful degradation when tools are unavailable
+ */
+
+import { spawn } from 'child_process';
+import { createRequire } from 'module';
+import { join } from 'path';
+import type * as ts from 'typescript';
+import { logger } from './logger.js';
+import { pathExists } from './file-utils.js';
+
+// ============================================================================
+// Tool Runner Types
+// ============================================================================
+
+/**
+ * Options for running a workspace tool
+ */
+export interface ToolRunOptions {
+  /** Working directory for the process */
+  cwd: string;
+  /** Timeout in milliseconds before the process is killed */
+  timeout?: number;
+  /** Maximum bytes captured per output stream */
+  maxOutputSize?: number;
+  /** Additional environment variables */
+  env?: Record<string, string>;
+  /** Whether to pass the auditor's full environment (default true) */
+  inheritEnv?: boolean;
+  /** Kills the process when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of running a workspace tool
+ */
+export interface ToolRunResult {
+  /** Process exit code (null when killed by a signal) */
+  exitCode: number | null;
+  /** Captured standard output */
+  stdout: string;
+  /** Captured standard error */
+  stderr: string;
+  /** Whether the process was killed because of the timeout */
+  timedOut: boolean;
+  /** Execution duration in milliseconds */
+  duration: number;
+  /** Spawn error message, if the process could not be started */
+  error?: string;
+}
+
+/**
+ * The TypeScript compiler API module
+ */
+export type TypeScriptModule = typeof ts;
+
+const DEFAULT_TOOL_TIMEOUT = 60000;
+
+/**
+ * Environment variables passed through when the environment is not inherited
+ */
+const SAFE_ENV_KEYS = ['PATH', 'HOME', 'TMPDIR', 'TMP', 'TEMP', 'LANG', 'SystemRoot', 'ComSpec', 'PATHEXT'];
+const DEFAULT_MAX_OUTPUT_SIZE = 10 * 1024 * 1024; // 10MB
+
+// ============================================================================
+// Tool Runner Implementation
+// ============================================================================
+
+/**
+ * Resolve a binary installed in the workspace's node_modules/.bin
+ */
+export async function resolveLocalBinary(
+  workspacePath: string,
+  name: string
+): Promise<string | null> {
+  const binaryName = process.platform === 'win32' ? `${name}.cmd` : name;
+  const binaryPath = join(workspacePath, 'node_modules', '.bin', binaryName);
+
+  return (await pathExists(binaryPath)) ? binaryPath : null;
+}
+
+/**
+ * Load the workspace's TypeScript, falling back to the auditor's own copy
+ */
+export function loadTypeScript(workspacePath: string): TypeScriptModule | null {
+  const requireBases = [join(workspacePath, 'package.json'), import.meta.url];
+
+  for (const base of requireBases) {
+    try {
+      return createRequire(base)('typescript') as TypeScriptModule;
+    } catch (error) {
+      // Not resolvable from this location, try the next one
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run a tool without a shell and capture its output
+ *
+ * Never rejects: non-zero exit codes, timeouts and spawn failures are
+ * reported on the result so callers can decide how to degrade.
+ */
+export function runTool(
+  command: string,
+  args: string[],
+  options: ToolRunOptions
+): Promise<ToolRunResult> {
+  const timeout = options.timeout ?? DEFAULT_TOOL_TIMEOUT;
+  const maxOutputSize = options.maxOutputSize ?? DEFAULT_MAX_OUTPUT_SIZE;
+  const startTime = Date.now();
+
+  if (options.signal?.aborted) {
+    return Promise.resolve({ exitCode: null, stdout: '', stderr: '', timedOut: false, duration: 0, error: 'Aborted' });
+  }
+
+  return new Promise((resolve) => {
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let settled = false;
+
+    const finish = (exitCode: number | null, error?: string) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
+      resolve({
+        exitCode,
+        stdout,
+        stderr,
+        timedOut,
+        duration: Date.now() - startTime,
+        error,
+      });
+    };
+
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: { ...buildBaseEnv(options.inheritEnv ?? true), ...options.env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+      shell: process.platform === 'win32',
+    });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      logger.warn(`Tool timed out after ${timeout}ms: ${command}`, { args }, 'tool-runner');
+      child.kill('SIGKILL');
+    }, timeout);
+
+    const abort = () => {
+      child.kill('SIGKILL');
+      finish(null, 'Aborted');
+    };
+    options.signal?.addEventListener('abort', abort, { once: true });
+
+    child.stdout?.on('data', (chunk: Buffer) => {
+      if (stdout.length < maxOutputSize) {
+        stdout += chunk.toString('utf8');
+      }
+    });
+
+    child.stderr?.on('data', (chunk: Buffer) => {
+      if (stderr.length < maxOutputSize) {
+        stderr += chunk.toString('utf8');
+      }
+    });
+
+    child.on('error', (error) => finish(null, error.message));
+    child.on('close', (code) => finish(code));
+  });
+}
+
+/**
+ * Build the base environment for a tool process
+ */
+function buildBaseEnv(inheritEnv: boolean): NodeJS.ProcessEnv {
+  if (inheritEnv) {
+    return process.env;
+  }
+
+  const env: NodeJS.ProcessEnv = {};
+  for (const key of SAFE_ENV_KEYS) {
+    if (process.env[key] !== undefined) {
+      env[key] = process.env[key];
+    }
+  }
+  return env;
+}
@@ -343,6 +343,11 @@ export class ValidationUtils {
         required: false,
         default: false,
       },
+      writeBackFixes: {
+        type: 'boolean',
+        required: false,
+        default: false,
+      },
     };
 
     const result = this.validate<SessionConfig>(config, schema);